@@ -25,15 +25,18 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
-import { useSearchParams, useParams } from "next/navigation";
+import { useSearchParams, useParams, useRouter } from "next/navigation";
 import { useLanguage } from "@/app/i18n";
 import CharacterSidebar from "@/components/CharacterSidebar";
 import { v4 as uuidv4 } from "uuid";
 import { initCharacterDialogue } from "@/function/dialogue/init";
 import { getCharacterDialogue } from "@/function/dialogue/info";
-import { handleCharacterChatRequest } from "@/function/dialogue/chat";
+import { handleCharacterChatRequest, keepPartialResponse, readChatResponse } from "@/function/dialogue/chat";
+import { ContextTokenBreakdown } from "@/lib/core/context-budget";
+import { TurnTrace } from "@/lib/models/turn-trace-model";
 import { switchDialogueBranch } from "@/function/dialogue/truncate";
 import { deleteDialogueNode } from "@/function/dialogue/delete";
+import { openCharacterChat } from "@/function/dialogue/chats";
 import CharacterChatPanel from "@/components/CharacterChatPanel";
 import WorldBookEditor from "@/components/WorldBookEditor";
 import RegexScriptEditor from "@/components/RegexScriptEditor";
@@ -45,6 +48,10 @@ import { Toast } from "@/components/Toast";
 import LoginModal from "@/components/LoginModal";
 import { useAuth } from "@/hooks/useAuth";
 import { getDisplayUsername } from "@/utils/username-helper";
+import { LLMType } from "@/lib/models/llm-provider-model";
+import { getActiveFallbackEndpoints, getActiveSafetySettings, getActiveSamplerProfileId } from "@/utils/api-config-helper";
+import { BudgetWarningDetail, USAGE_BUDGET_EVENT } from "@/lib/core/usage-ledger";
+import { REGEX_TIMEOUT_EVENT, RegexTimeoutDetail } from "@/lib/core/regex-sandbox";
 
 /**
  * Interface definitions for the component's data structures
@@ -61,6 +68,11 @@ interface Message {
   role: string;
   thinkingContent?: string;
   content: string;
+  streamState?: "streaming" | "done" | "cancelled";
+  tokenBreakdown?: ContextTokenBreakdown;
+  trace?: TurnTrace;
+  /** Saved with regex scripts already applied; only display scripts still run */
+  isRegexProcessed?: boolean;
 }
 
 /**
@@ -78,7 +90,9 @@ interface Message {
  */
 export default function CharacterPage() {
   const searchParams = useSearchParams();
+  const router = useRouter();
   const characterId = searchParams.get("id");
+  const requestedChatId = searchParams.get("chat");
   const { t, fontClass, serifFontClass } = useLanguage();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const {
@@ -90,6 +104,7 @@ export default function CharacterPage() {
   } = useTour();
 
   const [character, setCharacter] = useState<Character | null>(null);
+  const [dialogueId, setDialogueId] = useState("");
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isInitializing, setIsInitializing] = useState(false);
@@ -99,6 +114,7 @@ export default function CharacterPage() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true);
   const [suggestedInputs, setSuggestedInputs] = useState<string[]>([]);
   const initializationRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [activeView, setActiveView] = useState<
     "chat" | "worldbook" | "regex" | "preset"
   >("chat");
@@ -135,6 +151,38 @@ export default function CharacterPage() {
     });
   }, []);
 
+  const [budgetWarning, setBudgetWarning] = useState("");
+
+  // Warn once when this month's estimated spend nears or passes the usage budget
+  useEffect(() => {
+    const handleBudgetWarning = (event: Event) => {
+      const { level, cost, budget } = (event as CustomEvent<BudgetWarningDetail>).detail;
+      setBudgetWarning(
+        t(level === "exceeded" ? "usage.budgetExceeded" : "usage.budgetWarning")
+          .replace("{cost}", cost.toFixed(2))
+          .replace("{budget}", budget.toFixed(2)),
+      );
+    };
+    window.addEventListener(USAGE_BUDGET_EVENT, handleBudgetWarning);
+    return () => window.removeEventListener(USAGE_BUDGET_EVENT, handleBudgetWarning);
+  }, [t]);
+
+  const [regexWarning, setRegexWarning] = useState("");
+
+  // Name the regex script that hung on chat text and is now skipped
+  useEffect(() => {
+    const handleRegexTimeout = (event: Event) => {
+      const { scriptName, timeoutMs } = (event as CustomEvent<RegexTimeoutDetail>).detail;
+      setRegexWarning(
+        t("characterChat.regexScriptSkipped")
+          .replace("{name}", scriptName)
+          .replace("{ms}", String(timeoutMs)),
+      );
+    };
+    window.addEventListener(REGEX_TIMEOUT_EVENT, handleRegexTimeout);
+    return () => window.removeEventListener(REGEX_TIMEOUT_EVENT, handleRegexTimeout);
+  }, [t]);
+
   // Mobile detection
   useEffect(() => {
     const checkMobile = () => {
@@ -161,7 +209,7 @@ export default function CharacterPage() {
   };
 
   const truncateMessagesAfter = async (nodeId: string) => {
-    if (!characterId) return;
+    if (!dialogueId) return;
 
     try {
       const messageIndex = messages.findIndex((msg) => msg.id == nodeId);
@@ -171,7 +219,7 @@ export default function CharacterPage() {
       }
 
       const response = await switchDialogueBranch({
-        characterId,
+        dialogueId,
         nodeId,
       });
 
@@ -189,6 +237,8 @@ export default function CharacterPage() {
             role: msg.role == "system" ? "assistant" : msg.role,
             thinkingContent: msg.thinkingContent ?? "",
             content: msg.content,
+            trace: msg.trace,
+            isRegexProcessed: msg.isRegexProcessed,
           }));
 
           setMessages(formattedMessages);
@@ -208,7 +258,7 @@ export default function CharacterPage() {
   };
 
   const handleRegenerate = async (nodeId: string) => {
-    if (!characterId) return;
+    if (!dialogueId) return;
 
     try {
       const messageIndex = messages.findIndex(
@@ -238,7 +288,7 @@ export default function CharacterPage() {
       }
 
       const response = await deleteDialogueNode({
-        characterId,
+        dialogueId,
         nodeId,
       });
       if (!response.success) {
@@ -255,6 +305,8 @@ export default function CharacterPage() {
             role: msg.role == "system" ? "assistant" : msg.role,
             thinkingContent: msg.thinkingContent ?? "",
             content: msg.content,
+            trace: msg.trace,
+            isRegexProcessed: msg.isRegexProcessed,
           }));
 
           setMessages(formattedMessages);
@@ -286,6 +338,7 @@ export default function CharacterPage() {
         characterId,
         currentLanguage,
         username,
+        dialogueId,
       );
       if (!response.success) {
         throw new Error(`Failed to load dialogue: ${response}`);
@@ -299,6 +352,8 @@ export default function CharacterPage() {
           role: msg.role,
           thinkingContent: msg.thinkingContent ?? "",
           content: msg.content,
+          trace: msg.trace,
+          isRegexProcessed: msg.isRegexProcessed,
         }));
         setMessages(formattedMessages);
         setSuggestedInputs(
@@ -342,6 +397,7 @@ export default function CharacterPage() {
           characterId,
           currentLanguage,
           username,
+          requestedChatId || undefined,
         );
         if (!response.success) {
           throw new Error(`Failed to load character: ${response}`);
@@ -361,12 +417,15 @@ export default function CharacterPage() {
         setCharacter(characterInfo);
 
         if (dialogue && dialogue.messages) {
+          setDialogueId(dialogue.id);
           setLoadingPhase(t("characterChat.loadingDialogue"));
           const formattedMessages = dialogue.messages.map((msg: any) => ({
             id: msg.id,
             role: msg.role,
             thinkingContent: msg.thinkingContent ?? "",
             content: msg.content,
+            trace: msg.trace,
+            isRegexProcessed: msg.isRegexProcessed,
           }));
           setMessages(formattedMessages);
           setSuggestedInputs(
@@ -389,7 +448,7 @@ export default function CharacterPage() {
           setLoadingPhase(t("characterChat.initializing"));
           setIsInitializing(true);
           initializationRef.current = true;
-          await initializeNewDialogue(characterId);
+          setDialogueId(await initializeNewDialogue(characterId));
 
           // Initialization complete
           setIsInitializing(false);
@@ -425,9 +484,9 @@ export default function CharacterPage() {
     };
 
     loadCharacterAndDialogue();
-  }, [characterId, t]);
+  }, [characterId, requestedChatId, t]);
 
-  const initializeNewDialogue = async (charId: string) => {
+  const initializeNewDialogue = async (charId: string): Promise<string> => {
     try {
       setLoadingPhase(t("characterChat.extractingTemplate"));
       const username = getDisplayUsername();
@@ -435,14 +494,14 @@ export default function CharacterPage() {
       const llmType = localStorage.getItem("llmType") || "openai";
       const modelName =
         localStorage.getItem(
-          llmType === "openai" ? "openaiModel" : "ollamaModel",
+          llmType === "ollama" ? "ollamaModel" : "openaiModel",
         ) || "";
       const baseUrl =
         localStorage.getItem(
-          llmType === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl",
+          llmType === "ollama" ? "ollamaBaseUrl" : "openaiBaseUrl",
         ) || "";
       const apiKey =
-        llmType === "openai" ? localStorage.getItem("openaiApiKey") || "" : "";
+        llmType !== "ollama" ? localStorage.getItem("openaiApiKey") || "" : "";
 
       const initData = await initCharacterDialogue({
         username,
@@ -450,7 +509,7 @@ export default function CharacterPage() {
         modelName,
         baseUrl,
         apiKey,
-        llmType: llmType as "openai" | "ollama",
+        llmType: llmType as LLMType,
         language: language as "zh" | "en",
       });
 
@@ -466,12 +525,37 @@ export default function CharacterPage() {
           },
         ]);
       }
+      return initData.dialogueId;
     } catch (error) {
       console.error("Error initializing dialogue:", error);
       throw error;
     }
   };
 
+  const handleSelectChat = async (chatId: string) => {
+    if (!characterId || chatId === dialogueId) return;
+    await openCharacterChat(chatId);
+    router.replace(`/character?id=${characterId}&chat=${chatId}`);
+  };
+
+  const handleNewChat = async () => {
+    if (!characterId) return;
+
+    try {
+      setLoadingPhase(t("characterChat.initializing"));
+      setIsInitializing(true);
+      const newDialogueId = await initializeNewDialogue(characterId);
+      setDialogueId(newDialogueId);
+      setSuggestedInputs([]);
+      router.replace(`/character?id=${characterId}&chat=${newDialogueId}`);
+    } catch (err) {
+      console.error("Error starting new chat:", err);
+      showErrorToast(t("characterChat.checkNetworkOrAPI"));
+    } finally {
+      setIsInitializing(false);
+    }
+  };
+
   const handleSendMessage = async (message: string) => {
     if (!character || isSending) return;
 
@@ -492,32 +576,44 @@ export default function CharacterPage() {
       const llmType = localStorage.getItem("llmType") || "openai";
       const modelName =
         localStorage.getItem(
-          llmType === "openai" ? "openaiModel" : "ollamaModel",
+          llmType === "ollama" ? "ollamaModel" : "openaiModel",
         ) || "";
       const baseUrl =
         localStorage.getItem(
-          llmType === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl",
+          llmType === "ollama" ? "ollamaBaseUrl" : "openaiBaseUrl",
         ) || "";
       const apiKey =
-        llmType === "openai" ? localStorage.getItem("openaiApiKey") || "" : "";
+        llmType !== "ollama" ? localStorage.getItem("openaiApiKey") || "" : "";
       const storedNumber = localStorage.getItem("responseLength");
       const username = getDisplayUsername();
       const responseLength = storedNumber ? parseInt(storedNumber) : 200;
       const nodeId = uuidv4();
       const fastModel = localStorage.getItem("fastModelEnabled") === "true";
+      const storedMaxContext = localStorage.getItem("maxContextTokens");
+      const storedReserved = localStorage.getItem("reservedResponseTokens");
+      const streaming = activeModes.streaming !== false;
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
       const response = await handleCharacterChatRequest({
         username,
         characterId: character.id,
+        dialogueId,
         message,
         modelName,
         baseUrl,
         apiKey,
         llmType,
+        fallbacks: getActiveFallbackEndpoints(),
+        safetySettings: getActiveSafetySettings(),
+        samplerProfileId: getActiveSamplerProfileId(),
         language: language as "zh" | "en",
-        streaming: true,
+        streaming,
         number: responseLength,
         nodeId,
         fastModel: fastModel,
+        maxContextTokens: storedMaxContext ? parseInt(storedMaxContext) : undefined,
+        reservedResponseTokens: storedReserved ? parseInt(storedReserved) : undefined,
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -525,31 +621,118 @@ export default function CharacterPage() {
         return;
       }
 
-      const result = await response.json();
+      // Upserts the assistant message so streamed chunks grow a single bubble
+      const upsertAssistantMessage = (assistantMessage: Message) => {
+        setMessages((prev) => {
+          const existingIndex = prev.findIndex((m) => m.id === nodeId);
+          if (existingIndex === -1) {
+            return [...prev, assistantMessage];
+          }
+          const updated = [...prev];
+          updated[existingIndex] = assistantMessage;
+          return updated;
+        });
+      };
 
-      if (result.success) {
-        const assistantMessage = {
-          id: nodeId,
-          role: "assistant",
-          thinkingContent: result.thinkingContent ?? "",
-          content: result.content || "",
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
+      let partialContent = "";
+      await readChatResponse(response, (result) => {
+        if (result.type === "chunk") {
+          partialContent = result.content || "";
+          upsertAssistantMessage({
+            id: nodeId,
+            role: "assistant",
+            thinkingContent: result.thinkingContent ?? "",
+            content: result.content || "",
+            streamState: "streaming",
+          });
+          return;
+        }
 
-        if (result.parsedContent?.nextPrompts) {
-          setSuggestedInputs(result.parsedContent.nextPrompts);
+        if (result.type === "cancelled") {
+          // Keep any partial text on screen so the user can decide what to do with it
+          if (partialContent.trim()) {
+            setMessages((prev) =>
+              prev.map((m) => m.id === nodeId ? { ...m, streamState: "cancelled" } : m),
+            );
+          } else {
+            setMessages((prev) => prev.filter((m) => m.id !== nodeId && m.id !== userMessage.id));
+            setUserInput(message);
+          }
+          return;
         }
-      } else {
-        showErrorToast(result.message || t("characterChat.checkNetworkOrAPI"));
-      }
+
+        if (result.success) {
+          upsertAssistantMessage({
+            id: nodeId,
+            role: "assistant",
+            thinkingContent: result.thinkingContent ?? "",
+            content: result.content || "",
+            streamState: streaming ? "done" : undefined,
+            tokenBreakdown: result.tokenBreakdown,
+            trace: result.trace,
+          });
+
+          if (result.parsedContent?.nextPrompts) {
+            setSuggestedInputs(result.parsedContent.nextPrompts);
+          }
+        } else {
+          setMessages((prev) => prev.filter((m) => m.id !== nodeId));
+          showErrorToast(result.message || t("characterChat.checkNetworkOrAPI"));
+        }
+      });
     } catch (err) {
       console.error("Error sending message:", err);
       showErrorToast(t("characterChat.checkNetworkOrAPI"));
     } finally {
+      abortControllerRef.current = null;
       setIsSending(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const findCancelledTurn = (nodeId: string) => {
+    const index = messages.findIndex((m) => m.id === nodeId && m.streamState === "cancelled");
+    if (index === -1) return null;
+    const userMessage = index > 0 && messages[index - 1].role === "user" ? messages[index - 1] : null;
+    return { assistantMessage: messages[index], userMessage };
+  };
+
+  const handleKeepPartial = async (nodeId: string) => {
+    const turn = findCancelledTurn(nodeId);
+    if (!character || !turn) return;
+
+    try {
+      await keepPartialResponse({
+        dialogueId,
+        message: turn.userMessage?.content || "",
+        content: turn.assistantMessage.content,
+        thinkingContent: turn.assistantMessage.thinkingContent,
+        nodeId,
+      });
+      setMessages((prev) =>
+        prev.map((m) => m.id === nodeId ? { ...m, streamState: "done" } : m),
+      );
+    } catch (err) {
+      console.error("Error keeping partial response:", err);
+      showErrorToast(t("characterChat.checkNetworkOrAPI"));
+    }
+  };
+
+  const handleDiscardPartial = (nodeId: string) => {
+    const turn = findCancelledTurn(nodeId);
+    if (!turn) return;
+
+    setMessages((prev) =>
+      prev.filter((m) => m.id !== nodeId && m.id !== turn.userMessage?.id),
+    );
+    if (turn.userMessage) {
+      setUserInput(turn.userMessage.content);
+    }
+  };
+
   useEffect(() => {
     if (character && !isLoading && !isInitializing && !error) {
       const hasSeenCharacterTour = localStorage.getItem(
@@ -720,6 +903,9 @@ export default function CharacterPage() {
         character={character}
         isCollapsed={sidebarCollapsed}
         toggleSidebar={toggleSidebar}
+        dialogueId={dialogueId}
+        onSelectChat={handleSelectChat}
+        onNewChat={handleNewChat}
         onDialogueEdit={() => fetchLatestDialogue()}
         onViewSwitch={() => {
           switchToView("worldbook");
@@ -755,6 +941,9 @@ export default function CharacterPage() {
             onSuggestedInput={handleSuggestedInput}
             onTruncate={truncateMessagesAfter}
             onRegenerate={handleRegenerate}
+            onCancel={handleCancelGeneration}
+            onKeepPartial={handleKeepPartial}
+            onDiscardPartial={handleDiscardPartial}
             fontClass={fontClass}
             serifFontClass={serifFontClass}
             t={t}
@@ -799,6 +988,20 @@ export default function CharacterPage() {
         isVisible={errorToast.isVisible}
         onClose={hideErrorToast}
       />
+      <Toast
+        type="warning"
+        message={budgetWarning}
+        isVisible={!!budgetWarning}
+        onClose={() => setBudgetWarning("")}
+        autoClose={false}
+      />
+      <Toast
+        type="warning"
+        message={regexWarning}
+        isVisible={!!regexWarning}
+        onClose={() => setRegexWarning("")}
+        autoClose={false}
+      />
       <LoginModal 
         isOpen={isLoginModalOpen} 
         onClose={() => setIsLoginModalOpen(false)} 
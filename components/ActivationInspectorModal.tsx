@@ -0,0 +1,172 @@
+/**
+ * ActivationInspectorModal Component
+ *
+ * Explains what shaped one assistant reply besides the chat itself: which
+ * world book entries were injected (and what triggered them, and where they
+ * landed), which were dropped by a limit or budget, and which regex scripts
+ * rewrote the output.
+ */
+
+"use client";
+
+import { ReactNode, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useLanguage } from "@/app/i18n";
+import { TurnTrace, WorldBookEntryTrace, WorldBookTrigger } from "@/lib/models/turn-trace-model";
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  trace?: TurnTrace;
+}
+
+const POSITION_LABEL_KEYS: Record<number, string> = {
+  0: "systemPromptStart",
+  1: "afterSystemPrompt",
+  2: "userMessageStart",
+  3: "afterResponseMode",
+  4: "basedOnDepth",
+};
+
+export default function ActivationInspectorModal({ isOpen, onClose, trace }: Props) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("keydown", handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [isOpen, onClose]);
+
+  const describeTrigger = (trigger: WorldBookTrigger): string => {
+    if (trigger.type !== "key") {
+      return t(`characterChat.activationInspector.triggers.${trigger.type}`);
+    }
+
+    const parts = [t("characterChat.activationInspector.triggers.key").replace("{key}", trigger.key)];
+    if (trigger.secondaryKey) {
+      parts.push(t("characterChat.activationInspector.triggers.secondaryKey").replace("{key}", trigger.secondaryKey));
+    }
+    if (trigger.recursionLevel) {
+      parts.push(t("characterChat.activationInspector.triggers.recursion").replace("{level}", String(trigger.recursionLevel)));
+    }
+    return parts.join(" ");
+  };
+
+  const describePosition = (entry: WorldBookEntryTrace): string => {
+    const label = t(`worldBook.positionOptions.${POSITION_LABEL_KEYS[entry.position] ?? "systemPromptStart"}`);
+    if (entry.position !== 4) {
+      return label;
+    }
+
+    const depth = t("characterChat.activationInspector.depth").replace("{depth}", String(entry.depth ?? 0));
+    return `${label} · ${depth} · ${t(`worldBook.roleOptions.${entry.role ?? "system"}`)}`;
+  };
+
+  const renderSection = (title: string, count: number, children: ReactNode) => (
+    <section>
+      <h3 className={`text-sm text-[#f9c86d] mb-1.5 ${serifFontClass}`}>
+        {title} <span className="text-[#8a7a6b]">({count})</span>
+      </h3>
+      {count === 0 ? (
+        <p className="text-xs text-[#8a7a6b]">{t("characterChat.activationInspector.none")}</p>
+      ) : (
+        <ul className="space-y-1.5">{children}</ul>
+      )}
+    </section>
+  );
+
+  const renderEntry = (entry: WorldBookEntryTrace, index: number, reason?: string) => (
+    <li
+      key={`${entry.entryId ?? entry.label}-${index}`}
+      className="px-2 py-1.5 bg-[#2a261f]/70 border border-[#534741]/60 rounded-md text-xs"
+    >
+      <div className="flex justify-between gap-3">
+        <span className="truncate text-[#f4e8c1]">{entry.label}</span>
+        {reason && <span className="text-amber-500/80 whitespace-nowrap">{reason}</span>}
+      </div>
+      <div className="text-[#a18d6f]">{describeTrigger(entry.trigger)}</div>
+      <div className="text-[#8a7a6b]">{describePosition(entry)}</div>
+    </li>
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: "spring", damping: 20, stiffness: 300 }}
+            className={`fantasy-bg bg-opacity-75 border border-[#534741] rounded-xl shadow-2xl p-4 sm:p-6 w-full max-w-lg relative z-10 backdrop-filter backdrop-blur-sm mx-4 max-h-[85vh] overflow-y-auto ${fontClass}`}
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-3 right-3 sm:top-4 sm:right-4 text-[#a18d6f] hover:text-[#f9c86d] transition-colors z-20"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" className="sm:w-5 sm:h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+
+            <div className="mb-4">
+              <h2 className={`text-lg text-[#f9c86d] ${serifFontClass}`}>
+                {t("characterChat.activationInspector.title")}
+              </h2>
+              <p className="text-xs text-[#a18d6f]">{t("characterChat.activationInspector.subtitle")}</p>
+            </div>
+
+            {!trace ? (
+              <p className="text-sm text-[#8a7a6b]">{t("characterChat.activationInspector.noTrace")}</p>
+            ) : (
+              <div className="space-y-4">
+                {renderSection(
+                  t("characterChat.activationInspector.worldBookActivated"),
+                  trace.worldBook.activated.length,
+                  trace.worldBook.activated.map((entry, index) => renderEntry(entry, index)),
+                )}
+                {renderSection(
+                  t("characterChat.activationInspector.worldBookDroppedTitle"),
+                  trace.worldBook.dropped.length,
+                  trace.worldBook.dropped.map((entry, index) =>
+                    renderEntry(entry, index, t(`characterChat.worldBookDropReasons.${entry.reason}`)),
+                  ),
+                )}
+                {renderSection(
+                  t("characterChat.activationInspector.regexScripts"),
+                  trace.regexScripts.length,
+                  trace.regexScripts.map(script => (
+                    <li
+                      key={script.scriptKey}
+                      className="px-2 py-1.5 bg-[#2a261f]/70 border border-[#534741]/60 rounded-md text-xs text-[#f4e8c1]"
+                    >
+                      {script.scriptName}
+                    </li>
+                  )),
+                )}
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
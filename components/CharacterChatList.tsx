@@ -0,0 +1,205 @@
+/**
+ * CharacterChatList Component
+ *
+ * Lists a character's saved chats in the character sidebar, most recently
+ * active first. Each chat can be opened, renamed, duplicated, archived or
+ * deleted; archived chats are hidden until "show archived" is on.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Archive, ArchiveRestore, Copy, MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import { useLanguage } from "@/app/i18n";
+import { DialogueSummary } from "@/lib/models/node-model";
+import {
+  deleteCharacterChat,
+  duplicateCharacterChat,
+  listCharacterChats,
+  renameCharacterChat,
+  setCharacterChatArchived,
+} from "@/function/dialogue/chats";
+
+interface CharacterChatListProps {
+  characterId: string;
+  dialogueId: string;
+  onSelectChat: (dialogueId: string) => void;
+  onNewChat: () => void;
+}
+
+export default function CharacterChatList({
+  characterId,
+  dialogueId,
+  onSelectChat,
+  onNewChat,
+}: CharacterChatListProps) {
+  const { t, fontClass } = useLanguage();
+  const [chats, setChats] = useState<DialogueSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const loadChats = async () => {
+    try {
+      setChats(await listCharacterChats(characterId));
+    } catch (error) {
+      console.error("Failed to load chats:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (characterId) {
+      loadChats();
+    }
+  }, [characterId, dialogueId]);
+
+  const titleOf = (chat: DialogueSummary) => chat.title || t("chats.untitled");
+
+  /**
+   * Moves off a chat that is going away: to the most recent remaining chat,
+   * or to a new one when none is left
+   */
+  const leaveChat = (remaining: DialogueSummary[]) => {
+    const next = remaining.find((chat) => !chat.archived);
+    if (next) {
+      onSelectChat(next.id);
+    } else {
+      onNewChat();
+    }
+  };
+
+  const startRename = (chat: DialogueSummary) => {
+    setEditingId(chat.id);
+    setEditingTitle(chat.title);
+  };
+
+  const saveRename = async () => {
+    if (!editingId) return;
+    try {
+      await renameCharacterChat(editingId, editingTitle);
+      await loadChats();
+    } catch (error) {
+      console.error("Failed to rename chat:", error);
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  const handleDuplicate = async (chat: DialogueSummary) => {
+    try {
+      const copy = await duplicateCharacterChat(chat.id, t("chats.copyOf").replace("{title}", titleOf(chat)));
+      onSelectChat(copy.id);
+    } catch (error) {
+      console.error("Failed to duplicate chat:", error);
+    }
+  };
+
+  const handleArchive = async (chat: DialogueSummary) => {
+    try {
+      await setCharacterChatArchived(chat.id, !chat.archived);
+      const updated = await listCharacterChats(characterId);
+      setChats(updated);
+      if (!chat.archived && chat.id === dialogueId) {
+        leaveChat(updated);
+      }
+    } catch (error) {
+      console.error("Failed to archive chat:", error);
+    }
+  };
+
+  const handleDelete = async (chat: DialogueSummary) => {
+    if (!window.confirm(t("chats.confirmDelete").replace("{title}", titleOf(chat)))) {
+      return;
+    }
+    try {
+      await deleteCharacterChat(chat.id);
+      const updated = await listCharacterChats(characterId);
+      setChats(updated);
+      if (chat.id === dialogueId) {
+        leaveChat(updated);
+      }
+    } catch (error) {
+      console.error("Failed to delete chat:", error);
+    }
+  };
+
+  const visibleChats = chats.filter((chat) => showArchived || !chat.archived || chat.id === dialogueId);
+  const archivedCount = chats.filter((chat) => chat.archived).length;
+
+  return (
+    <div className={`space-y-1 my-2 ${fontClass}`}>
+      <button
+        onClick={onNewChat}
+        className="w-full flex items-center gap-2 p-2 rounded-md text-xs md:text-sm text-[#f4e8c1] hover:bg-[#252525] hover:text-amber-400 transition-colors duration-300"
+      >
+        <Plus className="w-4 h-4" />
+        {t("chats.newChat")}
+      </button>
+
+      <div className="max-h-[260px] overflow-y-auto fantasy-scrollbar space-y-1">
+        {visibleChats.map((chat) => (
+          <div
+            key={chat.id}
+            onClick={() => editingId !== chat.id && onSelectChat(chat.id)}
+            className={`group flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors duration-300 ${
+              chat.id === dialogueId ? "bg-[#252525] border border-amber-500/30" : "hover:bg-[#252525] border border-transparent"
+            }`}
+          >
+            <MessageSquare className={`w-4 h-4 flex-shrink-0 ${chat.id === dialogueId ? "text-amber-400" : "text-[#a18d6f]"}`} />
+            <div className="flex-1 min-w-0">
+              {editingId === chat.id ? (
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={saveRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  placeholder={t("chats.untitled")}
+                  className="w-full bg-[#1c1c1c] border border-[#333333] rounded px-1.5 py-0.5 text-xs text-[#f4e8c1] focus:outline-none focus:border-amber-500/60"
+                />
+              ) : (
+                <p className={`text-xs truncate ${chat.archived ? "text-[#8a8a8a] italic" : "text-[#f4e8c1]"}`} title={titleOf(chat)}>
+                  {titleOf(chat)}
+                </p>
+              )}
+              <p className="text-[10px] text-[#8a8a8a] truncate">
+                {chat.last_active_at ? new Date(chat.last_active_at).toLocaleString() : t("chats.neverActive")}
+              </p>
+            </div>
+            <div className="hidden group-hover:flex items-center gap-1 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => startRename(chat)} className="p-1 text-[#a18d6f] hover:text-amber-400" title={t("chats.rename")}>
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button onClick={() => handleDuplicate(chat)} className="p-1 text-[#a18d6f] hover:text-amber-400" title={t("chats.duplicate")}>
+                <Copy className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => handleArchive(chat)}
+                className="p-1 text-[#a18d6f] hover:text-amber-400"
+                title={chat.archived ? t("chats.unarchive") : t("chats.archive")}
+              >
+                {chat.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+              </button>
+              <button onClick={() => handleDelete(chat)} className="p-1 text-red-400 hover:text-red-300" title={t("chats.delete")}>
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {archivedCount > 0 && (
+        <button
+          onClick={() => setShowArchived((prev) => !prev)}
+          className="w-full text-left px-2 text-[10px] text-[#8a8a8a] hover:text-[#f4e8c1] transition-colors"
+        >
+          {(showArchived ? t("chats.hideArchived") : t("chats.showArchived")).replace("{count}", String(archivedCount))}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -23,17 +23,22 @@
 import { useEffect, useRef, useState } from "react";
 import ChatHtmlBubble from "@/components/ChatHtmlBubble";
 import ThinkBubble from "@/components/ThinkBubble";
+import TokenBreakdownBadge from "@/components/TokenBreakdownBadge";
+import ActivationInspectorModal from "@/components/ActivationInspectorModal";
+import { ContextTokenBreakdown } from "@/lib/core/context-budget";
+import { TurnTrace } from "@/lib/models/turn-trace-model";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
 import UserNameSettingModal from "@/components/UserNameSettingModal";
 import { getDisplayUsername, setDisplayUsername } from "@/utils/username-helper";
 import { trackButtonClick, trackFormSubmit } from "@/utils/google-analytics";
 import { useTTS } from "@/hooks/useTTS";
+import { RegexDisplayItem, useRegexDisplay, useRegexScripts } from "@/hooks/useRegexScripts";
+import { RegexPlacement } from "@/lib/models/regex-script-model";
+import { LLMType } from "@/lib/models/llm-provider-model";
 
 /**
  * API Configuration types
  */
-type LLMType = "openai" | "ollama";
-
 interface APIConfig {
   id: string;
   name: string;
@@ -61,6 +66,10 @@ interface Message {
   content: string;
   timestamp?: string;
   isUser?: boolean;
+  streamState?: "streaming" | "done" | "cancelled";
+  tokenBreakdown?: ContextTokenBreakdown;
+  trace?: TurnTrace;
+  isRegexProcessed?: boolean;
 }
 
 interface Props {
@@ -74,6 +83,9 @@ interface Props {
   onSuggestedInput: (input: string) => void;
   onTruncate: (id: string) => void;
   onRegenerate: (id: string) => void;
+  onCancel: () => void;
+  onKeepPartial: (id: string) => void;
+  onDiscardPartial: (id: string) => void;
   fontClass: string;
   serifFontClass: string;
   t: (key: string) => string;
@@ -98,6 +110,9 @@ export default function CharacterChatPanel({
   onSuggestedInput,
   onTruncate,
   onRegenerate,
+  onCancel,
+  onKeepPartial,
+  onDiscardPartial,
   fontClass,
   serifFontClass,
   t,
@@ -109,6 +124,7 @@ export default function CharacterChatPanel({
   
   // Username setting states
   const [showUserNameModal, setShowUserNameModal] = useState(false);
+  const [inspectedMessageId, setInspectedMessageId] = useState<string | null>(null);
   const [currentDisplayName, setCurrentDisplayName] = useState("");
   
   // Toggle buttons expansion state
@@ -137,6 +153,20 @@ export default function CharacterChatPanel({
     workflowId: ttsWorkflowId,
   });
 
+  // Messages are stored raw; display regex scripts run in the regex sandbox as they render
+  const regexScripts = useRegexScripts(character.id, currentDisplayName);
+  const displayKey = (message: Message, field: "content" | "thinking") => `${message.id}:${message.role}:${field}`;
+  const displayTexts = useRegexDisplay(regexScripts, messages.flatMap((message, index): RegexDisplayItem[] => {
+    const position = { depth: messages.length - 1 - index, alreadyEdited: message.isRegexProcessed };
+    if (message.role === "user") {
+      return [{ key: displayKey(message, "content"), text: message.content, placement: RegexPlacement.USER_INPUT, ...position }];
+    }
+    return message.role !== "sample" && message.thinkingContent
+      ? [{ key: displayKey(message, "thinking"), text: message.thinkingContent, placement: RegexPlacement.REASONING, ...position }]
+      : [];
+  }));
+  const displayText = (message: Message, field: "content" | "thinking") => displayTexts.get(displayKey(message, field)) ?? "";
+
   useEffect(() => {
     const savedStreaming = localStorage.getItem("streamingEnabled");
     if (savedStreaming !== null) {
@@ -236,11 +266,20 @@ export default function CharacterChatPanel({
     }
   };
 
+  // Follow live tokens while the user stays near the bottom
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (lastMessage?.streamState === "streaming") {
+      maybeScrollToBottom();
+    }
+  }, [lastMessage?.content, lastMessage?.streamState]);
+
   const [suggestionsCollapsed, setSuggestionsCollapsed] = useState(false);
 
   const shouldShowRegenerateButton = (message: Message, index: number) => {
     if (isSending) return false;
     if (message.role !== "assistant") return false;
+    if (message.streamState === "cancelled") return false;
     if (index !== messages.length - 1) return false;
 
     return true;
@@ -588,18 +627,18 @@ export default function CharacterChatPanel({
     // Load configuration values to localStorage
     localStorage.setItem("llmType", selectedConfig.type);
     localStorage.setItem(
-      selectedConfig.type === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl",
+      selectedConfig.type === "ollama" ? "ollamaBaseUrl" : "openaiBaseUrl",
       selectedConfig.baseUrl,
     );
     localStorage.setItem(
-      selectedConfig.type === "openai" ? "openaiModel" : "ollamaModel",
+      selectedConfig.type === "ollama" ? "ollamaModel" : "openaiModel",
       selectedConfig.model,
     );
     localStorage.setItem("modelName", selectedConfig.model);
     localStorage.setItem("modelBaseUrl", selectedConfig.baseUrl);
 
     // Store API key properly
-    if (selectedConfig.type === "openai" && selectedConfig.apiKey) {
+    if (selectedConfig.type !== "ollama" && selectedConfig.apiKey) {
       localStorage.setItem("openaiApiKey", selectedConfig.apiKey);
       localStorage.setItem("apiKey", selectedConfig.apiKey);
     }
@@ -764,7 +803,7 @@ export default function CharacterChatPanel({
                         className={`${serifFontClass}`}
                         dangerouslySetInnerHTML={{
                           __html: (
-                            message.content.match(
+                            displayText(message, "content").match(
                               /<input_message>([\s\S]*?)<\/input_message>/,
                             )?.[1] || ""
                           ).replace(
@@ -1311,37 +1350,88 @@ export default function CharacterChatPanel({
 
                     {/* Think Bubble - Show thinking content if available */}
                     <ThinkBubble
-                      thinkingContent={message.thinkingContent || ""}
+                      thinkingContent={displayText(message, "thinking")}
                       characterName={character.name}
                       fontClass={fontClass}
                       serifFontClass={serifFontClass}
                       t={t}
                     />
 
-                    <ChatHtmlBubble
-                      key={message.id}
-                      html={message.content}
-                      isLoading={
-                        isSending &&
-                        index === messages.length - 1 &&
-                        message.content.trim() === ""
-                      }
-                      enableStreaming={
-                        activeModes.streaming &&
-                        message.role === "assistant" &&
-                        index >= streamingTarget
-                      }
-                      onContentChange={
-                        index === messages.length - 1
-                          ? () => maybeScrollToBottom()
-                          : undefined
-                      }
+                    {message.streamState === "streaming" || message.streamState === "cancelled" ? (
+                      // Live tokens render as plain text; the HTML bubble takes over once the turn completes
+                      <div
+                        className={`whitespace-pre-wrap break-words text-[#f4e8c1] text-sm leading-relaxed ${serifFontClass}`}
+                      >
+                        {message.content}
+                        {message.streamState === "streaming" ? (
+                          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-[#c0a480] animate-pulse" />
+                        ) : (
+                          <div className={`mt-3 flex flex-wrap items-center gap-2 text-xs text-[#a18d6f] ${fontClass}`}>
+                            <span>{t("characterChat.generationCancelled")}</span>
+                            <button
+                              type="button"
+                              onClick={() => onKeepPartial(message.id)}
+                              className="px-2 py-0.5 rounded border border-[#534741] text-[#c0a480] hover:text-[#f4e8c1] hover:border-[#a18d6f] transition-colors"
+                            >
+                              {t("characterChat.keepPartial")}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => onDiscardPartial(message.id)}
+                              className="px-2 py-0.5 rounded border border-[#534741] text-[#c0a480] hover:text-[#f4e8c1] hover:border-[#a18d6f] transition-colors"
+                            >
+                              {t("characterChat.discardPartial")}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <ChatHtmlBubble
+                        key={message.id}
+                        html={message.content}
+                        regexScripts={regexScripts}
+                        regexDepth={messages.length - 1 - index}
+                        isRegexProcessed={message.isRegexProcessed}
+                        isLoading={
+                          isSending &&
+                          index === messages.length - 1 &&
+                          message.content.trim() === ""
+                        }
+                        enableStreaming={
+                          activeModes.streaming &&
+                          message.role === "assistant" &&
+                          message.streamState !== "done" &&
+                          index >= streamingTarget
+                        }
+                        onContentChange={
+                          index === messages.length - 1
+                            ? () => maybeScrollToBottom()
+                            : undefined
+                        }
+                      />
+                    )}
+
+                    <TokenBreakdownBadge
+                      breakdown={message.tokenBreakdown}
+                      worldBookActivation={message.trace?.worldBook}
+                      fontClass={fontClass}
+                      t={t}
                     />
+
+                    {message.trace && (
+                      <button
+                        type="button"
+                        onClick={() => setInspectedMessageId(message.id)}
+                        className={`mt-1 text-[10px] md:text-xs text-[#8a7a6b] hover:text-[#c0a480] transition-colors ${fontClass}`}
+                      >
+                        {t("characterChat.inspectTurn")}
+                      </button>
+                    )}
                   </div>
                 );
               })}
 
-              {isSending && (
+              {isSending && messages[messages.length - 1]?.streamState !== "streaming" && (
                 <div className="flex items-center space-x-2 text-[#c0a480] mb-8 pb-4 pt-2 min-h-[40px]">
                   <div className="relative w-6 h-6 flex items-center justify-center">
                     <div className="absolute inset-0 rounded-full border-2 border-t-[#f9c86d] border-r-[#c0a480] border-b-[#a18d6f] border-l-transparent animate-spin"></div>
@@ -1445,10 +1535,18 @@ export default function CharacterChatPanel({
               />
             </div>
             {isSending ? (
-              <div className="relative w-8 h-8 flex items-center justify-center">
-                <div className="absolute inset-0 rounded-full border-2 border-t-[#f9c86d] border-r-[#c0a480] border-b-[#a18d6f] border-l-transparent animate-spin"></div>
-                <div className="absolute inset-1 rounded-full border-2 border-t-[#a18d6f] border-r-[#f9c86d] border-b-[#c0a480] border-l-transparent animate-spin-slow"></div>
-              </div>
+              <button
+                type="button"
+                onClick={onCancel}
+                title={t("characterChat.stopGenerating")}
+                className="flex items-center gap-1.5 bg-[#2a261f] hover:bg-[#342f25] text-[#c0a480] hover:text-[#f4e8c1] py-2 px-3 sm:px-4 rounded-lg text-sm border border-[#534741] hover:border-[#a18d6f] shadow-md transition-all duration-300"
+              >
+                <span className="relative w-4 h-4 flex items-center justify-center">
+                  <span className="absolute inset-0 rounded-full border-2 border-t-[#f9c86d] border-r-[#c0a480] border-b-[#a18d6f] border-l-transparent animate-spin"></span>
+                  <span className="w-1.5 h-1.5 bg-current rounded-sm"></span>
+                </span>
+                {t("characterChat.stopGenerating")}
+              </button>
             ) : (
               <button
                 type="submit"
@@ -1705,6 +1803,12 @@ export default function CharacterChatPanel({
         currentDisplayName={currentDisplayName}
         onSave={handleUserNameSave}
       />
+
+      <ActivationInspectorModal
+        isOpen={inspectedMessageId !== null}
+        onClose={() => setInspectedMessageId(null)}
+        trace={messages.find(message => message.id === inspectedMessageId && message.role === "assistant")?.trace}
+      />
     </div>
   );
 }
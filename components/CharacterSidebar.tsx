@@ -3,6 +3,7 @@
  *
  * This component provides a comprehensive sidebar interface for character management with the following features:
  * - Character information display and navigation
+ * - Saved chats list (open, create, rename, duplicate, archive, delete)
  * - Response length control slider
  * - Preset management and GitHub integration
  * - Advanced settings access
@@ -13,7 +14,7 @@
  * - Sidebar layout and responsive design
  * - Character information display
  * - Preset downloading and management
- * - Response length configuration
+ * - Response length and context budget configuration
  * - Modal interactions and state management
  * - Navigation and routing
  *
@@ -29,6 +30,7 @@ import React, { useState, useEffect } from "react";
 import { useLanguage } from "@/app/i18n";
 import Link from "next/link";
 import DialogueTreeModal from "@/components/DialogueTreeModal";
+import CharacterChatList from "@/components/CharacterChatList";
 import { trackButtonClick } from "@/utils/google-analytics";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
 import {
@@ -38,6 +40,7 @@ import {
 } from "@/function/preset/download";
 import AdvancedSettingsEditor from "@/components/AdvancedSettingsEditor";
 import PresetInfoModal from "@/components/PresetInfoModal";
+import { DEFAULT_MAX_CONTEXT_TOKENS, DEFAULT_RESERVED_RESPONSE_TOKENS } from "@/lib/core/context-budget";
 
 /**
  * Interface definitions for the component's props
@@ -52,6 +55,9 @@ interface CharacterSidebarProps {
   };
   isCollapsed: boolean;
   toggleSidebar: () => void;
+  dialogueId: string;
+  onSelectChat: (dialogueId: string) => void;
+  onNewChat: () => void;
   responseLength?: number;
   onResponseLengthChange?: (length: number) => void;
   onDialogueEdit?: () => void;
@@ -63,7 +69,7 @@ interface CharacterSidebarProps {
  *
  * Provides a comprehensive sidebar interface for character management with:
  * - Character information and navigation
- * - Response length configuration
+ * - Response length and context budget configuration
  * - Preset management and GitHub integration
  * - Advanced settings access
  * - Collapsible design with responsive layout
@@ -75,12 +81,17 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
   character,
   isCollapsed,
   toggleSidebar,
+  dialogueId,
+  onSelectChat,
+  onNewChat,
   onDialogueEdit,
   onViewSwitch,
 }) => {
   const { t, fontClass, serifFontClass, language } = useLanguage();
   const [currentResponseLength, setCurrentResponseLength] =
     useState<number>(200);
+  const [maxContextTokens, setMaxContextTokens] = useState<number>(DEFAULT_MAX_CONTEXT_TOKENS);
+  const [reservedResponseTokens, setReservedResponseTokens] = useState<number>(DEFAULT_RESERVED_RESPONSE_TOKENS);
   const [githubPresets, setGithubPresets] = useState<any[]>([]);
   const [showGithubPresetDropdown, setShowGithubPresetDropdown] =
     useState(false);
@@ -95,6 +106,14 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
       if (savedLength) {
         setCurrentResponseLength(parseInt(savedLength, 10));
       }
+      const savedMaxContext = localStorage.getItem("maxContextTokens");
+      if (savedMaxContext) {
+        setMaxContextTokens(parseInt(savedMaxContext, 10));
+      }
+      const savedReserved = localStorage.getItem("reservedResponseTokens");
+      if (savedReserved) {
+        setReservedResponseTokens(parseInt(savedReserved, 10));
+      }
     }
   }, []);
 
@@ -110,6 +129,26 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
     localStorage.setItem("responseLength", length.toString());
   };
 
+  /**
+   * Persists a context budget setting; invalid input is ignored so the
+   * workflow keeps using the previous (or default) value.
+   */
+  const handleContextBudgetChange = (
+    key: "maxContextTokens" | "reservedResponseTokens",
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const value = parseInt(event.target.value, 10);
+    if (Number.isNaN(value) || value < 0) {
+      return;
+    }
+    if (key === "maxContextTokens") {
+      setMaxContextTokens(value);
+    } else {
+      setReservedResponseTokens(value);
+    }
+    localStorage.setItem(key, value.toString());
+  };
+
   const handleOpenPromptEditor = () => {
     trackButtonClick("CharacterSidebar", "切换到预设编辑器");
     if (typeof window !== "undefined") {
@@ -563,6 +602,25 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
         </div>
         <div className="mx-4 menu-divider my-2"></div>
 
+        {!isCollapsed && (
+          <>
+            <div
+              className="px-2 py-1 flex justify-between items-center text-xs text-[#8a8a8a] uppercase tracking-wider font-medium text-[8px] md:text-[10px] transition-all duration-300 ease-in-out overflow-hidden mx-4"
+            >
+              <span>{t("chats.title")}</span>
+            </div>
+            <div className="px-6">
+              <CharacterChatList
+                characterId={character.id}
+                dialogueId={dialogueId}
+                onSelectChat={onSelectChat}
+                onNewChat={onNewChat}
+              />
+            </div>
+            <div className="mx-4 menu-divider my-2"></div>
+          </>
+        )}
+
         {!isCollapsed && (
           <>
             <div
@@ -871,12 +929,46 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
             </div>
           ) : null}
         </div>
+
+        <div
+          className="px-2 py-1 flex justify-between items-center text-xs text-[#8a8a8a] uppercase tracking-wider font-medium text-[8px] md:text-[10px] transition-all duration-300 ease-in-out overflow-hidden mx-4"
+          style={{ opacity: isCollapsed ? 0 : 1 }}
+        >
+          <span>{t("characterChat.contextBudget")}</span>
+        </div>
+        {!isCollapsed ? (
+          <div className="px-8 py-2 space-y-2">
+            <label className={`flex items-center justify-between gap-2 text-[10px] md:text-xs text-[#9ca3af] ${fontClass}`}>
+              <span>{t("characterChat.maxContextTokens")}</span>
+              <input
+                type="number"
+                min="1024"
+                step="1024"
+                value={maxContextTokens}
+                onChange={(e) => handleContextBudgetChange("maxContextTokens", e)}
+                className="w-20 bg-[#1c1c1c] border border-[#333333] rounded px-1.5 py-0.5 text-right text-amber-300 focus:outline-none focus:border-amber-500/60"
+              />
+            </label>
+            <label className={`flex items-center justify-between gap-2 text-[10px] md:text-xs text-[#9ca3af] ${fontClass}`}>
+              <span>{t("characterChat.reservedResponseTokens")}</span>
+              <input
+                type="number"
+                min="0"
+                step="256"
+                value={reservedResponseTokens}
+                onChange={(e) => handleContextBudgetChange("reservedResponseTokens", e)}
+                className="w-20 bg-[#1c1c1c] border border-[#333333] rounded px-1.5 py-0.5 text-right text-amber-300 focus:outline-none focus:border-amber-500/60"
+              />
+            </label>
+          </div>
+        ) : null}
       </div>
 
       <DialogueTreeModal
         isOpen={showDialogueTreeModal}
         onClose={() => setShowDialogueTreeModal(false)}
         characterId={character.id}
+        dialogueId={dialogueId}
         onDialogueEdit={onDialogueEdit}
       />
 
@@ -3,6 +3,9 @@
 import { useEffect, useRef, memo, useState, useCallback, useMemo } from "react";
 import { useSymbolColorStore } from "@/contexts/SymbolColorStore";
 import { useLanguage } from "@/app/i18n";
+import { RegexScriptSet } from "@/lib/core/regex-processor";
+import { useRegexDisplay } from "@/hooks/useRegexScripts";
+import { RegexPlacement } from "@/lib/models/regex-script-model";
 
 // Virtual queue for rendering optimization
 class VirtualRenderQueue {
@@ -512,6 +515,13 @@ interface Props {
   forceFullDocument?: boolean;
   enableStreaming?: boolean;
   onContentChange?: () => void;
+  /** Scripts applied to the stored text before it is rendered; edits to them re-render the bubble */
+  regexScripts?: RegexScriptSet | null;
+  regexPlacement?: RegexPlacement;
+  /** Position from the end of the chat, for scripts with depth limits */
+  regexDepth?: number;
+  /** The text was saved with editing scripts applied, so only display-only scripts run */
+  isRegexProcessed?: boolean;
 }
 
 export default memo(function ChatHtmlBubble({
@@ -519,6 +529,10 @@ export default memo(function ChatHtmlBubble({
   isLoading = false,
   enableStreaming = false,
   onContentChange,
+  regexScripts,
+  regexPlacement = RegexPlacement.AI_OUTPUT,
+  regexDepth,
+  isRegexProcessed = false,
 }: Props) {
   const [showLoader, setShowLoader] = useState(
     isLoading || rawHtml.trim() === "",
@@ -532,18 +546,23 @@ export default memo(function ChatHtmlBubble({
   const pendingUpdateRef = useRef<NodeJS.Timeout | null>(null);
   const isUpdatingRef = useRef<boolean>(false);
 
+  // Display regex scripts run in the regex sandbox; the bubble stays empty until they finish
+  const displayHtml = useRegexDisplay(regexScripts ?? null, [
+    { key: "html", text: rawHtml, placement: regexPlacement, depth: regexDepth, alreadyEdited: isRegexProcessed },
+  ]).get("html") ?? "";
+
   // Memoized HTML processing to prevent unnecessary recalculations
   const processedHtml = useMemo(() => {
-    if (rawHtml === lastProcessedHtmlRef.current) {
+    if (displayHtml === lastProcessedHtmlRef.current) {
       return lastProcessedHtmlRef.current;
     }
     
-    const md = convertMarkdown(rawHtml);
+    const md = convertMarkdown(displayHtml);
     const tagged = replaceTags(md);
     const result = tagged.replace(/^[\s\r\n]+|[\s\r\n]+$/g, "");
     lastProcessedHtmlRef.current = result;
     return result;
-  }, [rawHtml]);
+  }, [displayHtml]);
 
   // Batched update function using virtual queue
   const batchedUpdate = useCallback((updateFn: () => void) => {
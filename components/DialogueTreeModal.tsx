@@ -63,6 +63,7 @@ interface DialogueTreeModalProps {
   isOpen: boolean;
   onClose: () => void;
   characterId?: string;
+  dialogueId?: string;
   onDialogueEdit?: () => void;
 }
 
@@ -390,10 +391,11 @@ const nodeTypes: NodeTypes = {
  * @param isOpen - Controls modal visibility
  * @param onClose - Callback for closing the modal
  * @param characterId - ID of the character whose dialogue tree to display
+ * @param dialogueId - ID of the chat to display; the character's most recent chat when omitted
  * @param onDialogueEdit - Callback triggered when dialogue content is modified
  * @returns {JSX.Element | null} The dialogue tree modal or null if not open
  */
-export default function DialogueTreeModal({ isOpen, onClose, characterId, onDialogueEdit }: DialogueTreeModalProps) {
+export default function DialogueTreeModal({ isOpen, onClose, characterId, dialogueId, onDialogueEdit }: DialogueTreeModalProps) {
   const { t, fontClass, serifFontClass } = useLanguage();
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
@@ -407,6 +409,8 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
   const [userAdjustedPositions, setUserAdjustedPositions] = useState<Record<string, { x: number; y: number }>>({});
   const [lastKnownNodeIds, setLastKnownNodeIds] = useState<Set<string>>(new Set());
   const [lastUpdateTime, setLastUpdateTime] = useState<string>("");
+  // Chat the known nodes belong to; switching chats needs a full fetch
+  const loadedDialogueIdRef = useRef<string | undefined>(undefined);
   const flowRef = useRef(null);
   const nodesRef = useRef<Node[]>([]);
   const modalRef = useRef<HTMLDivElement>(null);
@@ -682,7 +686,7 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
    */
   const updateCurrentPathColors = useCallback(async (characterId: string) => {
     try {
-      const response = await getCharacterDialogue(characterId);
+      const response = await getCharacterDialogue(characterId, undefined, undefined, dialogueId);
       
       if (!response.success || !response.dialogue?.tree?.nodes) {
         return;
@@ -763,7 +767,7 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
     } catch (error) {
       console.error("Error updating current path colors:", error);
     }
-  }, []);
+  }, [dialogueId]);
   
   /**
    * Initializes ReactFlow instance and sets up viewport
@@ -822,10 +826,11 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
   
   const handleJumpToNode = useCallback(async (nodeId: string) => {
     
-    if (!characterId || isJumpingToNode) return;
+    const displayedDialogueId = loadedDialogueIdRef.current;
+    if (!characterId || !displayedDialogueId || isJumpingToNode) return;
     try {
       setIsJumpingToNode(true);
-      const response = await switchDialogueBranch({ characterId, nodeId });
+      const response = await switchDialogueBranch({ dialogueId: displayedDialogueId, nodeId });
       
       if (!response.success) {
         throw new Error("Failed to jump to node");
@@ -861,15 +866,15 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
   useEffect(() => {
     if (isOpen && characterId) {
       // Use incremental fetch if we have existing nodes, otherwise full fetch
-      if (lastKnownNodeIds.size > 0) {
-        fetchIncrementalDialogueData(characterId);
+      if (lastKnownNodeIds.size > 0 && dialogueId && loadedDialogueIdRef.current === dialogueId) {
+        fetchIncrementalDialogueData(dialogueId);
       } else {
         fetchDialogueData(characterId);
       }
     } else {
       setDataLoaded(false);
     }
-  }, [isOpen, characterId, lastKnownNodeIds.size]);
+  }, [isOpen, characterId, dialogueId, lastKnownNodeIds.size]);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -920,17 +925,17 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
    * - Fetches only new or modified content
    * - Falls back to full fetch if incremental fails
    * 
-   * @param characterId - ID of character whose dialogue to fetch
+   * @param dialogueId - ID of the chat whose dialogue to fetch
    * @returns {Promise<void>} Async operation completion
    */
-  const fetchIncrementalDialogueData = async (characterId: string) => {
-    if (!characterId) {
+  const fetchIncrementalDialogueData = async (dialogueId: string) => {
+    if (!dialogueId || !characterId) {
       return;
     }
 
     try {
       const incrementalResponse = await getIncrementalDialogue({
-        characterId,
+        dialogueId,
         lastKnownNodeIds: Array.from(lastKnownNodeIds),
         lastUpdateTime: lastUpdateTime || undefined,
       });
@@ -968,7 +973,7 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
     }
     
     try {
-      const response = await getCharacterDialogue(characterId);
+      const response = await getCharacterDialogue(characterId, undefined, undefined, dialogueId);
       
       if (!response.success) {
         throw new Error("Failed to fetch dialogue data");
@@ -979,6 +984,7 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
       if (!dialogue) {
         throw new Error("Failed to fetch dialogue data");
       }
+      loadedDialogueIdRef.current = dialogue.id;
       
       if (!dialogue.tree || !dialogue.tree.nodes) {
         throw new Error("Invalid dialogue tree structure");
@@ -1407,6 +1413,7 @@ export default function DialogueTreeModal({ isOpen, onClose, characterId, onDial
         
         const response = await editDialaogueNodeContent({
           characterId: characterId,
+          dialogueId: loadedDialogueIdRef.current || "",
           nodeId: selectedNode.id,
           assistantResponse: editContent,
           model_name: modelName,
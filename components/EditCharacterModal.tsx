@@ -3,6 +3,7 @@
  * 
  * This component provides a comprehensive character editing interface with the following features:
  * - Character information editing (name, personality, scenario, etc.)
+ * - Per-character sampler profile override
  * - Avatar display and character preview
  * - Form validation and error handling
  * - Real-time character updates
@@ -32,6 +33,8 @@ import { trackButtonClick } from "@/utils/google-analytics";
 import { updateCharacter } from "@/function/dialogue/update";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
 import { Toast } from "@/components/Toast";
+import SamplerProfileSelect from "@/components/SamplerProfileSelect";
+import { SamplerProfileOperations } from "@/lib/data/roleplay/sampler-profile-operation";
 
 /**
  * Interface definitions for the component's props
@@ -77,6 +80,7 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
   const [scenario, setScenario] = useState("");
   const [firstMessage, setFirstMessage] = useState(""); 
   const [creatorComment, setCreatorComment] = useState("");
+  const [samplerProfileId, setSamplerProfileId] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
   // Add ErrorToast state
@@ -109,6 +113,13 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
     }
   }, [isOpen, characterData]);
 
+  useEffect(() => {
+    if (isOpen && characterId) {
+      SamplerProfileOperations.getCharacterProfileId(characterId)
+        .then((profileId) => setSamplerProfileId(profileId || ""));
+    }
+  }, [isOpen, characterId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -126,6 +137,8 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
         throw new Error("Failed to update character");
       }
 
+      await SamplerProfileOperations.setCharacterProfile(characterId, samplerProfileId || null);
+
       onSave();
       onClose();
     } catch (err: any) {
@@ -280,6 +293,13 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
                     />
                   </div>
 
+                  <SamplerProfileSelect
+                    value={samplerProfileId}
+                    onChange={(profileId) => setSamplerProfileId(profileId || "")}
+                    label={t("samplerProfile.characterLabel")}
+                    emptyLabel={t("samplerProfile.followApiConfig")}
+                  />
+
                   <div className="flex justify-end space-x-4 pt-4">
                     <button
                       type="button"
@@ -0,0 +1,99 @@
+/**
+ * FallbackChainEditor Component
+ *
+ * Edits the ordered list of API configs a turn falls back to when the active
+ * config's model keeps failing (rate limits, outages, bad keys). Used in both
+ * the desktop and mobile layouts of ModelSidebar.
+ */
+
+"use client";
+
+import { useLanguage } from "@/app/i18n";
+
+interface FallbackCandidate {
+  id: string;
+  name: string;
+  model: string;
+}
+
+interface Props {
+  configs: FallbackCandidate[];
+  activeConfigId: string;
+  value: string[];
+  onChange: (fallbackConfigIds: string[]) => void;
+  compact?: boolean;
+}
+
+export default function FallbackChainEditor({ configs, activeConfigId, value, onChange, compact = false }: Props) {
+  const { t } = useLanguage();
+
+  const chain = value
+    .map((id) => configs.find((config) => config.id === id))
+    .filter((config): config is FallbackCandidate => !!config);
+  const available = configs.filter((config) => config.id !== activeConfigId && !value.includes(config.id));
+
+  const moveUp = (index: number) => {
+    const ids = chain.map((config) => config.id);
+    [ids[index - 1], ids[index]] = [ids[index], ids[index - 1]];
+    onChange(ids);
+  };
+
+  const textSize = compact ? "text-xs sm:text-xs text-[10px]" : "text-sm";
+
+  return (
+    <div className={textSize}>
+      <span className="text-[#8a8a8a]">{t("modelSettings.fallbackChain")}:</span>
+      <p className="text-[#8a8a8a] text-[10px] mt-0.5 mb-1.5">{t("modelSettings.fallbackChainHint")}</p>
+
+      {chain.length === 0 ? (
+        <p className="text-[#8a8a8a] italic mb-1.5">{t("modelSettings.noFallbacks")}</p>
+      ) : (
+        <ol className="space-y-1 mb-1.5">
+          {chain.map((config, index) => (
+            <li
+              key={config.id}
+              className="flex items-center gap-2 bg-[#292929] border border-[#534741] rounded px-2 py-1"
+            >
+              <span className="text-[#d1a35c]">{index + 1}.</span>
+              <span className="flex-1 truncate text-[#f4e8c1]" title={config.model}>{config.name}</span>
+              <button
+                type="button"
+                onClick={() => moveUp(index)}
+                disabled={index === 0}
+                aria-label={t("modelSettings.moveFallbackUp")}
+                className="text-[#8a8a8a] hover:text-[#f4e8c1] disabled:opacity-30 transition-colors"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(chain.filter((item) => item.id !== config.id).map((item) => item.id))}
+                aria-label={t("modelSettings.removeFallback")}
+                className="text-red-400 hover:text-red-300 transition-colors"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) {
+              onChange([...chain.map((config) => config.id), e.target.value]);
+            }
+          }}
+          className="w-full bg-[#292929] border border-[#534741] rounded py-1 px-2 text-[#d0d0d0] focus:border-[#d1a35c] focus:outline-none transition-colors"
+        >
+          <option value="" disabled>{t("modelSettings.addFallback")}</option>
+          {available.map((config) => (
+            <option key={config.id} value={config.id}>{config.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
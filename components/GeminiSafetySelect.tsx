@@ -0,0 +1,45 @@
+/**
+ * GeminiSafetySelect Component
+ *
+ * Picks the block threshold a Gemini API config sends for every harm
+ * category. ModelSidebar shows it for Gemini configs only; "provider
+ * default" sends no safety settings at all.
+ */
+
+"use client";
+
+import { useLanguage } from "@/app/i18n";
+import {
+  GEMINI_SAFETY_THRESHOLDS,
+  GeminiSafetySetting,
+  GeminiSafetyThreshold,
+  geminiSafetySettings,
+} from "@/lib/models/llm-provider-model";
+
+interface Props {
+  value?: GeminiSafetySetting[];
+  onChange: (safetySettings: GeminiSafetySetting[] | undefined) => void;
+  compact?: boolean;
+}
+
+export default function GeminiSafetySelect({ value, onChange, compact = false }: Props) {
+  const { t } = useLanguage();
+  const threshold = value?.[0]?.threshold || "";
+  const textSize = compact ? "text-xs sm:text-xs text-[10px]" : "text-sm";
+
+  return (
+    <div className={textSize}>
+      <span className="block text-[#8a8a8a] mb-1">{t("modelSettings.geminiSafety")}:</span>
+      <select
+        value={threshold}
+        onChange={(e) => onChange(e.target.value ? geminiSafetySettings(e.target.value as GeminiSafetyThreshold) : undefined)}
+        className="w-full bg-[#292929] border border-[#534741] rounded py-1 px-2 text-[#d0d0d0] focus:border-[#d1a35c] focus:outline-none transition-colors"
+      >
+        <option value="">{t("modelSettings.geminiSafetyThresholds.default")}</option>
+        {GEMINI_SAFETY_THRESHOLDS.map((option) => (
+          <option key={option} value={option}>{t(`modelSettings.geminiSafetyThresholds.${option}`)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -31,9 +31,12 @@ import { useState, useEffect } from "react";
 import "@/app/styles/fantasy-ui.css";
 import { useLanguage } from "@/app/i18n";
 import { trackButtonClick } from "@/utils/google-analytics";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatOllama } from "@langchain/ollama";
 import TTSSettingsPanel from "@/components/TTSSettingsPanel";
+import FallbackChainEditor from "@/components/FallbackChainEditor";
+import SamplerProfileSelect from "@/components/SamplerProfileSelect";
+import GeminiSafetySelect from "@/components/GeminiSafetySelect";
+import { createChatModel } from "@/lib/nodeflow/LLMNode/providers";
+import { DEFAULT_BASE_URLS, GeminiSafetySetting, LLM_TYPES, LLMType, requiresApiKey } from "@/lib/models/llm-provider-model";
 
 /**
  * Props interface for the ModelSidebar component
@@ -46,18 +49,43 @@ interface ModelSidebarProps {
 }
 
 /**
- * Supported LLM provider types
+ * Display names for each LLM provider type
  */
-type LLMType = "openai" | "ollama";
+const PROVIDER_NAMES: Record<LLMType, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  gemini: "Google Gemini",
+  "openai-compatible": "OpenAI-compatible",
+  ollama: "Ollama",
+};
+
+/**
+ * Example model names shown as placeholders for each provider type
+ */
+const MODEL_PLACEHOLDERS: Record<LLMType, string> = {
+  openai: "gpt-4-turbo, gpt-4o...",
+  anthropic: "claude-sonnet-4-5, claude-3-5-haiku-latest...",
+  gemini: "gemini-2.5-pro, gemini-2.5-flash...",
+  "openai-compatible": "anthropic/claude-sonnet-4, deepseek/deepseek-chat...",
+  ollama: "llama3, mistral, mixtral...",
+};
+
+/**
+ * Providers whose model list can be fetched from the OpenAI-style `/models` endpoint
+ */
+const supportsModelList = (type: LLMType): boolean => type === "openai" || type === "openai-compatible";
 
 /**
  * Interface for API configuration
  * @property {string} id - Unique identifier for the configuration
  * @property {string} name - Display name for the configuration
- * @property {LLMType} type - Type of LLM provider (openai/ollama)
+ * @property {LLMType} type - Type of LLM provider
  * @property {string} baseUrl - Base URL for the API endpoint
  * @property {string} model - Model name/identifier
- * @property {string} [apiKey] - Optional API key (required for OpenAI)
+ * @property {string} [apiKey] - Optional API key (required for every provider except Ollama)
+ * @property {string[]} [fallbackConfigIds] - Configs tried in order when this one's model fails
+ * @property {string} [samplerProfileId] - Sampler profile used with this config unless a character overrides it
+ * @property {GeminiSafetySetting[]} [safetySettings] - Block thresholds sent with Gemini requests
  */
 interface APIConfig {
   id: string;
@@ -66,6 +94,9 @@ interface APIConfig {
   baseUrl: string;
   model: string;
   apiKey?: string;
+  fallbackConfigIds?: string[];
+  samplerProfileId?: string;
+  safetySettings?: GeminiSafetySetting[];
 }
 
 /**
@@ -175,7 +206,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
       } else if (configId === activeConfigId && modelName && modelName !== model) {
         // Update model if it changed within the same config
         setModel(modelName);
-        localStorage.setItem(llmType === "openai" ? "openaiModel" : "ollamaModel", modelName);
+        localStorage.setItem(llmType === "ollama" ? "ollamaModel" : "openaiModel", modelName);
         localStorage.setItem("modelName", modelName);
       }
     };
@@ -199,18 +230,18 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
     
     // Update localStorage with the selected configuration
     localStorage.setItem("llmType", config.type);
-    localStorage.setItem(config.type === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl", config.baseUrl);
-    localStorage.setItem(config.type === "openai" ? "openaiModel" : "ollamaModel", config.model);
+    localStorage.setItem(config.type === "ollama" ? "ollamaBaseUrl" : "openaiBaseUrl", config.baseUrl);
+    localStorage.setItem(config.type === "ollama" ? "ollamaModel" : "openaiModel", config.model);
     localStorage.setItem("modelName", config.model);
     localStorage.setItem("modelBaseUrl", config.baseUrl);
     
-    if (config.type === "openai" && config.apiKey) {
+    if (requiresApiKey(config.type) && config.apiKey) {
       localStorage.setItem("openaiApiKey", config.apiKey);
       localStorage.setItem("apiKey", config.apiKey);
     }
     
     if (config.baseUrl && config.apiKey) {
-      handleGetModelList(config.baseUrl, config.apiKey);
+      handleGetModelList(config.baseUrl, config.apiKey, config.type);
     }
   };
 
@@ -268,7 +299,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
         type: llmType,
         baseUrl,
         model,
-        apiKey: llmType === "openai" ? apiKey : undefined,
+        apiKey: requiresApiKey(llmType) ? apiKey : undefined,
       };
 
       const currentConfigs = Array.isArray(configs) ? configs : [];
@@ -310,7 +341,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
             type: llmType,
             baseUrl,
             model,
-            apiKey: llmType === "openai" ? apiKey : undefined,
+            apiKey: requiresApiKey(llmType) ? apiKey : undefined,
           };
         }
         return config;
@@ -334,9 +365,9 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
     }
 
     localStorage.setItem("llmType", llmType);
-    localStorage.setItem(llmType === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl", baseUrl);
-    localStorage.setItem(llmType === "openai" ? "openaiModel" : "ollamaModel", model);
-    if (llmType === "openai") {
+    localStorage.setItem(llmType === "ollama" ? "ollamaBaseUrl" : "openaiBaseUrl", baseUrl);
+    localStorage.setItem(llmType === "ollama" ? "ollamaModel" : "openaiModel", model);
+    if (requiresApiKey(llmType)) {
       localStorage.setItem("openaiApiKey", apiKey);
       localStorage.setItem("apiKey", apiKey);
     }
@@ -360,7 +391,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
   const generateConfigName = (type: LLMType, model: string): string => {
     const currentConfigs = Array.isArray(configs) ? configs : [];
 
-    let modelName = model && model.trim() ? model : (type === "openai" ? "OpenAI" : "Ollama");
+    let modelName = model && model.trim() ? model : PROVIDER_NAMES[type];
     
     if (modelName.length > 15) {
       modelName = modelName.substring(0, 15);
@@ -391,12 +422,58 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
     return `【${maxNumber + 1}】${modelName}`;
   };
 
+  /**
+   * Updates the fallback chain of the active configuration
+   * @param {string[]} fallbackConfigIds - Config IDs to fall back to, in order
+   */
+  const handleFallbackChange = (fallbackConfigIds: string[]) => {
+    const updatedConfigs = configs.map(config =>
+      config.id === activeConfigId ? { ...config, fallbackConfigIds } : config,
+    );
+    setConfigs(updatedConfigs);
+    localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 2000);
+  };
+
+  /**
+   * Sets the Gemini safety thresholds of the active configuration
+   * @param {GeminiSafetySetting[] | undefined} safetySettings - Thresholds to send, or undefined for Google's defaults
+   */
+  const handleSafetySettingsChange = (safetySettings: GeminiSafetySetting[] | undefined) => {
+    const updatedConfigs = configs.map(config =>
+      config.id === activeConfigId ? { ...config, safetySettings } : config,
+    );
+    setConfigs(updatedConfigs);
+    localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 2000);
+  };
+
+  /**
+   * Attaches a sampler profile to the active configuration
+   * @param {string | null} samplerProfileId - Profile ID, or null to use provider defaults
+   */
+  const handleSamplerProfileChange = (samplerProfileId: string | null) => {
+    const updatedConfigs = configs.map(config =>
+      config.id === activeConfigId ? { ...config, samplerProfileId: samplerProfileId || undefined } : config,
+    );
+    setConfigs(updatedConfigs);
+    localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 2000);
+  };
+
   /**
    * Deletes a configuration
    * @param {string} id - The ID of the configuration to delete
    */
   const handleDeleteConfig = (id: string) => {
-    const updatedConfigs = configs.filter(config => config.id !== id);
+    const updatedConfigs = configs
+      .filter(config => config.id !== id)
+      .map(config => config.fallbackConfigIds?.includes(id)
+        ? { ...config, fallbackConfigIds: config.fallbackConfigIds.filter(fallbackId => fallbackId !== id) }
+        : config);
     setConfigs(updatedConfigs);
 
     if (id === activeConfigId) {
@@ -447,12 +524,13 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
   };
 
   /**
-   * Fetches the list of available models from the OpenAI API
+   * Fetches the list of available models from an OpenAI-style API
    * @param {string} baseUrl - The base URL for the API
    * @param {string} apiKey - The API key for authentication
+   * @param {LLMType} type - The provider type, defaults to the one in the form
    */
-  const handleGetModelList = async (baseUrl: string, apiKey: string) => {
-    if (llmType === "ollama") return; // Skip for Ollama
+  const handleGetModelList = async (baseUrl: string, apiKey: string, type: LLMType = llmType) => {
+    if (!supportsModelList(type)) return; // Anthropic, Gemini and Ollama have no OpenAI-style model list
     
     try {
       const response = await fetch(`${baseUrl}/models`, {
@@ -517,7 +595,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
   };
 
   /**
-   * Tests the current model configuration using LangChain
+   * Tests the current model configuration through the provider adapter for its type
    * Sends a test request to verify the configuration works
    * Uses a minimal test prompt to check model connectivity and response
    * Includes Windows-specific fixes for Ollama connectivity
@@ -550,21 +628,15 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
         console.log(`Testing Ollama connection to: ${finalBaseUrl}`);
       }
 
-      // Initialize the appropriate LangChain client based on LLM type
-      const chatModel = llmType === "openai" 
-        ? new ChatOpenAI({
-          modelName: model,
-          openAIApiKey: apiKey,
-          configuration: {
-            baseURL: baseUrl,
-          },
-          timeout: 30000, // 30 second timeout
-        })
-        : new ChatOllama({
-          baseUrl: finalBaseUrl,
-          model: model,
-          temperature: 0.1, // Lower temperature for more consistent test responses
-        });
+      // Initialize the provider's chat model the same way the dialogue workflow does
+      const chatModel = createChatModel({
+        llmType,
+        modelName: model,
+        apiKey,
+        baseUrl: finalBaseUrl,
+        // Lower temperature for more consistent test responses from Ollama
+        temperature: llmType === "ollama" ? 0.1 : undefined,
+      });
 
       // Send test message using LangChain with simpler format for better compatibility
       const testMessage = llmType === "ollama" 
@@ -580,7 +652,9 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
 
       console.log(`Sending test message to ${llmType}:`, testMessage);
       
-      const response = await chatModel.invoke(messages);
+      const response = await chatModel.invoke(messages, {
+        signal: llmType === "ollama" ? undefined : AbortSignal.timeout(30000), // 30 second timeout
+      });
       const responseContent = response.content.toString().trim();
 
       console.log(`Received response from ${llmType}:`, responseContent);
@@ -726,7 +800,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                 <div className="border border-[#534741] rounded-md p-4 mb-4 bg-[#1c1c1c] bg-opacity-50 backdrop-blur-sm">
                   <div className="mb-3">
                     <span className="text-sm text-[#8a8a8a]">{t("modelSettings.llmType") || "API Type"}:</span>
-                    <span className="ml-2 text-sm text-[#f4e8c1]">{llmType === "openai" ? "OpenAI API" : "Ollama API"}</span>
+                    <span className="ml-2 text-sm text-[#f4e8c1]">{`${PROVIDER_NAMES[llmType]} API`}</span>
                   </div>
                   <div className="mb-3">
                     <span className="text-sm text-[#8a8a8a]">{t("modelSettings.baseUrl") || "Base URL"}:</span>
@@ -734,7 +808,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                       {baseUrl.includes("://") ? "http://api-server/v1" : baseUrl}
                     </span>
                   </div>
-                  {llmType === "openai" && (
+                  {requiresApiKey(llmType) && (
                     <div className="mb-3">
                       <span className="text-sm text-[#8a8a8a]">{t("modelSettings.apiKey") || "API Key"}:</span>
                       <span className="ml-2 text-sm text-[#f4e8c1]">{"•".repeat(Math.min(10, apiKey.length))}</span>
@@ -742,7 +816,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                   )}
                   <div className="mb-3">
                     <label className="text-sm text-[#8a8a8a] mr-2">{t("modelSettings.model") || "Model"}:</label>
-                    {llmType === "openai" && !modelListEmpty ? (
+                    {supportsModelList(llmType) && !modelListEmpty ? (
                       <select
                         value={model}
                         onChange={(e) => {
@@ -756,7 +830,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                           });
                           setConfigs(updatedConfigs);
                           localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
-                          localStorage.setItem(llmType === "openai" ? "openaiModel" : "ollamaModel", newModel);
+                          localStorage.setItem(llmType === "ollama" ? "ollamaModel" : "openaiModel", newModel);
                           localStorage.setItem("modelName", newModel);
                           setSaveSuccess(true);
                           setTimeout(() => setSaveSuccess(false), 2000);
@@ -784,16 +858,38 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                           });
                           setConfigs(updatedConfigs);
                           localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
-                          localStorage.setItem(llmType === "openai" ? "openaiModel" : "ollamaModel", newModel);
+                          localStorage.setItem(llmType === "ollama" ? "ollamaModel" : "openaiModel", newModel);
                           localStorage.setItem("modelName", newModel);
                           setSaveSuccess(true);
                           setTimeout(() => setSaveSuccess(false), 2000);
                         }}
                         className="bg-[#292929] border border-[#534741] rounded py-2 px-3 text-[#f4e8c1] text-sm w-full focus:border-[#d1a35c] focus:outline-none transition-colors"
-                        placeholder={llmType === "openai" ? "gpt-4-turbo, claude-3-opus-20240229..." : "llama3, mistral, mixtral..."}
+                        placeholder={MODEL_PLACEHOLDERS[llmType]}
                       />
                     )}
                   </div>
+                  <FallbackChainEditor
+                    configs={configs}
+                    activeConfigId={activeConfigId}
+                    value={configs.find(config => config.id === activeConfigId)?.fallbackConfigIds || []}
+                    onChange={handleFallbackChange}
+                  />
+                  <div className="mt-3">
+                    <SamplerProfileSelect
+                      value={configs.find(config => config.id === activeConfigId)?.samplerProfileId || ""}
+                      onChange={handleSamplerProfileChange}
+                      label={t("samplerProfile.label")}
+                      emptyLabel={t("samplerProfile.providerDefaults")}
+                    />
+                  </div>
+                  {configs.find(config => config.id === activeConfigId)?.type === "gemini" && (
+                    <div className="mt-3">
+                      <GeminiSafetySelect
+                        value={configs.find(config => config.id === activeConfigId)?.safetySettings}
+                        onChange={handleSafetySettingsChange}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -810,8 +906,9 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                       }}
                       className="w-full bg-[#292929] border border-[#534741] rounded py-3 px-3 text-sm text-[#d0d0d0] leading-tight focus:outline-none focus:border-[#d1a35c] transition-colors"
                     >
-                      <option value="openai">OpenAI API</option>
-                      <option value="ollama">Ollama API</option>
+                      {LLM_TYPES.map((type) => (
+                        <option key={type} value={type}>{`${PROVIDER_NAMES[type]} API`}</option>
+                      ))}
                     </select>
                   </div>
 
@@ -823,13 +920,13 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                       type="text"
                       id="baseUrl"
                       className="bg-[#292929] border border-[#534741] rounded w-full py-3 px-3 text-sm text-[#d0d0d0] leading-tight focus:outline-none focus:border-[#d1a35c] transition-colors"
-                      placeholder={llmType === "openai" ? "https://api.openai.com/v1" : "http://localhost:11434"}
+                      placeholder={DEFAULT_BASE_URLS[llmType]}
                       value={baseUrl}
                       onChange={(e) => setBaseUrl(e.target.value)}
                     />
                   </div>
 
-                  {llmType === "openai" && (
+                  {requiresApiKey(llmType) && (
                     <div className="mb-4">
                       <label htmlFor="apiKey" className={`block text-[#f4e8c1] text-sm font-medium mb-2 ${fontClass}`}>
                         {t("modelSettings.apiKey") || "API Key"}
@@ -847,7 +944,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
 
                   <div className="mb-4">
                     <div className="relative">
-                      {llmType === "openai" && (
+                      {requiresApiKey(llmType) && (
                         <button 
                           className={`bg-[#3e3a3a] hover:bg-[#534741] text-[#f4e8c1] font-normal py-3 px-4 text-sm rounded-md border border-[#d1a35c] w-full transition-colors magical-text ${fontClass}`} 
                           onClick={() => handleGetModelList(baseUrl, apiKey)}
@@ -890,11 +987,11 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                       type="text"
                       id="model"
                       className="bg-[#292929] border border-[#534741] rounded w-full py-3 px-3 text-sm text-[#d0d0d0] leading-tight focus:outline-none focus:border-[#d1a35c] transition-colors"
-                      placeholder={llmType === "openai" ? "gpt-4-turbo, claude-3-opus-20240229..." : "llama3, mistral, mixtral..."}
+                      placeholder={MODEL_PLACEHOLDERS[llmType]}
                       value={model}
                       onChange={(e) => setModel(e.target.value)}
                     />
-                    {llmType === "openai" && (
+                    {supportsModelList(llmType) && (
                       <div className="mt-3 text-sm text-[#8a8a8a]">
                         <p className={`mb-2 ${fontClass}`}>{t("modelSettings.modelList") || "Model List"}</p>
                         <select
@@ -1140,7 +1237,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
             <div className="border border-[#534741] rounded-md p-2.5 sm:p-2.5 p-2 mb-3 sm:mb-3 mb-2 bg-[#1c1c1c] bg-opacity-50 backdrop-blur-sm">
               <div className="mb-1.5 sm:mb-1.5 mb-1">
                 <span className="text-xs sm:text-xs text-[10px] text-[#8a8a8a]">{t("modelSettings.llmType") || "API Type"}:</span>
-                <span className="ml-2 text-xs sm:text-xs text-[10px] text-[#f4e8c1]">{llmType === "openai" ? "OpenAI API" : "Ollama API"}</span>
+                <span className="ml-2 text-xs sm:text-xs text-[10px] text-[#f4e8c1]">{`${PROVIDER_NAMES[llmType]} API`}</span>
               </div>
               <div className="mb-1.5 sm:mb-1.5 mb-1">
                 <span className="text-xs sm:text-xs text-[10px] text-[#8a8a8a]">{t("modelSettings.baseUrl") || "Base URL"}:</span>
@@ -1148,7 +1245,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                   {baseUrl.includes("://") ? "http://api-server/v1" : baseUrl}
                 </span>
               </div>
-              {llmType === "openai" && (
+              {requiresApiKey(llmType) && (
                 <div className="mb-1.5 sm:mb-1.5 mb-1">
                   <span className="text-xs sm:text-xs text-[10px] text-[#8a8a8a]">{t("modelSettings.apiKey") || "API Key"}:</span>
                   <span className="ml-2 text-xs sm:text-xs text-[10px] text-[#f4e8c1]">{"•".repeat(Math.min(10, apiKey.length))}</span>
@@ -1156,7 +1253,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
               )}
               <div className="mb-1.5 sm:mb-1.5 mb-1">
                 <label className="text-xs sm:text-xs text-[10px] text-[#8a8a8a] mr-2">{t("modelSettings.model") || "Model"}:</label>
-                {llmType === "openai" && !modelListEmpty ? (
+                {supportsModelList(llmType) && !modelListEmpty ? (
                   <select
                     value={model}
                     onChange={(e) => {
@@ -1170,7 +1267,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                       });
                       setConfigs(updatedConfigs);
                       localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
-                      localStorage.setItem(llmType === "openai" ? "openaiModel" : "ollamaModel", newModel);
+                      localStorage.setItem(llmType === "ollama" ? "ollamaModel" : "openaiModel", newModel);
                       localStorage.setItem("modelName", newModel);
                       setSaveSuccess(true);
                       setTimeout(() => setSaveSuccess(false), 2000);
@@ -1198,16 +1295,41 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                       });
                       setConfigs(updatedConfigs);
                       localStorage.setItem("apiConfigs", JSON.stringify(updatedConfigs));
-                      localStorage.setItem(llmType === "openai" ? "openaiModel" : "ollamaModel", newModel);
+                      localStorage.setItem(llmType === "ollama" ? "ollamaModel" : "openaiModel", newModel);
                       localStorage.setItem("modelName", newModel);
                       setSaveSuccess(true);
                       setTimeout(() => setSaveSuccess(false), 2000);
                     }}
                     className="bg-[#292929] border border-[#534741] rounded py-0.5 px-1.5 sm:py-0.5 sm:px-1.5 py-0 px-1 text-[#f4e8c1] text-xs sm:text-xs text-[10px] max-w-[200px] sm:max-w-[200px] max-w-[150px] focus:border-[#d1a35c] focus:outline-none transition-colors"
-                    placeholder={llmType === "openai" ? "gpt-4-turbo, claude-3-opus-20240229..." : "llama3, mistral, mixtral..."}
+                    placeholder={MODEL_PLACEHOLDERS[llmType]}
                   />
                 )}
               </div>
+              <FallbackChainEditor
+                configs={configs}
+                activeConfigId={activeConfigId}
+                value={configs.find(config => config.id === activeConfigId)?.fallbackConfigIds || []}
+                onChange={handleFallbackChange}
+                compact
+              />
+              <div className="mt-2">
+                <SamplerProfileSelect
+                  value={configs.find(config => config.id === activeConfigId)?.samplerProfileId || ""}
+                  onChange={handleSamplerProfileChange}
+                  label={t("samplerProfile.label")}
+                  emptyLabel={t("samplerProfile.providerDefaults")}
+                  compact
+                />
+              </div>
+              {configs.find(config => config.id === activeConfigId)?.type === "gemini" && (
+                <div className="mt-2">
+                  <GeminiSafetySelect
+                    value={configs.find(config => config.id === activeConfigId)?.safetySettings}
+                    onChange={handleSafetySettingsChange}
+                    compact
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -1224,8 +1346,9 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                   }}
                   className="w-full bg-[#292929] border border-[#534741] rounded py-1.5 px-2 sm:py-1.5 sm:px-2 py-1 px-1.5 text-xs sm:text-xs text-[10px] text-[#d0d0d0] leading-tight focus:outline-none focus:border-[#d1a35c] transition-colors"
                 >
-                  <option value="openai">OpenAI API</option>
-                  <option value="ollama">Ollama API</option>
+                  {LLM_TYPES.map((type) => (
+                    <option key={type} value={type}>{`${PROVIDER_NAMES[type]} API`}</option>
+                  ))}
                 </select>
               </div>
 
@@ -1237,13 +1360,13 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                   type="text"
                   id="baseUrl"
                   className="bg-[#292929] border border-[#534741] rounded w-full py-1.5 px-2 sm:py-1.5 sm:px-2 py-1 px-1.5 text-xs sm:text-xs text-[10px] text-[#d0d0d0] leading-tight focus:outline-none focus:border-[#d1a35c] transition-colors"
-                  placeholder={llmType === "openai" ? "https://api.openai.com/v1" : "http://localhost:11434"}
+                  placeholder={DEFAULT_BASE_URLS[llmType]}
                   value={baseUrl}
                   onChange={(e) => setBaseUrl(e.target.value)}
                 />
               </div>
 
-              {llmType === "openai" && (
+              {requiresApiKey(llmType) && (
                 <div className="mb-4 sm:mb-4 mb-3">
                   <label htmlFor="apiKey" className={`block text-[#f4e8c1] text-xs sm:text-xs text-[10px] font-medium mb-2 sm:mb-2 mb-1 ${fontClass}`}>
                     {t("modelSettings.apiKey") || "API Key"}
@@ -1261,7 +1384,7 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
 
               <div className="mb-4 sm:mb-4 mb-3">
                 <div className="relative">
-                  {llmType === "openai" && (
+                  {requiresApiKey(llmType) && (
                     <button 
                       className={`bg-[#3e3a3a] hover:bg-[#534741] text-[#f4e8c1] font-normal py-1.5 px-2 sm:py-1.5 sm:px-2 py-1 px-1.5 text-xs sm:text-xs text-[10px] rounded-md border border-[#d1a35c] w-full transition-colors magical-text ${fontClass}`} 
                       onClick={() => handleGetModelList(baseUrl, apiKey)}
@@ -1304,11 +1427,11 @@ export default function ModelSidebar({ isOpen, toggleSidebar }: ModelSidebarProp
                   type="text"
                   id="model"
                   className="bg-[#292929] border border-[#534741] rounded w-full py-1.5 px-2 sm:py-1.5 sm:px-2 py-1 px-1.5 text-xs sm:text-xs text-[10px] text-[#d0d0d0] leading-tight focus:outline-none focus:border-[#d1a35c] transition-colors"
-                  placeholder={llmType === "openai" ? "gpt-4-turbo, claude-3-opus-20240229..." : "llama3, mistral, mixtral..."}
+                  placeholder={MODEL_PLACEHOLDERS[llmType]}
                   value={model}
                   onChange={(e) => setModel(e.target.value)}
                 />
-                {llmType === "openai" && (
+                {supportsModelList(llmType) && (
                   <div className="mt-2 text-xs sm:text-xs text-[10px] text-[#8a8a8a]">
                     <p className={`mb-1 sm:mb-1 mb-0.5 ${fontClass}`}>{t("modelSettings.modelList") || "Model List"}</p>
                     <select
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { toast } from "react-hot-toast";
-import { getAllPresets, getPreset, deletePreset, togglePresetEnabled, getPromptsForDisplay } from "@/function/preset/global";
+import { getAllPresets, getPreset, deletePreset, togglePresetEnabled, getPromptsForDisplay, updatePresetAssemblyMode } from "@/function/preset/global";
 import { deletePromptFromPreset, togglePromptEnabled } from "@/function/preset/edit";
 import { useLanguage } from "@/app/i18n";
 import ImportPresetModal from "@/components/ImportPresetModal";
@@ -12,6 +12,7 @@ import CopyPresetModal from "@/components/CopyPresetModal";
 import "@/app/styles/fantasy-ui.css";
 import React from "react";
 import EditPromptModal from "@/components/EditPromptModal";
+import PromptPreviewModal from "@/components/PromptPreviewModal";
 import { Toast } from "@/components/Toast";
 
 interface PresetEditorProps {
@@ -24,6 +25,7 @@ interface PresetData {
   id: string;
   name: string;
   enabled?: boolean;
+  assemblyMode?: "flattened" | "messages";
   prompts: PresetPromptData[];
   created_at?: string;
   updated_at?: string;
@@ -68,6 +70,7 @@ export default function PresetEditor({
   const [currentEditingPreset, setCurrentEditingPreset] = useState<PresetData | null>(null);
   const [isCopyModalOpen, setIsCopyModalOpen] = useState(false);
   const [currentCopyingPreset, setCurrentCopyingPreset] = useState<PresetData | null>(null);
+  const [previewingPreset, setPreviewingPreset] = useState<PresetData | null>(null);
   
   // ErrorToast state
   const [errorToast, setErrorToast] = useState({
@@ -524,6 +527,19 @@ export default function PresetEditor({
     }
   };
 
+  const handleAssemblyModeChange = async (presetId: string, assemblyMode: "flattened" | "messages") => {
+    const result = await updatePresetAssemblyMode(presetId, assemblyMode);
+    if (!result.success) {
+      showErrorToast(t("preset.assemblyModeUpdateFailed") || "Failed to update assembly mode");
+      return;
+    }
+
+    setPresets(prev => prev.map(p => p.id === presetId ? { ...p, assemblyMode } : p));
+    if (selectedPreset && selectedPreset.id === presetId) {
+      setSelectedPreset({ ...selectedPreset, assemblyMode });
+    }
+  };
+
   const handleTogglePreset = async (presetId: string, enableState: boolean) => {
     setPresets(prevPresets => 
       prevPresets.map(preset => {
@@ -954,6 +970,19 @@ export default function PresetEditor({
                     </td>
                     <td className="p-1.5 sm:p-3">
                       <div className="flex items-center space-x-0.5 sm:space-x-1">
+                        {characterId && (
+                          <button
+                            onClick={() => setPreviewingPreset(preset)}
+                            className="w-5 h-5 sm:w-6 sm:h-6 flex items-center justify-center text-[#e9c08d] hover:text-[#f6daae] transition-colors duration-300 rounded hover:bg-[#333] group"
+                            title={t("preset.previewPrompt")}
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="transition-transform duration-300 group-hover:scale-110">
+                              <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+                              <circle cx="12" cy="12" r="3"></circle>
+                            </svg>
+                          </button>
+                        )}
+
                         <button
                           onClick={() => handleEditPresetName(preset)}
                           className="w-5 h-5 sm:w-6 sm:h-6 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-colors duration-300 rounded hover:bg-[#333] group"
@@ -1010,6 +1039,17 @@ export default function PresetEditor({
                                 </span>
                               )}
                             </h4>
+                            <label className="flex items-center gap-1.5 text-[10px] sm:text-xs text-[#a18d6f]" title={t("preset.assemblyModeHint")}>
+                              {t("preset.assemblyMode")}
+                              <select
+                                value={selectedPreset.assemblyMode || "flattened"}
+                                onChange={(e) => handleAssemblyModeChange(selectedPreset.id, e.target.value as "flattened" | "messages")}
+                                className="bg-[#252220] border border-[#534741] rounded px-1.5 py-0.5 text-[#eae6db] focus:outline-none focus:border-[#c0a480]"
+                              >
+                                <option value="flattened">{t("preset.assemblyModeFlattened")}</option>
+                                <option value="messages">{t("preset.assemblyModeMessages")}</option>
+                              </select>
+                            </label>
                           </div>
                           
                           {selectedPreset.prompts.length === 0 ? (
@@ -1150,6 +1190,15 @@ export default function PresetEditor({
         prompt={currentEditingPrompt}
         onSave={handleSaveEditPrompt}
       />
+      {characterId && (
+        <PromptPreviewModal
+          isOpen={previewingPreset !== null}
+          onClose={() => setPreviewingPreset(null)}
+          characterId={characterId}
+          presetId={previewingPreset?.id}
+          promptNames={Object.fromEntries((previewingPreset?.prompts || []).map(prompt => [prompt.identifier, prompt.name]))}
+        />
+      )}
       
       <Toast
         isVisible={errorToast.isVisible}
@@ -0,0 +1,222 @@
+/**
+ * PromptPreviewModal Component
+ *
+ * Runs the dialogue workflow for a character up to the model call and shows
+ * the final prompt it would send. Each block is labelled and coloured by the
+ * preset prompt it came from, with its token count.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useLanguage } from "@/app/i18n";
+import { previewCharacterPrompt } from "@/function/dialogue/preview";
+import { PromptPreview } from "@/lib/core/prompt-preview";
+import { getDisplayUsername } from "@/utils/username-helper";
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  characterId: string;
+  presetId?: string;
+  /** Preset prompt names keyed by identifier, used to label tagged blocks. */
+  promptNames?: Record<string, string>;
+}
+
+const BLOCK_COLORS = [
+  "border-amber-500/60",
+  "border-sky-500/60",
+  "border-emerald-500/60",
+  "border-rose-500/60",
+  "border-violet-500/60",
+  "border-teal-500/60",
+  "border-orange-500/60",
+  "border-lime-500/60",
+];
+
+function getBlockColor(tag: string | null): string {
+  if (!tag) {
+    return "border-[#534741]";
+  }
+  let hash = 0;
+  for (const char of tag) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return BLOCK_COLORS[hash % BLOCK_COLORS.length];
+}
+
+export default function PromptPreviewModal({ isOpen, onClose, characterId, presetId, promptNames = {} }: Props) {
+  const { t, language, fontClass, serifFontClass } = useLanguage();
+  const [message, setMessage] = useState("");
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPreview = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const storedMaxContext = localStorage.getItem("maxContextTokens");
+      const storedReserved = localStorage.getItem("reservedResponseTokens");
+      const storedNumber = localStorage.getItem("responseLength");
+      const result = await previewCharacterPrompt({
+        characterId,
+        message,
+        presetId,
+        username: getDisplayUsername(),
+        language,
+        number: storedNumber ? parseInt(storedNumber) : undefined,
+        fastModel: localStorage.getItem("fastModelEnabled") === "true",
+        maxContextTokens: storedMaxContext ? parseInt(storedMaxContext) : undefined,
+        reservedResponseTokens: storedReserved ? parseInt(storedReserved) : undefined,
+      });
+      setPreview(result.preview);
+    } catch (err) {
+      console.error("Error previewing prompt:", err);
+      setError(t("preset.preview.failed"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setPreview(null);
+      runPreview();
+    }
+  }, [isOpen, characterId, presetId]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("keydown", handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [isOpen, onClose]);
+
+  const formatTokens = (count: number) => t("preset.preview.tokens").replace("{count}", count.toLocaleString());
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: "spring", damping: 20, stiffness: 300 }}
+            className={`fantasy-bg bg-opacity-75 border border-[#534741] rounded-xl shadow-2xl p-4 sm:p-6 w-full max-w-3xl relative z-10 backdrop-filter backdrop-blur-sm mx-4 max-h-[85vh] flex flex-col ${fontClass}`}
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-3 right-3 sm:top-4 sm:right-4 text-[#a18d6f] hover:text-[#f9c86d] transition-colors z-20"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" className="sm:w-5 sm:h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+
+            <div className="mb-3">
+              <h2 className={`text-lg text-[#f9c86d] ${serifFontClass}`}>{t("preset.preview.title")}</h2>
+              <p className="text-xs text-[#a18d6f]">{t("preset.preview.subtitle")}</p>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3">
+              <input
+                type="text"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !isLoading) {
+                    runPreview();
+                  }
+                }}
+                placeholder={t("preset.preview.sampleInputPlaceholder")}
+                aria-label={t("preset.preview.sampleInput")}
+                className="flex-1 bg-[#1a1816] border border-[#534741] rounded-md px-2 py-1.5 text-sm text-[#eae6db] focus:outline-none focus:border-amber-500/60"
+              />
+              <button
+                type="button"
+                onClick={runPreview}
+                disabled={isLoading}
+                className="px-3 py-1.5 rounded-md border border-[#534741] text-sm text-[#e9c08d] hover:text-[#f6daae] hover:border-[#a18d6f] transition-colors disabled:opacity-50"
+              >
+                {isLoading ? t("preset.preview.running") : t("preset.preview.run")}
+              </button>
+            </div>
+
+            {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+            {preview && (
+              <>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[#a18d6f] mb-3">
+                  <span>
+                    {t("preset.preview.totalTokens")}:{" "}
+                    <span className="text-[#c0a480]">{preview.totalTokens.toLocaleString()}</span>
+                    {preview.tokenBreakdown && (
+                      <span> / {preview.tokenBreakdown.limit.toLocaleString()}</span>
+                    )}
+                  </span>
+                  <span>{t(`preset.preview.assemblyModes.${preview.assemblyMode}`)}</span>
+                  {preview.tokenBreakdown && Object.entries(preview.tokenBreakdown.sections).map(([section, usage]) => (
+                    <span key={section}>
+                      {t(`characterChat.contextSections.${section}`)}: {usage!.tokens.toLocaleString()}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+                  {preview.messages.map((promptMessage, messageIndex) => (
+                    <div key={messageIndex}>
+                      <div className="flex justify-between text-xs text-[#f9c86d] mb-1">
+                        <span>{t(`worldBook.roleOptions.${promptMessage.role}`)}</span>
+                        <span className="text-[#8a7a6b]">{formatTokens(promptMessage.tokens)}</span>
+                      </div>
+                      <div className="space-y-1">
+                        {promptMessage.blocks.map((block, blockIndex) => (
+                          <div
+                            key={blockIndex}
+                            className={`border-l-2 ${getBlockColor(block.tag)} bg-[#2a261f]/70 rounded-r-md px-2 py-1`}
+                          >
+                            <div className="flex justify-between text-[10px] text-[#a18d6f]">
+                              <span>
+                                {block.tag
+                                  ? promptNames[block.tag] ? `${promptNames[block.tag]} (${block.tag})` : block.tag
+                                  : t("preset.preview.untagged")}
+                              </span>
+                              <span>{formatTokens(block.tokens)}</span>
+                            </div>
+                            <pre className="whitespace-pre-wrap break-words text-xs text-[#eae6db] font-mono">
+                              {block.content.trim()}
+                            </pre>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -2,16 +2,19 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useLanguage } from "@/app/i18n";
-import { RegexScript, RegexScriptSettings } from "@/lib/models/regex-script-model";
+import { RegexPlacement, RegexScript, RegexScriptSettings } from "@/lib/models/regex-script-model";
+import { RegexProcessor } from "@/lib/core/regex-processor";
 import { trackButtonClick } from "@/utils/google-analytics";
 import RegexScriptEntryEditor from "@/components/RegexScriptEntryEditor";
 import ImportRegexScriptModal from "@/components/ImportRegexScriptModal";
+import RegexScriptTester from "@/components/RegexScriptTester";
 import { updateRegexScriptSettings } from "@/function/regex/update-setting";
 import { getRegexScripts } from "@/function/regex/get";
 import { getRegexScriptSettings } from "@/function/regex/get-setting";
 import { addRegexScript } from "@/function/regex/add";
 import { updateRegexScript } from "@/function/regex/update";
 import { deleteRegexScript } from "@/function/regex/delete";
+import { REGEX_SCRIPTS_CHANGED_EVENT } from "@/hooks/useRegexScripts";
 
 interface Props {
   onClose: () => void;
@@ -19,12 +22,20 @@ interface Props {
   characterId: string;
 }
 
+const PLACEMENT_LABEL_KEYS: Record<RegexPlacement, string> = {
+  [RegexPlacement.USER_INPUT]: "regexScriptEditor.placements.userInput",
+  [RegexPlacement.AI_OUTPUT]: "regexScriptEditor.placements.aiOutput",
+  [RegexPlacement.SLASH_COMMAND]: "regexScriptEditor.placements.slashCommand",
+  [RegexPlacement.WORLD_INFO]: "regexScriptEditor.placements.worldInfo",
+  [RegexPlacement.REASONING]: "regexScriptEditor.placements.reasoning",
+};
+
 export default function RegexScriptEditor({ onClose, characterName, characterId }: Props) {
   const { t, fontClass, serifFontClass } = useLanguage();
   const [scripts, setScripts] = useState<Record<string, RegexScript>>({});
   const [settings, setSettings] = useState<RegexScriptSettings>({
     enabled: true,
-    applyToPrompt: false,
+    applyToPrompt: true,
     applyToResponse: true,
   });
   const [isLoading, setIsLoading] = useState(true);
@@ -32,10 +43,11 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
   const [isSaving, setIsSaving] = useState(false);
   const [expandedScripts, setExpandedScripts] = useState<Set<string>>(new Set());
   const [animationComplete, setAnimationComplete] = useState(false);
-  const [sortBy, setSortBy] = useState<string>("priority");
+  const [sortBy, setSortBy] = useState<string>("order");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [filterBy, setFilterBy] = useState<string>("all");
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isTesterOpen, setIsTesterOpen] = useState(false);
   
   // Add scroll container ref
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -74,6 +86,11 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
     }
   };
 
+  // Chat bubbles render with the scripts, so let them reload after every change
+  const notifyScriptsChanged = () => {
+    window.dispatchEvent(new CustomEvent(REGEX_SCRIPTS_CHANGED_EVENT, { detail: { characterId } }));
+  };
+
   const handleSaveScript = async (script: Partial<RegexScript & { scriptKey?: string }>) => {
     setIsSaving(true);
     try {
@@ -103,6 +120,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
           await loadScriptsAndSettings();
         }
       }
+      notifyScriptsChanged();
     } catch (error) {
       console.error("Error saving script:", error);
       throw error;
@@ -114,6 +132,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
   const handleDeleteScript = async (scriptId: string) => {
     try {
       await deleteRegexScript(characterId, scriptId);
+      notifyScriptsChanged();
       
       setScripts(prev => {
         const newScripts = { ...prev };
@@ -149,6 +168,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
       await updateRegexScript(characterId, scriptId, {
         disabled: newDisabledState,
       });
+      notifyScriptsChanged();
     } catch (error) {
       setScripts(prev => ({
         ...prev,
@@ -165,6 +185,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
     try {
       const newSettings = await updateRegexScriptSettings(characterId, updates);
       setSettings(newSettings);
+      notifyScriptsChanged();
     } catch (error) {
       console.error("Error updating settings:", error);
     }
@@ -273,22 +294,14 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
   };
 
   const sortScripts = (scriptEntries: [string, RegexScript][], sortBy: string, sortOrder: "asc" | "desc") => {
-    const sorted = [...scriptEntries].sort(([, a], [, b]) => {
-      let comparison = 0;
-      
-      switch (sortBy) {
-      case "priority":
-        comparison = (a.placement?.[0] || 999) - (b.placement?.[0] || 999);
-        break;
-      case "name":
-        comparison = (a.scriptName || "").localeCompare(b.scriptName || "");
-        break;
-      default:
-        comparison = (a.placement?.[0] || 999) - (b.placement?.[0] || 999);
-      }
-      
-      return sortOrder === "desc" ? -comparison : comparison;
-    });
+    // "order" is the order scripts run in, which is the order they are stored in
+    const sorted = sortBy === "name"
+      ? [...scriptEntries].sort(([, a], [, b]) => (a.scriptName || "").localeCompare(b.scriptName || ""))
+      : [...scriptEntries];
+
+    if (sortOrder === "desc") {
+      sorted.reverse();
+    }
     
     return sorted;
   };
@@ -415,25 +428,48 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
                 <span className="sm:hidden">{t("regexScriptEditor.importScript")}</span>
               </span>
             </button>
+
+            <button
+              onClick={() => setIsTesterOpen(!isTesterOpen)}
+              className={`px-2 sm:px-3 py-1 sm:py-1.5 bg-gradient-to-r from-[#1a1f1c] to-[#0e130f] hover:from-[#252823] hover:to-[#131a15] rounded-md transition-all duration-300 text-xs sm:text-sm font-medium shadow-lg hover:shadow-[#58f8a0]/20 group flex-shrink-0 border ${isTesterOpen ? "text-[#aef6c9] border-[#4d7a5c]" : "text-[#8de9b0] hover:text-[#aef6c9] border-[#33403a]"}`}
+            >
+              <span className={`flex items-center ${serifFontClass}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-1 sm:mr-1.5 transition-transform duration-300 group-hover:scale-110">
+                  <polygon points="5 3 19 12 5 21 5 3"></polygon>
+                </svg>
+                {t("regexScriptEditor.tester.open")}
+              </span>
+            </button>
           </div>
           <div className="flex items-center space-x-2 sm:space-x-4 text-[10px] sm:text-xs text-[#a18d6f] bg-[#252220] px-2 sm:px-3 py-1.5 sm:py-2 rounded border border-[#534741] flex-shrink-0 overflow-hidden">
-            <div className="flex items-center space-x-1 sm:space-x-2">
-              <span className={`whitespace-nowrap ${fontClass} truncate`}>{t("regexScriptEditor.globalEnabled")}:</span>
-              <span className={`${settings.enabled ? "text-amber-400" : "text-rose-400"} font-medium flex-shrink-0`}>
-                {settings.enabled ? t("regexScriptEditor.yes") : t("regexScriptEditor.no")}
-              </span>
-            </div>
-            <span className="hidden sm:inline">•</span>
-            <div className="flex items-center space-x-1 sm:space-x-2">
-              <span className={`whitespace-nowrap ${fontClass} truncate`}>{t("regexScriptEditor.applyToResponse")}:</span>
-              <span className={`${settings.applyToResponse ? "text-amber-400" : "text-rose-400"} font-medium flex-shrink-0`}>
-                {settings.applyToResponse ? t("regexScriptEditor.yes") : t("regexScriptEditor.no")}
-              </span>
-            </div>
+            {(["enabled", "applyToResponse", "applyToPrompt"] as const).map((field, index) => (
+              <div key={field} className="flex items-center space-x-2 sm:space-x-4">
+                {index > 0 && <span className="hidden sm:inline">•</span>}
+                <button
+                  type="button"
+                  onClick={() => handleUpdateSettings({ [field]: !settings[field] })}
+                  className="flex items-center space-x-1 sm:space-x-2 hover:text-[#f4e8c1] transition-colors"
+                >
+                  <span className={`whitespace-nowrap ${fontClass} truncate`}>
+                    {t(field === "enabled" ? "regexScriptEditor.globalEnabled" : `regexScriptEditor.${field}`)}:
+                  </span>
+                  <span className={`${settings[field] ? "text-amber-400" : "text-rose-400"} font-medium flex-shrink-0`}>
+                    {settings[field] ? t("regexScriptEditor.yes") : t("regexScriptEditor.no")}
+                  </span>
+                </button>
+              </div>
+            ))}
           </div>
         </div>
       </div>
 
+      {isTesterOpen && (
+        <div className="p-2 sm:p-3 border-b border-[#534741] bg-[#1f1c1a] max-h-[45vh] overflow-y-auto fantasy-scrollbar">
+          <h4 className={`text-xs sm:text-sm text-[#f4e8c1] mb-2 ${serifFontClass}`}>{t("regexScriptEditor.tester.title")}</h4>
+          <RegexScriptTester characterId={characterId} />
+        </div>
+      )}
+
       <div className="flex-1 overflow-hidden">
         <div className="sticky top-0 z-20 bg-[#1a1816] border-b border-[#534741]/40 p-2 sm:p-3">
           <div className="flex flex-col sm:flex-row sm:items-center gap-2">
@@ -458,7 +494,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
                     shadow-inner text-[10px] sm:text-xs font-medium ${serifFontClass}
                     hover:shadow-lg hover:shadow-amber-500/5`}
                 >
-                  <option value="priority" className="bg-[#1a1816] text-[#eae6db]">{t("regexScriptEditor.priority")}</option>
+                  <option value="order" className="bg-[#1a1816] text-[#eae6db]">{t("regexScriptEditor.executionOrder")}</option>
                   <option value="name" className="bg-[#1a1816] text-[#eae6db]">{t("regexScriptEditor.name")}</option>
                 </select>
                 <div className="absolute inset-y-0 right-0 flex items-center pr-1.5 sm:pr-2 pointer-events-none">
@@ -597,7 +633,8 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
                         </div>
                         <div className="flex items-center space-x-1 sm:space-x-2 flex-shrink-0">
                           <span className={`text-[10px] sm:text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 rounded bg-[#252220] text-[#a18d6f] ${fontClass}`}>
-                            {t("regexScriptEditor.priority")}: {script.placement?.[0] || 999}
+                            {RegexProcessor.placementsOf(script).map((placement) => t(PLACEMENT_LABEL_KEYS[placement])).join(" · ")}
+                            {RegexProcessor.modeOf(script) !== "edit" && ` · ${t(`regexScriptEditor.modes.${RegexProcessor.modeOf(script)}`)}`}
                           </span>
                           <button
                             onClick={() => setEditingScript({ ...script, scriptKey: scriptId })}
@@ -729,6 +766,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
 
       <RegexScriptEntryEditor
         isOpen={editingScript !== null}
+        characterId={characterId}
         editingScript={editingScript}
         isSaving={isSaving}
         onClose={() => setEditingScript(null)}
@@ -743,6 +781,7 @@ export default function RegexScriptEditor({ onClose, characterName, characterId
         onImportSuccess={() => {
           setIsImportModalOpen(false);
           loadScriptsAndSettings();
+          notifyScriptsChanged();
         }}
       />
     </div>
@@ -2,11 +2,26 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useLanguage } from "@/app/i18n";
-import { RegexScript } from "@/lib/models/regex-script-model";
+import { RegexPlacement, RegexScript } from "@/lib/models/regex-script-model";
+import { RegexProcessor, RegexTargetMode } from "@/lib/core/regex-processor";
 import { toast } from "react-hot-toast";
+import { checkRegexScript } from "@/function/regex/check";
+import { getDisplayUsername } from "@/utils/username-helper";
+import RegexScriptTester from "@/components/RegexScriptTester";
+
+// Slash commands are not supported here, so that placement is kept on import but not offered
+const PLACEMENT_OPTIONS: { placement: RegexPlacement; labelKey: string }[] = [
+  { placement: RegexPlacement.USER_INPUT, labelKey: "regexScriptEditor.placements.userInput" },
+  { placement: RegexPlacement.AI_OUTPUT, labelKey: "regexScriptEditor.placements.aiOutput" },
+  { placement: RegexPlacement.WORLD_INFO, labelKey: "regexScriptEditor.placements.worldInfo" },
+  { placement: RegexPlacement.REASONING, labelKey: "regexScriptEditor.placements.reasoning" },
+];
+
+const MODE_OPTIONS: RegexTargetMode[] = ["edit", "display", "prompt"];
 
 interface RegexScriptEntryEditorProps {
   isOpen: boolean;
+  characterId: string;
   editingScript: Partial<RegexScript> | null;
   isSaving: boolean;
   onClose: () => void;
@@ -16,6 +31,7 @@ interface RegexScriptEntryEditorProps {
 
 export default function RegexScriptEntryEditor({
   isOpen,
+  characterId,
   editingScript,
   isSaving,
   onClose,
@@ -24,11 +40,13 @@ export default function RegexScriptEntryEditor({
 }: RegexScriptEntryEditorProps) {
   const { t, fontClass, serifFontClass } = useLanguage();
   const modalRef = useRef<HTMLDivElement>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isTesterOpen, setIsTesterOpen] = useState(false);
   const [localScript, setLocalScript] = useState<Partial<RegexScript>>({
     scriptName: "",
     findRegex: "",
     replaceString: "",
-    placement: [999],
+    placement: [RegexPlacement.AI_OUTPUT],
     disabled: false,
     trimStrings: [],
   });
@@ -45,7 +63,7 @@ export default function RegexScriptEntryEditor({
         scriptName: "",
         findRegex: "",
         replaceString: "",
-        placement: [999],
+        placement: [RegexPlacement.AI_OUTPUT],
         disabled: false,
         trimStrings: [],
       });
@@ -73,23 +91,55 @@ export default function RegexScriptEntryEditor({
     onScriptChange(newScript);
   };
 
+  const placements = RegexProcessor.placementsOf(localScript);
+
+  const togglePlacement = (placement: RegexPlacement, checked: boolean) => {
+    const next = checked
+      ? [...placements, placement]
+      : placements.filter((value) => value !== placement);
+    if (next.length > 0) {
+      updateScript({ placement: next.sort((a, b) => a - b) });
+    }
+  };
+
+  const parseDepth = (value: string): number | null => {
+    const depth = parseInt(value, 10);
+    return Number.isNaN(depth) || depth < 0 ? null : depth;
+  };
+
   const handleSave = async () => {
     // Only scriptName and findRegex are required, replaceString can be empty
     if (!localScript.scriptName?.trim() || !localScript.findRegex?.trim()) {
       toast.error(t("regexScriptEditor.requiredFields") || "Please fill in script name and find regex");
       return;
     }
+    setIsChecking(true);
     try {
       // Ensure replaceString is always a string, even if empty
       const scriptToSave = {
         ...localScript,
         replaceString: localScript.replaceString || "",
+        trimStrings: (localScript.trimStrings || []).filter(Boolean),
       };
+
+      // A pattern that hangs on sample text or the chat's own messages would freeze it on every render
+      const check = await checkRegexScript(characterId, scriptToSave as RegexScript, getDisplayUsername());
+      if (check.status === "timeout") {
+        toast.error(t("regexScriptEditor.patternTimedOut").replace("{ms}", String(check.timeoutMs)));
+        return;
+      }
+      if (check.status === "error") {
+        toast.error(t("regexScriptEditor.patternFailed").replace("{error}", check.message));
+        return;
+      }
+
       await onSave(scriptToSave);
       onClose();
     } catch (error) {
       console.error("Error saving script:", error);
       toast.error(t("regexScriptEditor.saveError") || "Failed to save script");
+    } finally {
+      setIsChecking(false);
     }
   };
 
@@ -99,7 +149,7 @@ export default function RegexScriptEntryEditor({
     <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div 
         ref={modalRef}
-        className="bg-gradient-to-br from-[#1a1816] via-[#252220] to-[#1a1816] rounded-xl p-5 w-full max-w-2xl border border-[#534741]/60 shadow-2xl shadow-black/30 relative overflow-hidden"
+        className="bg-gradient-to-br from-[#1a1816] via-[#252220] to-[#1a1816] rounded-xl p-5 w-full max-w-2xl border border-[#534741]/60 shadow-2xl shadow-black/30 relative overflow-x-hidden overflow-y-auto max-h-[90vh] fantasy-scrollbar"
       >
         <div className="absolute inset-0 bg-gradient-to-r from-amber-500/3 via-transparent to-amber-500/3 opacity-50"></div>
         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-amber-500/30 to-transparent"></div>
@@ -178,22 +228,81 @@ export default function RegexScriptEntryEditor({
               </div>
             </div>
 
-            <div className="flex items-end space-x-4">
-              <div className="flex-shrink-0">
+            <div>
+              <label className={`block text-xs text-[#a18d6f] mb-1.5 font-medium ${fontClass}`}>
+                {t("regexScriptEditor.placement")}
+              </label>
+              <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                {PLACEMENT_OPTIONS.map(({ placement, labelKey }) => (
+                  <label key={placement} className={`flex items-center gap-1.5 text-xs text-[#f4e8c1] cursor-pointer ${fontClass}`}>
+                    <input
+                      type="checkbox"
+                      checked={placements.includes(placement)}
+                      onChange={(e) => togglePlacement(placement, e.target.checked)}
+                      className="accent-amber-500"
+                    />
+                    {t(labelKey)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
                 <label className={`block text-xs text-[#a18d6f] mb-1.5 font-medium ${fontClass}`}>
-                  {t("regexScriptEditor.priority")}
+                  {t("regexScriptEditor.mode")}
                 </label>
-                <input
-                  type="number"
-                  value={localScript.placement?.[0] || 999}
-                  onChange={(e) => updateScript({ placement: [parseInt(e.target.value) || 999] })}
-                  className="w-20 px-3 py-2 bg-gradient-to-br from-[#1a1816] to-[#252220] border border-[#534741]/60 rounded-lg text-[#f4e8c1] 
+                <select
+                  value={RegexProcessor.modeOf(localScript)}
+                  onChange={(e) => {
+                    const mode = e.target.value as RegexTargetMode;
+                    updateScript({ markdownOnly: mode === "display", promptOnly: mode === "prompt" });
+                  }}
+                  className="w-full px-3 py-2 bg-gradient-to-br from-[#1a1816] to-[#252220] border border-[#534741]/60 rounded-lg text-[#f4e8c1] 
                     focus:border-amber-500/60 focus:outline-none focus:ring-2 focus:ring-amber-500/20 transition-all duration-300
-                    hover:border-[#534741] text-sm text-center"
-                  min="0"
-                  max="999"
-                />
+                    hover:border-[#534741] text-sm"
+                >
+                  {MODE_OPTIONS.map((mode) => (
+                    <option key={mode} value={mode} className="bg-[#1a1816] text-[#eae6db]">
+                      {t(`regexScriptEditor.modes.${mode}`)}
+                    </option>
+                  ))}
+                </select>
               </div>
+              {(["minDepth", "maxDepth"] as const).map((field) => (
+                <div key={field}>
+                  <label className={`block text-xs text-[#a18d6f] mb-1.5 font-medium ${fontClass}`}>
+                    {t(`regexScriptEditor.${field}`)}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={typeof localScript[field] === "number" && localScript[field]! >= 0 ? localScript[field]! : ""}
+                    onChange={(e) => updateScript({ [field]: parseDepth(e.target.value) })}
+                    placeholder={t("regexScriptEditor.unlimited")}
+                    className="w-full px-3 py-2 bg-gradient-to-br from-[#1a1816] to-[#252220] border border-[#534741]/60 rounded-lg text-[#f4e8c1] 
+                      focus:border-amber-500/60 focus:outline-none focus:ring-2 focus:ring-amber-500/20 transition-all duration-300
+                      placeholder-[#a18d6f]/70 hover:border-[#534741] text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className={`block text-xs text-[#a18d6f] mb-1.5 font-medium ${fontClass}`}>
+                {t("regexScriptEditor.trimStrings")} <span className="text-[#a18d6f] text-[10px]">({t("regexScriptEditor.trimStringsHint")})</span>
+              </label>
+              <textarea
+                value={(localScript.trimStrings || []).join("\n")}
+                onChange={(e) => updateScript({ trimStrings: e.target.value.split("\n") })}
+                rows={2}
+                className="w-full px-3 py-2 bg-gradient-to-br from-[#1a1816] to-[#252220] border border-[#534741]/60 rounded-lg text-[#c4b5fd] 
+                  focus:border-amber-500/60 focus:outline-none focus:ring-2 focus:ring-amber-500/20 transition-all duration-300
+                  hover:border-[#534741] font-mono text-sm resize-y"
+              />
+            </div>
+
+            <div className="flex items-end space-x-4">
               <label className="flex items-center space-x-2 pb-2 cursor-pointer group">
                 <div className="relative">
                   <input
@@ -220,6 +329,35 @@ export default function RegexScriptEntryEditor({
               </label>
             </div>
 
+            <div className="border border-[#534741]/40 rounded-lg">
+              <button
+                type="button"
+                onClick={() => setIsTesterOpen(!isTesterOpen)}
+                className={`w-full flex items-center justify-between px-3 py-2 text-xs text-[#f4e8c1] font-medium hover:text-amber-200 transition-colors ${fontClass}`}
+              >
+                {t("regexScriptEditor.tester.testThisScript")}
+                <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={`transition-transform duration-300 ${isTesterOpen ? "rotate-180" : ""}`}>
+                  <path d="M6 9l6 6 6-6"></path>
+                </svg>
+              </button>
+              {isTesterOpen && (
+                <div className="px-3 pb-3">
+                  <RegexScriptTester
+                    characterId={characterId}
+                    script={{
+                      ...localScript,
+                      scriptKey: localScript.scriptKey || "draft",
+                      scriptName: localScript.scriptName || "",
+                      findRegex: localScript.findRegex || "",
+                      replaceString: localScript.replaceString || "",
+                      trimStrings: (localScript.trimStrings || []).filter(Boolean),
+                      placement: localScript.placement || [],
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+
             <div className="flex justify-end space-x-3 mt-6 pt-4 border-t border-[#534741]/30">
               <button
                 onClick={onClose}
@@ -233,20 +371,20 @@ export default function RegexScriptEntryEditor({
               </button>
               <button
                 onClick={handleSave}
-                disabled={isSaving}
+                disabled={isSaving || isChecking}
                 className="px-4 py-2 bg-gradient-to-br from-amber-600 to-amber-700 hover:from-amber-500 hover:to-amber-600 
                   text-[#1a1816] rounded-lg font-medium transition-all duration-300 text-sm
                   disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-amber-500/25 group
                   disabled:hover:shadow-none"
               >
                 <span className={`${serifFontClass} flex items-center group-hover:scale-105 transition-transform ${isSaving ? "" : "group-hover:text-white"}`}>
-                  {isSaving && (
+                  {(isSaving || isChecking) && (
                     <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-[#1a1816]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
                   )}
-                  {isSaving ? t("regexScriptEditor.saving") : t("regexScriptEditor.save")}
+                  {isChecking ? t("regexScriptEditor.checkingPattern") : isSaving ? t("regexScriptEditor.saving") : t("regexScriptEditor.save")}
                 </span>
               </button>
             </div>
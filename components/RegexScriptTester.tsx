@@ -0,0 +1,257 @@
+/**
+ * RegexScriptTester Component
+ *
+ * Test bench for regex scripts: runs one script, or the whole chain that
+ * produces a placement's displayed or prompt text, over pasted sample text or
+ * a message from the current chat. Each step runs in the regex sandbox and
+ * shows its matches with their replacements, its timing and the auto-fixes
+ * made to its pattern.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import { useRegexScripts } from "@/hooks/useRegexScripts";
+import { getRecentMessages, runRegexChain, RegexTestMessage, RegexTestStep } from "@/function/regex/check";
+import { RegexMatch, RegexPatternFix, RegexProcessor } from "@/lib/core/regex-processor";
+import { RegexPlacement, RegexScript } from "@/lib/models/regex-script-model";
+import { getDisplayUsername } from "@/utils/username-helper";
+
+interface RegexScriptTesterProps {
+  characterId: string;
+  /** Test only this script, e.g. the one being edited; otherwise pick from the character's scripts */
+  script?: RegexScript;
+}
+
+type ChainMode = "display" | "prompt";
+
+const CHAIN = "chain";
+
+const PLACEMENT_OPTIONS: { placement: RegexPlacement; labelKey: string }[] = [
+  { placement: RegexPlacement.USER_INPUT, labelKey: "regexScriptEditor.placements.userInput" },
+  { placement: RegexPlacement.AI_OUTPUT, labelKey: "regexScriptEditor.placements.aiOutput" },
+  { placement: RegexPlacement.WORLD_INFO, labelKey: "regexScriptEditor.placements.worldInfo" },
+  { placement: RegexPlacement.REASONING, labelKey: "regexScriptEditor.placements.reasoning" },
+];
+
+const MESSAGE_PLACEMENTS: Record<RegexTestMessage["role"], RegexPlacement> = {
+  user: RegexPlacement.USER_INPUT,
+  assistant: RegexPlacement.AI_OUTPUT,
+  reasoning: RegexPlacement.REASONING,
+};
+
+const inputClass = "w-full px-2 py-1.5 bg-gradient-to-br from-[#1a1816] to-[#252220] border border-[#534741]/60 rounded-md text-[#f4e8c1] focus:border-amber-500/60 focus:outline-none transition-colors text-xs";
+
+/**
+ * The input with each match struck out and followed by its replacement
+ */
+function renderMatches(input: string, matches: RegexMatch[]) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach((match, index) => {
+    parts.push(input.slice(position, match.index));
+    parts.push(
+      <span key={index}>
+        {match.length > 0 && (
+          <del className="bg-rose-500/20 text-rose-300 decoration-rose-400/70">{input.slice(match.index, match.index + match.length)}</del>
+        )}
+        {match.replacement && <ins className="bg-emerald-500/20 text-emerald-300 no-underline">{match.replacement}</ins>}
+      </span>,
+    );
+    position = match.index + match.length;
+  });
+  parts.push(input.slice(position));
+  return parts;
+}
+
+export default function RegexScriptTester({ characterId, script }: RegexScriptTesterProps) {
+  const { t, fontClass } = useLanguage();
+  const [username] = useState(getDisplayUsername);
+  const scriptSet = useRegexScripts(characterId, username);
+  const [messages, setMessages] = useState<RegexTestMessage[]>([]);
+  const [sampleText, setSampleText] = useState("");
+  const [placement, setPlacement] = useState<RegexPlacement>(RegexPlacement.AI_OUTPUT);
+  const [chainMode, setChainMode] = useState<ChainMode>("display");
+  const [selection, setSelection] = useState<string>(CHAIN);
+  const [steps, setSteps] = useState<RegexTestStep[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    getRecentMessages(characterId)
+      .then(setMessages)
+      .catch((error) => console.error("Failed to load messages for the regex tester:", error));
+  }, [characterId]);
+
+  const scriptsToRun = (): RegexScript[] => {
+    if (script) {
+      return [script];
+    }
+    if (!scriptSet) {
+      return [];
+    }
+    return selection === CHAIN
+      ? RegexProcessor.chainFor(scriptSet, placement, chainMode)
+      : scriptSet.scripts.filter((candidate) => candidate.scriptKey === selection);
+  };
+
+  const handlePickMessage = (index: string) => {
+    const message = messages[Number(index)];
+    if (message) {
+      setSampleText(message.text);
+      setPlacement(MESSAGE_PLACEMENTS[message.role]);
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setSteps(await runRegexChain(scriptsToRun(), sampleText, scriptSet?.macros));
+    } catch (error) {
+      console.error("Regex test run failed:", error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const describeFix = (fix: RegexPatternFix) => {
+    const text = t(`regexScriptEditor.tester.fixKinds.${fix.kind}`);
+    if (fix.kind === "escapeSequence") {
+      return text.replace(/\{sequence\}/g, fix.sequence);
+    }
+    return fix.kind === "repaired" ? text.replace("{pattern}", fix.pattern) : text;
+  };
+
+  const totalMs = (steps || []).reduce(
+    (total, step) => total + (step.result.status === "ok" ? step.result.runs[0].durationMs : 0),
+    0,
+  );
+
+  return (
+    <div className={`space-y-3 ${fontClass}`}>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs text-[#a18d6f] font-medium">{t("regexScriptEditor.tester.sampleText")}</label>
+          <select
+            value=""
+            onChange={(e) => handlePickMessage(e.target.value)}
+            disabled={messages.length === 0}
+            className="max-w-[60%] bg-[#1a1816] border border-[#534741]/60 rounded-md text-[10px] text-[#c0a480] px-1.5 py-1 disabled:opacity-50"
+          >
+            <option value="">{t("regexScriptEditor.tester.pickMessage")}</option>
+            {messages.map((message, index) => (
+              <option key={`${message.nodeId}-${message.role}`} value={index}>
+                {t(`regexScriptEditor.tester.roles.${message.role}`)}: {message.text.slice(0, 60)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          rows={4}
+          placeholder={t("regexScriptEditor.tester.samplePlaceholder")}
+          className={`${inputClass} font-mono resize-y placeholder-[#a18d6f]/70`}
+        />
+      </div>
+
+      {!script && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <div>
+            <label className="block text-[10px] text-[#a18d6f] mb-1">{t("regexScriptEditor.tester.scripts")}</label>
+            <select value={selection} onChange={(e) => setSelection(e.target.value)} className={inputClass}>
+              <option value={CHAIN}>{t("regexScriptEditor.tester.wholeChain")}</option>
+              {(scriptSet?.scripts || []).map((candidate) => (
+                <option key={candidate.scriptKey} value={candidate.scriptKey}>{candidate.scriptName}</option>
+              ))}
+            </select>
+          </div>
+          {selection === CHAIN && (
+            <>
+              <div>
+                <label className="block text-[10px] text-[#a18d6f] mb-1">{t("regexScriptEditor.placement")}</label>
+                <select value={placement} onChange={(e) => setPlacement(Number(e.target.value))} className={inputClass}>
+                  {PLACEMENT_OPTIONS.map((option) => (
+                    <option key={option.placement} value={option.placement}>{t(option.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] text-[#a18d6f] mb-1">{t("regexScriptEditor.tester.view")}</label>
+                <select value={chainMode} onChange={(e) => setChainMode(e.target.value as ChainMode)} className={inputClass}>
+                  <option value="display">{t("regexScriptEditor.tester.views.display")}</option>
+                  <option value="prompt">{t("regexScriptEditor.tester.views.prompt")}</option>
+                </select>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning || (!script && !scriptSet)}
+          className="px-3 py-1.5 text-xs text-[#e9c08d] border border-[#534741] rounded-md hover:text-[#f6daae] hover:border-amber-500/60 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning ? t("regexScriptEditor.tester.running") : t("regexScriptEditor.tester.run")}
+        </button>
+      </div>
+
+      {steps && steps.length === 0 && (
+        <p className="text-xs text-[#a18d6f] italic">{t("regexScriptEditor.tester.noScripts")}</p>
+      )}
+
+      {steps && steps.length > 0 && (
+        <div className="space-y-2">
+          {steps.map((step, index) => (
+            <div key={`${step.script.scriptKey}-${index}`} className="border border-[#534741]/60 rounded-md bg-[#1a1816]/60 p-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1 text-[10px]">
+                <span className="text-[#f4e8c1] text-xs">
+                  {t("regexScriptEditor.tester.step").replace("{index}", String(index + 1))} · {step.script.scriptName}
+                </span>
+                {step.result.status === "ok" && (
+                  <span className="text-[#a18d6f]">
+                    {step.result.runs[0].matches.length > 0
+                      ? t("regexScriptEditor.tester.matches").replace("{count}", String(step.result.runs[0].matches.length))
+                      : t("regexScriptEditor.tester.noMatches")}
+                    {" · "}
+                    {t("regexScriptEditor.tester.duration").replace("{ms}", step.result.runs[0].durationMs.toFixed(1))}
+                  </span>
+                )}
+                {step.result.status === "timeout" && (
+                  <span className="text-rose-400">{t("regexScriptEditor.tester.timedOut").replace("{ms}", String(step.result.timeoutMs))}</span>
+                )}
+                {step.result.status === "error" && (
+                  <span className="text-rose-400">{t("regexScriptEditor.tester.failed").replace("{error}", step.result.message)}</span>
+                )}
+              </div>
+              {step.result.status === "ok" && step.result.runs[0].fixes.length > 0 && (
+                <ul className="mb-1 text-[10px] text-orange-300 list-disc list-inside">
+                  {step.result.runs[0].fixes.map((fix, fixIndex) => (
+                    <li key={fixIndex}>{describeFix(fix)}</li>
+                  ))}
+                </ul>
+              )}
+              {step.result.status === "ok" && step.result.runs[0].matches.length > 0 && (
+                <pre className="whitespace-pre-wrap break-words font-mono text-[11px] text-[#c0a480] max-h-40 overflow-y-auto">
+                  {renderMatches(step.input, step.result.runs[0].matches)}
+                </pre>
+              )}
+            </div>
+          ))}
+          <div>
+            <div className="flex items-center justify-between mb-1 text-[10px] text-[#a18d6f]">
+              <span className="text-xs">{t("regexScriptEditor.tester.output")}</span>
+              <span>{t("regexScriptEditor.tester.totalDuration").replace("{ms}", totalMs.toFixed(1))}</span>
+            </div>
+            <pre className="whitespace-pre-wrap break-words font-mono text-[11px] text-[#f4e8c1] bg-[#1a1816] border border-[#534741]/60 rounded-md p-2 max-h-48 overflow-y-auto">
+              {steps[steps.length - 1].output}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * RestoreBackupModal Component
+ *
+ * Lists what a backup contains - characters, presets, regex sets, world books
+ * and other data - and restores the selected items, each either merged into
+ * the existing data or replacing it.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArchiveRestore, X } from "lucide-react";
+import { useLanguage } from "@/app/i18n";
+import {
+  BACKUP_EXTRA_SECTIONS,
+  BackupDocument,
+  characterName,
+  RestoreMode,
+  RestoreReport,
+  RestoreSelection,
+} from "@/lib/models/backup-model";
+import { restoreBackup, selectEntireBackup } from "@/function/data/export-import";
+
+interface RestoreBackupModalProps {
+  backup: BackupDocument | null;
+  onClose: () => void;
+  onRestored: (report: RestoreReport) => void;
+}
+
+type EntitySection = "characters" | "presets" | "regexSets" | "worldBooks" | "extras";
+
+interface EntityRow {
+  id: string;
+  name: string;
+  detail?: string;
+}
+
+export default function RestoreBackupModal({ backup, onClose, onRestored }: RestoreBackupModalProps) {
+  const { t, fontClass } = useLanguage();
+  const [selection, setSelection] = useState<RestoreSelection | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    setSelection(backup ? selectEntireBackup(backup, "merge") : null);
+  }, [backup]);
+
+  if (!backup || !selection) {
+    return null;
+  }
+
+  const sections: [EntitySection, EntityRow[]][] = ([
+    ["characters", backup.characters.map((character) => ({
+      id: character.record.id,
+      name: characterName(character.record),
+      detail: t("backup.chatCount").replace("{count}", String(character.dialogues.length)),
+    }))],
+    ["presets", backup.presets.map((preset) => ({ id: preset.id, name: preset.name }))],
+    ["regexSets", backup.regexSets.map((regexSet) => ({ id: regexSet.ownerId, name: regexSet.name || regexSet.ownerId }))],
+    ["worldBooks", backup.worldBooks.map((worldBook) => ({ id: worldBook.ownerId, name: worldBook.name || worldBook.ownerId }))],
+    ["extras", BACKUP_EXTRA_SECTIONS
+      .filter((section) => backup.extras[section])
+      .map((section) => ({ id: section, name: t(`backup.extraSections.${section}`) }))],
+  ] as [EntitySection, EntityRow[]][]).filter(([, rows]) => rows.length > 0);
+
+  const modes = (section: EntitySection): Record<string, RestoreMode | undefined> => selection[section];
+
+  const setMode = (section: EntitySection, id: string, mode: RestoreMode | null) => {
+    const next = { ...modes(section) };
+    if (mode) {
+      next[id] = mode;
+    } else {
+      delete next[id];
+    }
+    setSelection({ ...selection, [section]: next });
+  };
+
+  const setSectionSelected = (section: EntitySection, rows: EntityRow[], selected: boolean) => {
+    setSelection({
+      ...selection,
+      [section]: selected ? Object.fromEntries(rows.map((row) => [row.id, modes(section)[row.id] || "merge"])) : {},
+    });
+  };
+
+  const selectedCount = sections.reduce((count, [section]) => count + Object.keys(modes(section)).length, 0);
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      onRestored(await restoreBackup(backup, selection));
+    } catch (error) {
+      console.error("Restore failed:", error);
+      alert(t("common.importFailed"));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-50 flex items-center justify-center">
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 backdrop-blur-sm"
+          onClick={isRestoring ? undefined : onClose}
+        />
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0, y: 20 }}
+          animate={{ scale: 1, opacity: 1, y: 0 }}
+          exit={{ scale: 0.9, opacity: 0, y: 20 }}
+          transition={{ type: "spring", damping: 25, stiffness: 300 }}
+          className="bg-[#1e1c1b] bg-opacity-90 border border-[#534741]/40 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col relative z-10 backdrop-filter backdrop-blur-md mx-4"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between p-6 pb-4">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-gradient-to-br from-[#f4e8c1]/20 to-[#d1a35c]/20 rounded-xl">
+                <ArchiveRestore className="w-5 h-5 text-[#f4e8c1]" />
+              </div>
+              <div>
+                <h2 className={`text-lg font-semibold text-[#f4e8c1] ${fontClass}`}>{t("backup.title")}</h2>
+                <p className="text-xs text-[#c0a480] opacity-80">
+                  {backup.createdAt
+                    ? t("backup.createdAt").replace("{date}", new Date(backup.createdAt).toLocaleString())
+                    : t("backup.legacyBackup")}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isRestoring}
+              className="p-2 text-[#c0a480] hover:text-[#f4e8c1] hover:bg-[#534741]/30 rounded-lg transition-all duration-200"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="px-6 pb-4 overflow-y-auto fantasy-scrollbar flex-1">
+            <p className="text-[10px] text-[#8a8a8a] mb-4">{t("backup.modeHint")}</p>
+            {sections.length === 0 && (
+              <p className="text-xs text-[#8a8a8a] italic">{t("backup.empty")}</p>
+            )}
+            {sections.map(([section, rows]) => {
+              const selected = modes(section);
+              const allSelected = rows.every((row) => selected[row.id]);
+              return (
+                <div key={section} className="mb-5">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className={`text-sm text-[#c0a480] ${fontClass}`}>{t(`backup.sections.${section}`)}</h3>
+                    <button
+                      onClick={() => setSectionSelected(section, rows, !allSelected)}
+                      className="text-[10px] text-[#8a8a8a] hover:text-[#f4e8c1] transition-colors"
+                    >
+                      {allSelected ? t("backup.selectNone") : t("backup.selectAll")}
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    {rows.map((row) => (
+                      <div key={row.id} className="flex items-center gap-3 bg-[#292929] border border-[#534741]/60 rounded-lg px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={!!selected[row.id]}
+                          onChange={(e) => setMode(section, row.id, e.target.checked ? "merge" : null)}
+                          className="accent-[#d1a35c]"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs text-[#f4e8c1] truncate" title={row.name}>{row.name}</p>
+                          {row.detail && <p className="text-[10px] text-[#8a8a8a]">{row.detail}</p>}
+                        </div>
+                        <select
+                          value={selected[row.id] || "merge"}
+                          disabled={!selected[row.id]}
+                          onChange={(e) => setMode(section, row.id, e.target.value as RestoreMode)}
+                          className="bg-[#1e1c1b] border border-[#534741] rounded py-0.5 px-2 text-xs text-[#f4e8c1] focus:border-[#d1a35c] focus:outline-none disabled:opacity-40"
+                        >
+                          <option value="merge">{t("backup.merge")}</option>
+                          <option value="replace">{t("backup.replace")}</option>
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2 p-6 pt-4 border-t border-[#534741]/40">
+            <button
+              onClick={onClose}
+              disabled={isRestoring}
+              className="px-4 py-1.5 text-xs text-[#c0a480] hover:text-[#f4e8c1] transition-colors"
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring || selectedCount === 0}
+              className="px-4 py-1.5 text-xs text-[#c0a480] border border-[#c0a480] rounded hover:text-[#f9c86d] hover:border-[#f9c86d] transition-colors disabled:opacity-50"
+            >
+              {isRestoring ? t("backup.restoring") : t("backup.restore").replace("{count}", String(selectedCount))}
+            </button>
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * SamplerProfileModal Component
+ *
+ * Creates, edits and deletes named sampler profiles (temperature, top_p,
+ * top_k, min_p, penalties, stop sequences, seed, max tokens). Profiles are
+ * stored in IndexedDB and picked through SamplerProfileSelect.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { useLanguage } from "@/app/i18n";
+import { SamplerProfileOperations } from "@/lib/data/roleplay/sampler-profile-operation";
+import { SamplerProfile, SamplerSettings } from "@/lib/models/sampler-profile-model";
+
+interface SamplerProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialProfileId?: string;
+  onProfilesChange: (profiles: SamplerProfile[]) => void;
+}
+
+type NumericSetting = Exclude<keyof SamplerSettings, "stopSequences">;
+
+/**
+ * Numeric fields in display order, with the input step used for each
+ */
+const NUMERIC_FIELDS: { key: NumericSetting; step: string }[] = [
+  { key: "temperature", step: "0.05" },
+  { key: "topP", step: "0.05" },
+  { key: "topK", step: "1" },
+  { key: "minP", step: "0.01" },
+  { key: "frequencyPenalty", step: "0.05" },
+  { key: "presencePenalty", step: "0.05" },
+  { key: "repeatPenalty", step: "0.05" },
+  { key: "maxTokens", step: "1" },
+  { key: "seed", step: "1" },
+];
+
+interface ProfileDraft {
+  name: string;
+  values: Record<NumericSetting, string>;
+  stopSequences: string;
+}
+
+function toDraft(profile?: SamplerProfile): ProfileDraft {
+  const values = {} as Record<NumericSetting, string>;
+  for (const { key } of NUMERIC_FIELDS) {
+    values[key] = profile?.[key] !== undefined ? String(profile[key]) : "";
+  }
+  return {
+    name: profile?.name || "",
+    values,
+    // One stop sequence per line; a newline inside a sequence is written as \n
+    stopSequences: (profile?.stopSequences || []).map((stop) => stop.replace(/\n/g, "\\n")).join("\n"),
+  };
+}
+
+function fromDraft(draft: ProfileDraft): Omit<SamplerProfile, "id"> {
+  const settings: SamplerSettings = {};
+  for (const { key } of NUMERIC_FIELDS) {
+    const raw = draft.values[key].trim();
+    if (raw !== "" && !Number.isNaN(Number(raw))) {
+      settings[key] = Number(raw);
+    }
+  }
+  settings.stopSequences = draft.stopSequences
+    .split("\n")
+    .map((stop) => stop.replace(/\\n/g, "\n"))
+    .filter((stop) => stop.trim() !== "");
+  return { ...settings, name: draft.name.trim() };
+}
+
+export default function SamplerProfileModal({
+  isOpen,
+  onClose,
+  initialProfileId,
+  onProfilesChange,
+}: SamplerProfileModalProps) {
+  const { t, fontClass } = useLanguage();
+  const [profiles, setProfiles] = useState<SamplerProfile[]>([]);
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [draft, setDraft] = useState<ProfileDraft>(toDraft());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    SamplerProfileOperations.getAllProfiles().then((loaded) => {
+      setProfiles(loaded);
+      const initial = loaded.find((profile) => profile.id === initialProfileId);
+      setSelectedId(initial?.id || "");
+      setDraft(toDraft(initial));
+    });
+  }, [isOpen, initialProfileId]);
+
+  const refresh = async () => {
+    const loaded = await SamplerProfileOperations.getAllProfiles();
+    setProfiles(loaded);
+    onProfilesChange(loaded);
+    return loaded;
+  };
+
+  const selectProfile = (profileId: string) => {
+    setSelectedId(profileId);
+    setDraft(toDraft(profiles.find((profile) => profile.id === profileId)));
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      if (selectedId) {
+        await SamplerProfileOperations.updateProfile(selectedId, fromDraft(draft));
+        await refresh();
+      } else {
+        const newId = await SamplerProfileOperations.createProfile(fromDraft(draft));
+        await refresh();
+        if (newId) {
+          setSelectedId(newId);
+        }
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !window.confirm(t("samplerProfile.confirmDelete"))) {
+      return;
+    }
+    await SamplerProfileOperations.deleteProfile(selectedId);
+    await refresh();
+    selectProfile("");
+  };
+
+  if (typeof document === "undefined") {
+    return null;
+  }
+
+  const inputClass = "w-full bg-[#292929] border border-[#534741] rounded py-1 px-2 text-sm text-[#f4e8c1] focus:border-[#d1a35c] focus:outline-none transition-colors";
+
+  // Rendered into <body> because the modal is opened from inside other modals and the sidebar
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            transition={{ type: "spring", damping: 20, stiffness: 300 }}
+            className="fantasy-bg bg-opacity-75 border border-[#534741] rounded-lg shadow-lg p-4 sm:p-6 w-full max-w-md relative z-10 backdrop-filter backdrop-blur-sm mx-4 max-h-[90vh] overflow-y-auto"
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-2 right-2 sm:top-4 sm:right-4 text-[#a18d6f] hover:text-[#f9c86d] transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+
+            <h1 className="text-xl font-bold text-[#f9c86d] mb-1 font-cinzel">
+              {t("samplerProfile.title")}
+            </h1>
+            <p className={`text-xs text-[#a18d6f] mb-4 ${fontClass}`}>
+              {t("samplerProfile.description")}
+            </p>
+
+            <select
+              value={selectedId}
+              onChange={(e) => selectProfile(e.target.value)}
+              className={`${inputClass} mb-4`}
+            >
+              <option value="">{t("samplerProfile.newProfile")}</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+
+            <label className={`block text-xs text-[#c0a480] mb-1 ${fontClass}`}>
+              {t("samplerProfile.name")}
+            </label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t("samplerProfile.namePlaceholder")}
+              className={`${inputClass} mb-3`}
+            />
+
+            <div className="grid grid-cols-2 gap-x-3 gap-y-2 mb-3">
+              {NUMERIC_FIELDS.map(({ key, step }) => (
+                <div key={key}>
+                  <label className={`block text-xs text-[#c0a480] mb-1 ${fontClass}`}>
+                    {t(`samplerProfile.fields.${key}`)}
+                  </label>
+                  <input
+                    type="number"
+                    step={step}
+                    value={draft.values[key]}
+                    onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [key]: e.target.value } })}
+                    placeholder={t("samplerProfile.providerDefault")}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <label className={`block text-xs text-[#c0a480] mb-1 ${fontClass}`}>
+              {t("samplerProfile.fields.stopSequences")}
+            </label>
+            <textarea
+              value={draft.stopSequences}
+              onChange={(e) => setDraft({ ...draft, stopSequences: e.target.value })}
+              rows={3}
+              placeholder={t("samplerProfile.stopSequencesHint")}
+              className={`${inputClass} mb-4 resize-none`}
+            />
+
+            <div className="flex justify-end gap-2">
+              {selectedId && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="px-3 py-1.5 text-xs text-red-400 border border-red-400/40 rounded hover:text-red-300 hover:border-red-300 transition-colors"
+                >
+                  {t("samplerProfile.delete")}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim()}
+                className="px-3 py-1.5 text-xs text-[#c0a480] border border-[#c0a480] rounded hover:text-[#f9c86d] hover:border-[#f9c86d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {selectedId ? t("samplerProfile.save") : t("samplerProfile.create")}
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * SamplerProfileSelect Component
+ *
+ * Picks a sampler profile and opens SamplerProfileModal to manage profiles.
+ * ModelSidebar uses it to attach a profile to an API config; the chat panel
+ * uses it to override the profile for a single character.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import SamplerProfileModal from "@/components/SamplerProfileModal";
+import { SamplerProfileOperations } from "@/lib/data/roleplay/sampler-profile-operation";
+import { SamplerProfile } from "@/lib/models/sampler-profile-model";
+
+interface Props {
+  value: string;
+  onChange: (profileId: string | null) => void;
+  label: string;
+  emptyLabel: string;
+  compact?: boolean;
+}
+
+export default function SamplerProfileSelect({ value, onChange, label, emptyLabel, compact = false }: Props) {
+  const { t } = useLanguage();
+  const [profiles, setProfiles] = useState<SamplerProfile[]>([]);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    SamplerProfileOperations.getAllProfiles().then(setProfiles);
+  }, []);
+
+  const handleProfilesChange = (updated: SamplerProfile[]) => {
+    setProfiles(updated);
+    // A deleted profile can no longer be selected
+    if (value && !updated.some((profile) => profile.id === value)) {
+      onChange(null);
+    }
+  };
+
+  const textSize = compact ? "text-xs sm:text-xs text-[10px]" : "text-sm";
+
+  return (
+    <div className={textSize}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[#8a8a8a]">{label}:</span>
+        <button
+          type="button"
+          onClick={() => setShowModal(true)}
+          className="text-[#c0a480] hover:text-[#d1a35c] transition-colors"
+        >
+          {t("samplerProfile.manage")}
+        </button>
+      </div>
+      <select
+        value={profiles.some((profile) => profile.id === value) ? value : ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="w-full bg-[#292929] border border-[#534741] rounded py-1 px-2 text-[#d0d0d0] focus:border-[#d1a35c] focus:outline-none transition-colors"
+      >
+        <option value="">{emptyLabel}</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+
+      <SamplerProfileModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        initialProfileId={value || undefined}
+        onProfilesChange={handleProfilesChange}
+      />
+    </div>
+  );
+}
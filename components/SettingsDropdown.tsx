@@ -4,9 +4,24 @@ import { useState, useRef, useEffect } from "react";
 import { useLanguage } from "@/app/i18n";
 import { useSoundContext } from "@/contexts/SoundContext";
 import { useTour } from "@/hooks/useTour";
-import { exportDataToFile, importDataFromFile, generateExportFilename, downloadFile } from "@/function/data/export-import";
-import { backupToGoogle, getFolderList, getGoogleCodeByUrl, getGoogleLoginUrl, getBackUpFile } from "@/function/data/google-control";
+import { exportDataToFile, readBackupFile, generateExportFilename, downloadFile } from "@/function/data/export-import";
+import { getGoogleCodeByUrl } from "@/function/data/google-control";
+import { runScheduledBackup, runStartupSync, syncNow } from "@/function/data/sync";
 import PluginManagerModal from "@/components/PluginManagerModal";
+import UsageDashboardModal from "@/components/UsageDashboardModal";
+import RestoreBackupModal from "@/components/RestoreBackupModal";
+import SyncSettingsModal from "@/components/SyncSettingsModal";
+import { loadSyncSettings } from "@/lib/core/sync-settings";
+import { InvalidBackupError } from "@/lib/data/backup/backup-archive";
+import { BackupDocument } from "@/lib/models/backup-model";
+import { SyncReport } from "@/lib/models/sync-model";
+
+// How often to check whether a scheduled backup is due while the app is open
+const BACKUP_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+function changedLocalData(report: SyncReport): boolean {
+  return report.pulled + report.deletedLocal + report.conflicts.length > 0;
+}
 
 interface SettingsDropdownProps {
   toggleModelSidebar: () => void;
@@ -15,6 +30,10 @@ interface SettingsDropdownProps {
 export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isPluginManagerOpen, setIsPluginManagerOpen] = useState(false);
+  const [isUsageDashboardOpen, setIsUsageDashboardOpen] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<BackupDocument | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isSyncSettingsOpen, setIsSyncSettingsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const { language, setLanguage, t } = useLanguage();
   const { soundEnabled, toggleSound } = useSoundContext();
@@ -49,6 +68,11 @@ export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdow
     setIsOpen(false);
   };
 
+  const openUsageDashboard = () => {
+    setIsUsageDashboardOpen(true);
+    setIsOpen(false);
+  };
+
   const handleExportData = async () => {
     try {
       const blob = await exportDataToFile();
@@ -61,63 +85,63 @@ export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdow
     }
   };
 
-  const handleImportData = async () => {
+  const openBackup = async (file: Blob) => {
     try {
-      const input = document.createElement("input");
-      input.type = "file";
-      input.accept = ".json";
-      input.onchange = async (e) => {
-        const file = (e.target as HTMLInputElement).files?.[0];
-        if (file) {
-          await importDataFromFile(file);
-          setIsOpen(false);
-          window.location.reload();
-        }
-      };
-      input.click();
+      setPendingBackup(await readBackupFile(file));
+      setIsOpen(false);
     } catch (error) {
       console.error("Import failed:", error);
-      alert(t("common.importFailed"));
+      alert(error instanceof InvalidBackupError ? t("backup.invalid") : t("common.importFailed"));
     }
   };
 
-  async function handleImportDataFromGoogle() {
-    const token = localStorage.getItem("google_drive_token");
-    if(token) {
-      const res = await getFolderList();
-      if(res?.id) {
-        const file = await getBackUpFile(res.id);
-        if(file) {
-          await importDataFromFile(file);
-          setIsOpen(false);
-          alert("导入成功！");
-          window.location.reload();
-        }
+  const handleImportData = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".zip,.json";
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        await openBackup(file);
       }
-    } else {
-      const url = getGoogleLoginUrl();
-      window.location.href = url;
+    };
+    input.click();
+  };
+
+  const openSyncSettings = () => {
+    setIsSyncSettingsOpen(true);
+    setIsOpen(false);
+  };
+
+  async function handleSyncNow() {
+    if (!loadSyncSettings().backend) {
+      alert(t("sync.notConfigured"));
+      openSyncSettings();
+      return;
     }
-  }
 
-  async function handleExportDataToGoogle() {
-    const token = localStorage.getItem("google_drive_token");
-    if(token) {
-      const blob = await exportDataToFile();
-      const filename = generateExportFilename();
-      const res = await getFolderList();
-      if(res?.id) {
-        await backupToGoogle({
-          blob,
-          filename,
-          folderId: res.id,
-        });
-        // todo
-        alert("上传成功");
-      } 
-    } else {
-      const url = getGoogleLoginUrl();
-      window.location.href = url;
+    setIsSyncing(true);
+    try {
+      const report = await syncNow();
+      const conflictingItems = report.conflicts.reduce((count, conflict) => count + conflict.conflictingItems.length, 0);
+      let message = t("sync.done")
+        .replace("{pulled}", String(report.pulled + report.deletedLocal))
+        .replace("{pushed}", String(report.pushed + report.deletedRemote));
+      if (report.conflicts.length > 0) {
+        message += "\n" + t("sync.conflicts")
+          .replace("{count}", String(report.conflicts.length))
+          .replace("{items}", String(conflictingItems));
+      }
+      alert(message);
+      setIsOpen(false);
+      if (changedLocalData(report)) {
+        window.location.reload();
+      }
+    } catch (error) {
+      console.error("Sync failed:", error);
+      alert(t("sync.failed"));
+    } finally {
+      setIsSyncing(false);
     }
   }
 
@@ -126,6 +150,22 @@ export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdow
     if(useFirst.current) return;
     useFirst.current = true;
     getGoogleCodeByUrl(window.location);
+
+    // Pull what other devices changed; reload only if that touched local data
+    runStartupSync()
+      .then((report) => {
+        if (report && changedLocalData(report)) {
+          window.location.reload();
+        }
+      })
+      .catch((error) => console.error("Startup sync failed:", error));
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      runScheduledBackup().catch((error) => console.error("Scheduled backup failed:", error));
+    }, BACKUP_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
   }, []);
 
   return (
@@ -185,6 +225,18 @@ export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdow
               </svg>
               {t("plugins.management")}
             </button>
+
+            <button
+              onClick={openUsageDashboard}
+              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2">
+                <line x1="18" y1="20" x2="18" y2="10"></line>
+                <line x1="12" y1="20" x2="12" y2="4"></line>
+                <line x1="6" y1="20" x2="6" y2="14"></line>
+              </svg>
+              {t("usage.title")}
+            </button>
             
             <button
               onClick={toggleSound}
@@ -252,27 +304,26 @@ export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdow
             </button>
 
             <button
-              onClick={handleExportDataToGoogle}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+              onClick={handleSyncNow}
+              disabled={isSyncing}
+              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors disabled:opacity-50"
             >
               <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2">
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                <polyline points="7 10 12 15 17 10"></polyline>
-                <line x1="12" y1="15" x2="12" y2="3"></line>
+                <polyline points="23 4 23 10 17 10"></polyline>
+                <polyline points="1 20 1 14 7 14"></polyline>
+                <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
               </svg>
-              {t("common.exportDataToGoogle")}
+              {isSyncing ? t("sync.syncing") : t("sync.syncNow")}
             </button>
 
             <button
-              onClick={handleImportDataFromGoogle}
+              onClick={openSyncSettings}
               className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
             >
               <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2">
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                <polyline points="17 8 12 3 7 8"></polyline>
-                <line x1="12" y1="3" x2="12" y2="15"></line>
+                <path d="M18 10h-1.26A8 8 0 1 0 9 20h9a5 5 0 0 0 0-10z"></path>
               </svg>
-              {t("common.importDataFromGoogle")}
+              {t("syncSettings.title")}
             </button>
           </div>
         </div>
@@ -282,6 +333,24 @@ export default function SettingsDropdown({ toggleModelSidebar }: SettingsDropdow
         isOpen={isPluginManagerOpen}
         onClose={() => setIsPluginManagerOpen(false)}
       />
+      <UsageDashboardModal
+        isOpen={isUsageDashboardOpen}
+        onClose={() => setIsUsageDashboardOpen(false)}
+      />
+      <SyncSettingsModal
+        isOpen={isSyncSettingsOpen}
+        onClose={() => setIsSyncSettingsOpen(false)}
+        onOpenBackup={setPendingBackup}
+      />
+      <RestoreBackupModal
+        backup={pendingBackup}
+        onClose={() => setPendingBackup(null)}
+        onRestored={() => {
+          setPendingBackup(null);
+          alert(t("backup.restored"));
+          window.location.reload();
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,283 @@
+/**
+ * SyncSettingsModal Component
+ *
+ * Configures where data is synced and backed up - Google Drive, a WebDAV
+ * server or an S3-compatible bucket - along with startup sync and scheduled
+ * backups, and lists the backups on the remote for restoring.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { useLanguage } from "@/app/i18n";
+import { getGoogleLoginUrl } from "@/function/data/google-control";
+import { isGoogleDriveConnected } from "@/function/data/google-drive-backend";
+import { backupNow, listRemoteBackups, readRemoteBackup, testSyncBackend } from "@/function/data/sync";
+import { getLastBackupAt, loadSyncSettings, saveSyncSettings } from "@/lib/core/sync-settings";
+import { BackupDocument } from "@/lib/models/backup-model";
+import { RemoteFile, SYNC_BACKEND_TYPES, SyncBackendType, SyncSettings } from "@/lib/models/sync-model";
+
+interface SyncSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenBackup: (backup: BackupDocument) => void;
+}
+
+const WEBDAV_FIELDS = ["url", "username", "password"] as const;
+const S3_FIELDS = ["endpoint", "region", "bucket", "prefix", "accessKeyId", "secretAccessKey"] as const;
+const SECRET_FIELDS: string[] = ["password", "secretAccessKey"];
+
+export default function SyncSettingsModal({ isOpen, onClose, onOpenBackup }: SyncSettingsModalProps) {
+  const { t, fontClass } = useLanguage();
+  const [draft, setDraft] = useState<SyncSettings>(loadSyncSettings);
+  const [status, setStatus] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [backups, setBackups] = useState<RemoteFile[]>([]);
+  const [lastBackupAt, setLastBackupAt] = useState<Date | null>(null);
+
+  const loadBackups = useCallback(async (settings: SyncSettings) => {
+    setLastBackupAt(getLastBackupAt());
+    if (!settings.backend) {
+      setBackups([]);
+      return;
+    }
+    try {
+      setBackups(await listRemoteBackups(settings));
+    } catch (error) {
+      console.error("Failed to list backups:", error);
+      setBackups([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      const settings = loadSyncSettings();
+      setDraft(settings);
+      setStatus("");
+      loadBackups(settings);
+    }
+  }, [isOpen, loadBackups]);
+
+  const run = async (work: () => Promise<string>) => {
+    setBusy(true);
+    setStatus("");
+    try {
+      setStatus(await work());
+    } catch (error) {
+      console.error("Sync settings action failed:", error);
+      setStatus(t("syncSettings.failed").replace("{error}", (error as Error).message));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveSyncSettings(draft);
+    loadBackups(draft);
+    setStatus(t("syncSettings.saved"));
+  };
+
+  const handleTest = () => run(async () => {
+    await testSyncBackend(draft);
+    return t("syncSettings.connected");
+  });
+
+  const handleBackup = () => run(async () => {
+    const snapshot = await backupNow(draft);
+    await loadBackups(draft);
+    return t("syncSettings.backedUp").replace("{name}", snapshot.name);
+  });
+
+  const handleRestore = (name: string) => run(async () => {
+    onOpenBackup(await readRemoteBackup(name, draft));
+    onClose();
+    return "";
+  });
+
+  if (typeof document === "undefined") {
+    return null;
+  }
+
+  const inputClass = "w-full bg-[#292929] border border-[#534741] rounded py-1 px-2 text-sm text-[#f4e8c1] focus:border-[#d1a35c] focus:outline-none transition-colors";
+  const labelClass = `block text-xs text-[#c0a480] mb-1 ${fontClass}`;
+  const buttonClass = "px-3 py-1.5 text-xs text-[#c0a480] border border-[#c0a480] rounded hover:text-[#f9c86d] hover:border-[#f9c86d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+  const renderFields = <K extends "webdav" | "s3">(section: K, fields: readonly (keyof SyncSettings[K] & string)[]) => (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2 mb-3">
+      {fields.map((field) => (
+        <div key={field} className={field === "url" || field === "endpoint" ? "col-span-2" : ""}>
+          <label className={labelClass}>{t(`syncSettings.fields.${field}`)}</label>
+          <input
+            type={SECRET_FIELDS.includes(field) ? "password" : "text"}
+            value={String(draft[section][field])}
+            onChange={(e) => setDraft({ ...draft, [section]: { ...draft[section], [field]: e.target.value } })}
+            autoComplete="off"
+            className={inputClass}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            transition={{ type: "spring", damping: 20, stiffness: 300 }}
+            className="fantasy-bg bg-opacity-75 border border-[#534741] rounded-lg shadow-lg p-4 sm:p-6 w-full max-w-md relative z-10 backdrop-filter backdrop-blur-sm mx-4 max-h-[90vh] overflow-y-auto"
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-2 right-2 sm:top-4 sm:right-4 text-[#a18d6f] hover:text-[#f9c86d] transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+
+            <h1 className="text-xl font-bold text-[#f9c86d] mb-1 font-cinzel">
+              {t("syncSettings.title")}
+            </h1>
+            <p className={`text-xs text-[#a18d6f] mb-4 ${fontClass}`}>
+              {t("syncSettings.description")}
+            </p>
+
+            <label className={labelClass}>{t("syncSettings.backend")}</label>
+            <select
+              value={draft.backend || ""}
+              onChange={(e) => setDraft({ ...draft, backend: (e.target.value || null) as SyncBackendType | null })}
+              className={`${inputClass} mb-3`}
+            >
+              <option value="">{t("syncSettings.backends.none")}</option>
+              {SYNC_BACKEND_TYPES.map((type) => (
+                <option key={type} value={type}>{t(`syncSettings.backends.${type}`)}</option>
+              ))}
+            </select>
+
+            {draft.backend === "googleDrive" && (
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-xs text-[#a18d6f]">
+                  {isGoogleDriveConnected() ? t("syncSettings.googleConnected") : t("syncSettings.googleNotConnected")}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    saveSyncSettings(draft);
+                    window.location.href = getGoogleLoginUrl();
+                  }}
+                  className={buttonClass}
+                >
+                  {t("syncSettings.connectGoogle")}
+                </button>
+              </div>
+            )}
+            {draft.backend === "webdav" && renderFields("webdav", WEBDAV_FIELDS)}
+            {draft.backend === "s3" && renderFields("s3", S3_FIELDS)}
+            {(draft.backend === "webdav" || draft.backend === "s3") && (
+              <p className="text-[10px] text-[#8a8a8a] mb-3">{t("syncSettings.corsHint")}</p>
+            )}
+
+            <label className="flex items-center gap-2 text-xs text-[#c0a480] mb-2">
+              <input
+                type="checkbox"
+                checked={draft.autoSync}
+                onChange={(e) => setDraft({ ...draft, autoSync: e.target.checked })}
+                className="accent-[#d1a35c]"
+              />
+              {t("syncSettings.autoSync")}
+            </label>
+            <label className="flex items-center gap-2 text-xs text-[#c0a480] mb-2">
+              <input
+                type="checkbox"
+                checked={draft.autoBackup}
+                onChange={(e) => setDraft({ ...draft, autoBackup: e.target.checked })}
+                className="accent-[#d1a35c]"
+              />
+              {t("syncSettings.autoBackup")}
+            </label>
+            <div className="grid grid-cols-2 gap-x-3 mb-4">
+              <div>
+                <label className={labelClass}>{t("syncSettings.backupIntervalHours")}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.backupIntervalHours}
+                  onChange={(e) => setDraft({ ...draft, backupIntervalHours: Math.max(1, Number(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t("syncSettings.backupsToKeep")}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.backupsToKeep}
+                  onChange={(e) => setDraft({ ...draft, backupsToKeep: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mb-2">
+              <button type="button" onClick={handleTest} disabled={busy || !draft.backend} className={buttonClass}>
+                {t("syncSettings.test")}
+              </button>
+              <button type="button" onClick={handleSave} disabled={busy} className={buttonClass}>
+                {t("syncSettings.save")}
+              </button>
+            </div>
+            {status && <p className="text-xs text-[#a18d6f] mb-2 break-words">{status}</p>}
+
+            <div className="border-t border-[#534741]/60 pt-3 mt-3">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className={`text-sm text-[#c0a480] ${fontClass}`}>{t("syncSettings.remoteBackups")}</h2>
+                <button type="button" onClick={handleBackup} disabled={busy || !draft.backend} className={buttonClass}>
+                  {t("syncSettings.backupNow")}
+                </button>
+              </div>
+              <p className="text-[10px] text-[#8a8a8a] mb-2">
+                {lastBackupAt
+                  ? t("syncSettings.lastBackup").replace("{date}", lastBackupAt.toLocaleString())
+                  : t("syncSettings.neverBackedUp")}
+              </p>
+              {backups.length === 0 ? (
+                <p className="text-xs text-[#8a8a8a] italic">{t("syncSettings.noBackups")}</p>
+              ) : (
+                <div className="space-y-1">
+                  {backups.map((backup) => (
+                    <div key={backup.name} className="flex items-center justify-between gap-2 bg-[#292929] border border-[#534741]/60 rounded px-2 py-1">
+                      <span className="text-xs text-[#f4e8c1] truncate" title={backup.name}>{backup.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(backup.name)}
+                        disabled={busy}
+                        className="text-[10px] text-[#c0a480] hover:text-[#f9c86d] disabled:opacity-50 transition-colors shrink-0"
+                      >
+                        {t("syncSettings.restore")}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  );
+}
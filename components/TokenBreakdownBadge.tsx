@@ -0,0 +1,89 @@
+/**
+ * TokenBreakdownBadge Component
+ *
+ * A compact, expandable summary of how the prompt for a turn used the context
+ * budget: total tokens against the limit, then per-section usage and how many
+ * items (world book entries, memories, history turns) were dropped to fit.
+ * World book entries cut by the book's own limits are listed by name.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { ContextSection, ContextTokenBreakdown } from "@/lib/core/context-budget";
+import { WorldBookActivation } from "@/lib/core/world-book";
+
+interface Props {
+  breakdown?: ContextTokenBreakdown;
+  worldBookActivation?: WorldBookActivation;
+  fontClass: string;
+  t: (key: string) => string;
+}
+
+const SECTION_ORDER: ContextSection[] = ["preset", "userInput", "worldBook", "memory", "history"];
+
+export default function TokenBreakdownBadge({ breakdown, worldBookActivation, fontClass, t }: Props) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!breakdown) {
+    return null;
+  }
+
+  const usedPercent = breakdown.limit > 0
+    ? Math.min(100, Math.round((breakdown.used / breakdown.limit) * 100))
+    : 0;
+
+  return (
+    <div className={`mt-2 text-[10px] md:text-xs text-[#8a7a6b] ${fontClass}`}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1.5 hover:text-[#c0a480] transition-colors"
+      >
+        <span>{t("characterChat.contextTokens")}</span>
+        <span className="text-[#c0a480]">
+          {breakdown.used.toLocaleString()} / {breakdown.limit.toLocaleString()}
+        </span>
+        <span>({usedPercent}%)</span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-1.5 px-2 py-1.5 bg-[#2a261f]/70 border border-[#534741]/60 rounded-md space-y-0.5">
+          {SECTION_ORDER.filter(section => breakdown.sections[section]).map(section => {
+            const usage = breakdown.sections[section]!;
+            return (
+              <div key={section} className="flex justify-between gap-4">
+                <span>{t(`characterChat.contextSections.${section}`)}</span>
+                <span>
+                  <span className="text-[#c0a480]">{usage.tokens.toLocaleString()}</span>
+                  {usage.dropped > 0 && (
+                    <span className="ml-1.5 text-amber-500/80">
+                      {t("characterChat.contextDropped").replace("{count}", String(usage.dropped))}
+                    </span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+          {worldBookActivation && worldBookActivation.dropped.length > 0 && (
+            <div className="pt-0.5 border-t border-[#534741]/40">
+              <div>{t("characterChat.worldBookDropped")}</div>
+              {worldBookActivation.dropped.map((item, index) => (
+                <div key={`${item.label}-${index}`} className="flex justify-between gap-4 pl-2">
+                  <span className="truncate text-[#c0a480]">{item.label}</span>
+                  <span className="text-amber-500/80 whitespace-nowrap">
+                    {t(`characterChat.worldBookDropReasons.${item.reason}`)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between gap-4 pt-0.5 border-t border-[#534741]/40">
+            <span>{t("characterChat.reservedResponseTokens")}</span>
+            <span>{breakdown.reservedResponseTokens.toLocaleString()}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
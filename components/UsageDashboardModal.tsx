@@ -0,0 +1,267 @@
+/**
+ * UsageDashboardModal Component
+ *
+ * Shows the token usage ledger: totals for the selected range and the current
+ * session, breakdowns per day, per character and per model, and the monthly
+ * budget with its month-to-date spend.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { BarChart3, RefreshCw, Trash2, X } from "lucide-react";
+import { useLanguage } from "@/app/i18n";
+import { UsageLedger } from "@/lib/core/usage-ledger";
+import { UsageTotals } from "@/lib/models/usage-model";
+import { clearUsageLedger, getUsageReport, UsageRange, UsageReport } from "@/function/usage/summary";
+
+interface UsageDashboardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RANGES: UsageRange[] = ["month", "last30Days", "all"];
+
+function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export default function UsageDashboardModal({ isOpen, onClose }: UsageDashboardModalProps) {
+  const { t, fontClass } = useLanguage();
+  const [range, setRange] = useState<UsageRange>("month");
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [budgetInput, setBudgetInput] = useState("");
+
+  const loadReport = async (selectedRange: UsageRange) => {
+    setIsLoading(true);
+    try {
+      const loaded = await getUsageReport(selectedRange);
+      setReport(loaded);
+      setBudgetInput(loaded.monthlyBudget ? String(loaded.monthlyBudget) : "");
+    } catch (error) {
+      console.error("Failed to load usage report:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadReport(range);
+    }
+  }, [isOpen, range]);
+
+  const handleSaveBudget = () => {
+    const budget = parseFloat(budgetInput);
+    UsageLedger.setMonthlyBudget(Number.isFinite(budget) && budget > 0 ? budget : null);
+    loadReport(range);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t("usage.confirmClear"))) {
+      return;
+    }
+    await clearUsageLedger();
+    loadReport(range);
+  };
+
+  const renderTable = (
+    title: string,
+    rows: [string, UsageTotals][],
+    labelFor: (key: string) => string,
+  ) => (
+    <div className="mb-5">
+      <h3 className={`text-sm text-[#c0a480] mb-2 ${fontClass}`}>{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-xs text-[#8a8a8a] italic">{t("usage.noData")}</p>
+      ) : (
+        <table className="w-full text-xs text-[#f4e8c1]">
+          <thead>
+            <tr className="text-[#8a8a8a] border-b border-[#534741]/40">
+              <th className="text-left font-normal py-1"></th>
+              <th className="text-right font-normal py-1">{t("usage.calls")}</th>
+              <th className="text-right font-normal py-1">{t("usage.promptTokens")}</th>
+              <th className="text-right font-normal py-1">{t("usage.completionTokens")}</th>
+              <th className="text-right font-normal py-1">{t("usage.cost")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([key, totals]) => (
+              <tr key={key} className="border-b border-[#534741]/20">
+                <td className="py-1 pr-2 truncate max-w-[180px]" title={labelFor(key)}>{labelFor(key)}</td>
+                <td className="py-1 text-right">{totals.calls}</td>
+                <td className="py-1 text-right">{formatTokens(totals.promptTokens)}</td>
+                <td className="py-1 text-right">{formatTokens(totals.completionTokens)}</td>
+                <td className="py-1 text-right text-[#d1a35c]">{formatCost(totals.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const byCost = (a: [string, UsageTotals], b: [string, UsageTotals]) => b[1].cost - a[1].cost || b[1].totalTokens - a[1].totalTokens;
+  const budgetRatio = report?.monthlyBudget ? report.monthToDateCost / report.monthlyBudget : 0;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0, y: 20 }}
+            transition={{ type: "spring", damping: 25, stiffness: 300 }}
+            className="bg-[#1e1c1b] bg-opacity-90 border border-[#534741]/40 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] overflow-y-auto relative z-10 backdrop-filter backdrop-blur-md mx-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 pb-4">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-gradient-to-br from-[#f4e8c1]/20 to-[#d1a35c]/20 rounded-xl">
+                  <BarChart3 className="w-5 h-5 text-[#f4e8c1]" />
+                </div>
+                <div>
+                  <h2 className={`text-lg font-semibold text-[#f4e8c1] ${fontClass}`}>{t("usage.title")}</h2>
+                  <p className="text-xs text-[#c0a480] opacity-80">{t("usage.description")}</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => loadReport(range)}
+                  disabled={isLoading}
+                  className="p-2 bg-[#534741]/30 hover:bg-[#a18d6f]/40 text-[#f4e8c1] rounded-lg transition-all duration-200 disabled:opacity-50"
+                  title={t("usage.refresh")}
+                >
+                  <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+                </button>
+                <button
+                  onClick={handleClear}
+                  className="p-2 text-red-400 hover:text-red-300 hover:bg-[#534741]/30 rounded-lg transition-all duration-200"
+                  title={t("usage.clear")}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-2 text-[#c0a480] hover:text-[#f4e8c1] hover:bg-[#534741]/30 rounded-lg transition-all duration-200"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="px-6 pb-6">
+              <div className="flex gap-2 mb-4">
+                {RANGES.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setRange(option)}
+                    className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                      range === option
+                        ? "border-[#d1a35c] text-[#d1a35c]"
+                        : "border-[#534741] text-[#8a8a8a] hover:text-[#f4e8c1]"
+                    }`}
+                  >
+                    {t(`usage.ranges.${option}`)}
+                  </button>
+                ))}
+              </div>
+
+              {report && (
+                <>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-5">
+                    {[
+                      { label: t("usage.calls"), value: String(report.total.calls) },
+                      { label: t("usage.totalTokens"), value: formatTokens(report.total.totalTokens) },
+                      { label: t("usage.estimatedCost"), value: formatCost(report.total.cost) },
+                      { label: t("usage.thisSession"), value: `${formatTokens(report.session.totalTokens)} · ${formatCost(report.session.cost)}` },
+                    ].map((card) => (
+                      <div key={card.label} className="bg-[#292929] border border-[#534741]/60 rounded-lg p-3">
+                        <div className="text-[10px] text-[#8a8a8a] mb-1">{card.label}</div>
+                        <div className="text-sm text-[#f4e8c1]">{card.value}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {report.unpricedCalls > 0 && (
+                    <p className="text-[10px] text-[#8a8a8a] mb-4">
+                      {t("usage.unpricedNote").replace("{count}", String(report.unpricedCalls))}
+                    </p>
+                  )}
+
+                  <div className="bg-[#292929] border border-[#534741]/60 rounded-lg p-3 mb-5">
+                    <div className="flex items-center justify-between gap-3 mb-2">
+                      <span className={`text-sm text-[#c0a480] ${fontClass}`}>{t("usage.monthlyBudget")}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-[#8a8a8a]">$</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={budgetInput}
+                          onChange={(e) => setBudgetInput(e.target.value)}
+                          placeholder={t("usage.noBudget")}
+                          className="w-24 bg-[#1e1c1b] border border-[#534741] rounded py-0.5 px-2 text-xs text-[#f4e8c1] focus:border-[#d1a35c] focus:outline-none"
+                        />
+                        <button
+                          onClick={handleSaveBudget}
+                          className="px-2 py-0.5 text-xs text-[#c0a480] border border-[#c0a480] rounded hover:text-[#f9c86d] hover:border-[#f9c86d] transition-colors"
+                        >
+                          {t("usage.saveBudget")}
+                        </button>
+                      </div>
+                    </div>
+                    <div className="text-xs text-[#f4e8c1] mb-1">
+                      {t("usage.monthToDate")}: {formatCost(report.monthToDateCost)}
+                      {report.monthlyBudget ? ` / ${formatCost(report.monthlyBudget)}` : ""}
+                    </div>
+                    {report.monthlyBudget && (
+                      <div className="w-full h-1.5 bg-[#1e1c1b] rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${budgetRatio >= 1 ? "bg-red-500" : budgetRatio >= 0.8 ? "bg-amber-400" : "bg-[#d1a35c]"}`}
+                          style={{ width: `${Math.min(100, budgetRatio * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {renderTable(
+                    t("usage.perDay"),
+                    Object.entries(report.byDay).sort(([a], [b]) => b.localeCompare(a)),
+                    (day) => day,
+                  )}
+                  {renderTable(
+                    t("usage.perCharacter"),
+                    Object.entries(report.byCharacter).sort(byCost),
+                    (characterId) => characterId
+                      ? report.characterNames[characterId] || t("usage.deletedCharacter")
+                      : t("usage.noCharacter"),
+                  )}
+                  {renderTable(
+                    t("usage.perModel"),
+                    Object.entries(report.byModel).sort(byCost),
+                    (model) => model,
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
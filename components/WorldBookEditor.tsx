@@ -6,7 +6,7 @@ import { getWorldBookEntries } from "@/function/worldbook/info";
 import { deleteWorldBookEntry } from "@/function/worldbook/delete";
 import { saveAdvancedWorldBookEntry } from "@/function/worldbook/edit";
 import { bulkToggleWorldBookEntries } from "@/function/worldbook/bulk-operations";
-import { getWorldBookSettings } from "@/function/worldbook/settings";
+import { getWorldBookSettings, updateWorldBookSettings } from "@/function/worldbook/settings";
 import { useLanguage } from "@/app/i18n";
 import WorldBookEntryEditor from "@/components/WorldBookEntryEditor";
 import ImportWorldBookModal from "@/components/ImportWorldBookModal";
@@ -14,6 +14,8 @@ import { Toast } from "@/components/Toast";
 import "@/app/styles/fantasy-ui.css";
 import React from "react";
 import { v4 as uuidv4 } from "uuid";
+import { SelectiveLogic, WorldBookEntryRole } from "@/lib/models/world-book-model";
+import { WorldBookSettings } from "@/lib/data/roleplay/world-book-operation";
 
 // Custom scrollbar styles for the comment section
 const commentScrollbarStyles = `
@@ -46,12 +48,23 @@ interface WorldBookEntryData {
   keys: string[];
   secondary_keys: string[];
   selective: boolean;
+  selectiveLogic: SelectiveLogic;
   constant: boolean;
   position: string | number;
   insertion_order: number;
   enabled: boolean;
   use_regex: boolean;
+  case_sensitive: boolean;
+  match_whole_words: boolean;
+  exclude_recursion: boolean;
+  prevent_recursion: boolean;
+  probability: number;
+  useProbability: boolean;
+  sticky: number;
+  cooldown: number;
+  delay: number;
   depth: number;
+  role: WorldBookEntryRole;
   comment: string;
   tokens?: number;
   extensions?: any;
@@ -74,9 +87,20 @@ interface EditingEntry {
   content: string;
   position: number;
   depth: number;
+  role: WorldBookEntryRole;
   enabled: boolean;
   use_regex: boolean;
   selective: boolean;
+  selectiveLogic: SelectiveLogic;
+  case_sensitive: boolean;
+  match_whole_words: boolean;
+  exclude_recursion: boolean;
+  prevent_recursion: boolean;
+  probability: number;
+  useProbability: boolean;
+  sticky: number;
+  cooldown: number;
+  delay: number;
   constant: boolean;
   insertion_order: number;
 }
@@ -98,10 +122,14 @@ export default function WorldBookEditor({
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [filterBy, setFilterBy] = useState<string>("all");
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState<WorldBookSettings>({
     enabled: true,
+    maxEntries: 5,
     contextWindow: 5,
+    tokenBudget: 0,
+    recursionDepth: 3,
   });
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // ErrorToast state
   const [errorToast, setErrorToast] = useState({
@@ -284,6 +312,28 @@ export default function WorldBookEditor({
     }
   };
 
+  /**
+   * Persists one numeric activation limit; invalid input is reported and the
+   * previous value is kept.
+   */
+  const handleSettingChange = async (
+    key: "maxEntries" | "tokenBudget" | "recursionDepth",
+    value: string,
+  ) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+
+    try {
+      const result = await updateWorldBookSettings(characterId, { [key]: parsed });
+      if (result.success) {
+        setSettings(result.settings);
+      }
+    } catch (error: any) {
+      console.error("Failed to update settings:", error);
+      showErrorToast(error.message || "Failed to update settings");
+    }
+  };
+
   const filterEntries = (entries: WorldBookEntryData[], filterBy: string) => {
     if (filterBy === "all") return entries;
     
@@ -371,10 +421,21 @@ export default function WorldBookEditor({
         secondary_keys: entry.secondary_keys || [],
         content: entry.content || "",
         position: typeof entry.position === "number" ? entry.position : 4,
-        depth: entry.depth || 1,
+        depth: entry.depth ?? 1,
+        role: entry.role || "system",
         enabled: entry.enabled !== false,
         use_regex: entry.use_regex || false,
         selective: entry.selective || false,
+        selectiveLogic: entry.selectiveLogic ?? SelectiveLogic.AND_ANY,
+        case_sensitive: entry.case_sensitive || false,
+        match_whole_words: entry.match_whole_words || false,
+        exclude_recursion: entry.exclude_recursion || false,
+        prevent_recursion: entry.prevent_recursion || false,
+        probability: entry.probability ?? 100,
+        useProbability: entry.useProbability ?? true,
+        sticky: entry.sticky || 0,
+        cooldown: entry.cooldown || 0,
+        delay: entry.delay || 0,
         constant: entry.constant || false,
         insertion_order: entry.insertion_order || 0,
       });
@@ -388,9 +449,20 @@ export default function WorldBookEditor({
         content: "",
         position: 4,
         depth: 1,
+        role: "system",
         enabled: true,
         use_regex: false,
         selective: false,
+        selectiveLogic: SelectiveLogic.AND_ANY,
+        case_sensitive: false,
+        match_whole_words: false,
+        exclude_recursion: false,
+        prevent_recursion: false,
+        probability: 100,
+        useProbability: true,
+        sticky: 0,
+        cooldown: 0,
+        delay: 0,
         constant: false,
         insertion_order: 0,
       });
@@ -416,9 +488,20 @@ export default function WorldBookEditor({
         comment: editingEntry.comment,
         position: editingEntry.position,
         depth: editingEntry.depth,
+        role: editingEntry.role,
         enabled: editingEntry.enabled,
         use_regex: editingEntry.use_regex,
         selective: editingEntry.selective,
+        selectiveLogic: editingEntry.selectiveLogic,
+        case_sensitive: editingEntry.case_sensitive,
+        match_whole_words: editingEntry.match_whole_words,
+        exclude_recursion: editingEntry.exclude_recursion,
+        prevent_recursion: editingEntry.prevent_recursion,
+        probability: editingEntry.probability,
+        useProbability: editingEntry.useProbability,
+        sticky: editingEntry.sticky,
+        cooldown: editingEntry.cooldown,
+        delay: editingEntry.delay,
         constant: editingEntry.constant,
         insertion_order: editingEntry.insertion_order,
       });
@@ -433,12 +516,23 @@ export default function WorldBookEditor({
           keys: editingEntry.keys.filter(k => k.trim()),
           secondary_keys: editingEntry.secondary_keys.filter(k => k.trim()),
           selective: editingEntry.selective,
+          selectiveLogic: editingEntry.selectiveLogic,
           constant: editingEntry.constant,
           position: editingEntry.position,
           insertion_order: editingEntry.insertion_order,
           enabled: editingEntry.enabled,
           use_regex: editingEntry.use_regex,
+          case_sensitive: editingEntry.case_sensitive,
+          match_whole_words: editingEntry.match_whole_words,
+          exclude_recursion: editingEntry.exclude_recursion,
+          prevent_recursion: editingEntry.prevent_recursion,
+          probability: editingEntry.probability,
+          useProbability: editingEntry.useProbability,
+          sticky: editingEntry.sticky,
+          cooldown: editingEntry.cooldown,
+          delay: editingEntry.delay,
           depth: editingEntry.depth,
+          role: editingEntry.role,
           comment: editingEntry.comment,
           tokens: editingEntry.content.length,
           extensions: {},
@@ -701,10 +795,37 @@ export default function WorldBookEditor({
             </button>
           </div>
           
-          <div className="flex items-center space-x-2 text-[10px] sm:text-xs text-[#a18d6f] bg-[#252220] px-1.5 sm:px-2 py-1 rounded border border-[#534741] flex-shrink-0">
+          <button
+            onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+            className="flex items-center space-x-2 text-[10px] sm:text-xs text-[#a18d6f] hover:text-[#eae6db] bg-[#252220] px-1.5 sm:px-2 py-1 rounded border border-[#534741] flex-shrink-0 transition-colors duration-300"
+          >
             <span className="whitespace-nowrap">{t("worldBook.contextWindow")} {settings.contextWindow}</span>
-          </div>
+            <span className="whitespace-nowrap">{t("worldBook.maxEntries")} {settings.maxEntries || t("worldBook.unlimited")}</span>
+          </button>
         </div>
+
+        {isSettingsOpen && (
+          <div className={`relative z-10 mt-2 grid grid-cols-1 sm:grid-cols-3 gap-2 text-[10px] sm:text-xs text-[#a18d6f] ${serifFontClass}`}>
+            {([
+              { key: "maxEntries", min: 0, max: 50, hint: t("worldBook.unlimitedHint") },
+              { key: "tokenBudget", min: 0, max: undefined, hint: t("worldBook.unlimitedHint") },
+              { key: "recursionDepth", min: 0, max: 10, hint: t("worldBook.recursionDepthHint") },
+            ] as const).map(({ key, min, max, hint }) => (
+              <label key={key} className="flex flex-col gap-1" title={hint}>
+                <span>{t(`worldBook.settingsLabels.${key}`)}</span>
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  defaultValue={settings[key]}
+                  key={`${key}-${settings[key]}`}
+                  onBlur={(e) => handleSettingChange(key, e.target.value)}
+                  className="bg-[#1a1816] border border-[#534741] rounded px-2 py-1 text-[#eae6db] focus:outline-none focus:border-amber-500/60"
+                />
+              </label>
+            ))}
+          </div>
+        )}
       </div>
       {/* Sort and Filter Controls - Sticky Position */}
       <div className="sticky top-0 z-20 bg-[#1a1816] border-b border-[#534741]/40 p-2 sm:p-3">
@@ -2,6 +2,7 @@
 
 import { useLanguage } from "@/app/i18n";
 import { useState, useRef, useEffect } from "react";
+import { SelectiveLogic, WorldBookEntryRole } from "@/lib/models/world-book-model";
 
 interface EditingEntry {
   entry_id: string;
@@ -12,9 +13,20 @@ interface EditingEntry {
   content: string;
   position: number;
   depth: number;
+  role: WorldBookEntryRole;
   enabled: boolean;
   use_regex: boolean;
   selective: boolean;
+  selectiveLogic: SelectiveLogic;
+  case_sensitive: boolean;
+  match_whole_words: boolean;
+  exclude_recursion: boolean;
+  prevent_recursion: boolean;
+  probability: number;
+  useProbability: boolean;
+  sticky: number;
+  cooldown: number;
+  delay: number;
   constant: boolean;
   insertion_order: number;
 }
@@ -191,13 +203,28 @@ export default function WorldBookEntryEditor({
                   </svg>
                   <span>{t("worldBook.addKeyword")}</span>
                 </button>
+                <p className={`text-xs text-[#a18d6f]/70 ${fontClass}`}>{t("worldBook.regexKeyHint")}</p>
               </div>
             </div>
 
             <div className="space-y-3">
-              <label className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}>
-                {t("worldBook.secondaryKeywords")}
-              </label>
+              <div className="flex items-center justify-between gap-3">
+                <label className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}>
+                  {t("worldBook.secondaryKeywords")}
+                </label>
+                <select
+                  value={editingEntry.selectiveLogic}
+                  disabled={!editingEntry.selective}
+                  onChange={(e) => onEntryChange({ ...editingEntry, selectiveLogic: Number(e.target.value) as SelectiveLogic })}
+                  title={t("worldBook.selectiveLogic")}
+                  className={`bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-2 py-1.5 text-xs text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-300 disabled:opacity-50 ${fontClass}`}
+                >
+                  <option value={SelectiveLogic.AND_ANY}>{t("worldBook.selectiveLogicOptions.andAny")}</option>
+                  <option value={SelectiveLogic.AND_ALL}>{t("worldBook.selectiveLogicOptions.andAll")}</option>
+                  <option value={SelectiveLogic.NOT_ANY}>{t("worldBook.selectiveLogicOptions.notAny")}</option>
+                  <option value={SelectiveLogic.NOT_ALL}>{t("worldBook.selectiveLogicOptions.notAll")}</option>
+                </select>
+              </div>
               <div className="space-y-2">
                 {editingEntry.secondary_keys.map((key, index) => (
                   <div key={index} className="flex items-center space-x-2 group">
@@ -254,15 +281,68 @@ export default function WorldBookEntryEditor({
                 <label className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}>
                   {t("worldBook.depthLabel")}
                 </label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    value={editingEntry.depth}
+                    onChange={(e) => onEntryChange({ ...editingEntry, depth: Number(e.target.value) })}
+                    className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm ${fontClass}`}
+                  />
+                  <select
+                    value={editingEntry.role}
+                    onChange={(e) => onEntryChange({ ...editingEntry, role: e.target.value as WorldBookEntryRole })}
+                    disabled={editingEntry.position !== 4}
+                    title={t("worldBook.depthRoleLabel")}
+                    className={`bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 disabled:cursor-not-allowed ${fontClass}`}
+                  >
+                    <option value="system">{t("worldBook.roleOptions.system")}</option>
+                    <option value="user">{t("worldBook.roleOptions.user")}</option>
+                    <option value="assistant">{t("worldBook.roleOptions.assistant")}</option>
+                  </select>
+                </div>
+                {editingEntry.position === 4 && (
+                  <p className={`text-xs text-[#a18d6f]/70 ${fontClass}`}>{t("worldBook.depthHint")}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label className={`flex items-center gap-2 text-sm font-medium text-[#c0a480] ${fontClass}`}>
+                  <input
+                    type="checkbox"
+                    checked={editingEntry.useProbability}
+                    onChange={(e) => onEntryChange({ ...editingEntry, useProbability: e.target.checked })}
+                    className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-amber-500 focus:ring-amber-500/50 focus:ring-2 transition-all duration-300"
+                  />
+                  {t("worldBook.probabilityLabel")}
+                </label>
                 <input
                   type="number"
                   min="0"
-                  max="10"
-                  value={editingEntry.depth}
-                  onChange={(e) => onEntryChange({ ...editingEntry, depth: Number(e.target.value) })}
-                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm ${fontClass}`}
+                  max="100"
+                  value={editingEntry.probability}
+                  disabled={!editingEntry.useProbability}
+                  onChange={(e) => onEntryChange({ ...editingEntry, probability: Number(e.target.value) })}
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
                 />
               </div>
+              {(["sticky", "cooldown", "delay"] as const).map((field) => (
+                <div key={field} className="space-y-2">
+                  <label className={`block text-sm font-medium text-[#c0a480] ${fontClass}`} title={t(`worldBook.timedEffectHints.${field}`)}>
+                    {t(`worldBook.timedEffectLabels.${field}`)}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editingEntry[field]}
+                    onChange={(e) => onEntryChange({ ...editingEntry, [field]: Number(e.target.value) })}
+                    className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm ${fontClass}`}
+                  />
+                </div>
+              ))}
             </div>
             
             <div className="grid grid-cols-2 gap-3">
@@ -305,6 +385,46 @@ export default function WorldBookEntryEditor({
                 />
                 <span className="text-sm text-[#eae6db] group-hover:text-purple-200 transition-colors duration-300">{t("worldBook.constantLabel")}</span>
               </label>
+
+              <label className={`flex items-center space-x-3 cursor-pointer p-3 rounded-lg bg-[#252220]/40 border border-[#534741]/40 hover:bg-[#252220]/60 hover:border-[#534741]/60 transition-all duration-300 group ${fontClass}`}>
+                <input
+                  type="checkbox"
+                  checked={editingEntry.case_sensitive}
+                  onChange={(e) => onEntryChange({ ...editingEntry, case_sensitive: e.target.checked })}
+                  className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-amber-500 focus:ring-amber-500/50 focus:ring-2 transition-all duration-300"
+                />
+                <span className="text-sm text-[#eae6db] group-hover:text-amber-200 transition-colors duration-300">{t("worldBook.caseSensitiveLabel")}</span>
+              </label>
+
+              <label className={`flex items-center space-x-3 cursor-pointer p-3 rounded-lg bg-[#252220]/40 border border-[#534741]/40 hover:bg-[#252220]/60 hover:border-[#534741]/60 transition-all duration-300 group ${fontClass}`}>
+                <input
+                  type="checkbox"
+                  checked={editingEntry.match_whole_words}
+                  onChange={(e) => onEntryChange({ ...editingEntry, match_whole_words: e.target.checked })}
+                  className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-blue-500 focus:ring-blue-500/50 focus:ring-2 transition-all duration-300"
+                />
+                <span className="text-sm text-[#eae6db] group-hover:text-blue-200 transition-colors duration-300">{t("worldBook.wholeWordsLabel")}</span>
+              </label>
+
+              <label className={`flex items-center space-x-3 cursor-pointer p-3 rounded-lg bg-[#252220]/40 border border-[#534741]/40 hover:bg-[#252220]/60 hover:border-[#534741]/60 transition-all duration-300 group ${fontClass}`}>
+                <input
+                  type="checkbox"
+                  checked={editingEntry.exclude_recursion}
+                  onChange={(e) => onEntryChange({ ...editingEntry, exclude_recursion: e.target.checked })}
+                  className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-green-500 focus:ring-green-500/50 focus:ring-2 transition-all duration-300"
+                />
+                <span className="text-sm text-[#eae6db] group-hover:text-green-200 transition-colors duration-300">{t("worldBook.excludeRecursionLabel")}</span>
+              </label>
+
+              <label className={`flex items-center space-x-3 cursor-pointer p-3 rounded-lg bg-[#252220]/40 border border-[#534741]/40 hover:bg-[#252220]/60 hover:border-[#534741]/60 transition-all duration-300 group ${fontClass}`}>
+                <input
+                  type="checkbox"
+                  checked={editingEntry.prevent_recursion}
+                  onChange={(e) => onEntryChange({ ...editingEntry, prevent_recursion: e.target.checked })}
+                  className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-purple-500 focus:ring-purple-500/50 focus:ring-2 transition-all duration-300"
+                />
+                <span className="text-sm text-[#eae6db] group-hover:text-purple-200 transition-colors duration-300">{t("worldBook.preventRecursionLabel")}</span>
+              </label>
             </div>
 
             <div className="space-y-3">
@@ -1,14 +1,22 @@
-import { exportAllData, importAllData } from "@/lib/data/local-storage";
+import { BackupOperations } from "@/lib/data/backup/backup-operation";
+import { decodeBackup, encodeBackup } from "@/lib/data/backup/backup-archive";
+import { snapshotFileName } from "@/lib/data/sync/sync-snapshots";
+import {
+  BACKUP_EXTRA_SECTIONS,
+  BackupDocument,
+  RestoreMode,
+  RestoreReport,
+  RestoreSelection,
+} from "@/lib/models/backup-model";
 
 /**
- * Export all data from IndexedDB to a JSON file
- * @returns {Promise<Blob>} A blob containing the exported data
+ * Export all data from IndexedDB to a backup zip
+ * @returns {Promise<Blob>} A blob containing the backup archive
  */
 export async function exportDataToFile(): Promise<Blob> {
   try {
-    const data = await exportAllData();
-    const jsonString = JSON.stringify(data);
-    return new Blob([jsonString], { type: "application/json" });
+    const backup = await BackupOperations.createBackup();
+    return new Blob([encodeBackup(backup)], { type: "application/zip" });
   } catch (error) {
     console.error("Export failed:", error);
     throw new Error("Export failed");
@@ -16,18 +24,37 @@ export async function exportDataToFile(): Promise<Blob> {
 }
 
 /**
- * Import data from a JSON file to IndexedDB
- * @param {File} file - The JSON file to import
- * @returns {Promise<void>}
+ * Read a backup zip, or a JSON export from an older version, without restoring anything
+ * @param {Blob} file - The backup file
+ * @returns {Promise<BackupDocument>} The validated backup, migrated to the current version
  */
-export async function importDataFromFile(file: File): Promise<void> {
+export async function readBackupFile(file: Blob): Promise<BackupDocument> {
+  return decodeBackup(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * A selection covering everything in a backup, restored with the same mode
+ */
+export function selectEntireBackup(backup: BackupDocument, mode: RestoreMode): RestoreSelection {
+  const all = (ids: string[]) => Object.fromEntries(ids.map((id) => [id, mode]));
+  return {
+    characters: all(backup.characters.map((character) => character.record.id)),
+    presets: all(backup.presets.map((preset) => preset.id)),
+    regexSets: all(backup.regexSets.map((regexSet) => regexSet.ownerId)),
+    worldBooks: all(backup.worldBooks.map((worldBook) => worldBook.ownerId)),
+    extras: all(BACKUP_EXTRA_SECTIONS.filter((section) => backup.extras[section])),
+  };
+}
+
+/**
+ * Restore the selected entities of a backup into IndexedDB
+ */
+export async function restoreBackup(backup: BackupDocument, selection: RestoreSelection): Promise<RestoreReport> {
   try {
-    const text = await file.text();
-    const data = JSON.parse(text);
-    await importAllData(data);
+    return await BackupOperations.restoreBackup(backup, selection);
   } catch (error) {
-    console.error("Import failed:", error);
-    throw new Error("Import failed");
+    console.error("Restore failed:", error);
+    throw new Error("Restore failed");
   }
 }
 
@@ -36,8 +63,7 @@ export async function importDataFromFile(file: File): Promise<void> {
  * @returns {string} The generated filename
  */
 export function generateExportFilename(): string {
-  const date = new Date();
-  return `narratium-backup-${date.toISOString().split("T")[0]}_${date.getTime()}.json`;
+  return snapshotFileName(new Date());
 }
 
 /**
@@ -54,4 +80,4 @@ export function downloadFile(blob: Blob, filename: string): void {
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
-} 
+}
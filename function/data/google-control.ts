@@ -1,5 +1,3 @@
-import { createRequest } from "@/function/data/google-request";
-
 const login_url = "https://accounts.google.com/o/oauth2/v2/auth";
 const token_url = "https://oauth2.googleapis.com/token";
 const refresh_token_url = "https://oauth2.googleapis.com/token";
@@ -72,7 +70,7 @@ export async function getGoogleCodeByUrl(url: Location) {
           localStorage.setItem("google_drive_refresh_token", res.refresh_token);
 
           window.location.replace(window.location.origin);
-          alert("Google 授权成功！请再次导出数据至谷歌！");
+          alert("Google 授权成功！");
         } else {
           console.error("Get Google token Error");
         }
@@ -83,66 +81,3 @@ export async function getGoogleCodeByUrl(url: Location) {
     }
   }
 }
-
-export async function backupToGoogle(info: { blob: Blob, filename: string, folderId: string }) {  
-  const formData = new FormData();
-  const metadata = {
-    name: info.filename,
-    parents: [info.folderId], // 关键：指定目标文件夹ID
-  };
-  const file = new File([info.blob], info.filename, { type: "application/json" });
-  formData.append("metadata", new Blob([JSON.stringify(metadata)], { type: "application/json" }));
-  formData.append("file", file);
-  await createRequest("https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart", {
-    method: "POST",
-    body: formData,
-  });
-}
-
-export async function getFolderList() {
-  const url = getGoogleAjaxUrl("https://www.googleapis.com/drive/v3/files", {
-    pageSize: "10",
-    fields: "files(id, name, mimeType, createdTime)",
-    q: "mimeType='application/vnd.google-apps.folder' and name = 'NarratiumBackup'",
-  });
-  const res = await createRequest<{ files: any[] }>(url, {});
-  if(res.files.length) {
-    const folder = res.files[0];
-    return folder;
-  } else {
-    return await createDefaultFolder();
-  }
-}
-
-async function createDefaultFolder() {
-  return await createRequest("https://www.googleapis.com/drive/v3/files", {
-    method: "POST",
-    body: JSON.stringify({
-      name: "NarratiumBackup",
-      mimeType: "application/vnd.google-apps.folder",
-      parents: ["root"], // 关键：设置为root表示根目录
-    }),
-  });
-}
-
-export async function getBackUpFile(folderId:string) {
-  const url = getGoogleAjaxUrl("https://www.googleapis.com/drive/v3/files", {
-    q: `'${folderId}' in parents`,  // 核心：按父文件夹ID筛选
-    fields: "files(id, name, mimeType, modifiedTime, size, webViewLink)",
-    pageSize: "10", // 最大允许值
-    orderBy: "createdTime desc",
-  });
-  const res = await createRequest<{ files: any[] }>(url, {});
-  if(res?.files?.[0]) {
-    const blob = await fetch(`https://www.googleapis.com/drive/v3/files/${res.files[0].id}?alt=media`, {
-      headers: {
-        "Authorization": "Bearer " + localStorage.getItem("google_drive_token"),
-      },
-    }).then(res => res.blob());
-    const file = new File([blob], "backup.json", { type: "application/json" });
-    return file;
-  } else {
-    alert("没有备份文件，请先导出数据！");
-    return false;
-  }
-}
@@ -0,0 +1,137 @@
+import { getGoogleAjaxUrl, refreshGoogleToken } from "@/function/data/google-control";
+import { RemoteFile, SyncBackend } from "@/lib/models/sync-model";
+
+const DRIVE_FILES_URL = "https://www.googleapis.com/drive/v3/files";
+const DRIVE_UPLOAD_URL = "https://www.googleapis.com/upload/drive/v3/files";
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+/**
+ * Fetch with the stored Drive token, refreshing it once if it has expired
+ */
+async function driveFetch(url: string, init: RequestInit = {}, retried = false): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...init.headers, Authorization: "Bearer " + localStorage.getItem("google_drive_token") },
+  });
+  if (response.status === 401 && !retried) {
+    const data = await refreshGoogleToken();
+    if (data?.access_token) {
+      localStorage.setItem("google_drive_token", data.access_token);
+      return driveFetch(url, init, true);
+    }
+  }
+  if (!response.ok) {
+    throw new Error(`Google Drive request failed with status ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Backend over one folder in the Drive root. Drive bumps a file's `version`
+ * on every change, which serves as its revision.
+ * @param {string} folderName - Name of the folder in the Drive root
+ */
+export function createGoogleDriveBackend(folderName: string): SyncBackend {
+  let folderId: string | null = null;
+  const fileIds = new Map<string, string>();
+
+  async function getFolderId(): Promise<string> {
+    if (folderId) {
+      return folderId;
+    }
+    const query = getGoogleAjaxUrl(DRIVE_FILES_URL, {
+      q: `mimeType='${FOLDER_MIME_TYPE}' and name='${folderName}' and trashed=false`,
+      fields: "files(id)",
+    });
+    const { files } = await (await driveFetch(query)).json();
+    if (files?.[0]?.id) {
+      folderId = files[0].id as string;
+      return folderId;
+    }
+
+    const created = await driveFetch(DRIVE_FILES_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: folderName, mimeType: FOLDER_MIME_TYPE, parents: ["root"] }),
+    });
+    folderId = (await created.json()).id as string;
+    return folderId;
+  }
+
+  async function list(): Promise<RemoteFile[]> {
+    const parent = await getFolderId();
+    const files: RemoteFile[] = [];
+    fileIds.clear();
+    let pageToken = "";
+    do {
+      const url = getGoogleAjaxUrl(DRIVE_FILES_URL, {
+        q: `'${parent}' in parents and trashed=false`,
+        fields: "nextPageToken, files(id, name, version)",
+        pageSize: "1000",
+        ...(pageToken ? { pageToken } : {}),
+      });
+      const page = await (await driveFetch(url)).json();
+      for (const file of page.files || []) {
+        fileIds.set(file.name, file.id);
+        files.push({ name: file.name, revision: String(file.version) });
+      }
+      pageToken = page.nextPageToken || "";
+    } while (pageToken);
+    return files;
+  }
+
+  // Drive addresses files by id, so names are looked up in the last listing
+  async function fileId(name: string): Promise<string> {
+    if (!fileIds.has(name)) {
+      await list();
+    }
+    const id = fileIds.get(name);
+    if (!id) {
+      throw new Error(`File ${name} is not in the ${folderName} folder`);
+    }
+    return id;
+  }
+
+  return {
+    id: `google-drive:${folderName}`,
+    list,
+
+    async read(name: string): Promise<Uint8Array> {
+      const response = await driveFetch(`${DRIVE_FILES_URL}/${await fileId(name)}?alt=media`);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    async write(name: string, data: Uint8Array): Promise<RemoteFile> {
+      const content = new Blob([data]);
+      const existingId = fileIds.get(name);
+      let response: Response;
+      if (existingId) {
+        response = await driveFetch(`${DRIVE_UPLOAD_URL}/${existingId}?uploadType=media&fields=id,version`, {
+          method: "PATCH",
+          body: content,
+        });
+      } else {
+        const formData = new FormData();
+        const metadata = { name, parents: [await getFolderId()] };
+        formData.append("metadata", new Blob([JSON.stringify(metadata)], { type: "application/json" }));
+        formData.append("file", content);
+        response = await driveFetch(`${DRIVE_UPLOAD_URL}?uploadType=multipart&fields=id,version`, {
+          method: "POST",
+          body: formData,
+        });
+      }
+      const file = await response.json();
+      fileIds.set(name, file.id);
+      return { name, revision: String(file.version) };
+    },
+
+    async remove(name: string): Promise<void> {
+      await driveFetch(`${DRIVE_FILES_URL}/${await fileId(name)}`, { method: "DELETE" });
+      fileIds.delete(name);
+    },
+  };
+}
+
+export function isGoogleDriveConnected(): boolean {
+  return !!localStorage.getItem("google_drive_token");
+}
@@ -0,0 +1,105 @@
+import { createGoogleDriveBackend, isGoogleDriveConnected } from "@/function/data/google-drive-backend";
+import { decodeBackup } from "@/lib/data/backup/backup-archive";
+import { S3Backend } from "@/lib/data/sync/s3-backend";
+import { SyncEngine } from "@/lib/data/sync/sync-engine";
+import { createSnapshot, listSnapshots } from "@/lib/data/sync/sync-snapshots";
+import { WebDavBackend } from "@/lib/data/sync/webdav-backend";
+import { isBackupDue, loadSyncSettings, setLastBackupAt } from "@/lib/core/sync-settings";
+import { BackupDocument } from "@/lib/models/backup-model";
+import { RemoteFile, SyncArea, SyncBackend, SyncReport, SyncSettings } from "@/lib/models/sync-model";
+
+// Drive folders by area; snapshots go where manual Drive backups always went
+const DRIVE_FOLDERS: Record<SyncArea, string> = {
+  sync: "NarratiumSync",
+  snapshots: "NarratiumBackup",
+};
+
+/**
+ * The configured backend's folder for one area
+ * @throws When no backend is configured or its settings are incomplete
+ */
+export function createSyncBackend(settings: SyncSettings, area: SyncArea): SyncBackend {
+  switch (settings.backend) {
+  case "googleDrive":
+    if (!isGoogleDriveConnected()) {
+      throw new Error("Google Drive is not connected");
+    }
+    return createGoogleDriveBackend(DRIVE_FOLDERS[area]);
+  case "webdav":
+    if (!settings.webdav.url) {
+      throw new Error("WebDAV URL is required");
+    }
+    return new WebDavBackend(settings.webdav, area);
+  case "s3":
+    if (!settings.s3.endpoint || !settings.s3.bucket) {
+      throw new Error("S3 endpoint and bucket are required");
+    }
+    return new S3Backend(settings.s3, area);
+  default:
+    throw new Error("No sync backend is configured");
+  }
+}
+
+/**
+ * Check that the backend is reachable with the given settings
+ */
+export async function testSyncBackend(settings: SyncSettings): Promise<void> {
+  await createSyncBackend(settings, "sync").list();
+}
+
+/**
+ * Sync all local data with the configured backend
+ * @returns {Promise<SyncReport>} What was pulled, pushed, deleted and merged
+ */
+export async function syncNow(settings: SyncSettings = loadSyncSettings()): Promise<SyncReport> {
+  return new SyncEngine(createSyncBackend(settings, "sync")).sync();
+}
+
+/**
+ * Upload a full backup snapshot and delete the oldest beyond the number kept
+ */
+export async function backupNow(settings: SyncSettings = loadSyncSettings()): Promise<RemoteFile> {
+  const now = new Date();
+  const snapshot = await createSnapshot(createSyncBackend(settings, "snapshots"), settings.backupsToKeep, now);
+  setLastBackupAt(now);
+  return snapshot;
+}
+
+export async function listRemoteBackups(settings: SyncSettings = loadSyncSettings()): Promise<RemoteFile[]> {
+  return listSnapshots(createSyncBackend(settings, "snapshots"));
+}
+
+/**
+ * Download a snapshot for restoring, without restoring anything yet
+ */
+export async function readRemoteBackup(name: string, settings: SyncSettings = loadSyncSettings()): Promise<BackupDocument> {
+  return decodeBackup(await createSyncBackend(settings, "snapshots").read(name));
+}
+
+/**
+ * Run the backup if the schedule says one is due
+ * @returns {Promise<boolean>} Whether a backup was made
+ */
+export async function runScheduledBackup(now: Date = new Date()): Promise<boolean> {
+  const settings = loadSyncSettings();
+  if (!isBackupDue(settings, now)) {
+    return false;
+  }
+  await backupNow(settings);
+  return true;
+}
+
+/**
+ * Startup work: sync when enabled, then any due backup
+ * @returns {Promise<SyncReport | null>} The sync report, or null if sync is off
+ */
+export async function runStartupSync(): Promise<SyncReport | null> {
+  const settings = loadSyncSettings();
+  const report = settings.backend && settings.autoSync ? await syncNow(settings) : null;
+  try {
+    await runScheduledBackup();
+  } catch (error) {
+    console.error("Scheduled backup failed:", error);
+  }
+  return report;
+}
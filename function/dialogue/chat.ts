@@ -1,84 +1,95 @@
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import { WorldBookTimedState } from "@/lib/models/world-book-model";
+import { TurnTrace } from "@/lib/models/turn-trace-model";
+import { GeminiSafetySetting, LLMEndpoint, LLMResponder, LLMType } from "@/lib/models/llm-provider-model";
 import { DialogueWorkflow, DialogueWorkflowParams } from "@/lib/workflow/examples/DialogueWorkflow";
 import { getCurrentSystemPresetType } from "@/function/preset/download";
+import { RegexNodeTools } from "@/lib/nodeflow/RegexNode/RegexNodeTools";
+import { NodeExecutionStatus } from "@/lib/nodeflow/types";
+import { SamplerProfileOperations } from "@/lib/data/roleplay/sampler-profile-operation";
 
 export async function handleCharacterChatRequest(payload: {
   username?: string;
   characterId: string;
+  dialogueId: string;
   message: string;
   modelName: string;
   baseUrl: string;
   apiKey: string;
   llmType?: string;
+  fallbacks?: LLMEndpoint[];
+  safetySettings?: GeminiSafetySetting[];
+  samplerProfileId?: string;
   streaming?: boolean;
   language?: "zh" | "en";
   number?: number;
   nodeId: string;
   fastModel: boolean;
+  maxContextTokens?: number;
+  reservedResponseTokens?: number;
+  signal?: AbortSignal;
 }): Promise<Response> {
   try {
     const {
       username,
       characterId,
+      dialogueId,
       message,
       modelName,
       baseUrl,
       apiKey,
       llmType = "openai",
+      fallbacks,
+      safetySettings,
+      samplerProfileId,
       language = "zh",
       number = 200,
       nodeId,
       fastModel = false,
+      streaming = false,
+      maxContextTokens,
+      reservedResponseTokens,
+      signal,
     } = payload;
 
-    if (!characterId || !message) {
+    if (!characterId || !dialogueId || !message) {
       return new Response(JSON.stringify({ error: "Missing required parameters" }), { status: 400 });
     }
 
-    try {
-      const workflow = new DialogueWorkflow();
-      const workflowParams: DialogueWorkflowParams = {
-        characterId,
-        userInput: message,
-        language,
-        username,
-        modelName,
-        apiKey,
-        baseUrl,
-        llmType: llmType as "openai" | "ollama",
-        temperature: 0.7,
-        streaming: false,
-        streamUsage: true, // 确保token usage追踪
-        number,
-        fastModel,  
-        systemPresetType: getCurrentSystemPresetType(),
-      };
-      const workflowResult = await workflow.execute(workflowParams);
-      
-      if (!workflowResult || !workflowResult.outputData) {
-        throw new Error("No response returned from workflow");
-      }
+    // The character's own sampler profile takes precedence over the API config's
+    const samplerSettings = await SamplerProfileOperations.resolveSettings(characterId, samplerProfileId);
 
-      const {
-        thinkingContent,
-        screenContent,
-        fullResponse,
-        nextPrompts,
-        event,
-      } = workflowResult.outputData;
+    const workflowParams: DialogueWorkflowParams = {
+      characterId,
+      dialogueId,
+      userInput: message,
+      language,
+      username,
+      modelName,
+      apiKey,
+      baseUrl,
+      llmType: llmType as LLMType,
+      fallbacks,
+      safetySettings,
+      ...samplerSettings,
+      streaming,
+      streamUsage: true, // 确保token usage追踪
+      number,
+      fastModel,  
+      systemPresetType: getCurrentSystemPresetType(),
+      maxContextTokens,
+      reservedResponseTokens,
+    };
 
-      await processPostResponseAsync({ characterId, message, thinkingContent, fullResponse, screenContent, event, nextPrompts, nodeId })
-        .catch((e) => console.error("Post-processing error:", e));
+    if (streaming) {
+      return createStreamingResponse(workflowParams, { dialogueId, message, nodeId, signal });
+    }
 
-      return new Response(JSON.stringify({
-        type: "complete",
-        success: true,
-        thinkingContent,
-        content: screenContent,
-        parsedContent: { nextPrompts },
-        isRegexProcessed: true,
-      }), {
+    try {
+      const result = await runDialogueWorkflow(workflowParams, { dialogueId, message, nodeId, signal });
+
+      return new Response(JSON.stringify(result), {
         headers: {
           "Content-Type": "application/json",
         },
@@ -109,8 +120,123 @@ export async function handleCharacterChatRequest(payload: {
   }
 }
 
+interface ChatTurnParams {
+  dialogueId: string;
+  message: string;
+  nodeId: string;
+  signal?: AbortSignal;
+}
+
+async function runDialogueWorkflow(
+  workflowParams: DialogueWorkflowParams,
+  { dialogueId, message, nodeId, signal }: ChatTurnParams,
+) {
+  const workflow = new DialogueWorkflow();
+  const workflowResult = await workflow.execute(workflowParams, { signal });
+
+  // A cancelled turn never reaches the dialogue tree
+  if (workflowResult?.status === NodeExecutionStatus.CANCELLED || signal?.aborted) {
+    return {
+      type: "cancelled",
+      success: false,
+    };
+  }
+  
+  if (!workflowResult || !workflowResult.outputData) {
+    throw workflowResult?.error || new Error("No response returned from workflow");
+  }
+
+  const {
+    thinkingContent,
+    screenContent,
+    fullResponse,
+    nextPrompts,
+    event,
+    tokenBreakdown,
+    worldBookActivation,
+    worldBookState,
+    appliedScripts,
+    respondedBy,
+    macroContext,
+  } = workflowResult.outputData;
+
+  const trace: TurnTrace = {
+    worldBook: worldBookActivation ?? { activated: [], dropped: [] },
+    regexScripts: appliedScripts ?? [],
+  };
+
+  await processPostResponseAsync({
+    dialogueId, message, thinkingContent, fullResponse, screenContent, event, nextPrompts, nodeId, worldBookState, trace, respondedBy,
+    macroVariables: macroContext?.variables,
+  })
+    .catch((e) => console.error("Post-processing error:", e));
+
+  return {
+    type: "complete",
+    success: true,
+    thinkingContent,
+    content: screenContent,
+    parsedContent: { nextPrompts },
+    tokenBreakdown,
+    trace,
+    respondedBy,
+  };
+}
+
+/**
+ * Streams the workflow as newline-delimited JSON: a series of
+ * `{ type: "chunk" }` previews followed by one `complete`, `cancelled` or `error` event.
+ * Like the final content, chunk previews carry the raw text (with
+ * think/next_prompts/events markup removed); regex scripts apply when it is rendered.
+ */
+function createStreamingResponse(
+  workflowParams: DialogueWorkflowParams,
+  postParams: ChatTurnParams,
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, any>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const result = await runDialogueWorkflow({
+          ...workflowParams,
+          onStreamChunk: (_chunk, accumulated) => {
+            if (postParams.signal?.aborted) return;
+            const preview = RegexNodeTools.extractStreamingPreview(accumulated);
+            send({
+              type: "chunk",
+              thinkingContent: preview.thinkingContent,
+              content: preview.screenContent,
+            });
+          },
+        }, postParams);
+        send(result);
+      } catch (error: any) {
+        console.error("Processing error:", error);
+        send({
+          type: "error",
+          message: error.message || "Unknown error",
+          success: false,
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+    },
+  });
+}
+
 async function processPostResponseAsync({
-  characterId,
+  dialogueId,
   message,
   thinkingContent,
   fullResponse,
@@ -118,8 +244,12 @@ async function processPostResponseAsync({
   event,
   nextPrompts,
   nodeId,
+  worldBookState,
+  trace,
+  respondedBy,
+  macroVariables,
 }: {
-  characterId: string;
+  dialogueId: string;
   message: string;
   thinkingContent: string;
   fullResponse: string;
@@ -127,41 +257,102 @@ async function processPostResponseAsync({
   event: string;
   nextPrompts: string[];
   nodeId: string;
+  worldBookState?: WorldBookTimedState;
+  trace?: TurnTrace;
+  respondedBy?: LLMResponder;
+  macroVariables?: Record<string, string>;
 }) {
   try {
+    // Stored raw: display and prompt regex scripts run when the chat is shown or sent
     const parsed: ParsedResponse = {
-      regexResult: screenContent,
       nextPrompts,
     };
-    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
-    const parentNodeId = dialogueTree ? dialogueTree.current_nodeId : "root";
-    await LocalCharacterDialogueOperations.addNodeToDialogueTree(
-      characterId,
-      parentNodeId,
-      message,
-      screenContent,
+    // A single write that hangs the node under whichever node is current when it lands,
+    // so edits or other replies in flight cannot overwrite it
+    await LocalCharacterDialogueOperations.appendToCurrentBranch(dialogueId, {
+      nodeId,
+      userInput: message,
+      assistantResponse: screenContent,
       fullResponse,
       thinkingContent,
-      parsed,
-      nodeId,
-    );
-
-    if (event) {
-      const updatedDialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
-      if (updatedDialogueTree) {
-        await LocalCharacterDialogueOperations.updateNodeInDialogueTree(
-          characterId,
-          nodeId,
-          {
-            parsedContent: {
-              ...parsed,
-              compressedContent: event,
-            },
-          },
-        );
-      }
-    }
+      parsedContent: event ? { ...parsed, compressedContent: event } : parsed,
+      worldBookState,
+      trace,
+      respondedBy,
+      macroVariables,
+    });
   } catch (e) {
     console.error("Error in processPostResponseAsync:", e);
   }
 }
+
+/**
+ * Persists the partial text of a cancelled turn after the user chooses to keep it.
+ */
+export async function keepPartialResponse({
+  dialogueId,
+  message,
+  content,
+  thinkingContent = "",
+  nodeId,
+}: {
+  dialogueId: string;
+  message: string;
+  content: string;
+  thinkingContent?: string;
+  nodeId: string;
+}) {
+  if (!dialogueId || !content.trim()) {
+    throw new Error("Missing required parameters");
+  }
+
+  await processPostResponseAsync({
+    dialogueId,
+    message,
+    thinkingContent,
+    fullResponse: content,
+    screenContent: content,
+    event: "",
+    nextPrompts: [],
+    nodeId,
+  });
+}
+
+/**
+ * Reads a response produced by handleCharacterChatRequest and forwards each
+ * event to the caller. Plain JSON responses yield a single event, so callers
+ * can use this regardless of whether streaming was requested.
+ */
+export async function readChatResponse(
+  response: Response,
+  onEvent: (event: Record<string, any>) => void,
+): Promise<void> {
+  const contentType = response.headers.get("Content-Type") || "";
+  if (!contentType.includes("application/x-ndjson") || !response.body) {
+    onEvent(await response.json());
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line));
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer));
+  }
+}
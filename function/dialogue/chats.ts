@@ -0,0 +1,69 @@
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { LocalMemoryOperations } from "@/lib/data/roleplay/memory-operation";
+import { DialogueSummary } from "@/lib/models/node-model";
+
+export async function listCharacterChats(characterId: string): Promise<DialogueSummary[]> {
+  if (!characterId) {
+    throw new Error("Character ID is required");
+  }
+
+  return LocalCharacterDialogueOperations.getDialoguesByCharacter(characterId);
+}
+
+export async function renameCharacterChat(dialogueId: string, title: string): Promise<DialogueSummary> {
+  const summary = await LocalCharacterDialogueOperations.renameDialogue(dialogueId, title.trim());
+  if (!summary) {
+    throw new Error("Chat not found");
+  }
+  return summary;
+}
+
+export async function setCharacterChatArchived(dialogueId: string, archived: boolean): Promise<DialogueSummary> {
+  const summary = await LocalCharacterDialogueOperations.setDialogueArchived(dialogueId, archived);
+  if (!summary) {
+    throw new Error("Chat not found");
+  }
+  return summary;
+}
+
+/**
+ * Marks a chat as the one last used, so it opens by default next time
+ */
+export async function openCharacterChat(dialogueId: string): Promise<DialogueSummary | null> {
+  return LocalCharacterDialogueOperations.markDialogueActive(dialogueId);
+}
+
+/**
+ * Copies a chat with all its branches and the memories formed in it
+ */
+export async function duplicateCharacterChat(dialogueId: string, title: string): Promise<DialogueSummary> {
+  const summary = await LocalCharacterDialogueOperations.duplicateDialogue(dialogueId, title.trim());
+  if (!summary) {
+    throw new Error("Chat not found");
+  }
+
+  try {
+    await LocalMemoryOperations.copyDialogueMemories(summary.character_id, dialogueId, summary.id);
+  } catch (error) {
+    console.warn("Failed to copy chat memories:", error);
+  }
+  return summary;
+}
+
+/**
+ * Deletes a chat together with the memories formed in it
+ */
+export async function deleteCharacterChat(dialogueId: string): Promise<{ success: boolean }> {
+  const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
+  if (!dialogueTree) {
+    throw new Error("Chat not found");
+  }
+
+  await LocalCharacterDialogueOperations.deleteDialogueTree(dialogueId);
+  try {
+    await LocalMemoryOperations.deleteDialogueMemories(dialogueTree.character_id, dialogueId);
+  } catch (error) {
+    console.warn("Failed to delete chat memories:", error);
+  }
+  return { success: true };
+}
@@ -1,13 +1,13 @@
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 
 interface DeleteDialogueNodeOptions {
-  characterId: string;
+  dialogueId: string;
   nodeId: string;
 }
 
-export async function deleteDialogueNode({ characterId, nodeId }: DeleteDialogueNodeOptions) {
+export async function deleteDialogueNode({ dialogueId, nodeId }: DeleteDialogueNodeOptions) {
   try {
-    const updatedDialogueTree = await LocalCharacterDialogueOperations.deleteNode(characterId, nodeId);
+    const updatedDialogueTree = await LocalCharacterDialogueOperations.deleteNode(dialogueId, nodeId);
     
     if (!updatedDialogueTree) {
       throw new Error("Failed to delete node or node not found");
@@ -16,7 +16,7 @@ export async function deleteDialogueNode({ characterId, nodeId }: DeleteDialogue
     const currentPath =
       updatedDialogueTree.current_nodeId !== "root"
         ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-          characterId,
+          dialogueId,
           updatedDialogueTree.current_nodeId,
         )
         : [];
@@ -40,6 +40,7 @@ export async function deleteDialogueNode({ characterId, nodeId }: DeleteDialogue
           content: node.assistantResponse,
           parsedContent: node.parsedContent || null,
           nodeId: node.nodeId,
+          trace: node.trace,
         });
       }
 
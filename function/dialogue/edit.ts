@@ -2,11 +2,13 @@ import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-
 import { CharacterDialogue } from "@/lib/core/character-dialogue";
 import { parseEvent } from "@/utils/response-parser";
 import { DialogueNode } from "@/lib/models/node-model";
+import { LLMType } from "@/lib/models/llm-provider-model";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { Character } from "@/lib/core/character";
 
 interface EditDialogueNodeRequest {
   characterId: string;
+  dialogueId: string;
   nodeId: string;
   assistantResponse: string;
   model_name: string;
@@ -20,6 +22,7 @@ export async function editDialaogueNodeContent(input: EditDialogueNodeRequest) {
   try {
     const { 
       characterId, 
+      dialogueId,
       nodeId, 
       assistantResponse,
       model_name,
@@ -29,7 +32,7 @@ export async function editDialaogueNodeContent(input: EditDialogueNodeRequest) {
       language, 
     } = input;
     
-    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     if (!dialogueTree) {
       throw new Error("Dialogue tree not found");
     }
@@ -50,7 +53,7 @@ export async function editDialaogueNodeContent(input: EditDialogueNodeRequest) {
       modelName: model_name,
       apiKey: api_key,
       baseUrl: base_url,
-      llmType: llm_type as "openai" | "ollama",
+      llmType: llm_type as LLMType,
       language: language as "zh" | "en",
     });
     
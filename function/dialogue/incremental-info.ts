@@ -2,7 +2,7 @@ import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 
 interface IncrementalDialogueParams {
-  characterId: string;
+  dialogueId: string;
   lastKnownNodeIds?: string[];
   lastUpdateTime?: string;
   language?: "en" | "zh";
@@ -21,19 +21,19 @@ interface IncrementalDialogueResponse {
 
 /**
  * Get incremental dialogue data - only returns new/updated nodes since last check
- * @param params - Parameters including characterId and last known state
+ * @param params - Parameters including dialogueId and last known state
  * @returns Only new or updated dialogue nodes
  */
 export async function getIncrementalDialogue(params: IncrementalDialogueParams): Promise<IncrementalDialogueResponse> {
-  const { characterId, lastKnownNodeIds = [], lastUpdateTime, language = "zh" } = params;
+  const { dialogueId, lastKnownNodeIds = [], lastUpdateTime, language = "zh" } = params;
 
-  if (!characterId) {
-    throw new Error("Character ID is required");
+  if (!dialogueId) {
+    throw new Error("Dialogue ID is required");
   }
 
   try {
     // Get current dialogue tree
-    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     
     if (!dialogueTree) {
       return {
@@ -89,13 +89,13 @@ export async function getIncrementalDialogue(params: IncrementalDialogueParams):
 
 /**
  * Check if there are new dialogue nodes without fetching full data
- * @param characterId - Character ID to check
+ * @param dialogueId - Dialogue ID to check
  * @param lastKnownNodeCount - Last known number of nodes
  * @returns Whether new dialogue nodes exist
  */
-export async function hasNewDialogueNodes(characterId: string, lastKnownNodeCount: number): Promise<boolean> {
+export async function hasNewDialogueNodes(dialogueId: string, lastKnownNodeCount: number): Promise<boolean> {
   try {
-    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     
     if (!dialogueTree) {
       return false;
@@ -1,8 +1,18 @@
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { Character } from "@/lib/core/character";
+import { PresetNodeTools } from "@/lib/nodeflow/PresetNode/PresetNodeTools";
 
-export async function getCharacterDialogue(characterId: string, language: "en" | "zh" = "zh", username?: string) {
+/**
+ * Loads a character and one of its chats: `dialogueId` when it belongs to the
+ * character, otherwise the most recently active chat
+ */
+export async function getCharacterDialogue(
+  characterId: string,
+  language: "en" | "zh" = "zh",
+  username?: string,
+  dialogueId?: string,
+) {
   if (!characterId) {
     throw new Error("Character ID is required");
   }
@@ -11,17 +21,27 @@ export async function getCharacterDialogue(characterId: string, language: "en" |
     const characterRecord = await LocalCharacterRecordOperations.getCharacterById(characterId);
     
     const character = new Character(characterRecord);
-    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    let dialogueTree = dialogueId ? await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId) : null;
+    if (!dialogueTree || dialogueTree.character_id !== characterId) {
+      const activeDialogueId = await LocalCharacterDialogueOperations.getActiveDialogueId(characterId);
+      dialogueTree = activeDialogueId ? await LocalCharacterDialogueOperations.getDialogueTreeById(activeDialogueId) : null;
+    }
     let processedDialogue = null;
+    // Card fields see the chat's variables and latest message, as they do in prompts
+    const macroContext = await PresetNodeTools.createMacroContext(characterId, dialogueTree?.id ?? "", language, username);
 
     if (dialogueTree) {
       const currentPath = dialogueTree.current_nodeId !== "root"
-        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(characterId, dialogueTree.current_nodeId)
+        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(dialogueTree.id, dialogueTree.current_nodeId)
         : [];
 
       const messages = [];
 
+      // Messages are stored raw and regex scripts apply as they are rendered. Older
+      // nodes kept the processed text in regexResult; those only get display scripts.
       for (const node of currentPath) {
+        const isRegexProcessed = !!node.parsedContent?.regexResult;
+
         if (node.userInput) {
           messages.push({
             id: node.nodeId,
@@ -29,28 +49,20 @@ export async function getCharacterDialogue(characterId: string, language: "en" |
             thinkingContent: node.thinkingContent || "",
             content: node.userInput,
             parsedContent: null,
+            isRegexProcessed,
           });
         }
 
         if (node.assistantResponse) {
-          if (node.parsedContent?.regexResult) {
-            messages.push({
-              id: node.nodeId,
-              role: "assistant",
-              thinkingContent: node.thinkingContent || "",
-              content: node.parsedContent.regexResult,
-              parsedContent: node.parsedContent,
-            });
-          }
-          else {
-            messages.push({
-              id: node.nodeId,
-              role: "assistant",
-              thinkingContent: node.thinkingContent || "",
-              content: node.assistantResponse,
-              parsedContent: node.parsedContent,
-            });
-          }
+          messages.push({
+            id: node.nodeId,
+            role: "assistant",
+            thinkingContent: node.thinkingContent || "",
+            content: node.parsedContent?.regexResult || node.assistantResponse,
+            parsedContent: node.parsedContent,
+            trace: node.trace,
+            isRegexProcessed,
+          });
         }
       }
 
@@ -70,7 +82,7 @@ export async function getCharacterDialogue(characterId: string, language: "en" |
       success: true,
       character: {
         id: character.id,
-        data: character.getData(language, username),
+        data: character.getData(language, username, macroContext),
         imagePath: character.imagePath,
       },
       dialogue: processedDialogue,
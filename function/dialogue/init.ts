@@ -3,20 +3,25 @@ import { CharacterDialogue } from "@/lib/core/character-dialogue";
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { adaptText } from "@/lib/adapter/tagReplacer";
-import { RegexProcessor } from "@/lib/core/regex-processor";
+import { LLMType } from "@/lib/models/llm-provider-model";
 
 interface InitCharacterDialogueOptions {
   username?: string;
   characterId: string;
+  title?: string;
   language?: "zh" | "en";
   modelName: string;
   baseUrl: string;
   apiKey: string;
-  llmType: "openai" | "ollama";
+  llmType: LLMType;
 }
 
+/**
+ * Starts a new chat with the character, opened by its first message. Earlier
+ * chats are kept.
+ */
 export async function initCharacterDialogue(options: InitCharacterDialogueOptions) {
-  const { username, characterId, language = "zh", modelName, baseUrl, apiKey, llmType } = options;
+  const { username, characterId, title, language = "zh", modelName, baseUrl, apiKey, llmType } = options;
 
   if (!characterId) {
     throw new Error("Missing required parameters");
@@ -40,54 +45,27 @@ export async function initCharacterDialogue(options: InitCharacterDialogueOption
     });
 
     const firstAssistantMessage = await dialogue.getFirstMessage();
-    let dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
-
-    if (!dialogueTree) {
-      dialogueTree = await LocalCharacterDialogueOperations.createDialogueTree(characterId);
-    }
+    const dialogueTree = await LocalCharacterDialogueOperations.createDialogueTree(characterId, title);
 
     let nodeIds: string[] = [];
-    const adaptedMessages: string[] = [];
-    const processedMessages: string[] = [];
+    let firstMessage = "";
     if (firstAssistantMessage) {
-      const messagesToProcess = [...firstAssistantMessage];
-      let firstProcessedMessage = "";
+      // Macros are expanded once, so a {{random}} opening is stored as it was shown.
+      // Each opening is its own branch and keeps the variables it set.
+      const charName = character.characterData.name;
+      const openings = firstAssistantMessage.map((message) => {
+        const variables: Record<string, string> = {};
+        return { text: adaptText(message, language, username, charName, { variables }), variables };
+      });
 
-      if (messagesToProcess.length > 0) {
-        const firstMessage = messagesToProcess[0];
-        const adaptedFirstMessage = adaptText(firstMessage, language, username);
-        
-        const firstRegexResult = await RegexProcessor.processFullContext(
-          adaptedFirstMessage, 
-          { 
-            ownerId: characterId, 
-          },
-        );
-        
-        firstProcessedMessage = firstRegexResult.replacedText;
-        adaptedMessages.push(adaptedFirstMessage);
-        processedMessages.push(firstProcessedMessage);
+      if (openings.length > 0) {
+        firstMessage = openings[0].text;
       }
 
-      for (const message of [...messagesToProcess].reverse()) {
-        const adaptedMessage = adaptText(message, language, username);
-        
-        const regexResult = await RegexProcessor.processFullContext(
-          adaptedMessage, 
-          { 
-            ownerId: characterId, 
-          },
-        );
-        
-        const processedMessage = regexResult.replacedText;
-        
-        if (message !== messagesToProcess[messagesToProcess.length - 1]) {
-          adaptedMessages.push(adaptedMessage);
-          processedMessages.push(processedMessage);
-        }
-
+      // Openings are stored as written; regex scripts apply when they are shown or sent
+      for (const { text: adaptedMessage, variables } of [...openings].reverse()) {
         const nodeId = await LocalCharacterDialogueOperations.addNodeToDialogueTree(
-          characterId,
+          dialogueTree.id,
           "root",
           "",
           adaptedMessage,
@@ -95,10 +73,13 @@ export async function initCharacterDialogue(options: InitCharacterDialogueOption
           "",
           {
             nextPrompts: [],
-            regexResult: processedMessage,
             compressedContent: "",
           },
           undefined,
+          undefined,
+          undefined,
+          undefined,
+          Object.keys(variables).length > 0 ? variables : undefined,
         );
         nodeIds.push(nodeId);
       }
@@ -106,7 +87,8 @@ export async function initCharacterDialogue(options: InitCharacterDialogueOption
       return {
         success: true,
         characterId,
-        firstMessage: firstProcessedMessage,
+        dialogueId: dialogueTree.id,
+        firstMessage,
         nodeId: nodeIds[0],
       };
     }
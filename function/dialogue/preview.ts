@@ -0,0 +1,64 @@
+import { DialogueWorkflow } from "@/lib/workflow/examples/DialogueWorkflow";
+import { getCurrentSystemPresetType } from "@/function/preset/download";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+
+/**
+ * Assembles the prompt the next turn would send for a character, without
+ * calling the model or touching the dialogue tree. Without a `dialogueId`,
+ * the character's most recently active chat supplies the history.
+ */
+export async function previewCharacterPrompt(payload: {
+  characterId: string;
+  dialogueId?: string;
+  message?: string;
+  presetId?: string;
+  username?: string;
+  language?: "zh" | "en";
+  number?: number;
+  fastModel?: boolean;
+  maxContextTokens?: number;
+  reservedResponseTokens?: number;
+}) {
+  const {
+    characterId,
+    dialogueId,
+    message = "",
+    presetId,
+    username,
+    language = "zh",
+    number = 200,
+    fastModel = false,
+    maxContextTokens,
+    reservedResponseTokens,
+  } = payload;
+
+  if (!characterId) {
+    throw new Error("Character ID is required");
+  }
+
+  try {
+    const preview = await new DialogueWorkflow().preview({
+      characterId,
+      dialogueId: dialogueId || await LocalCharacterDialogueOperations.getActiveDialogueId(characterId) || "",
+      userInput: message,
+      presetId,
+      username,
+      language,
+      number,
+      fastModel,
+      modelName: "",
+      apiKey: "",
+      systemPresetType: getCurrentSystemPresetType(),
+      maxContextTokens,
+      reservedResponseTokens,
+    });
+
+    return {
+      success: true,
+      preview,
+    };
+  } catch (error: any) {
+    console.error("Failed to preview prompt:", error);
+    throw new Error(`Failed to preview prompt: ${error.message}`);
+  }
+}
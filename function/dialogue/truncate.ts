@@ -1,25 +1,25 @@
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 
 interface SwitchDialogueBranchOptions {
-  characterId: string;
+  dialogueId: string;
   nodeId: string;
 }
 
-export async function switchDialogueBranch({ characterId, nodeId }: SwitchDialogueBranchOptions) {
+export async function switchDialogueBranch({ dialogueId, nodeId }: SwitchDialogueBranchOptions) {
 
   try {
-    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
 
     if (!dialogueTree) {
       throw new Error("Dialogue not found");
     }
 
-    const updated = await LocalCharacterDialogueOperations.switchBranch(characterId, nodeId);
+    const updated = await LocalCharacterDialogueOperations.switchBranch(dialogueId, nodeId);
     if (!updated) {
       throw new Error("Failed to switch to the specified node");
     }
 
-    const updatedDialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    const updatedDialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     if (!updatedDialogueTree) {
       throw new Error("Failed to retrieve updated dialogue");
     }
@@ -27,7 +27,7 @@ export async function switchDialogueBranch({ characterId, nodeId }: SwitchDialog
     const currentPath =
       updatedDialogueTree.current_nodeId !== "root"
         ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-          characterId,
+          dialogueId,
           updatedDialogueTree.current_nodeId,
         )
         : [];
@@ -53,6 +53,7 @@ export async function switchDialogueBranch({ characterId, nodeId }: SwitchDialog
           content: node.assistantResponse,
           parsedContent: node.parsedContent || null, 
           nodeId: node.nodeId,
+          trace: node.trace,
         });
       }
 
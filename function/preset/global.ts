@@ -78,6 +78,19 @@ export async function togglePresetEnabled(presetId: string, enabled: boolean) {
   }
 }
 
+export async function updatePresetAssemblyMode(presetId: string, assemblyMode: "flattened" | "messages") {
+  try {
+    const success = await PresetOperations.updatePreset(presetId, { assemblyMode });
+    if (!success) {
+      return { success: false, error: "Failed to update assembly mode" };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating preset assembly mode:", error);
+    return { success: false, error: "Failed to update assembly mode" };
+  }
+}
+
 export async function getPromptsForDisplay(presetId: string) {
   try {
     const prompts = await PresetOperations.getPromptsOrderedForDisplay(presetId);
@@ -0,0 +1,123 @@
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { RegexMacros, RegexProcessor } from "@/lib/core/regex-processor";
+import { RegexSandbox, RegexSandboxResult } from "@/lib/core/regex-sandbox";
+import { RegexScript } from "@/lib/models/regex-script-model";
+
+const SAMPLE_MESSAGE_LIMIT = 20;
+// Long enough for nested quantifiers such as (a+)+$ to blow up
+const NESTED_RUN = 48;
+// Long enough for a pattern cubic in the text length to stand out
+const LONG_RUN = 5000;
+
+/**
+ * Text every check runs on, whatever the chat holds: short runs ending in a
+ * character that makes the match fail, and long runs of the characters chat
+ * text repeats most, followed by a message formatted the way cards often are
+ */
+const REGEX_CHECK_SAMPLES = [
+  "a".repeat(NESTED_RUN) + "!",
+  "1".repeat(NESTED_RUN) + "x",
+  " ".repeat(NESTED_RUN) + "x",
+  "\n".repeat(NESTED_RUN) + "x",
+  "ha ".repeat(NESTED_RUN) + "!",
+  "<p>".repeat(NESTED_RUN) + "<",
+  "a".repeat(LONG_RUN),
+  " ".repeat(LONG_RUN) + "x",
+  "\n".repeat(LONG_RUN) + "x",
+  "*".repeat(LONG_RUN),
+  "*She looks up from the map.* \"We leave at dawn.\"\n\n<status>\nHP: 42/50\nMood: wary\n</status>\n\n```\nday 3, 06:00\n```",
+];
+
+/**
+ * Runs a script in the regex sandbox over fixed samples that provoke
+ * catastrophic backtracking, the character's greetings and its recent
+ * messages, so a pattern that would hang is reported before it can freeze the
+ * chat. There is always sample text, so a new chat is checked too.
+ */
+export async function checkRegexScript(
+  characterId: string,
+  script: RegexScript,
+  username?: string,
+): Promise<RegexSandboxResult> {
+  const [messages, greetings, scriptSet] = await Promise.all([
+    getRecentMessages(characterId),
+    getGreetings(characterId),
+    RegexProcessor.loadScripts(characterId, username),
+  ]);
+  const texts = [...REGEX_CHECK_SAMPLES, ...greetings, ...messages.map((message) => message.text)];
+  return RegexSandbox.run(script, texts, scriptSet.macros);
+}
+
+/**
+ * The character card's first message and alternate greetings
+ */
+async function getGreetings(characterId: string): Promise<string[]> {
+  const record = await LocalCharacterRecordOperations.getCharacterById(characterId).catch(() => undefined);
+  const card = record?.data;
+  if (!card) {
+    return [];
+  }
+  return [card.data?.first_mes || card.first_mes, ...(card.data?.alternate_greetings || [])].filter(Boolean);
+}
+
+export type RegexTestMessageRole = "user" | "assistant" | "reasoning";
+
+export interface RegexTestMessage {
+  nodeId: string;
+  role: RegexTestMessageRole;
+  text: string;
+}
+
+export interface RegexTestStep {
+  script: RegexScript;
+  input: string;
+  output: string;
+  result: RegexSandboxResult;
+}
+
+/**
+ * User inputs, reasoning and responses from the end of the character's active
+ * chat, as stored, for checking scripts and picking tester samples
+ */
+export async function getRecentMessages(
+  characterId: string,
+  limit: number = SAMPLE_MESSAGE_LIMIT,
+): Promise<RegexTestMessage[]> {
+  const dialogueId = await LocalCharacterDialogueOperations.getActiveDialogueId(characterId);
+  const dialogueTree = dialogueId ? await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId) : null;
+  if (!dialogueTree || dialogueTree.current_nodeId === "root") {
+    return [];
+  }
+
+  const path = await LocalCharacterDialogueOperations.getDialoguePathToNode(dialogueTree.id, dialogueTree.current_nodeId);
+  return path
+    .flatMap((node) => [
+      { nodeId: node.nodeId, role: "user" as const, text: node.userInput },
+      { nodeId: node.nodeId, role: "reasoning" as const, text: node.thinkingContent },
+      { nodeId: node.nodeId, role: "assistant" as const, text: node.assistantResponse },
+    ])
+    .filter((message): message is RegexTestMessage => !!message.text)
+    .slice(-limit);
+}
+
+/**
+ * Runs scripts one after another over a text in the regex sandbox, each on
+ * the previous one's output. A script that times out or fails passes the
+ * text on unchanged.
+ */
+export async function runRegexChain(
+  scripts: RegexScript[],
+  text: string,
+  macros: RegexMacros = {},
+): Promise<RegexTestStep[]> {
+  const steps: RegexTestStep[] = [];
+  let input = text;
+  for (const script of scripts) {
+    const result = await RegexSandbox.run(script, [input], macros);
+    const output = result.status === "ok" ? result.runs[0].replacedText : input;
+    steps.push({ script, input, output, result });
+    input = output;
+  }
+  return steps;
+}
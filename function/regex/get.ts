@@ -1,5 +1,6 @@
 import { RegexScript } from "@/lib/models/regex-script-model";
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { RegexProcessor, RegexScriptSet } from "@/lib/core/regex-processor";
 
 export async function getRegexScripts(characterId: string): Promise<Record<string, RegexScript> | null> {
   try {
@@ -9,3 +10,15 @@ export async function getRegexScripts(characterId: string): Promise<Record<strin
     throw new Error("Failed to get regex scripts");
   }
 }
+
+/**
+ * The scripts that run for a character - its own and the global ones - with its settings
+ */
+export async function getActiveRegexScripts(characterId: string, username?: string): Promise<RegexScriptSet> {
+  try {
+    return await RegexProcessor.loadScripts(characterId, username);
+  } catch (error) {
+    console.error("Error loading active regex scripts:", error);
+    throw new Error("Failed to load regex scripts");
+  }
+}
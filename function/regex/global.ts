@@ -189,13 +189,7 @@ export async function deleteGlobalRegexScript(globalId: string): Promise<{
       };
     }
 
-    const store = await RegexScriptOperations["getRegexScriptStore"]();
-    
-    delete store[globalId];
-    
-    delete store[`${globalId}_settings`];
-    
-    await RegexScriptOperations["saveRegexScriptStore"](store);
+    await RegexScriptOperations.deleteOwnerScripts(globalId);
 
     return {
       success: true,
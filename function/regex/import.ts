@@ -1,6 +1,7 @@
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
-import { RegexScript } from "@/lib/models/regex-script-model";
+import { RegexPlacement, RegexScript } from "@/lib/models/regex-script-model";
 import { v4 as uuidv4 } from "uuid";
+import { checkRegexScript } from "@/function/regex/check";
 
 export interface ImportRegexScriptResult {
   success: boolean;
@@ -80,14 +81,27 @@ export async function importRegexScriptFromJson(
           findRegex: scriptData.findRegex,
           replaceString: scriptData.replaceString,
           trimStrings: Array.isArray(scriptData.trimStrings) ? scriptData.trimStrings : [],
-          placement: Array.isArray(scriptData.placement) ? scriptData.placement : [scriptData.placement || 999],
+          placement: Array.isArray(scriptData.placement) ? scriptData.placement : [scriptData.placement || RegexPlacement.AI_OUTPUT],
           disabled: scriptData.disabled === true,
+          markdownOnly: scriptData.markdownOnly === true,
+          promptOnly: scriptData.promptOnly === true,
+          minDepth: typeof scriptData.minDepth === "number" ? scriptData.minDepth : null,
+          maxDepth: typeof scriptData.maxDepth === "number" ? scriptData.maxDepth : null,
           extensions: {
             imported: true,
             importedAt: now,
           },
         };
 
+        // Scripts whose pattern hangs on the chat are kept, but disabled until fixed
+        if (!regexScript.disabled) {
+          const check = await checkRegexScript(characterId, regexScript);
+          if (check.status === "timeout") {
+            regexScript.disabled = true;
+            result.errors.push(`Disabled script "${regexScript.scriptName}": its pattern took longer than ${check.timeoutMs} ms on sample text`);
+          }
+        }
+
         scripts[scriptId] = regexScript;
         importedScripts[scriptId] = regexScript;
         result.importedCount++;
@@ -138,7 +152,7 @@ export async function importRegexScriptFromJson(
             
             await RegexScriptOperations.updateRegexScriptSettings(globalId, {
               enabled: true,
-              applyToPrompt: false,
+              applyToPrompt: true,
               applyToResponse: true,
               metadata,
             });
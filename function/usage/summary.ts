@@ -0,0 +1,59 @@
+import { UsageLedger, UsageSummary, startOfMonth } from "@/lib/core/usage-ledger";
+import { UsageRecordOperations } from "@/lib/data/usage/usage-record-operation";
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { UsageTotals } from "@/lib/models/usage-model";
+
+export type UsageRange = "month" | "last30Days" | "all";
+
+export interface UsageReport extends UsageSummary {
+  // characterId -> display name; deleted characters are missing
+  characterNames: Record<string, string>;
+  session: UsageTotals;
+  monthToDateCost: number;
+  monthlyBudget: number | null;
+  // calls whose model has no known price and so add nothing to the cost
+  unpricedCalls: number;
+}
+
+function getRangeStart(range: UsageRange, now: Date): string | undefined {
+  if (range === "month") {
+    return startOfMonth(now).toISOString();
+  }
+  if (range === "last30Days") {
+    return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+  }
+  return undefined;
+}
+
+export async function getUsageReport(range: UsageRange = "month"): Promise<UsageReport> {
+  try {
+    const now = new Date();
+    const [records, characters, monthToDateCost] = await Promise.all([
+      UsageRecordOperations.getRecords({ from: getRangeStart(range, now) }),
+      LocalCharacterRecordOperations.getAllCharacters(),
+      UsageLedger.getMonthToDateCost(now),
+    ]);
+
+    const characterNames: Record<string, string> = {};
+    for (const character of characters) {
+      characterNames[character.id] = character.data.data?.name || character.data.name;
+    }
+
+    const sessionId = UsageLedger.getSessionId();
+    return {
+      ...UsageLedger.summarize(records),
+      characterNames,
+      session: UsageLedger.summarize(records.filter(record => record.sessionId === sessionId)).total,
+      monthToDateCost,
+      monthlyBudget: UsageLedger.getMonthlyBudget(),
+      unpricedCalls: records.filter(record => record.estimatedCost === null).length,
+    };
+  } catch (error: any) {
+    console.error("Failed to get usage report:", error);
+    throw new Error(`Failed to get usage report: ${error.message}`);
+  }
+}
+
+export async function clearUsageLedger(): Promise<void> {
+  await UsageRecordOperations.clearRecords();
+}
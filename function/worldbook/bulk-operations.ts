@@ -28,8 +28,11 @@ export async function bulkToggleWorldBookEntries(
         worldBook[entryId] = {
           ...worldBook[entryId],
           enabled,
+          // Imported SillyTavern entries may carry their own disable flag
+          disable: !enabled,
           extensions: {
             ...worldBook[entryId].extensions,
+            disable: !enabled,
             updatedAt: now,
           },
         };
@@ -1,5 +1,5 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { SelectiveLogic, WorldBookEntry } from "@/lib/models/world-book-model";
 
 export async function saveAdvancedWorldBookEntry(
   characterId: string, 
@@ -24,18 +24,29 @@ export async function saveAdvancedWorldBookEntry(
       keys: entry.keys.filter(key => key.trim() !== ""),
       secondary_keys: entry.secondary_keys?.filter(key => key.trim() !== "") || [],
       selective: entry.selective !== undefined ? entry.selective : false,
+      selectiveLogic: entry.selectiveLogic ?? SelectiveLogic.AND_ANY,
       constant: entry.constant !== undefined ? entry.constant : false,
       position: entry.position !== undefined ? entry.position : 4,
       insertion_order: entry.insertion_order || 0,
       enabled: entry.enabled !== undefined ? entry.enabled : true,
       use_regex: entry.use_regex !== undefined ? entry.use_regex : false,
+      case_sensitive: entry.case_sensitive ?? false,
+      match_whole_words: entry.match_whole_words ?? false,
+      exclude_recursion: entry.exclude_recursion ?? false,
+      prevent_recursion: entry.prevent_recursion ?? false,
+      probability: Math.min(100, Math.max(0, entry.probability ?? 100)),
+      useProbability: entry.useProbability ?? true,
+      sticky: Math.max(0, entry.sticky ?? 0),
+      cooldown: Math.max(0, entry.cooldown ?? 0),
+      delay: Math.max(0, entry.delay ?? 0),
       depth: entry.depth !== undefined ? entry.depth : 1,
+      role: entry.role ?? "system",
       comment: entry.comment?.trim() || "",
       tokens: entry.tokens || undefined,
       extensions: {
         ...entry.extensions,
         position: typeof entry.position === "number" ? entry.position : 4,
-        depth: entry.depth || 1,
+        depth: entry.depth ?? 1,
         updatedAt: now,
         createdAt: entry.extensions?.createdAt || now,
       },
@@ -1,5 +1,5 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { SelectiveLogic, WORLD_BOOK_ENTRY_ROLES, WorldBookEntry, WorldBookEntryRole } from "@/lib/models/world-book-model";
 import { v4 as uuidv4 } from "uuid";
 import { saveAsGlobalWorldBook } from "./global";
 
@@ -69,11 +69,18 @@ export async function importWorldBookFromJson(
         let comment = "";
         let position = 4;
         let depth = 1;
+        let role: WorldBookEntryRole | undefined;
         let enabled = true;
         let selective = false;
         let constant = false;
         let use_regex = false;
         let insertion_order = 0;
+        let selectiveLogic: SelectiveLogic | undefined;
+        let case_sensitive: boolean | undefined;
+        let match_whole_words: boolean | undefined;
+        let exclude_recursion: boolean | undefined;
+        let prevent_recursion: boolean | undefined;
+        const timedEffects: Pick<WorldBookEntry, "probability" | "useProbability" | "sticky" | "cooldown" | "delay"> = {};
 
         if (entryData.key !== undefined) {
           keys = Array.isArray(entryData.key) ? entryData.key.filter((k: string) => k && k.trim()) : [];
@@ -88,10 +95,20 @@ export async function importWorldBookFromJson(
           comment = String(entryData.comment || "");
         }
         if (entryData.position !== undefined) {
-          position = Number(entryData.position) || 4;
+          const parsedPosition = Number(entryData.position);
+          if (Number.isFinite(parsedPosition)) {
+            position = parsedPosition;
+          } else if (entryData.position === "before_char") {
+            position = 0;
+          } else if (entryData.position === "after_char") {
+            position = 1;
+          }
         }
         if (entryData.depth !== undefined) {
-          depth = Number(entryData.depth) || 1;
+          depth = Number.isFinite(Number(entryData.depth)) ? Number(entryData.depth) : 1;
+        }
+        if (entryData.role !== undefined && entryData.role !== null) {
+          role = WORLD_BOOK_ENTRY_ROLES[Number(entryData.role)];
         }
         if (entryData.disable !== undefined) {
           enabled = !entryData.disable;
@@ -105,6 +122,21 @@ export async function importWorldBookFromJson(
         if (entryData.order !== undefined) {
           insertion_order = Number(entryData.order) || 0;
         }
+        if (entryData.selectiveLogic !== undefined) {
+          selectiveLogic = Number(entryData.selectiveLogic) as SelectiveLogic;
+        }
+        if (typeof entryData.caseSensitive === "boolean") {
+          case_sensitive = entryData.caseSensitive;
+        }
+        if (typeof entryData.matchWholeWords === "boolean") {
+          match_whole_words = entryData.matchWholeWords;
+        }
+        if (typeof entryData.excludeRecursion === "boolean") {
+          exclude_recursion = entryData.excludeRecursion;
+        }
+        if (typeof entryData.preventRecursion === "boolean") {
+          prevent_recursion = entryData.preventRecursion;
+        }
 
         if (entryData.keys !== undefined) {
           keys = Array.isArray(entryData.keys) ? entryData.keys.filter((k: string) => k && k.trim()) : [];
@@ -124,6 +156,41 @@ export async function importWorldBookFromJson(
         if (entryData.insertion_order !== undefined) {
           insertion_order = Number(entryData.insertion_order) || 0;
         }
+        if (typeof entryData.case_sensitive === "boolean") {
+          case_sensitive = entryData.case_sensitive;
+        }
+        if (entryData.extensions?.selectiveLogic !== undefined) {
+          selectiveLogic = Number(entryData.extensions.selectiveLogic) as SelectiveLogic;
+        }
+        if (typeof entryData.extensions?.match_whole_words === "boolean") {
+          match_whole_words = entryData.extensions.match_whole_words;
+        }
+        if (typeof entryData.extensions?.position === "number") {
+          position = entryData.extensions.position;
+        }
+        if (typeof entryData.extensions?.depth === "number") {
+          depth = entryData.extensions.depth;
+        }
+        if (entryData.extensions?.role !== undefined && entryData.extensions?.role !== null) {
+          role = WORLD_BOOK_ENTRY_ROLES[Number(entryData.extensions.role)];
+        }
+        // SillyTavern keeps timed effects at the top level, character cards under extensions
+        for (const source of [entryData, entryData.extensions]) {
+          for (const field of ["probability", "sticky", "cooldown", "delay"] as const) {
+            if (typeof source?.[field] === "number") {
+              timedEffects[field] = source[field];
+            }
+          }
+          if (typeof source?.useProbability === "boolean") {
+            timedEffects.useProbability = source.useProbability;
+          }
+        }
+        if (typeof entryData.extensions?.exclude_recursion === "boolean") {
+          exclude_recursion = entryData.extensions.exclude_recursion;
+        }
+        if (typeof entryData.extensions?.prevent_recursion === "boolean") {
+          prevent_recursion = entryData.extensions.prevent_recursion;
+        }
         if (!content.trim() && keys.length === 0) {
           result.skippedCount++;
           continue;
@@ -134,12 +201,19 @@ export async function importWorldBookFromJson(
           keys: keys,
           secondary_keys: secondary_keys,
           selective: selective,
+          selectiveLogic: selectiveLogic,
           constant: constant,
           position: position,
           insertion_order: insertion_order,
           enabled: enabled,
           use_regex: use_regex,
+          case_sensitive: case_sensitive,
+          match_whole_words: match_whole_words,
+          exclude_recursion: exclude_recursion,
+          prevent_recursion: prevent_recursion,
+          ...timedEffects,
           depth: depth,
+          role: role,
           comment: comment.trim(),
           tokens: undefined,
           extensions: {
@@ -1,4 +1,6 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { WorldBookManager } from "@/lib/core/world-book";
+import { SelectiveLogic } from "@/lib/models/world-book-model";
 
 export async function getWorldBookEntries(characterId: string) {
   if (!characterId) {
@@ -15,12 +17,23 @@ export async function getWorldBookEntries(characterId: string) {
         keys: entry.keys || [],
         secondary_keys: entry.secondary_keys || [],
         selective: entry.selective !== undefined ? entry.selective : false,
+        selectiveLogic: Number(entry.selectiveLogic ?? entry.extensions?.selectiveLogic ?? SelectiveLogic.AND_ANY) as SelectiveLogic,
         constant: entry.constant !== undefined ? entry.constant : false,
         position: entry.position !== undefined ? entry.position : 4,
         insertion_order: entry.insertion_order || 0,
-        enabled: entry.enabled !== undefined ? entry.enabled : true,
+        enabled: WorldBookManager.isEntryEnabled(entry),
         use_regex: entry.use_regex !== undefined ? entry.use_regex : false,
-        depth: entry.depth || 1,
+        case_sensitive: Boolean(entry.case_sensitive ?? entry.extensions?.case_sensitive ?? false),
+        match_whole_words: Boolean(entry.match_whole_words ?? entry.extensions?.match_whole_words ?? false),
+        exclude_recursion: Boolean(entry.exclude_recursion ?? entry.extensions?.exclude_recursion ?? false),
+        prevent_recursion: Boolean(entry.prevent_recursion ?? entry.extensions?.prevent_recursion ?? false),
+        probability: Number(entry.probability ?? entry.extensions?.probability ?? 100),
+        useProbability: Boolean(entry.useProbability ?? entry.extensions?.useProbability ?? true),
+        sticky: Number(entry.sticky ?? entry.extensions?.sticky ?? 0),
+        cooldown: Number(entry.cooldown ?? entry.extensions?.cooldown ?? 0),
+        delay: Number(entry.delay ?? entry.extensions?.delay ?? 0),
+        depth: entry.depth ?? 1,
+        role: entry.role ?? "system",
         comment: entry.comment || "",
         tokens: entry.content ? entry.content.length : 0,
         extensions: entry.extensions || {},
@@ -28,7 +41,7 @@ export async function getWorldBookEntries(characterId: string) {
         keyCount: Array.isArray(entry.keys) ? entry.keys.length : 0,
         secondaryKeyCount: Array.isArray(entry.secondary_keys) ? entry.secondary_keys.length : 0,
         contentLength: entry.content ? entry.content.length : 0,
-        isActive: entry.enabled !== false,
+        isActive: WorldBookManager.isEntryEnabled(entry),
         lastUpdated: entry.extensions?.updatedAt || entry.extensions?.createdAt || Date.now(),
         isImported: entry.extensions?.imported || false,
         importedAt: entry.extensions?.importedAt || null,
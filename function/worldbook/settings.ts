@@ -34,6 +34,14 @@ export async function updateWorldBookSettings(
     throw new Error("Context window must be between 1 and 20");
   }
 
+  if (updates.tokenBudget !== undefined && updates.tokenBudget < 0) {
+    throw new Error("Token budget cannot be negative");
+  }
+
+  if (updates.recursionDepth !== undefined && (updates.recursionDepth < 0 || updates.recursionDepth > 10)) {
+    throw new Error("Recursion depth must be between 0 and 10");
+  }
+
   try {
     const newSettings = await WorldBookOperations.updateWorldBookSettings(characterId, updates);
     
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from "react";
+import { getActiveRegexScripts } from "@/function/regex/get";
+import { RegexProcessor, RegexScriptSet } from "@/lib/core/regex-processor";
+import { RegexSandbox } from "@/lib/core/regex-sandbox";
+import { RegexPlacement } from "@/lib/models/regex-script-model";
+
+/** Window event the regex editor dispatches after scripts or their settings change */
+export const REGEX_SCRIPTS_CHANGED_EVENT = "regexScriptsChanged";
+
+/**
+ * The regex scripts that apply to a character's chat, reloaded whenever they
+ * are edited so rendered messages pick up the change right away
+ */
+export function useRegexScripts(characterId?: string, username?: string): RegexScriptSet | null {
+  const [scriptSet, setScriptSet] = useState<RegexScriptSet | null>(null);
+
+  useEffect(() => {
+    if (!characterId) {
+      setScriptSet(null);
+      return;
+    }
+
+    let cancelled = false;
+    const load = () => {
+      getActiveRegexScripts(characterId, username)
+        .then((loaded) => {
+          if (!cancelled) setScriptSet(loaded);
+        })
+        .catch((error) => console.error("Failed to load regex scripts:", error));
+    };
+
+    load();
+    // Global scripts apply to every character, so any change reloads
+    window.addEventListener(REGEX_SCRIPTS_CHANGED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(REGEX_SCRIPTS_CHANGED_EVENT, load);
+    };
+  }, [characterId, username]);
+
+  return scriptSet;
+}
+
+export interface RegexDisplayItem {
+  key: string;
+  text: string;
+  placement: RegexPlacement;
+  /** Position from the end of the chat, for scripts with depth limits */
+  depth?: number;
+  /** The text was saved with editing scripts applied, so only display-only scripts run */
+  alreadyEdited?: boolean;
+}
+
+function displaySignature(item: RegexDisplayItem): string {
+  return JSON.stringify([item.text, item.placement, item.depth, !!item.alreadyEdited]);
+}
+
+/**
+ * Displayed copies of chat texts, by item key. Display scripts run in the
+ * regex sandbox, so a runaway pattern is skipped rather than freezing the
+ * chat. Copies already made are reused; while new ones are being made, items
+ * keep their previous copy and items seen for the first time are missing.
+ */
+export function useRegexDisplay(scriptSet: RegexScriptSet | null, items: RegexDisplayItem[]): Map<string, string> {
+  const [displayed, setDisplayed] = useState(new Map<string, string>());
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  // Displayed copy by signature, for the current script set
+  const cacheRef = useRef({ scriptSet, copies: new Map<string, string>() });
+  const signature = JSON.stringify(items.map((item) => [item.key, displaySignature(item)]));
+
+  useEffect(() => {
+    if (!scriptSet) {
+      return;
+    }
+    if (cacheRef.current.scriptSet !== scriptSet) {
+      cacheRef.current = { scriptSet, copies: new Map() };
+    }
+    const cache = cacheRef.current;
+    const batch = itemsRef.current;
+    const pending = batch.filter((item) => !cache.copies.has(displaySignature(item)));
+
+    let cancelled = false;
+    const jobs = pending.map((item) => ({
+      text: item.text,
+      targets: RegexProcessor.targetsFor("display", item.placement, item.depth, item.alreadyEdited),
+    }));
+    (jobs.length > 0 ? RegexSandbox.applyScripts(scriptSet, jobs) : Promise.resolve([]))
+      .then((results) => {
+        pending.forEach((item, index) => cache.copies.set(displaySignature(item), results[index].replacedText));
+        if (cancelled) {
+          return;
+        }
+        const signatures = new Set(batch.map(displaySignature));
+        for (const key of Array.from(cache.copies.keys())) {
+          if (!signatures.has(key)) {
+            cache.copies.delete(key);
+          }
+        }
+        setDisplayed(new Map(batch.map((item) => [item.key, cache.copies.get(displaySignature(item))!])));
+      })
+      .catch((error) => console.error("Failed to apply display regex scripts:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [scriptSet, signature]);
+
+  return scriptSet ? displayed : new Map(items.map((item) => [item.key, item.text]));
+}
@@ -1,18 +1,38 @@
-export function adaptText(text: string, language: "en" | "zh", username?: string, charName?: string): string {
-  let parsed = text.replace(/<br\s*\/?>/gi, "\n");
-  const userReplacement = username ?? (language === "zh" ? "我" : "I");
-  parsed = parsed.replace(/{{user}}/g, userReplacement);
-  parsed = parsed.replace(/{{char}}/g, charName ?? "");
-  return parsed;
+import { MacroContext, MacroEngine } from "@/lib/core/macro-engine";
+
+/**
+ * Turns `<br>` into line breaks and expands macros. `context` supplies what
+ * macros beyond `{{user}}` and `{{char}}` read, such as the chat's variables.
+ */
+export function adaptText(
+  text: string,
+  language: "en" | "zh",
+  username?: string,
+  charName?: string,
+  context: MacroContext = {},
+): string {
+  const parsed = text.replace(/<br\s*\/?>/gi, "\n");
+  return MacroEngine.evaluate(parsed, {
+    ...context,
+    language,
+    user: username ?? context.user,
+    char: charName ?? context.char,
+  });
 }
-  
+
+/**
+ * adaptText for every text field of a card. All fields share `context`, so a
+ * `{{setvar}}` in one field can be read by `{{getvar}}` in the ones after it.
+ */
 export function adaptCharacterData(
   characterData: any,
   language: "en" | "zh",
   username?: string,
+  context: MacroContext = {},
 ): any {
   const result = { ...characterData };
   const charReplacement = characterData.name || "";
+  const shared: MacroContext = { ...context, variables: context.variables ?? {} };
   
   const fieldsToProcess = [
     "description", "personality", "first_mes", "scenario",
@@ -21,7 +41,7 @@ export function adaptCharacterData(
   
   for (const field of fieldsToProcess) {
     if (result[field]) {
-      let processed = adaptText(result[field], language, username, charReplacement);
+      let processed = adaptText(result[field], language, username, charReplacement, shared);
       result[field] = processed;
     }
   }
@@ -35,12 +55,12 @@ export function adaptCharacterData(
       const processedEntry = { ...entry };
   
       if (processedEntry.comment) {
-        let processed = adaptText(processedEntry.comment, language, username, charReplacement);
+        let processed = adaptText(processedEntry.comment, language, username, charReplacement, shared);
         processedEntry.comment = processed;
       }
   
       if (processedEntry.content) {
-        let processed = adaptText(processedEntry.content, language, username, charReplacement);
+        let processed = adaptText(processedEntry.content, language, username, charReplacement, shared);
         processedEntry.content = processed;
       }
   
@@ -49,11 +69,9 @@ export function adaptCharacterData(
   }
   
   if (Array.isArray(result.alternate_greetings)) {
-    for (let i = 0; i < result.alternate_greetings.length; i++) {
-      let greeting = result.alternate_greetings[i];
-      greeting = adaptText(greeting, language, username, charReplacement);
-      result.alternate_greetings[i] = greeting;
-    }
+    result.alternate_greetings = result.alternate_greetings.map((greeting: string) =>
+      adaptText(greeting, language, username, charReplacement, shared),
+    );
   }
   
   return result;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { BudgetItem, ContextBudget } from "@/lib/core/context-budget";
+
+/**
+ * A budget whose prompt window holds `limit` tokens
+ */
+function budgetOf(limit: number): Promise<ContextBudget> {
+  return ContextBudget.create({ maxContextTokens: limit + 100, reservedResponseTokens: 100 });
+}
+
+function items(texts: string[], priorities: number[]): BudgetItem<string>[] {
+  return texts.map((text, index) => ({ value: text, text, priority: priorities[index] }));
+}
+
+function tokens(budget: ContextBudget, ...texts: string[]): number {
+  return texts.reduce((sum, text) => sum + budget.count(text), 0);
+}
+
+const preset = "You are the narrator of a long journey through the hills.";
+const input = "Where does the road lead?";
+const lore = ["The hills are old.", "A river crosses the road at the ford.", "Wolves hunt in winter."];
+
+describe("ContextBudget.fit", () => {
+  it("drops the lowest-priority items first and keeps the rest in their original order", async () => {
+    const probe = await budgetOf(0);
+    const budget = await budgetOf(tokens(probe, preset, input, lore[0], lore[2]));
+    budget.reserve("preset", preset);
+    budget.reserve("userInput", input);
+
+    expect(budget.fit("worldBook", items(lore, [3, 1, 2]))).toEqual([lore[0], lore[2]]);
+    expect(budget.getBreakdown().sections.worldBook).toEqual({
+      tokens: tokens(probe, lore[0], lore[2]),
+      included: 2,
+      dropped: 1,
+    });
+    expect(budget.remaining).toBe(0);
+  });
+
+  it("gives later sections only what earlier ones left", async () => {
+    const probe = await budgetOf(0);
+    const history = ["Long ago we left the city.", "We walked for days."];
+    const budget = await budgetOf(tokens(probe, preset, input, ...lore, history[1]));
+    budget.reserve("preset", preset);
+    budget.reserve("userInput", input);
+
+    expect(budget.fit("worldBook", items(lore, [1, 1, 1]))).toEqual(lore);
+    // Newest first; the older turn no longer fits
+    expect(budget.fit("history", items(history, [0, 1]), true)).toEqual([history[1]]);
+    expect(budget.getBreakdown().sections.history).toMatchObject({ included: 1, dropped: 1 });
+  });
+
+  it("stops a contiguous run at the first item that does not fit", async () => {
+    const probe = await budgetOf(0);
+    const turns = ["a short turn", "a much longer turn that will not fit in what is left", "ok"];
+    const budget = await budgetOf(tokens(probe, turns[0], turns[2]) + 1);
+
+    // Newest (highest priority) first: the middle turn does not fit, so the oldest is dropped too
+    expect(budget.fit("history", items(turns, [1, 2, 3]), true)).toEqual([turns[2]]);
+    expect(budget.getBreakdown().sections.history).toMatchObject({ included: 1, dropped: 2 });
+
+    // Without `contiguous` the smaller, older turn fills the gap
+    const loose = await budgetOf(tokens(probe, turns[0], turns[2]) + 1);
+    expect(loose.fit("history", items(turns, [1, 2, 3]))).toEqual([turns[0], turns[2]]);
+  });
+
+  it("always keeps the preset and the latest input and reports the overflow", async () => {
+    const probe = await budgetOf(0);
+    const limit = tokens(probe, preset);
+    const budget = await budgetOf(limit);
+
+    budget.reserve("preset", preset);
+    budget.reserve("userInput", input);
+    expect(budget.fit("worldBook", items(lore, [1, 1, 1]))).toEqual([]);
+    expect(budget.fit("history", items(["hello"], [1]), true)).toEqual([]);
+
+    const breakdown = budget.getBreakdown();
+    expect(breakdown.limit).toBe(limit);
+    expect(breakdown.used).toBe(tokens(probe, preset, input));
+    expect(breakdown.used).toBeGreaterThan(breakdown.limit);
+    expect(breakdown.sections).toEqual({
+      preset: { tokens: tokens(probe, preset), included: 1, dropped: 0 },
+      userInput: { tokens: tokens(probe, input), included: 1, dropped: 0 },
+      worldBook: { tokens: 0, included: 0, dropped: 3 },
+      history: { tokens: 0, included: 0, dropped: 1 },
+    });
+    expect(budget.remaining).toBe(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { MacroContext, MacroEngine } from "@/lib/core/macro-engine";
+import { adaptCharacterData, adaptText } from "@/lib/adapter/tagReplacer";
+import { PresetAssembler } from "@/lib/core/preset-assembler";
+import { PromptAssembler } from "@/lib/core/prompt-assembler";
+import { PresetPrompt } from "@/lib/models/preset-model";
+
+// 18 October 2026, 14:05 local time
+const now = new Date(2026, 9, 18, 14, 5);
+
+/**
+ * Returns the given values in turn, as a stand-in for Math.random
+ */
+function sequence(...values: number[]): () => number {
+  let index = 0;
+  return () => values[index++ % values.length];
+}
+
+function evaluate(text: string, context: MacroContext = {}): string {
+  return MacroEngine.evaluate(text, { now, random: sequence(0), ...context });
+}
+
+describe("MacroEngine", () => {
+  afterEach(() => {
+    MacroEngine.unregister("shout");
+  });
+
+  it("expands user and char, defaulting the user by language", () => {
+    expect(evaluate("{{user}} meets {{char}}", { user: "Ann", char: "Bob" })).toBe("Ann meets Bob");
+    expect(evaluate("{{User}} meets {{CHAR}}", { language: "zh", char: "Bob" })).toBe("我 meets Bob");
+    expect(evaluate("{{user}}", { language: "en" })).toBe("I");
+  });
+
+  it("leaves unknown macros and slots for later assembly as written", () => {
+    expect(evaluate("{{chatHistory}} {{userInput}} {{ not a macro }} {{user is here}}", { user: "Ann" }))
+      .toBe("{{chatHistory}} {{userInput}} {{ not a macro }} {{user is here}}");
+    expect(evaluate("unclosed {{user")).toBe("unclosed {{user");
+  });
+
+  it("does not expand macros in substituted values", () => {
+    expect(evaluate("{{user}}", { user: "{{char}}", char: "Bob" })).toBe("{{char}}");
+  });
+
+  it("removes comments and trims newlines around {{trim}}", () => {
+    expect(evaluate("a{{// note with {{user}} }}b")).toBe("ab");
+    expect(evaluate("first\n\n{{trim}}\n\nsecond")).toBe("firstsecond");
+  });
+
+  it("picks random options with the given random source", () => {
+    expect(evaluate("{{random::red::green::blue}}", { random: sequence(0.5) })).toBe("green");
+    expect(evaluate("{{random:red, green, blue}}", { random: sequence(0.99) })).toBe("blue");
+    expect(evaluate("{{random::a::b}}{{random::a::b}}", { random: sequence(0, 0.6) })).toBe("ab");
+  });
+
+  it("rolls dice with the given random source", () => {
+    expect(evaluate("{{roll:1d20}}", { random: sequence(0.99) })).toBe("20");
+    expect(evaluate("{{roll 2d6+3}}", { random: sequence(0, 0.5) })).toBe("8");
+    expect(evaluate("{{roll:20}}", { random: sequence(0) })).toBe("1");
+    expect(evaluate("{{roll:banana}}")).toBe("{{roll:banana}}");
+  });
+
+  it("formats the time, date and idle duration from the given clock", () => {
+    expect(evaluate("{{time}} {{date}}", { language: "en" })).toBe("2:05 PM October 18, 2026");
+    expect(evaluate("{{time}} {{date}}", { language: "zh" })).toBe("14:05 2026年10月18日");
+    expect(evaluate("{{idle_duration}}", { lastMessageTime: now.getTime() - 3 * 3_600_000 })).toBe("3 hours");
+    expect(evaluate("{{idle_duration}}", { language: "zh", lastMessageTime: now.getTime() - 90_000 })).toBe("1 分钟");
+    expect(evaluate("{{idle_duration}}")).toBe("just now");
+  });
+
+  it("expands lastMessage", () => {
+    expect(evaluate("> {{lastMessage}}", { lastMessage: "Hello there" })).toBe("> Hello there");
+  });
+
+  it("sets and reads variables, carrying them across texts that share a store", () => {
+    expect(evaluate("{{setvar::mood::calm}}I am {{getvar::mood}}{{getvar::missing}}.")).toBe("I am calm.");
+
+    const variables: Record<string, string> = {};
+    evaluate("{{setvar::weapon::{{random::sword::axe}}}}", { variables, random: sequence(0.7) });
+    expect(variables).toEqual({ weapon: "axe" });
+    expect(evaluate("Wielding an {{getvar::weapon}}", { variables })).toBe("Wielding an axe");
+  });
+
+  it("expands nested macros from the inside out", () => {
+    expect(evaluate("{{random::{{user}}::{{char}}}}", { user: "Ann", char: "Bob", random: sequence(0.9) })).toBe("Bob");
+  });
+
+  it("runs macros registered by plugins", () => {
+    MacroEngine.register("shout", (args) => (args.length === 1 ? args[0].toUpperCase() : undefined));
+    expect(MacroEngine.has("SHOUT")).toBe(true);
+    expect(evaluate("{{shout::hi {{user}}}}", { user: "Ann" })).toBe("HI ANN");
+
+    MacroEngine.unregister("shout");
+    expect(evaluate("{{shout::hi}}")).toBe("{{shout::hi}}");
+  });
+});
+
+describe("macros in prompt assembly", () => {
+  it("turns <br> into newlines in adaptText", () => {
+    expect(adaptText("{{char}}<br>{{user}}", "en", "Ann", "Bob")).toBe("Bob\nAnn");
+  });
+
+  it("expands every card field with the chat's context", () => {
+    const card = {
+      name: "Bob",
+      description: "{{setvar::home::the mill}}{{char}} lives at {{getvar::home}}.",
+      personality: "Misses {{getvar::home}} and {{getvar::friend}}.",
+      scenario: "{{user}} arrives {{idle_duration}} after {{lastMessage}}",
+      alternate_greetings: ["Hi {{user}}, {{getvar::friend}} says hello."],
+      character_book: { entries: [{ comment: "{{char}}", content: "{{getvar::home}}" }] },
+    };
+    const context: MacroContext = {
+      now,
+      lastMessage: "the storm",
+      lastMessageTime: now.getTime() - 2 * 86_400_000,
+      variables: { friend: "Cleo" },
+    };
+
+    const adapted = adaptCharacterData(card, "en", "Ann", context);
+    expect(adapted.description).toBe("Bob lives at the mill.");
+    expect(adapted.personality).toBe("Misses the mill and Cleo.");
+    expect(adapted.scenario).toBe("Ann arrives 2 days after the storm");
+    expect(adapted.alternate_greetings).toEqual(["Hi Ann, Cleo says hello."]);
+    expect(adapted.character_book).toEqual([{ comment: "Bob", content: "the mill" }]);
+    expect(card.alternate_greetings).toEqual(["Hi {{user}}, {{getvar::friend}} says hello."]);
+  });
+
+  it("shares variables between the preset and world book entries", () => {
+    const macros: MacroContext = { user: "Ann", char: "Bob", now, random: sequence(0), variables: {} };
+    const prompts: PresetPrompt[] = [
+      { identifier: "main", name: "Main", content: "{{setvar::place::harbor}}{{char}} waits for {{user}}.", enabled: true },
+      { identifier: "worldInfoBefore", name: "World", content: "", enabled: true },
+    ];
+
+    const { systemMessage, userMessage } = PresetAssembler.assemblePrompts(
+      prompts,
+      "en",
+      false,
+      { macros },
+    );
+    expect(systemMessage).toContain("Bob waits for Ann.");
+    expect(systemMessage).toContain("{{worldInfoBefore}}");
+
+    const assembled = new PromptAssembler({ language: "en", macros }).assemblePrompt(
+      [{ content: "{{char}} is at the {{getvar::place}}.", keys: [], selective: false, constant: true, position: 0 }],
+      systemMessage,
+      userMessage,
+      [],
+      "hello",
+    );
+    expect(assembled.systemMessage).toContain("Bob is at the harbor.");
+    expect(assembled.systemMessage).not.toContain("{{worldInfoBefore}}");
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { PromptAssembler } from "@/lib/core/prompt-assembler";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+
+function entry(fields: Partial<WorldBookEntry>): WorldBookEntry {
+  return { content: "", keys: [], selective: false, constant: false, position: 0, ...fields };
+}
+
+describe("PromptAssembler", () => {
+  it("injects at-depth entries and advances timers when the preset has no world info slots", () => {
+    const assembler = new PromptAssembler({ language: "en", timedEffects: { turn: 3 } });
+    const assembled = assembler.assemblePrompt(
+      [
+        entry({ entry_id: "weather", content: "It is raining.", keys: ["rain"], position: 4, depth: 2, sticky: 2 }),
+        entry({ entry_id: "lore", content: "The old lore.", constant: true, position: 0 }),
+      ],
+      "You are the narrator.",
+      "{{userInput}}",
+      [],
+      "Does the rain stop?",
+    );
+
+    expect(assembled.systemMessage).toBe("You are the narrator.");
+    expect(assembled.userMessage).toBe("Does the rain stop?");
+    expect(assembled.depthInjections).toHaveLength(1);
+    expect(assembled.depthInjections[0]).toMatchObject({ depth: 2, role: "system" });
+    expect(assembled.depthInjections[0].content).toContain("It is raining.");
+    expect(assembled.worldBookState?.timers.weather).toMatchObject({ triggeredAt: 3, stickyUntil: 5 });
+  });
+
+  it("leaves out lore pulled in by an entry that a limit dropped", () => {
+    const assembler = new PromptAssembler({ language: "en", recursionDepth: 1, maxEntries: 2 });
+    const assembled = assembler.assemblePrompt(
+      [
+        entry({ entry_id: "rules", content: "House rules.", constant: true }),
+        entry({ entry_id: "castle", content: "The castle hides a dragon.", keys: ["castle"], insertion_order: 1 }),
+        entry({ entry_id: "dragon", content: "The dragon breathes fire.", keys: ["dragon"], insertion_order: 5 }),
+      ],
+      "{{worldInfoBefore}}",
+      "{{userInput}}",
+      [],
+      "We ride to the castle.",
+    );
+
+    expect(assembled.systemMessage).toContain("House rules.");
+    expect(assembled.systemMessage).not.toContain("dragon");
+    expect(assembled.worldBookActivation.activated.map(item => item.entryId)).toEqual(["rules"]);
+    expect(assembled.worldBookActivation.dropped.map(({ entryId, reason }) => [entryId, reason])).toEqual([
+      ["castle", "maxEntries"],
+      ["dragon", "parentDropped"],
+    ]);
+  });
+});
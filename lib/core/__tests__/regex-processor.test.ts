@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { RegexProcessor, RegexScriptSet } from "@/lib/core/regex-processor";
+import { RegexPlacement, RegexScript, RegexScriptSettings } from "@/lib/models/regex-script-model";
+
+function script(scriptKey: string, findRegex: string, replaceString: string, fields: Partial<RegexScript> = {}): RegexScript {
+  return {
+    scriptKey,
+    scriptName: scriptKey,
+    findRegex,
+    replaceString,
+    trimStrings: [],
+    placement: [RegexPlacement.AI_OUTPUT],
+    ...fields,
+  };
+}
+
+const settings: RegexScriptSettings = { enabled: true, applyToPrompt: true, applyToResponse: true };
+
+function scriptSet(scripts: RegexScript[], overrides: Partial<RegexScriptSettings> = {}): RegexScriptSet {
+  return { scripts, settings: { ...settings, ...overrides }, macros: { user: "Ann", char: "Bob" } };
+}
+
+describe("RegexProcessor", () => {
+  it("runs scripts only on their placements", () => {
+    const set = scriptSet([
+      script("output", "/cat/g", "dog"),
+      script("input", "/cat/g", "cow", { placement: [RegexPlacement.USER_INPUT] }),
+      script("both", "/bird/g", "fish", { placement: [RegexPlacement.USER_INPUT, RegexPlacement.AI_OUTPUT] }),
+      // Saved before placements were honored: AI output only
+      script("legacy", "/fox/g", "wolf", { placement: [999] }),
+    ]);
+
+    expect(RegexProcessor.applyToOutput("cat bird fox", set).replacedText).toBe("dog fish wolf");
+    expect(RegexProcessor.applyToOutput("cat bird fox", set, RegexPlacement.USER_INPUT).replacedText).toBe("cow fish fox");
+    expect(RegexProcessor.applyToOutput("cat", set, RegexPlacement.WORLD_INFO).replacedText).toBe("cat");
+  });
+
+  it("keeps display-only and prompt-only scripts to their copy of the text", () => {
+    const set = scriptSet([
+      script("edit", "/hello/g", "hi"),
+      script("display", "/hi/g", "<b>hi</b>", { markdownOnly: true }),
+      script("prompt", "/hi/g", "[hi]", { promptOnly: true }),
+    ]);
+    const edit = { placement: RegexPlacement.AI_OUTPUT, mode: "edit" as const };
+
+    expect(RegexProcessor.applyScripts("hello", set, edit).replacedText).toBe("hi");
+    expect(RegexProcessor.applyToOutput("hello", set).replacedText).toBe("<b>hi</b>");
+    expect(RegexProcessor.applyToPrompt("hello", set, RegexPlacement.AI_OUTPUT).replacedText).toBe("[hi]");
+    // Messages stored before they were kept raw already had the editing scripts applied
+    expect(RegexProcessor.applyForDisplay("hello hi", set, RegexPlacement.AI_OUTPUT, undefined, true)).toBe("hello <b>hi</b>");
+    expect(RegexProcessor.chainFor(set, RegexPlacement.AI_OUTPUT, "prompt").map((item) => item.scriptKey)).toEqual(["edit", "prompt"]);
+  });
+
+  it("follows the owner's settings for prompt and response copies", () => {
+    const set = [script("edit", "/cat/g", "dog"), script("prompt", "/cat/g", "cow", { promptOnly: true })];
+
+    expect(RegexProcessor.applyToPrompt("cat", scriptSet(set, { applyToPrompt: false }), RegexPlacement.AI_OUTPUT).replacedText).toBe("dog");
+    expect(RegexProcessor.applyToOutput("cat", scriptSet(set, { applyToResponse: false })).replacedText).toBe("cat");
+    expect(RegexProcessor.applyToOutput("cat", scriptSet(set, { enabled: false })).replacedText).toBe("cat");
+  });
+
+  it("limits scripts to messages between their minimum and maximum depth", () => {
+    const set = scriptSet([
+      script("recent", "/cat/g", "dog", { maxDepth: 1 }),
+      script("older", "/bird/g", "fish", { minDepth: 2, maxDepth: 3 }),
+      script("unlimited", "/fox/g", "wolf", { minDepth: -1, maxDepth: null }),
+    ]);
+    const atDepth = (depth?: number) => RegexProcessor.applyToOutput("cat bird fox", set, RegexPlacement.AI_OUTPUT, depth).replacedText;
+
+    expect(atDepth(0)).toBe("dog bird wolf");
+    expect(atDepth(1)).toBe("dog bird wolf");
+    expect(atDepth(2)).toBe("cat fish wolf");
+    expect(atDepth(3)).toBe("cat fish wolf");
+    expect(atDepth(4)).toBe("cat bird wolf");
+    // Without a known depth the limits are not checked
+    expect(atDepth()).toBe("dog fish wolf");
+  });
+
+  it("removes trim strings from the match and its groups before inserting them", () => {
+    const set = scriptSet([
+      script("quote", "/\"(.+?)\"/g", "«$1» ({{match}})", { trimStrings: ["!", "{{char}}: "] }),
+    ]);
+
+    expect(RegexProcessor.applyToOutput("He said \"Bob: stop!\"", set).replacedText).toBe("He said «stop» (\"stop\")");
+  });
+
+  it("reports the scripts that changed the text", () => {
+    const set = scriptSet([script("cat", "/cat/g", "dog"), script("none", "/zebra/g", "horse"), script("dog", "/dog/g", "wolf")]);
+    const result = RegexProcessor.applyToOutput("cat", set);
+
+    expect(result).toEqual({ originalText: "cat", replacedText: "wolf", appliedScripts: ["cat", "dog"], success: true });
+  });
+});
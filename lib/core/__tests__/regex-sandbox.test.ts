@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RegexProcessor, RegexScriptSet } from "@/lib/core/regex-processor";
+import { REGEX_TIMEOUT_EVENT, RegexSandbox, RegexSandboxRequest, RegexTimeoutDetail } from "@/lib/core/regex-sandbox";
+import { RegexPlacement, RegexScript } from "@/lib/models/regex-script-model";
+
+/**
+ * Stands in for the sandbox worker. A script named "stuck" reports that it
+ * started and then never finishes, like a pattern stuck backtracking.
+ */
+class FakeWorker extends EventTarget {
+  postMessage(request: RegexSandboxRequest) {
+    if (request.kind !== "apply") {
+      return;
+    }
+    setTimeout(() => {
+      const send = (data: unknown) => this.dispatchEvent(new MessageEvent("message", { data }));
+      let stalled = false;
+      const results = request.jobs.map((job) => RegexProcessor.applyInSequence(job.text, request.scriptSet, job.targets, (script) => {
+        if (!stalled) {
+          send({ id: request.id, running: script.scriptKey });
+          stalled = script.scriptName === "stuck";
+        }
+      }));
+      if (!stalled) {
+        send({ id: request.id, results });
+      }
+    });
+  }
+
+  terminate() {}
+}
+
+function script(scriptKey: string, findRegex: string, replaceString: string): RegexScript {
+  return { id: scriptKey, scriptKey, scriptName: scriptKey, findRegex, replaceString, placement: [RegexPlacement.AI_OUTPUT] } as RegexScript;
+}
+
+const settings = { enabled: true, applyToPrompt: true, applyToResponse: true } as RegexScriptSet["settings"];
+const targets = RegexProcessor.targetsFor("display", RegexPlacement.AI_OUTPUT);
+
+describe("RegexSandbox.applyScripts", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs inline where there are no workers", async () => {
+    const scriptSet: RegexScriptSet = { scripts: [script("a", "/cat/g", "dog")], settings, macros: {} };
+    const [result] = await RegexSandbox.applyScripts(scriptSet, [{ text: "cat and cat", targets }]);
+    expect(result.replacedText).toBe("dog and dog");
+  });
+
+  it("skips a script that stalls, names it, and keeps skipping it until its pattern changes", async () => {
+    const window = new EventTarget();
+    vi.stubGlobal("Worker", FakeWorker);
+    vi.stubGlobal("window", window);
+    const timeouts: RegexTimeoutDetail[] = [];
+    window.addEventListener(REGEX_TIMEOUT_EVENT, (event) => timeouts.push((event as CustomEvent<RegexTimeoutDetail>).detail));
+
+    const stuck = script("stuck", "/(a+)+$/", "");
+    const scriptSet: RegexScriptSet = { scripts: [script("a", "/cat/g", "dog"), stuck, script("b", "/dog/g", "wolf")], settings, macros: {} };
+    const [result] = await RegexSandbox.applyScripts(scriptSet, [{ text: "cat", targets }], 20);
+
+    expect(result.replacedText).toBe("wolf");
+    expect(timeouts).toEqual([{ scriptKey: "stuck", scriptName: "stuck", timeoutMs: 20 }]);
+    expect(RegexSandbox.hasTimedOut(stuck)).toBe(true);
+    expect(RegexSandbox.hasTimedOut({ ...stuck, findRegex: "/a+$/" })).toBe(false);
+
+    await RegexSandbox.applyScripts(scriptSet, [{ text: "cat", targets }], 20);
+    expect(timeouts).toHaveLength(1);
+  });
+});
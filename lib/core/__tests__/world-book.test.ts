@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import { WorldBookManager, WorldBookTimedOptions } from "@/lib/core/world-book";
+import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { SelectiveLogic, WorldBookEntry, WorldBookTimedState } from "@/lib/models/world-book-model";
+
+function entry(entry_id: string, fields: Partial<WorldBookEntry> = {}): WorldBookEntry {
+  return { entry_id, content: entry_id, keys: [], selective: false, constant: false, position: 0, ...fields };
+}
+
+function history(...contents: string[]): DialogueMessage[] {
+  return contents.map((content, id) => ({ id, role: id % 2 === 0 ? "user" : "assistant", content }));
+}
+
+function ids(entries: WorldBookEntry[]): string[] {
+  return entries.map((entry) => entry.entry_id!);
+}
+
+describe("WorldBookManager.getActivations", () => {
+  it("gates selective entries on their secondary keys", () => {
+    const secondary = { keys: ["castle"], selective: true, secondary_keys: ["king", "queen"] };
+    const book = [
+      entry("andAny", { ...secondary, selectiveLogic: SelectiveLogic.AND_ANY }),
+      entry("andAll", { ...secondary, selectiveLogic: SelectiveLogic.AND_ALL }),
+      entry("notAny", { ...secondary, selectiveLogic: SelectiveLogic.NOT_ANY }),
+      entry("notAll", { ...secondary, selectiveLogic: SelectiveLogic.NOT_ALL }),
+    ];
+
+    const activations = WorldBookManager.getActivations(book, "The king rides to the castle.", []);
+    expect(ids(activations.map(({ entry }) => entry))).toEqual(["andAny", "notAll"]);
+    expect(activations[0].trigger).toEqual({ type: "key", key: "castle", secondaryKey: "king" });
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "The castle is empty.", []))).toEqual(["notAny", "notAll"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "The king and queen hold the castle.", []))).toEqual(["andAny", "andAll"]);
+  });
+
+  it("honours whole-word and case settings per entry, falling back to the book's", () => {
+    const book = [
+      entry("plain", { keys: ["cat"] }),
+      entry("whole", { keys: ["cat"], match_whole_words: true }),
+      entry("cased", { keys: ["Cat"], case_sensitive: true }),
+      entry("phrase", { keys: ["black cat"], match_whole_words: true }),
+      entry("regex", { keys: ["/ca+t\\b/i"] }),
+    ];
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "A black catalogue", []))).toEqual(["plain", "phrase"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "One CAT, then a Caat", []))).toEqual(["plain", "whole", "regex"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "The Cat.", [], { caseSensitive: true }))).toEqual(["cased", "regex"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "catnip", [], { matchWholeWords: true }))).toEqual([]);
+  });
+
+  it("scans only the last `contextWindow` messages with the current one", () => {
+    const book = [entry("dragon", { keys: ["dragon"] }), entry("sword", { keys: ["sword"] })];
+    const chat = history("A dragon appears.", "It flies away.", "We rest.");
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "I draw my sword.", chat, { contextWindow: 3 }))).toEqual(["dragon", "sword"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "I draw my sword.", chat, { contextWindow: 2 }))).toEqual(["sword"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "Hello.", chat, { contextWindow: 1 }))).toEqual([]);
+  });
+
+  it("keeps constant entries and skips disabled ones", () => {
+    const book = [
+      entry("always", { constant: true }),
+      entry("off", { keys: ["hello"], enabled: false }),
+      entry("disabled", { keys: ["hello"], disable: true }),
+      entry("on", { keys: ["hello"] }),
+    ];
+    const activations = WorldBookManager.getActivations(book, "hello", []);
+    expect(activations.map(({ entry, trigger }) => [entry.entry_id, trigger.type])).toEqual([["always", "constant"], ["on", "key"]]);
+  });
+});
+
+describe("WorldBookManager recursion and limits", () => {
+  const chain = [
+    entry("city", { keys: ["city"], content: "The city has a tower." }),
+    entry("tower", { keys: ["tower"], content: "The tower hides a vault." }),
+    entry("vault", { keys: ["vault"], content: "The vault holds a crown." }),
+    entry("crown", { keys: ["crown"], content: "The crown is cursed." }),
+  ];
+
+  it("follows keys in activated content up to the recursion depth", () => {
+    expect(ids(WorldBookManager.getMatchingEntries(chain, "We reach the city.", []))).toEqual(["city"]);
+
+    const activations = WorldBookManager.getActivations(chain, "We reach the city.", [], { recursionDepth: 2 });
+    expect(activations.map(({ entry, trigger }) => [entry.entry_id, trigger.type === "key" ? trigger.recursionLevel : undefined]))
+      .toEqual([["city", undefined], ["tower", 1], ["vault", 2]]);
+
+    expect(ids(WorldBookManager.getMatchingEntries(chain, "We reach the city.", [], { recursionDepth: 10 })))
+      .toEqual(["city", "tower", "vault", "crown"]);
+  });
+
+  it("activates exclude_recursion entries only from the chat", () => {
+    const book = chain.map((item) => (item.entry_id === "tower" ? { ...item, exclude_recursion: true } : item));
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "We reach the city.", [], { recursionDepth: 3 }))).toEqual(["city"]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "The city tower.", [], { recursionDepth: 3 })))
+      .toEqual(["city", "tower", "vault", "crown"]);
+  });
+
+  it("does not scan the content of prevent_recursion entries", () => {
+    const book = chain.map((item) => (item.entry_id === "tower" ? { ...item, extensions: { prevent_recursion: true } } : item));
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "We reach the city.", [], { recursionDepth: 3 }))).toEqual(["city", "tower"]);
+  });
+
+  it("records which activated entries triggered each recursive activation", () => {
+    const book = [
+      entry("city", { keys: ["city"], content: "The city has a tower." }),
+      entry("harbor", { keys: ["harbor"], content: "Ships dock here." }),
+      ...chain.slice(1),
+    ];
+    const activations = WorldBookManager.getActivations(book, "The city harbor.", [], { recursionDepth: 2 });
+    const parents = activations.map(({ entry, parents }) => [entry.entry_id, parents && ids(parents)]);
+
+    expect(parents).toEqual([["city", undefined], ["harbor", undefined], ["tower", ["city"]], ["vault", ["tower"]]]);
+  });
+
+  it("drops recursive activations whose parents were all dropped", () => {
+    const activations = WorldBookManager.getActivations(chain, "We reach the city.", [], { recursionDepth: 3 });
+    const [city, tower, vault, crown] = chain;
+
+    expect(WorldBookManager.dropOrphanedEntries(activations, [city, vault, crown])).toEqual({
+      entries: [city],
+      dropped: [{ entry: vault, reason: "parentDropped" }, { entry: crown, reason: "parentDropped" }],
+    });
+    expect(WorldBookManager.dropOrphanedEntries(activations, [city, tower, vault]).dropped).toEqual([]);
+  });
+
+  it("drops entries past the entry and token limits, keeping constants and higher insertion orders first", () => {
+    const entries = [
+      entry("low", { content: "one two three", insertion_order: 1 }),
+      entry("high", { content: "one two", insertion_order: 5 }),
+      entry("constant", { content: "one", constant: true }),
+      entry("mid", { content: "one two three four", insertion_order: 3 }),
+    ];
+    const countTokens = (text: string) => text.split(" ").length;
+
+    const byCount = WorldBookManager.limitActivatedEntries(entries, { maxEntries: 2 });
+    expect(ids(byCount.entries)).toEqual(["high", "constant"]);
+    expect(byCount.dropped.map(({ entry, reason }) => [entry.entry_id, reason])).toEqual([["mid", "maxEntries"], ["low", "maxEntries"]]);
+
+    const byTokens = WorldBookManager.limitActivatedEntries(entries, { tokenBudget: 6, countTokens });
+    expect(ids(byTokens.entries)).toEqual(["low", "high", "constant"]);
+    expect(byTokens.dropped.map(({ entry, reason }) => [entry.entry_id, reason])).toEqual([["mid", "tokenBudget"]]);
+
+    expect(WorldBookManager.limitActivatedEntries(entries).dropped).toEqual([]);
+  });
+});
+
+describe("WorldBookManager timed effects", () => {
+  const sticky = entry("sticky", { keys: ["storm"], sticky: 2 });
+  const cooled = entry("cooled", { keys: ["storm"], cooldown: 2 });
+  const delayed = entry("delayed", { keys: ["storm"], delay: 3 });
+  const book = [sticky, cooled, delayed];
+
+  /**
+   * Plays turns in order, matching `storm` only on the turns listed, and
+   * returns the ids active on each turn.
+   */
+  function play(turns: number, stormOn: number[]): string[][] {
+    let state: WorldBookTimedState | undefined;
+    const active: string[][] = [];
+    for (let turn = 1; turn <= turns; turn++) {
+      const message = stormOn.includes(turn) ? "A storm rolls in." : "All is calm.";
+      const entries = WorldBookManager.getMatchingEntries(book, message, [], { timedEffects: { turn, state } });
+      active.push(ids(entries));
+      state = WorldBookManager.advanceTimedState(entries, { turn, state });
+    }
+    return active;
+  }
+
+  it("keeps sticky entries active after their trigger for `sticky` turns", () => {
+    expect(play(4, [1])).toEqual([["sticky", "cooled"], ["sticky"], ["sticky"], []]);
+  });
+
+  it("holds off delayed entries and cools entries down after they trigger", () => {
+    expect(play(6, [1, 2, 3, 4, 5, 6])).toEqual([
+      ["sticky", "cooled"],
+      ["sticky"],
+      ["sticky", "delayed"],
+      ["sticky", "cooled", "delayed"],
+      ["sticky", "delayed"],
+      ["sticky", "delayed"],
+    ]);
+  });
+
+  it("rolls probability for fresh activations only", () => {
+    const chance = entry("chance", { keys: ["storm"], probability: 50, useProbability: true, sticky: 1 });
+    const rolls = [0.9, 0.1];
+    const random = () => rolls.shift() ?? 0.9;
+    const scan = (message: string, timedEffects: WorldBookTimedOptions) =>
+      ids(WorldBookManager.getMatchingEntries([chance], message, [], { timedEffects }));
+
+    expect(scan("storm", { turn: 1, random })).toEqual([]);
+    expect(scan("storm", { turn: 2, random })).toEqual(["chance"]);
+    const state = WorldBookManager.advanceTimedState([chance], { turn: 2 });
+    // Carried by its sticky window without another roll
+    expect(scan("calm", { turn: 3, state, random: () => 0.99 })).toEqual(["chance"]);
+  });
+
+  it("ignores probability unless `useProbability` is set", () => {
+    const book = [
+      entry("unflagged", { keys: ["storm"], probability: 10 }),
+      entry("off", { keys: ["storm"], probability: 10, useProbability: false }),
+      entry("imported", { keys: ["storm"], probability: 10, extensions: { useProbability: true } }),
+    ];
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "storm", [], { timedEffects: { turn: 1, random: () => 0.5 } })))
+      .toEqual(["unflagged", "off"]);
+  });
+
+  it("keeps entries held back by a failed roll, cooldown or delay out of recursion", () => {
+    const book = [
+      entry("rolled", { keys: ["storm"], content: "Thunder shakes the tower.", probability: 50, useProbability: true }),
+      entry("cooling", { keys: ["storm"], content: "The river floods.", cooldown: 3 }),
+      entry("early", { keys: ["storm"], content: "Wolves howl.", delay: 5 }),
+      entry("tower", { keys: ["tower"] }),
+      entry("river", { keys: ["river"] }),
+      entry("wolves", { keys: ["wolves"] }),
+    ];
+    const state: WorldBookTimedState = { turn: 1, timers: { cooling: { triggeredAt: 1, stickyUntil: 1, cooldownUntil: 4 } } };
+    const options = { recursionDepth: 2, timedEffects: { turn: 2, state, random: () => 0.9 } };
+
+    expect(ids(WorldBookManager.getMatchingEntries(book, "A storm.", [], options))).toEqual([]);
+    expect(ids(WorldBookManager.getMatchingEntries(book, "A storm.", [], { ...options, timedEffects: { turn: 5, random: () => 0.1 } })))
+      .toEqual(["rolled", "cooling", "early", "tower", "river", "wolves"]);
+  });
+});
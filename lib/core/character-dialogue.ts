@@ -3,16 +3,22 @@ import { ChatOpenAI } from "@langchain/openai";
 import { ChatOllama } from "@langchain/ollama";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
+import { AIMessage } from "@langchain/core/messages";
 import { PromptAssembler } from "@/lib/core/prompt-assembler";
 import { RunnablePassthrough } from "@langchain/core/runnables";
 import { getCharacterCompressorPromptZh, getCharacterCompressorPromptEn } from "@/lib/prompts/character-prompts";
 import { CharacterHistory } from "@/lib/core/character-history";
 import { DialogueOptions } from "@/lib/models/character-dialogue-model";
+import { createChatModel } from "@/lib/nodeflow/LLMNode/providers";
+import { LLMType } from "@/lib/models/llm-provider-model";
+import { UsageLedger } from "@/lib/core/usage-ledger";
 
 export class CharacterDialogue {
   character: Character;
   history: CharacterHistory;
   llm: any;
+  llmType: LLMType = "openai";
+  modelName = "";
   dialogueChain: RunnablePassthrough | null = null;
   language: "zh" | "en" = "zh";
   promptAssembler: PromptAssembler;
@@ -63,6 +69,8 @@ export class CharacterDialogue {
     } = options;
 
     const safeModel = modelName && modelName.trim() ? modelName.trim() : "";
+    this.llmType = llmType;
+    this.modelName = safeModel;
 
     type LLMSettings = {
       temperature: number;
@@ -149,6 +157,17 @@ export class CharacterDialogue {
         repeatPenalty: llmSettings.repeatPenalty,
         streaming: false,
       });
+    } else {
+      this.llm = createChatModel({
+        modelName: safeModel,
+        apiKey,
+        baseUrl,
+        llmType,
+        temperature: llmSettings.temperature,
+        maxTokens: llmSettings.maxTokens,
+        maxRetries: llmSettings.maxRetries,
+        streaming: false,
+      });
     }
   }
 
@@ -192,10 +211,23 @@ export class CharacterDialogue {
         ]);
       }
       
-      const compressorChain = compressorPrompt
-        .pipe(this.llm)
-        .pipe(new StringOutputParser());
-      const compressedStory = await compressorChain.invoke({});
+      const startedAt = Date.now();
+      const aiMessage = await compressorPrompt.pipe(this.llm).invoke({}) as AIMessage;
+      void UsageLedger.record({
+        source: "memory",
+        characterId: this.character.id,
+        llmType: this.llmType,
+        modelName: this.modelName,
+        tokenUsage: aiMessage.usage_metadata
+          ? {
+            prompt_tokens: aiMessage.usage_metadata.input_tokens,
+            completion_tokens: aiMessage.usage_metadata.output_tokens,
+            total_tokens: aiMessage.usage_metadata.total_tokens,
+          }
+          : null,
+        latencyMs: Date.now() - startedAt,
+      });
+      const compressedStory = await new StringOutputParser().invoke(aiMessage);
       
       return compressedStory;
     } catch (error) {
@@ -1,7 +1,8 @@
 import { CharacterRecord } from "@/lib/data/roleplay/character-record-operation";
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { WORLD_BOOK_ENTRY_ROLES, WorldBookEntry } from "@/lib/models/world-book-model";
 import { CharacterData } from "@/lib/models/character-model";
 import { adaptCharacterData } from "@/lib/adapter/tagReplacer";
+import { MacroContext } from "@/lib/core/macro-engine";
 
 export class Character {
   id: string;
@@ -43,16 +44,30 @@ export class Character {
         return characterBook.entries.map((entry: any, index: number) => ({
           comment: entry.comment || "",
           content: entry.content || "",
-          enabled: entry.enabled || true,
+          enabled: entry.enabled !== false,
           position: (entry.extensions && typeof entry.extensions.position !== "undefined"
             ? entry.extensions.position
             : (typeof entry.position !== "undefined" ? entry.position : 0)) as 0 | 1 | 2 | 3 | 4,
           constant: entry.constant || false,
           keys: entry.keys || [],
+          secondary_keys: entry.secondary_keys || [],
+          selective: entry.selective || false,
+          selectiveLogic: entry.extensions?.selectiveLogic,
+          use_regex: entry.use_regex || false,
+          case_sensitive: entry.case_sensitive ?? entry.extensions?.case_sensitive ?? undefined,
+          match_whole_words: entry.extensions?.match_whole_words ?? undefined,
           insertion_order: typeof entry.insertion_order !== "undefined"
             ? entry.insertion_order
             : (typeof entry.order !== "undefined" ? entry.order : 0),
           depth: (entry.extensions && typeof entry.extensions.depth !== "undefined") ? entry.extensions.depth : 0,
+          role: WORLD_BOOK_ENTRY_ROLES[Number(entry.extensions?.role)],
+          exclude_recursion: entry.extensions?.exclude_recursion ?? undefined,
+          prevent_recursion: entry.extensions?.prevent_recursion ?? undefined,
+          probability: entry.extensions?.probability ?? undefined,
+          useProbability: entry.extensions?.useProbability ?? undefined,
+          sticky: entry.extensions?.sticky ?? undefined,
+          cooldown: entry.extensions?.cooldown ?? undefined,
+          delay: entry.extensions?.delay ?? undefined,
         }));
       } else {
         return characterBook.entries;
@@ -71,12 +86,12 @@ export class Character {
     }
   }
     
-  getData(language: "en" | "zh" = "zh", username?: string): CharacterData {
-    return adaptCharacterData(this.characterData, language, username);
+  getData(language: "en" | "zh" = "zh", username?: string, context: MacroContext = {}): CharacterData {
+    return adaptCharacterData(this.characterData, language, username, context);
   }
   
-  getSystemPrompt(language: "en" | "zh" = "zh", username?: string): string {
-    const processedData = adaptCharacterData(this.characterData, language, username);
+  getSystemPrompt(language: "en" | "zh" = "zh", username?: string, context: MacroContext = {}): string {
+    const processedData = adaptCharacterData(this.characterData, language, username, context);
     let prompt = "";
     
     if (language === "zh") {
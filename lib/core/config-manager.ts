@@ -1,3 +1,5 @@
+import { LLMType, requiresApiKey } from "@/lib/models/llm-provider-model";
+
 /**
  * LLM Configuration interface
  */
@@ -5,7 +7,7 @@ export interface LLMConfig {
   model_name: string;
   api_key: string;
   base_url?: string;
-  llm_type: "openai" | "ollama";
+  llm_type: LLMType;
   temperature: number;
   max_tokens?: number;
   tavily_api_key?: string;
@@ -56,7 +58,7 @@ export class ConfigManager {
     model?: string;
     apiKey?: string;
     baseUrl?: string;
-    type?: "openai" | "ollama";
+    type?: LLMType;
   }): LLMConfig {
     const llmType = overrides?.type || this.config.llm_type;
     const model = overrides?.model || this.config.model_name;
@@ -67,8 +69,8 @@ export class ConfigManager {
       throw new Error("LLM model not configured. Please configure your AI model settings.");
     }
 
-    if (llmType === "openai" && !apiKey) {
-      throw new Error("OpenAI API key not configured. Please configure your API key.");
+    if (requiresApiKey(llmType) && !apiKey) {
+      throw new Error("API key not configured. Please configure your API key.");
     }
 
     return {
@@ -89,7 +91,7 @@ export class ConfigManager {
    */
   isConfigured(): boolean {
     const hasBasicConfig = !!(this.config.llm_type && this.config.model_name);
-    const hasApiKey = this.config.llm_type === "ollama" || !!this.config.api_key;
+    const hasApiKey = !requiresApiKey(this.config.llm_type) || !!this.config.api_key;
     
     return hasBasicConfig && hasApiKey;
   }
@@ -106,7 +108,7 @@ export class ConfigManager {
  */
 export function loadConfigFromLocalStorage(): LLMConfig {
   try {
-    const llmType = localStorage.getItem("llmType") as "openai" | "ollama" | null;
+    const llmType = localStorage.getItem("llmType") as LLMType | null;
     const openaiModel = localStorage.getItem("openaiModel");
     const ollamaModel = localStorage.getItem("ollamaModel");
     const openaiApiKey = localStorage.getItem("openaiApiKey");
@@ -120,9 +122,9 @@ export function loadConfigFromLocalStorage(): LLMConfig {
 
     const config: LLMConfig = {
       llm_type: llmType || "openai",
-      model_name: llmType === "openai" ? openaiModel || "" : ollamaModel || "",
+      model_name: llmType === "ollama" ? ollamaModel || "" : openaiModel || "",
       api_key: openaiApiKey || process.env.OPENAI_API_KEY || "",
-      base_url: llmType === "openai" ? openaiBaseUrl || "" : ollamaBaseUrl || "",
+      base_url: llmType === "ollama" ? ollamaBaseUrl || "" : openaiBaseUrl || "",
       temperature: temperature ? parseFloat(temperature) : 0.7,
       max_tokens: maxTokens ? parseInt(maxTokens) : 4000,
       tavily_api_key: tavilyApiKey || process.env.NEXT_PUBLIC_TAVILY_API_KEY || "",
@@ -166,7 +168,7 @@ export function saveConfigToLocalStorage(config: LLMConfig): void {
   try {
     localStorage.setItem("llmType", config.llm_type);
     
-    const modelKey = config.llm_type === "openai" ? "openaiModel" : "ollamaModel";
+    const modelKey = config.llm_type === "ollama" ? "ollamaModel" : "openaiModel";
     localStorage.setItem(modelKey, config.model_name);
     
     if (config.api_key) {
@@ -174,7 +176,7 @@ export function saveConfigToLocalStorage(config: LLMConfig): void {
     }
     
     if (config.base_url) {
-      const baseUrlKey = config.llm_type === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl";
+      const baseUrlKey = config.llm_type === "ollama" ? "ollamaBaseUrl" : "openaiBaseUrl";
       localStorage.setItem(baseUrlKey, config.base_url);
     }
     
@@ -0,0 +1,187 @@
+import type { Tiktoken } from "js-tiktoken/lite";
+
+export type ContextSection = "preset" | "userInput" | "worldBook" | "memory" | "history";
+
+export interface ContextBudgetOptions {
+  maxContextTokens?: number;
+  reservedResponseTokens?: number;
+}
+
+export interface BudgetItem<T> {
+  value: T;
+  text: string;
+  /** Higher priority items are kept first. */
+  priority: number;
+}
+
+export interface SectionUsage {
+  tokens: number;
+  included: number;
+  dropped: number;
+}
+
+export interface ContextTokenBreakdown {
+  maxContextTokens: number;
+  reservedResponseTokens: number;
+  limit: number;
+  used: number;
+  sections: Partial<Record<ContextSection, SectionUsage>>;
+}
+
+export const DEFAULT_MAX_CONTEXT_TOKENS = 16384;
+export const DEFAULT_RESERVED_RESPONSE_TOKENS = 2048;
+
+let encoderPromise: Promise<Tiktoken | null> | null = null;
+
+/**
+ * Loads the cl100k_base BPE ranks once and shares the encoder. The ranks are
+ * imported lazily so they stay out of the initial bundle; when they cannot be
+ * loaded the counter falls back to a character-based estimate.
+ */
+function loadEncoder(): Promise<Tiktoken | null> {
+  if (!encoderPromise) {
+    encoderPromise = Promise.all([
+      import("js-tiktoken/lite"),
+      import("js-tiktoken/ranks/cl100k_base"),
+    ])
+      .then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default))
+      .catch((error) => {
+        console.warn("Tokenizer unavailable, falling back to estimated token counts:", error);
+        return null;
+      });
+  }
+  return encoderPromise;
+}
+
+/**
+ * Rough estimate used when the tokenizer is unavailable: CJK characters count
+ * as one token each, everything else as a quarter token per character.
+ */
+function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export class TokenCounter {
+  private constructor(private readonly encoder: Tiktoken | null) {}
+
+  static async load(): Promise<TokenCounter> {
+    return new TokenCounter(await loadEncoder());
+  }
+
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    if (!this.encoder) {
+      return estimateTokens(text);
+    }
+    return this.encoder.encode(text, "all").length;
+  }
+}
+
+/**
+ * Tracks how much of the prompt window each section consumes.
+ *
+ * The budget is `maxContextTokens - reservedResponseTokens`. Fixed sections
+ * (the preset template and the user input) are always charged. Variable
+ * sections are fitted greedily in the order the workflow visits them — world
+ * book, then memories, then chat history — so lower-priority sections only
+ * receive what is left, and within a section the lowest-priority items are
+ * dropped first.
+ */
+export class ContextBudget {
+  readonly maxContextTokens: number;
+  readonly reservedResponseTokens: number;
+  private readonly sections: Partial<Record<ContextSection, SectionUsage>> = {};
+
+  private constructor(private readonly counter: TokenCounter, options: ContextBudgetOptions) {
+    this.maxContextTokens = options.maxContextTokens && options.maxContextTokens > 0
+      ? options.maxContextTokens
+      : DEFAULT_MAX_CONTEXT_TOKENS;
+    this.reservedResponseTokens = options.reservedResponseTokens !== undefined && options.reservedResponseTokens >= 0
+      ? options.reservedResponseTokens
+      : DEFAULT_RESERVED_RESPONSE_TOKENS;
+  }
+
+  static async create(options: ContextBudgetOptions = {}): Promise<ContextBudget> {
+    return new ContextBudget(await TokenCounter.load(), options);
+  }
+
+  get limit(): number {
+    return Math.max(0, this.maxContextTokens - this.reservedResponseTokens);
+  }
+
+  get used(): number {
+    return Object.values(this.sections).reduce((sum, section) => sum + (section?.tokens ?? 0), 0);
+  }
+
+  get remaining(): number {
+    return Math.max(0, this.limit - this.used);
+  }
+
+  count(text: string): number {
+    return this.counter.count(text);
+  }
+
+  /**
+   * Charges a section that is always sent, regardless of the remaining budget.
+   */
+  reserve(section: ContextSection, text: string): number {
+    const tokens = this.count(text);
+    const usage = this.usage(section);
+    usage.tokens += tokens;
+    usage.included += 1;
+    return tokens;
+  }
+
+  /**
+   * Keeps as many items as fit into the remaining budget, highest priority
+   * first, and returns the kept values in their original order. With
+   * `contiguous`, fitting stops at the first item that does not fit, so a
+   * priority-ordered run (e.g. newest turns first) never has gaps.
+   */
+  fit<T>(section: ContextSection, items: BudgetItem<T>[], contiguous = false): T[] {
+    const usage = this.usage(section);
+    const ranked = items
+      .map((item, index) => ({ item, index, tokens: this.count(item.text) }))
+      .sort((a, b) => b.item.priority - a.item.priority || a.index - b.index);
+
+    const kept = new Set<number>();
+    let available = this.remaining;
+    let stopped = false;
+
+    for (const entry of ranked) {
+      if (!stopped && entry.tokens <= available) {
+        kept.add(entry.index);
+        available -= entry.tokens;
+        usage.tokens += entry.tokens;
+        usage.included += 1;
+      } else {
+        stopped = contiguous;
+        usage.dropped += 1;
+      }
+    }
+
+    return items.filter((_, index) => kept.has(index)).map(item => item.value);
+  }
+
+  getBreakdown(): ContextTokenBreakdown {
+    return {
+      maxContextTokens: this.maxContextTokens,
+      reservedResponseTokens: this.reservedResponseTokens,
+      limit: this.limit,
+      used: this.used,
+      sections: Object.fromEntries(
+        Object.entries(this.sections).map(([name, usage]) => [name, { ...usage }]),
+      ),
+    };
+  }
+
+  private usage(section: ContextSection): SectionUsage {
+    if (!this.sections[section]) {
+      this.sections[section] = { tokens: 0, included: 0, dropped: 0 };
+    }
+    return this.sections[section]!;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Values macros can read. `now` and `random` stand in for the clock and
+ * `Math.random`, so evaluation is deterministic when both are given.
+ */
+export interface MacroContext {
+  language?: "zh" | "en";
+  user?: string;
+  char?: string;
+  /** The latest message of the chat, for `{{lastMessage}}`. */
+  lastMessage?: string;
+  /** When the latest message was sent, in milliseconds, for `{{idle_duration}}`. */
+  lastMessageTime?: number;
+  /** Read by `{{getvar}}` and written by `{{setvar}}`; share one object to carry variables across texts. */
+  variables?: Record<string, string>;
+  now?: Date;
+  random?: () => number;
+}
+
+/**
+ * Evaluates one macro. `args` are the `::`-separated arguments, or the single
+ * argument after `name:` or `name `, with nested macros already expanded.
+ * Returning undefined leaves the macro as written.
+ */
+export type MacroHandler = (args: string[], context: MacroContext) => string | undefined;
+
+// Stands in for {{trim}} until the whole text is expanded
+const TRIM_MARKER = "\uE000";
+const TRIM_PATTERN = new RegExp(`(?:\\r?\\n)*${TRIM_MARKER}(?:\\r?\\n)*`, "g");
+
+const MACRO_CALL = /^([A-Za-z_][\w-]*)(?:[:\s]\s*([\s\S]*))?$/;
+const DICE = /^(\d*)d(\d+)\s*([+-]\s*\d+)?$/i;
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+/**
+ * Expands `{{...}}` macros in card, preset and world book text. Macros are
+ * looked up case-insensitively in a registry that plugins can extend; names
+ * that are not registered, such as the `{{chatHistory}}` and `{{userInput}}`
+ * slots filled later in prompt assembly, are left as written. Macros nest,
+ * the inner ones expanding first, and `{{// ...}}` comments are removed.
+ */
+export class MacroEngine {
+  private static handlers = new Map<string, MacroHandler>();
+
+  /**
+   * Adds a macro, replacing any registered under the same name
+   */
+  static register(name: string, handler: MacroHandler): void {
+    this.handlers.set(name.toLowerCase(), handler);
+  }
+
+  static unregister(name: string): void {
+    this.handlers.delete(name.toLowerCase());
+  }
+
+  static has(name: string): boolean {
+    return this.handlers.has(name.toLowerCase());
+  }
+
+  static evaluate(text: string, context: MacroContext = {}): string {
+    if (!text.includes("{{")) {
+      return text;
+    }
+    const expanded = this.expand(text, { ...context, variables: context.variables ?? {} });
+    return expanded.replace(TRIM_PATTERN, "");
+  }
+
+  private static expand(text: string, context: MacroContext): string {
+    let result = "";
+    let position = 0;
+
+    while (position < text.length) {
+      const start = text.indexOf("{{", position);
+      const end = start === -1 ? -1 : this.findClose(text, start + 2);
+      if (end === -1) {
+        return result + text.slice(position);
+      }
+
+      result += text.slice(position, start);
+      const body = text.slice(start + 2, end);
+      if (!body.trimStart().startsWith("//")) {
+        const inner = this.expand(body, context);
+        result += this.call(inner, context) ?? `{{${inner}}}`;
+      }
+      position = end + 2;
+    }
+    return result;
+  }
+
+  /**
+   * Index of the `}}` closing a macro whose body starts at `from`, skipping nested macros
+   */
+  private static findClose(text: string, from: number): number {
+    let depth = 0;
+    let position = from;
+    while (position < text.length - 1) {
+      if (text.startsWith("{{", position)) {
+        depth++;
+        position += 2;
+      } else if (text.startsWith("}}", position)) {
+        if (depth === 0) {
+          return position;
+        }
+        depth--;
+        position += 2;
+      } else {
+        position++;
+      }
+    }
+    return -1;
+  }
+
+  private static call(body: string, context: MacroContext): string | undefined {
+    const trimmed = body.trim();
+    let name: string;
+    let args: string[];
+
+    if (trimmed.includes("::")) {
+      [name, ...args] = trimmed.split("::");
+    } else {
+      const match = trimmed.match(MACRO_CALL);
+      if (!match) {
+        return undefined;
+      }
+      name = match[1];
+      args = match[2] !== undefined ? [match[2]] : [];
+    }
+
+    const handler = this.handlers.get(name.trim().toLowerCase());
+    if (!handler) {
+      return undefined;
+    }
+    try {
+      return handler(args, context);
+    } catch (error) {
+      console.error(`Macro ${name} failed:`, error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * A macro without arguments; written with arguments it is left as is
+ */
+function constant(value: (context: MacroContext) => string): MacroHandler {
+  return (args, context) => (args.length === 0 ? value(context) : undefined);
+}
+
+function currentTime(context: MacroContext): Date {
+  return context.now ?? new Date();
+}
+
+function randomInt(context: MacroContext, max: number): number {
+  return Math.min(max - 1, Math.floor((context.random ?? Math.random)() * max));
+}
+
+function formatTime(date: Date, language?: "zh" | "en"): string {
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  if (language === "zh") {
+    return `${String(date.getHours()).padStart(2, "0")}:${minutes}`;
+  }
+  const hours = date.getHours() % 12 || 12;
+  return `${hours}:${minutes} ${date.getHours() < 12 ? "AM" : "PM"}`;
+}
+
+function formatDate(date: Date, language?: "zh" | "en"): string {
+  return language === "zh"
+    ? `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`
+    : `${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
+}
+
+function formatDuration(milliseconds: number, language?: "zh" | "en"): string {
+  const minutes = Math.floor(milliseconds / 60_000);
+  const [amount, unit] = minutes >= 1440
+    ? [Math.floor(minutes / 1440), language === "zh" ? "天" : "day"]
+    : minutes >= 60
+      ? [Math.floor(minutes / 60), language === "zh" ? "小时" : "hour"]
+      : [minutes, language === "zh" ? "分钟" : "minute"];
+
+  if (amount < 1) {
+    return language === "zh" ? "刚刚" : "just now";
+  }
+  return language === "zh" ? `${amount} ${unit}` : `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+MacroEngine.register("user", constant((context) => context.user ?? (context.language === "zh" ? "我" : "I")));
+MacroEngine.register("char", constant((context) => context.char ?? ""));
+MacroEngine.register("lastMessage", constant((context) => context.lastMessage ?? ""));
+MacroEngine.register("time", constant((context) => formatTime(currentTime(context), context.language)));
+MacroEngine.register("date", constant((context) => formatDate(currentTime(context), context.language)));
+MacroEngine.register("idle_duration", constant((context) =>
+  formatDuration(
+    context.lastMessageTime === undefined ? 0 : currentTime(context).getTime() - context.lastMessageTime,
+    context.language,
+  ),
+));
+MacroEngine.register("trim", constant(() => TRIM_MARKER));
+
+// {{random::a::b}}, or the older {{random:a,b}}
+MacroEngine.register("random", (args, context) => {
+  const options = args.length === 1 ? args[0].split(",") : args;
+  return options.length === 0 ? "" : options[randomInt(context, options.length)].trim();
+});
+
+// {{roll:1d20}}, {{roll 2d6+1}}; a bare number rolls one die with that many sides
+MacroEngine.register("roll", (args, context) => {
+  const formula = (args[0] ?? "").trim();
+  const dice = DICE.exec(/^\d+$/.test(formula) ? `d${formula}` : formula);
+  if (args.length !== 1 || !dice) {
+    return undefined;
+  }
+  const count = Number(dice[1] || 1);
+  const sides = Number(dice[2]);
+  if (count < 1 || count > 100 || sides < 1) {
+    return undefined;
+  }
+  let total = Number((dice[3] || "0").replace(/\s/g, ""));
+  for (let roll = 0; roll < count; roll++) {
+    total += randomInt(context, sides) + 1;
+  }
+  return String(total);
+});
+
+MacroEngine.register("getvar", (args, context) =>
+  args.length === 1 ? context.variables?.[args[0].trim()] ?? "" : undefined,
+);
+
+MacroEngine.register("setvar", (args, context) => {
+  if (args.length < 2 || !context.variables) {
+    return undefined;
+  }
+  context.variables[args[0].trim()] = args.slice(1).join("::");
+  return "";
+});
@@ -12,6 +12,7 @@ import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { UsageLedger } from "@/lib/core/usage-ledger";
 
 export interface RAGGenerationOptions {
   characterId: string;
@@ -36,9 +37,14 @@ export class MemoryManager {
   private embeddings: OpenAIEmbeddings;
   private textSplitter: RecursiveCharacterTextSplitter;
   
+  /**
+   * With a `dialogueId`, the manager only sees memories from that chat and the
+   * character's shared memories, and files new memories under the chat
+   */
   constructor(
     private apiKey: string,
     private baseUrl?: string,
+    private dialogueId?: string,
   ) {
     this.embeddings = new OpenAIEmbeddings({
       apiKey: this.apiKey,
@@ -71,6 +77,7 @@ export class MemoryManager {
       metadata,
       tags,
       importance,
+      this.dialogueId,
     );
 
     // Generate and store embedding
@@ -109,7 +116,7 @@ export class MemoryManager {
       
       // Get all embeddings for the character
       const characterEmbeddings = await LocalMemoryOperations.getEmbeddingsByCharacter(characterId);
-      const characterMemories = await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId);
+      const characterMemories = await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId, this.dialogueId);
       
       // Calculate similarities
       const similarities: Array<{
@@ -288,8 +295,23 @@ Extract important memories from this conversation:`],
     ]);
 
     try {
-      const chain = prompt.pipe(llm).pipe(new StringOutputParser());
-      const response = await chain.invoke({});
+      const startedAt = Date.now();
+      const aiMessage = await prompt.pipe(llm).invoke({});
+      void UsageLedger.record({
+        source: "memory",
+        characterId,
+        llmType: "openai",
+        modelName: llm.model,
+        tokenUsage: aiMessage.usage_metadata
+          ? {
+            prompt_tokens: aiMessage.usage_metadata.input_tokens,
+            completion_tokens: aiMessage.usage_metadata.output_tokens,
+            total_tokens: aiMessage.usage_metadata.total_tokens,
+          }
+          : null,
+        latencyMs: Date.now() - startedAt,
+      });
+      const response = await new StringOutputParser().invoke(aiMessage);
       
       const extractedMemories = JSON.parse(response);
       if (!Array.isArray(extractedMemories)) {
@@ -362,7 +384,7 @@ Extract important memories from this conversation:`],
     const memoryPrompt = this.formatMemoryPrompt(searchResults, language);
 
     // Get total memory count
-    const totalMemoryCount = (await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId)).length;
+    const totalMemoryCount = (await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId, this.dialogueId)).length;
 
     // Get RAG config
     const config = await LocalMemoryOperations.getRAGConfig(characterId);
@@ -496,6 +518,7 @@ Extract important memories from this conversation:`],
     const searchQuery = {
       query,
       characterId,
+      dialogueId: this.dialogueId,
       types: options.includeTypes,
       maxResults: options.topK || 5,
     };
@@ -632,7 +655,7 @@ Extract important memories from this conversation:`],
    * Rebuild embeddings for all memories of a character (useful after config changes)
    */
   async rebuildEmbeddings(characterId: string): Promise<{ success: number; failed: number }> {
-    const memories = await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId);
+    const memories = await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId, this.dialogueId);
     let success = 0;
     let failed = 0;
 
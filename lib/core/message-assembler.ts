@@ -0,0 +1,135 @@
+import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+
+export type PromptAssemblyMode = "flattened" | "messages";
+
+export interface PromptMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * A top-level block of an assembled prompt: `tag` is the preset prompt
+ * identifier it was wrapped in, or null for untagged text between blocks.
+ */
+export interface PromptSection {
+  tag: string | null;
+  content: string;
+}
+
+const SECTION_PATTERN = /<(\w+)>([\s\S]*?)<\/\1>/g;
+
+/**
+ * Turns the tagged system/user prompt produced by PresetAssembler into a
+ * chat message array for the "messages" assembly mode.
+ *
+ * - every non-empty system section (main, worldInfoBefore, charDescription, ...)
+ *   becomes its own system message, in preset order;
+ * - user-side sections placed before `<chatHistory>` (dialogueExamples,
+ *   enhanceDefinitions, jailbreak) become system messages ahead of the history;
+ * - the `<chatHistory>` block expands into alternating user/assistant messages,
+ *   with any summary text left inside it emitted as a system message first;
+ *   world book entries injected at depth keep their own role inside the history;
+ * - world info injected before `<userInput>` becomes a system message, and the
+ *   rest (`<userInput>`, trailing world info, memory, output format) is the
+ *   final user message.
+ */
+export class MessageAssembler {
+  static buildMessages(
+    systemMessage: string,
+    userMessage: string,
+    history: DialogueMessage[],
+  ): PromptMessage[] {
+    const messages: PromptMessage[] = [];
+
+    for (const section of this.splitSections(systemMessage)) {
+      this.pushSystem(messages, section);
+    }
+
+    const historyStart = userMessage.indexOf("<chatHistory>");
+    const historyEndTag = "</chatHistory>";
+    const historyEnd = userMessage.indexOf(historyEndTag, historyStart);
+
+    let beforeHistory = "";
+    let historySummary = "";
+    let afterHistory = userMessage;
+
+    if (historyStart !== -1 && historyEnd !== -1) {
+      beforeHistory = userMessage.slice(0, historyStart);
+      historySummary = userMessage
+        .slice(historyStart + "<chatHistory>".length, historyEnd)
+        .replace("{{chatHistory}}", "");
+      afterHistory = userMessage.slice(historyEnd + historyEndTag.length);
+    }
+
+    for (const section of this.splitSections(beforeHistory)) {
+      this.pushSystem(messages, section);
+    }
+
+    if (historySummary.trim()) {
+      this.pushSystem(messages, `<chatHistory>\n${historySummary.trim()}\n</chatHistory>`);
+    }
+
+    for (const message of history) {
+      if ((message.role === "user" || message.role === "assistant" || message.role === "system") && message.content.trim()) {
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    const userInputStart = afterHistory.indexOf("<userInput>");
+    if (userInputStart > 0) {
+      this.pushSystem(messages, afterHistory.slice(0, userInputStart));
+      afterHistory = afterHistory.slice(userInputStart);
+    }
+
+    messages.push({ role: "user", content: afterHistory.trim() });
+
+    return messages;
+  }
+
+  /**
+   * Flattened mode keeps the original two-message layout.
+   */
+  static buildFlattenedMessages(systemMessage: string, userMessage: string): PromptMessage[] {
+    return [
+      { role: "system", content: systemMessage },
+      { role: "user", content: userMessage },
+    ];
+  }
+
+  /**
+   * Splits text into its top-level `<tag>...</tag>` sections, keeping any
+   * untagged text between them as separate pieces. Empty sections are dropped.
+   */
+  static getSections(text: string): PromptSection[] {
+    const sections: PromptSection[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(SECTION_PATTERN)) {
+      const index = match.index ?? 0;
+      if (index > lastIndex) {
+        sections.push({ tag: null, content: text.slice(lastIndex, index) });
+      }
+      if (match[2].trim()) {
+        sections.push({ tag: match[1], content: match[0] });
+      }
+      lastIndex = index + match[0].length;
+    }
+
+    if (lastIndex < text.length) {
+      sections.push({ tag: null, content: text.slice(lastIndex) });
+    }
+
+    return sections.filter(section => section.content.trim());
+  }
+
+  private static splitSections(text: string): string[] {
+    return this.getSections(text).map(section => section.content);
+  }
+
+  private static pushSystem(messages: PromptMessage[], content: string): void {
+    const trimmed = content.trim();
+    if (trimmed) {
+      messages.push({ role: "system", content: trimmed });
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { PresetPrompt } from "@/lib/models/preset-model";
 import { adaptText } from "@/lib/adapter/tagReplacer";
+import { MacroContext } from "@/lib/core/macro-engine";
 import { PromptLibrary, PromptKey } from "@/lib/prompts/preset-prompts";
 
 export class PresetAssembler {
@@ -7,7 +8,7 @@ export class PresetAssembler {
     prompts: PresetPrompt[],
     language: "zh" | "en" = "zh",
     fastModel: boolean,
-    contextData: { username?: string; charName?: string; number?: number } = {},
+    contextData: { username?: string; charName?: string; number?: number; macros?: MacroContext } = {},
     systemPresetType: PromptKey = "mirror_realm",
   ): { systemMessage: string; userMessage: string } {
     if (prompts.length === 0 || fastModel) {
@@ -172,7 +173,7 @@ export class PresetAssembler {
     };
   }
 
-  private static _getDefaultFramework(language: "zh" | "en" = "zh", contextData: { username?: string; charName?: string; number?: number }, systemPresetType: PromptKey = "mirror_realm"): { systemMessage: string; userMessage: string } {
+  private static _getDefaultFramework(language: "zh" | "en" = "zh", contextData: { username?: string; charName?: string; number?: number; macros?: MacroContext }, systemPresetType: PromptKey = "mirror_realm"): { systemMessage: string; userMessage: string } {
     const orderedSystemIdentifiers = [
       "main",
       "worldInfoBefore",
@@ -291,7 +292,7 @@ export class PresetAssembler {
   private static _formatPromptContent(
     prompt: PresetPrompt,
     language: "zh" | "en",
-    contextData: { username?: string; charName?: string; number?: number },
+    contextData: { username?: string; charName?: string; number?: number; macros?: MacroContext },
   ): string {
     let contentToAppend = "";
 
@@ -307,6 +308,7 @@ export class PresetAssembler {
         language,
         contextData.username,
         contextData.charName,
+        contextData.macros,
       );
       if (prompt.name) {
         adaptedPromptContent = `【${prompt.name}】\n${adaptedPromptContent}`;
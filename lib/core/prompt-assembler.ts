@@ -1,20 +1,70 @@
-import { WorldBookEntry } from "@/lib/models/world-book-model";
-import { WorldBookManager } from "@/lib/core/world-book";
+import { WorldBookEntry, WorldBookTimedState } from "@/lib/models/world-book-model";
+import { WorldBookEntryTrace, WorldBookTrigger } from "@/lib/models/turn-trace-model";
+import {
+  DepthInjection,
+  DroppedWorldBookEntry,
+  WorldBookActivation,
+  WorldBookManager,
+  WorldBookTimedOptions,
+} from "@/lib/core/world-book";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
 import { adaptText } from "@/lib/adapter/tagReplacer";
+import { MacroContext } from "@/lib/core/macro-engine";
+import { ContextBudget, TokenCounter } from "@/lib/core/context-budget";
 
 export interface PromptAssemblerOptions {
   language: "zh" | "en";
   contextWindow?: number;
+  budget?: ContextBudget;
+  /** Levels of recursive scanning over activated entry content. */
+  recursionDepth?: number;
+  /** Cap on injected entries; 0 means unlimited. */
+  maxEntries?: number;
+  /** Cap on injected entry tokens; 0 means unlimited. */
+  tokenBudget?: number;
+  /** Counts tokens for `tokenBudget` when no context budget is given. */
+  tokenCounter?: TokenCounter;
+  /** Enables probability, sticky, cooldown and delay for the current branch. */
+  timedEffects?: WorldBookTimedOptions;
+  /** What macros in entry content read, shared with the preset so variables carry over. */
+  macros?: MacroContext;
 }
 
+export interface AssembledPrompt {
+  systemMessage: string;
+  userMessage: string;
+  worldBookActivation: WorldBookActivation;
+  /** Position 4 entries, to be inserted into the chat history by depth. */
+  depthInjections: DepthInjection[];
+  /** Timers after this turn, present when timed effects are enabled. */
+  worldBookState?: WorldBookTimedState;
+}
+
+const CONSTANT_ENTRY_PRIORITY = 1_000_000;
+
+const emptyActivation = (): WorldBookActivation => ({ activated: [], dropped: [] });
+
 export class PromptAssembler {
   private language: "zh" | "en";
   private contextWindow: number;
+  private budget?: ContextBudget;
+  private recursionDepth: number;
+  private maxEntries: number;
+  private tokenBudget: number;
+  private tokenCounter?: TokenCounter;
+  private timedEffects?: WorldBookTimedOptions;
+  private macros: MacroContext;
   
   constructor(options: PromptAssemblerOptions) {
     this.language = options.language || "zh";
     this.contextWindow = options.contextWindow || 5;
+    this.budget = options.budget;
+    this.recursionDepth = options.recursionDepth || 0;
+    this.maxEntries = options.maxEntries || 0;
+    this.tokenBudget = options.tokenBudget || 0;
+    this.tokenCounter = options.tokenCounter;
+    this.timedEffects = options.timedEffects;
+    this.macros = options.macros || {};
   }
 
   assemblePrompt(
@@ -25,7 +75,7 @@ export class PromptAssembler {
     currentUserInput: string,
     username?: string,
     charName?: string,
-  ): { systemMessage: string; userMessage: string } {
+  ): AssembledPrompt {
     
     let finalSystemMessage = baseSystemMessage;
     let finalUserMessage = userMessage;
@@ -43,11 +93,13 @@ export class PromptAssembler {
           .replace("{{worldInfoBefore}}", "")
           .replace("{{worldInfoAfter}}", "");
       }
-      return { systemMessage: finalSystemMessage, userMessage: finalUserMessage };
-    }
-
-    if (!hasSystemMarkers && !hasUserMarkers) {
-      return { systemMessage: finalSystemMessage, userMessage: finalUserMessage };
+      return {
+        systemMessage: finalSystemMessage,
+        userMessage: finalUserMessage,
+        worldBookActivation: emptyActivation(),
+        depthInjections: [],
+        worldBookState: this.nextTimedState([]),
+      };
     }
 
     const adjustedChatHistory = this.adjustChatHistoryByTurns(chatHistory);
@@ -61,12 +113,50 @@ export class PromptAssembler {
       });
     }
 
-    const matchingEntries = WorldBookManager.getMatchingEntries(
+    const activations = WorldBookManager.getActivations(
       worldBook,
       currentUserInput,
       contextWithCurrentMessage,
-      { contextWindow: this.contextWindow },
+      {
+        contextWindow: this.contextWindow,
+        recursionDepth: this.recursionDepth,
+        timedEffects: this.timedEffects,
+      },
     );
+    const triggers = new Map(activations.map(({ entry, trigger }) => [entry, trigger]));
+
+    const limited = WorldBookManager.limitActivatedEntries(activations.map(({ entry }) => entry), {
+      maxEntries: this.maxEntries,
+      tokenBudget: this.tokenBudget,
+      countTokens: this.budget
+        ? text => this.budget!.count(text)
+        : this.tokenCounter && (text => this.tokenCounter!.count(text)),
+    });
+
+    const fittedEntries = this.fitEntriesToBudget(limited.entries, username, charName);
+    const orphans = WorldBookManager.dropOrphanedEntries(activations, fittedEntries);
+    const matchingEntries = orphans.entries;
+    const dropped: DroppedWorldBookEntry[] = [
+      ...limited.dropped,
+      ...limited.entries
+        .filter(entry => !fittedEntries.includes(entry))
+        .map(entry => ({ entry, reason: "contextBudget" as const })),
+      ...orphans.dropped,
+    ];
+    const worldBookActivation: WorldBookActivation = {
+      activated: matchingEntries.map(entry => this.traceEntry(entry, triggers.get(entry)!)),
+      dropped: dropped.map(({ entry, reason }) => ({ ...this.traceEntry(entry, triggers.get(entry)!), reason })),
+    };
+
+    const worldBookResult = {
+      worldBookActivation,
+      depthInjections: this.buildDepthInjections(
+        matchingEntries.filter(entry => Number(entry.position || 0) === 4),
+        username,
+        charName,
+      ),
+      worldBookState: this.nextTimedState(matchingEntries),
+    };
 
     if (matchingEntries.length === 0) {
       if (hasSystemMarkers) {
@@ -74,13 +164,12 @@ export class PromptAssembler {
           .replace("{{worldInfoBefore}}", "")
           .replace("{{worldInfoAfter}}", "");
       }
-      return { systemMessage: finalSystemMessage, userMessage: finalUserMessage };
+      return { systemMessage: finalSystemMessage, userMessage: finalUserMessage, ...worldBookResult };
     }
 
     const position0_1Entries = matchingEntries.filter(entry => Number(entry.position || 0) <= 1);
     const position2Entries = matchingEntries.filter(entry => Number(entry.position || 0) === 2);
     const position3Entries = matchingEntries.filter(entry => Number(entry.position || 0) === 3);
-    const position4Entries = matchingEntries.filter(entry => Number(entry.position || 0) === 4);
 
     if (hasSystemMarkers) {
       const worldInfoBeforeContent = this.formatWorldBookEntries(position0_1Entries, username, charName);
@@ -90,9 +179,8 @@ export class PromptAssembler {
       finalSystemMessage = finalSystemMessage.replace("{{worldInfoAfter}}", worldInfoAfterContent);
     }
 
-    if (hasUserMarkers && (position3Entries.length > 0 || position4Entries.length > 0)) {
+    if (hasUserMarkers && position3Entries.length > 0) {
       const position3Content = this.formatWorldBookEntries(position3Entries, username, charName);
-      const position4Content = this.formatWorldBookEntries(position4Entries, username, charName);
 
       if (position3Content && finalUserMessage.includes("<userInput>")) {
         const beforeUserInput = position3Content + "\n\n";
@@ -101,16 +189,86 @@ export class PromptAssembler {
           beforeUserInput + "<userInput>",
         );
       }
+    }
+    return { systemMessage: finalSystemMessage, userMessage: finalUserMessage, ...worldBookResult };
+  }
 
-      if (position4Content && finalUserMessage.includes("</userInput>")) {
-        const afterUserInput = "\n\n" + position4Content;
-        finalUserMessage = finalUserMessage.replace(
-          "</userInput>",
-          "</userInput>" + afterUserInput,
-        );
+  /**
+   * Drops the lowest-priority entries that do not fit the remaining context
+   * budget. Constant entries outrank keyword matches; within each group a
+   * higher insertion_order wins.
+   */
+  private fitEntriesToBudget(
+    entries: WorldBookEntry[],
+    username?: string,
+    charName?: string,
+  ): WorldBookEntry[] {
+    if (!this.budget || entries.length === 0) {
+      return entries;
+    }
+
+    return this.budget.fit("worldBook", entries.map(entry => ({
+      value: entry,
+      text: this.formatWorldBookEntries([entry], username, charName),
+      priority: (entry.constant ? CONSTANT_ENTRY_PRIORITY : 0) + (entry.insertion_order || 0),
+    })));
+  }
+
+  /**
+   * Describes an entry for the activation trace.
+   */
+  private traceEntry(entry: WorldBookEntry, trigger: WorldBookTrigger): WorldBookEntryTrace {
+    const position = Number(entry.position || 0);
+    return {
+      label: WorldBookManager.getEntryLabel(entry),
+      entryId: WorldBookManager.getEntryKey(entry),
+      trigger,
+      position,
+      ...(position === 4 && {
+        depth: Math.max(0, Math.floor(Number(entry.depth ?? 0)) || 0),
+        role: entry.role ?? "system",
+      }),
+    };
+  }
+
+  private nextTimedState(injectedEntries: WorldBookEntry[]): WorldBookTimedState | undefined {
+    return this.timedEffects
+      ? WorldBookManager.advanceTimedState(injectedEntries, this.timedEffects)
+      : undefined;
+  }
+
+  /**
+   * Groups at-depth entries by depth and role. Within a group, entries with a
+   * higher insertion_order come first, matching the other positions.
+   */
+  private buildDepthInjections(
+    entries: WorldBookEntry[],
+    username?: string,
+    charName?: string,
+  ): DepthInjection[] {
+    const groups = new Map<string, { depth: number; role: DepthInjection["role"]; entries: WorldBookEntry[] }>();
+
+    for (const entry of entries) {
+      const depth = Math.max(0, Math.floor(Number(entry.depth ?? 0)) || 0);
+      const role = entry.role ?? "system";
+      const key = `${depth}:${role}`;
+      if (!groups.has(key)) {
+        groups.set(key, { depth, role, entries: [] });
       }
+      groups.get(key)!.entries.push(entry);
     }
-    return { systemMessage: finalSystemMessage, userMessage: finalUserMessage };
+
+    return Array.from(groups.values())
+      .sort((a, b) => b.depth - a.depth)
+      .map(group => ({
+        depth: group.depth,
+        role: group.role,
+        content: this.formatWorldBookEntries(
+          [...group.entries].sort((a, b) => (b.insertion_order || 0) - (a.insertion_order || 0)),
+          username,
+          charName,
+        ),
+      }));
   }
 
   private formatWorldBookEntries(
@@ -123,7 +281,7 @@ export class PromptAssembler {
     return entries.map(entry => {
       const tagName = entry.comment || "worldbook_entry";
       let content = entry.content || "";
-      content = adaptText(content, this.language, username, charName);
+      content = adaptText(content, this.language, username, charName, this.macros);
       
       return `
       <world information>
@@ -0,0 +1,71 @@
+import { ContextTokenBreakdown, TokenCounter } from "@/lib/core/context-budget";
+import { MessageAssembler, PromptAssemblyMode, PromptMessage, PromptSection } from "@/lib/core/message-assembler";
+import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { WorldBookActivation } from "@/lib/models/turn-trace-model";
+
+export interface PromptPreviewBlock extends PromptSection {
+  tokens: number;
+}
+
+export interface PromptPreviewMessage extends PromptMessage {
+  tokens: number;
+  blocks: PromptPreviewBlock[];
+}
+
+/**
+ * The final prompt of a dialogue turn as it would be sent to the model,
+ * split into the preset sections each block came from.
+ */
+export interface PromptPreview {
+  presetId?: string;
+  assemblyMode: PromptAssemblyMode;
+  systemMessage: string;
+  userMessage: string;
+  messages: PromptPreviewMessage[];
+  totalTokens: number;
+  tokenBreakdown?: ContextTokenBreakdown;
+  worldBookActivation?: WorldBookActivation;
+}
+
+export interface PromptPreviewInput {
+  systemMessage: string;
+  userMessage: string;
+  assemblyMode?: PromptAssemblyMode;
+  chatHistory?: DialogueMessage[];
+  presetId?: string;
+  tokenBreakdown?: ContextTokenBreakdown;
+  worldBookActivation?: WorldBookActivation;
+}
+
+export class PromptPreviewBuilder {
+  /**
+   * Lays the assembled prompt out as the LLM node would send it and counts
+   * the tokens of every message and block.
+   */
+  static build(input: PromptPreviewInput, counter: TokenCounter): PromptPreview {
+    const assemblyMode = input.assemblyMode || "flattened";
+    const promptMessages = assemblyMode === "messages"
+      ? MessageAssembler.buildMessages(input.systemMessage, input.userMessage, input.chatHistory || [])
+      : MessageAssembler.buildFlattenedMessages(input.systemMessage, input.userMessage);
+
+    const messages = promptMessages.map(message => ({
+      ...message,
+      tokens: counter.count(message.content),
+      blocks: MessageAssembler.getSections(message.content).map(section => ({
+        ...section,
+        tokens: counter.count(section.content),
+      })),
+    }));
+
+    return {
+      presetId: input.presetId,
+      assemblyMode,
+      systemMessage: input.systemMessage,
+      userMessage: input.userMessage,
+      messages,
+      totalTokens: messages.reduce((sum, message) => sum + message.tokens, 0),
+      tokenBreakdown: input.tokenBreakdown,
+      worldBookActivation: input.worldBookActivation,
+    };
+  }
+}
@@ -1,134 +1,218 @@
-import { RegexReplacementResult } from "@/lib/models/regex-script-model";
+import { RegexPlacement, RegexReplacementResult, RegexScript, RegexScriptSettings } from "@/lib/models/regex-script-model";
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+
+/**
+ * Which copy of a text is being processed. Scripts with neither flag
+ * rewrite the text itself ("edit"), `markdownOnly` scripts only what is
+ * displayed, and `promptOnly` scripts only what is sent to the model.
+ */
+export type RegexTargetMode = "edit" | "display" | "prompt";
+
+export interface RegexTarget {
+  placement: RegexPlacement;
+  mode: RegexTargetMode;
+  /** Position from the end of the chat (0 = latest); depth limits are only checked when this is known */
+  depth?: number;
+}
 
 export interface RegexProcessorOptions {
   ownerId: string;
+  target: RegexTarget;
 }
 
+/**
+ * Names the `{{user}}` and `{{char}}` macros expand to in replacements and
+ * trim strings; a macro without a name is left as written
+ */
+export interface RegexMacros {
+  user?: string;
+  char?: string;
+}
+
+/**
+ * How a findRegex was changed so it would compile. Control-character escapes
+ * such as `\n` are always escaped to match their literal text.
+ */
+export type RegexPatternFix =
+  | { kind: "escapeSequence"; sequence: string }
+  | { kind: "wholeTextAsPattern" }
+  | { kind: "repaired"; pattern: string }
+  | { kind: "escapedAsLiteral" }
+  | { kind: "invalid" };
+
+export interface RegexMatch {
+  index: number;
+  length: number;
+  /** What the match was replaced with */
+  replacement: string;
+}
+
+/**
+ * One script run over one text, with what it matched and how its pattern was fixed
+ */
+export interface RegexScriptRun {
+  replacedText: string;
+  durationMs: number;
+  matches: RegexMatch[];
+  fixes: RegexPatternFix[];
+}
+
+export interface RegexScriptSet {
+  scripts: RegexScript[];
+  settings: RegexScriptSettings;
+  macros: RegexMacros;
+}
+
+/** /pattern/flags, with any combination of flags such as /…/gs or /…/gimu */
+const REGEX_LITERAL = /^\/([\s\S]*)\/([dgimsuvy]*)$/;
+
+/** `{{match}}`, `{{user}}` and `{{char}}` macros, or a `$` reference as String.replace reads them */
+const REPLACEMENT_TOKEN = /\{\{(match|user|char)\}\}|\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/gi;
+
+const KNOWN_PLACEMENTS = new Set<number>(Object.values(RegexPlacement).filter((value) => typeof value === "number"));
+
 export class RegexProcessor {
-  private static handleEscapeSequences(pattern: string): string {
+  private static handleEscapeSequences(pattern: string, fixes: RegexPatternFix[] = []): string {
     const escapeSequences = ["\\t", "\\n", "\\r", "\\f", "\\v", "\\b", "\\0"];
-    
+
     let modifiedPattern = pattern;
     let hasEscapeSequence = false;
-    
+
     for (const seq of escapeSequences) {
       if (pattern.includes(seq)) {
         const escapedSeq = seq.replace("\\", "\\\\");
         modifiedPattern = modifiedPattern.replace(new RegExp(seq.replace("\\", "\\\\"), "g"), escapedSeq);
         hasEscapeSequence = true;
+        if (!fixes.some(fix => fix.kind === "escapeSequence" && fix.sequence === seq)) {
+          fixes.push({ kind: "escapeSequence", sequence: seq });
+        }
       }
     }
-    
+
     if (hasEscapeSequence) {
       console.log(`[RegexProcessor] Escaped potential control sequences in pattern: '${pattern}' → '${modifiedPattern}'`);
     }
-    
+
     return modifiedPattern;
   }
 
+  /**
+   * Placements a script runs on. Scripts saved before placements were
+   * honored carry a sort number (999) instead and only ever ran on AI output.
+   */
+  static placementsOf(script: Partial<Pick<RegexScript, "placement">>): RegexPlacement[] {
+    const placements = (script.placement || []).filter((placement) => KNOWN_PLACEMENTS.has(placement));
+    return placements.length > 0 ? placements : [RegexPlacement.AI_OUTPUT];
+  }
+
+  static modeOf(script: Pick<RegexScript, "markdownOnly" | "promptOnly">): RegexTargetMode {
+    if (script.markdownOnly) {
+      return "display";
+    }
+    return script.promptOnly ? "prompt" : "edit";
+  }
+
+  static appliesTo(script: RegexScript, target: RegexTarget): boolean {
+    if (!this.placementsOf(script).includes(target.placement) || this.modeOf(script) !== target.mode) {
+      return false;
+    }
+    if (target.depth === undefined) {
+      return true;
+    }
+    const hasMin = typeof script.minDepth === "number" && script.minDepth >= 0;
+    const hasMax = typeof script.maxDepth === "number" && script.maxDepth >= 0;
+    return (!hasMin || target.depth >= script.minDepth!) && (!hasMax || target.depth <= script.maxDepth!);
+  }
+
+  /**
+   * Scripts of a set that produce the displayed or the prompt copy of a text
+   * at the placement, in the order they run; depth limits and settings aside
+   */
+  static chainFor(scriptSet: RegexScriptSet, placement: RegexPlacement, mode: "display" | "prompt"): RegexScript[] {
+    const targets: RegexTarget[] = [{ placement, mode: "edit" }, { placement, mode }];
+    return targets.flatMap(target => scriptSet.scripts.filter(script => this.appliesTo(script, target)));
+  }
+
+  /**
+   * The owner's and the global scripts in execution order, with the owner's
+   * settings. `{{char}}` expands to the owner's name when it is a character.
+   */
+  static async loadScripts(ownerId: string, username?: string): Promise<RegexScriptSet> {
+    const [allScripts, settings, characterRecord] = await Promise.all([
+      RegexScriptOperations.getAllScriptsForProcessing(ownerId),
+      RegexScriptOperations.getRegexScriptSettings(ownerId),
+      LocalCharacterRecordOperations.getCharacterById(ownerId).catch(() => undefined),
+    ]);
+
+    const scripts = allScripts.filter(script => {
+      const isDefaultDisabled = script.findRegex === "/[\\s\\S]*/gm" && script.replaceString === "";
+      return !script.disabled && !isDefaultDisabled;
+    });
+    const macros: RegexMacros = {
+      user: username || undefined,
+      char: characterRecord?.data?.data?.name || characterRecord?.data?.name || undefined,
+    };
+    return { scripts, settings, macros };
+  }
+
+  /**
+   * Whether the owner's settings let any script run on the target:
+   * `applyToPrompt` covers prompt copies, `applyToResponse` the model's output
+   */
+  private static isTargetEnabled(settings: RegexScriptSettings, target: RegexTarget): boolean {
+    if (!settings.enabled) {
+      return false;
+    }
+    if (target.mode === "prompt") {
+      return settings.applyToPrompt;
+    }
+    const isResponse = target.placement === RegexPlacement.AI_OUTPUT || target.placement === RegexPlacement.REASONING;
+    return !isResponse || settings.applyToResponse;
+  }
+
   static async processFullContext(
     fullContext: string,
     options: RegexProcessorOptions,
   ): Promise<RegexReplacementResult> {
-    const {
-      ownerId,
-    } = options;
+    return this.applyScripts(fullContext, await this.loadScripts(options.ownerId), options.target);
+  }
 
-    const allScripts = await RegexScriptOperations.getAllScriptsForProcessing(ownerId);
-    
+  /**
+   * Run the scripts of a loaded set that apply to the target, in order.
+   * Synchronous so callers processing many texts load the scripts only once;
+   * user patterns can backtrack without end, so callers on the main thread go
+   * through RegexSandbox.applyScripts instead. `onScript` is told as each
+   * script starts.
+   */
+  static applyScripts(
+    text: string,
+    scriptSet: RegexScriptSet,
+    target: RegexTarget,
+    onScript?: (script: RegexScript) => void,
+  ): RegexReplacementResult {
     const result: RegexReplacementResult = {
-      originalText: fullContext,
-      replacedText: fullContext,
+      originalText: text,
+      replacedText: text,
       appliedScripts: [],
       success: false,
     };
-    
-    const settings = await RegexScriptOperations.getRegexScriptSettings(ownerId);
-    if (!settings.enabled) {
+
+    if (!this.isTargetEnabled(scriptSet.settings, target)) {
       return result;
     }
 
-    const enabledScripts = allScripts
-      .filter(script => {
-        const isDefaultDisabled = script.findRegex === "/[\\s\\S]*/gm" && script.replaceString === "";
-        return !script.disabled && !isDefaultDisabled;
-      })
-      .sort((a, b) => {
-        const aPos = a.placement && a.placement.length > 0 ? a.placement[0] : 999;
-        const bPos = b.placement && b.placement.length > 0 ? b.placement[0] : 999;
-        return aPos - bPos;
-      });
-    
-    let processedText = fullContext;
-    
-    for (const script of enabledScripts) {
+    let processedText = text;
+
+    for (const script of scriptSet.scripts.filter(script => this.appliesTo(script, target))) {
       try {
-        let regexPattern = script.findRegex;
-        
-        if (regexPattern) {
-          regexPattern = RegexProcessor.handleEscapeSequences(regexPattern);
-          
-          const regexFormatMatch = regexPattern.match(/^\/(.*)\/(g|i|m|gi|gm|im|gim)?$/);
-          
-          if (regexFormatMatch) {
-            try {
-              let pattern = regexFormatMatch[1];
-              const flags = regexFormatMatch[2] || "g";
-              
-              pattern = RegexProcessor.handleEscapeSequences(pattern);
-
-              const regex = new RegExp(pattern, flags);
-              const prevText = processedText;
-              processedText = processedText.replace(regex, script.replaceString as string);
-              
-              if (prevText !== processedText) {
-                result.appliedScripts.push(script.scriptKey);
-                result.success = true;
-              }
-              
-              continue;
-            } catch (e) {
-              console.warn(`格式化的正则表达式处理失败: ${regexPattern}`, e);
-            }
-          }
-
-          let regex: RegExp;
-          try {
-            regex = new RegExp(regexPattern, "g");
-          } catch (e) {
-            let safePattern = regexPattern;
-            
-            if (safePattern.endsWith("\\")) {
-              safePattern = safePattern.slice(0, -1);
-            }
-            const formatMatch = safePattern.match(/^\/(.*)\/(g|i|m|gi|gm|im|gim)?$/);
-            if (formatMatch) {
-              safePattern = formatMatch[1];
-            }
-            
-            try {
-              regex = new RegExp(safePattern, "g");
-              console.warn(`[RegexScript] 自动修正非法正则: '${regexPattern}' → '${safePattern}'`);
-            } catch (e2) {
-              try {
-                const literalPattern = regexPattern.replace(/[-\/\\^$*+?.()|[\]{}]/g, "\\$&");
-                regex = new RegExp(literalPattern, "g");
-                console.warn(`[RegexScript] 将模式转为字面量: '${regexPattern}' → '${literalPattern}'`);
-              } catch (e3) {
-                console.warn(`RegexScript 执行失败，跳过非法模式: '${regexPattern}'`);
-                continue;
-              }
-            }
-          }
-
-          const prevText = processedText;
-          processedText = processedText.replace(regex, script.replaceString as string);
-          
-          if (prevText !== processedText) {
-            result.appliedScripts.push(script.scriptKey);
-            result.success = true;
-          }
+        onScript?.(script);
+        const prevText = processedText;
+        processedText = this.runScript(processedText, script, scriptSet.macros);
+
+        if (prevText !== processedText) {
+          result.appliedScripts.push(script.scriptKey);
+          result.success = true;
         }
       } catch (error: unknown) {
         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -138,13 +222,240 @@ export class RegexProcessor {
         });
       }
     }
-    
+
     result.replacedText = processedText;
-    
+
     if (result.appliedScripts.length > 0) {
       console.log(`[RegexProcessor] 已应用的脚本ID: ${result.appliedScripts.join(", ")}`);
     }
-    
+
     return result;
   }
+
+  /**
+   * Targets whose scripts turn a text into its displayed or prompt copy:
+   * scripts that edit the text, then the display-only or prompt-only ones.
+   * Messages saved before they were stored raw already had the editing
+   * scripts applied, so for those `alreadyEdited` leaves them out.
+   */
+  static targetsFor(
+    mode: "display" | "prompt",
+    placement: RegexPlacement,
+    depth?: number,
+    alreadyEdited: boolean = false,
+  ): RegexTarget[] {
+    const targets: RegexTarget[] = [{ placement, mode: "edit", depth }, { placement, mode, depth }];
+    return alreadyEdited ? targets.slice(1) : targets;
+  }
+
+  /**
+   * Text as it is shown: scripts that edit the text, then the display-only ones
+   */
+  static applyToOutput(
+    text: string,
+    scriptSet: RegexScriptSet,
+    placement: RegexPlacement = RegexPlacement.AI_OUTPUT,
+    depth?: number,
+  ): RegexReplacementResult {
+    return this.applyInSequence(text, scriptSet, this.targetsFor("display", placement, depth));
+  }
+
+  /**
+   * Display copy of a stored message
+   */
+  static applyForDisplay(
+    text: string,
+    scriptSet: RegexScriptSet,
+    placement: RegexPlacement,
+    depth?: number,
+    alreadyEdited: boolean = false,
+  ): string {
+    return this.applyInSequence(text, scriptSet, this.targetsFor("display", placement, depth, alreadyEdited)).replacedText;
+  }
+
+  /**
+   * Text as it is sent to the model: scripts that edit the text, then the prompt-only ones
+   */
+  static applyToPrompt(
+    text: string,
+    scriptSet: RegexScriptSet,
+    placement: RegexPlacement,
+    depth?: number,
+  ): RegexReplacementResult {
+    return this.applyInSequence(text, scriptSet, this.targetsFor("prompt", placement, depth));
+  }
+
+  /**
+   * applyScripts for each target in turn, each on the previous one's output
+   */
+  static applyInSequence(
+    text: string,
+    scriptSet: RegexScriptSet,
+    targets: RegexTarget[],
+    onScript?: (script: RegexScript) => void,
+  ): RegexReplacementResult {
+    let replacedText = text;
+    const appliedScripts: string[] = [];
+    for (const target of targets) {
+      const result = this.applyScripts(replacedText, scriptSet, target, onScript);
+      replacedText = result.replacedText;
+      appliedScripts.push(...result.appliedScripts);
+    }
+    return {
+      originalText: text,
+      replacedText,
+      appliedScripts,
+      success: appliedScripts.length > 0,
+    };
+  }
+
+  /**
+   * Run a single script over the text regardless of its placement and mode.
+   * Invalid patterns that cannot be repaired leave the text unchanged.
+   */
+  static runScript(text: string, script: RegexScript, macros: RegexMacros = {}): string {
+    const regex = this.compile(script.findRegex);
+    return regex ? this.replace(text, regex, script, macros) : text;
+  }
+
+  /**
+   * runScript that also reports each match and its replacement, the fixes
+   * made to the pattern and how long it took, for the sandbox and the tester
+   */
+  static inspectScript(text: string, script: RegexScript, macros: RegexMacros = {}): RegexScriptRun {
+    const startedAt = performance.now();
+    const fixes: RegexPatternFix[] = [];
+    const matches: RegexMatch[] = [];
+    const regex = this.compile(script.findRegex, fixes);
+    const replacedText = regex ? this.replace(text, regex, script, macros, matches) : text;
+    return { replacedText, durationMs: performance.now() - startedAt, matches, fixes };
+  }
+
+  /**
+   * Compile a script's findRegex, written as /pattern/flags or a bare pattern.
+   * Invalid patterns are repaired or matched literally; null skips the script.
+   */
+  private static compile(findRegex: string, fixes: RegexPatternFix[] = []): RegExp | null {
+    if (!findRegex) {
+      fixes.push({ kind: "invalid" });
+      return null;
+    }
+
+    const regexPattern = RegexProcessor.handleEscapeSequences(findRegex, fixes);
+    const regexFormatMatch = regexPattern.match(REGEX_LITERAL);
+
+    if (regexFormatMatch) {
+      try {
+        const pattern = RegexProcessor.handleEscapeSequences(regexFormatMatch[1], fixes);
+        const flags = regexFormatMatch[2] || "g";
+        return new RegExp(pattern, flags);
+      } catch (e) {
+        console.warn(`格式化的正则表达式处理失败: ${regexPattern}`, e);
+      }
+    }
+
+    try {
+      const regex = new RegExp(regexPattern, "g");
+      if (regexFormatMatch) {
+        fixes.push({ kind: "wholeTextAsPattern" });
+      }
+      return regex;
+    } catch (e) {
+      let safePattern = regexPattern;
+
+      if (safePattern.endsWith("\\")) {
+        safePattern = safePattern.slice(0, -1);
+      }
+      const formatMatch = safePattern.match(REGEX_LITERAL);
+      if (formatMatch) {
+        safePattern = formatMatch[1];
+      }
+
+      try {
+        const regex = new RegExp(safePattern, "g");
+        console.warn(`[RegexScript] 自动修正非法正则: '${regexPattern}' → '${safePattern}'`);
+        fixes.push({ kind: "repaired", pattern: safePattern });
+        return regex;
+      } catch (e2) {
+        try {
+          const literalPattern = regexPattern.replace(/[-\/\\^$*+?.()|[\]{}]/g, "\\$&");
+          const regex = new RegExp(literalPattern, "g");
+          console.warn(`[RegexScript] 将模式转为字面量: '${regexPattern}' → '${literalPattern}'`);
+          fixes.push({ kind: "escapedAsLiteral" });
+          return regex;
+        } catch (e3) {
+          console.warn(`RegexScript 执行失败，跳过非法模式: '${regexPattern}'`);
+          fixes.push({ kind: "invalid" });
+          return null;
+        }
+      }
+    }
+  }
+
+  /**
+   * String.replace with the script's replacement. Like SillyTavern, `{{match}}`
+   * and `$0` insert the whole match, and the script's trimStrings are removed
+   * from the match and capture groups before they are inserted. `{{user}}` and
+   * `{{char}}` expand in the same pass, so a name is never read as a `$` reference.
+   * Each match and its replacement are added to `matches` when it is given.
+   */
+  private static replace(
+    text: string,
+    regex: RegExp,
+    script: RegexScript,
+    macros: RegexMacros,
+    matches?: RegexMatch[],
+  ): string {
+    const replaceString = script.replaceString || "";
+    const trimStrings = (script.trimStrings || [])
+      .map(trimString => this.expandMacros(trimString, macros))
+      .filter(Boolean);
+    const trim = (value: string | undefined) => trimStrings.reduce(
+      (trimmed, trimString) => trimmed.split(trimString).join(""),
+      value ?? "",
+    );
+
+    return text.replace(regex, (...args: any[]) => {
+      const namedGroups = typeof args[args.length - 1] === "object" ? args.pop() as Record<string, string> : undefined;
+      const input = args.pop() as string;
+      const offset = args.pop() as number;
+      const [match, ...captures] = args as (string | undefined)[];
+
+      const replacement = replaceString.replace(REPLACEMENT_TOKEN, (token: string, macro?: string, ref?: string, groupName?: string) => {
+        if (macro !== undefined) {
+          return macro.toLowerCase() === "match" ? trim(match) : this.expandMacros(token, macros);
+        }
+        if (ref === "$") {
+          return "$";
+        }
+        if (ref === "&" || ref === "0") {
+          return trim(match);
+        }
+        if (ref === "`") {
+          return input.slice(0, offset);
+        }
+        if (ref === "'") {
+          return input.slice(offset + (match?.length ?? 0));
+        }
+        if (groupName !== undefined) {
+          return namedGroups && groupName in namedGroups ? trim(namedGroups[groupName]) : token;
+        }
+        // Like String.replace, "$12" with fewer than 12 groups is "$1" followed by "2"
+        const index = Number(ref);
+        if (index >= 1 && index <= captures.length) {
+          return trim(captures[index - 1]);
+        }
+        const first = Number(ref![0]);
+        return ref!.length === 2 && first >= 1 && first <= captures.length ? trim(captures[first - 1]) + ref![1] : token;
+      });
+      matches?.push({ index: offset, length: match?.length ?? 0, replacement });
+      return replacement;
+    });
+  }
+
+  private static expandMacros(text: string, macros: RegexMacros): string {
+    return text.replace(/\{\{(user|char)\}\}/gi, (token: string, name: string) =>
+      macros[name.toLowerCase() as keyof RegexMacros] ?? token,
+    );
+  }
 }
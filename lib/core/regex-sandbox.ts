@@ -0,0 +1,229 @@
+import { RegexMacros, RegexProcessor, RegexScriptRun, RegexScriptSet, RegexTarget } from "@/lib/core/regex-processor";
+import { RegexPlacement, RegexReplacementResult, RegexScript } from "@/lib/models/regex-script-model";
+
+/**
+ * One text to run through the scripts of a set, target by target
+ */
+export interface RegexSandboxJob {
+  text: string;
+  targets: RegexTarget[];
+}
+
+export type RegexSandboxRequest =
+  | { id: number; kind: "inspect"; script: RegexScript; texts: string[]; macros: RegexMacros }
+  | { id: number; kind: "apply"; scriptSet: RegexScriptSet; jobs: RegexSandboxJob[] };
+
+export type RegexSandboxResponse =
+  | { id: number; runs: RegexScriptRun[] }
+  | { id: number; results: RegexReplacementResult[] }
+  // Sent as each script of an "apply" request starts, so a timeout can name it
+  | { id: number; running: string }
+  | { id: number; error: string };
+
+export type RegexSandboxResult =
+  | { status: "ok"; runs: RegexScriptRun[] }
+  | { status: "timeout"; timeoutMs: number }
+  | { status: "error"; message: string };
+
+export interface RegexTimeoutDetail {
+  scriptKey: string;
+  scriptName: string;
+  timeoutMs: number;
+}
+
+/** Window event sent when a script is marked as timed out on chat text */
+export const REGEX_TIMEOUT_EVENT = "regex-script-timeout";
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 1000;
+
+type Outcome<T> =
+  | { status: "ok"; value: T }
+  | { status: "timeout" }
+  | { status: "error"; message: string };
+
+function unchanged(text: string): RegexReplacementResult {
+  return { originalText: text, replacedText: text, appliedScripts: [], success: false };
+}
+
+/**
+ * Runs user-supplied regex scripts in a worker so a pattern that backtracks
+ * catastrophically is reported as a timeout instead of freezing the tab. A
+ * worker stuck on such a pattern is terminated and replaced on the next run.
+ * Runs are queued, one at a time. Where workers are unavailable (server
+ * rendering, tests) scripts run inline without the time limit.
+ *
+ * When chat text is processed, a script that runs past the time limit is
+ * marked and skipped from then on, until its pattern is edited, and a
+ * REGEX_TIMEOUT_EVENT tells the user which script it was.
+ */
+export class RegexSandbox {
+  private static worker: Worker | null = null;
+  private static nextId = 1;
+  private static queue: Promise<unknown> = Promise.resolve();
+  // Pattern each timed-out script had, by script key
+  private static timedOut = new Map<string, string>();
+
+  static run(
+    script: RegexScript,
+    texts: string[],
+    macros: RegexMacros = {},
+    timeoutMs: number = DEFAULT_SANDBOX_TIMEOUT_MS,
+  ): Promise<RegexSandboxResult> {
+    return this.enqueue(async () => {
+      const outcome = await this.execute(
+        { id: this.nextId++, kind: "inspect", script, texts, macros },
+        timeoutMs,
+        () => texts.map((text) => RegexProcessor.inspectScript(text, script, macros)),
+      );
+      if (outcome.status === "ok") {
+        return { status: "ok", runs: outcome.value };
+      }
+      return outcome.status === "timeout" ? { status: "timeout", timeoutMs } : outcome;
+    });
+  }
+
+  /**
+   * RegexProcessor.applyInSequence for each job, off the main thread. Each
+   * script gets `timeoutMs` per text; one that takes longer is marked, and
+   * the jobs run again without it. Texts come back unchanged if the worker fails.
+   */
+  static applyScripts(
+    scriptSet: RegexScriptSet,
+    jobs: RegexSandboxJob[],
+    timeoutMs: number = DEFAULT_SANDBOX_TIMEOUT_MS,
+  ): Promise<RegexReplacementResult[]> {
+    return this.enqueue(async () => {
+      for (;;) {
+        const runnable = { ...scriptSet, scripts: scriptSet.scripts.filter((script) => !this.hasTimedOut(script)) };
+        let running: RegexScript | undefined;
+        const outcome = await this.execute(
+          { id: this.nextId++, kind: "apply", scriptSet: runnable, jobs },
+          timeoutMs,
+          () => jobs.map((job) => RegexProcessor.applyInSequence(job.text, runnable, job.targets)),
+          (scriptKey) => {
+            running = runnable.scripts.find((script) => script.scriptKey === scriptKey);
+          },
+        );
+
+        if (outcome.status === "ok") {
+          return outcome.value;
+        }
+        if (outcome.status === "timeout" && running) {
+          this.markTimedOut(running, timeoutMs);
+          continue;
+        }
+        console.error("Regex sandbox failed, leaving texts unchanged:", outcome.status === "error" ? outcome.message : "timeout");
+        return jobs.map((job) => unchanged(job.text));
+      }
+    });
+  }
+
+  /**
+   * The displayed copy of a stored message, as RegexProcessor.applyForDisplay gives it
+   */
+  static async applyForDisplay(
+    text: string,
+    scriptSet: RegexScriptSet,
+    placement: RegexPlacement,
+    depth?: number,
+    alreadyEdited: boolean = false,
+  ): Promise<string> {
+    const targets = RegexProcessor.targetsFor("display", placement, depth, alreadyEdited);
+    const [result] = await this.applyScripts(scriptSet, [{ text, targets }]);
+    return result.replacedText;
+  }
+
+  /**
+   * Whether the script ran past the time limit on chat text and is being skipped
+   */
+  static hasTimedOut(script: RegexScript): boolean {
+    return this.timedOut.get(script.scriptKey) === script.findRegex;
+  }
+
+  private static markTimedOut(script: RegexScript, timeoutMs: number): void {
+    console.warn(`Regex script ${script.scriptName} ran past ${timeoutMs} ms and is skipped until its pattern changes`);
+    this.timedOut.set(script.scriptKey, script.findRegex);
+    window.dispatchEvent(new CustomEvent<RegexTimeoutDetail>(REGEX_TIMEOUT_EVENT, {
+      detail: { scriptKey: script.scriptKey, scriptName: script.scriptName, timeoutMs },
+    }));
+  }
+
+  private static enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Send one request to the worker, or run `inline` where there is none. The
+   * time limit restarts with each progress message.
+   */
+  private static execute<T>(
+    request: RegexSandboxRequest,
+    timeoutMs: number,
+    inline: () => T,
+    onProgress?: (scriptKey: string) => void,
+  ): Promise<Outcome<T>> {
+    if (typeof Worker === "undefined") {
+      try {
+        return Promise.resolve({ status: "ok", value: inline() });
+      } catch (error) {
+        return Promise.resolve({ status: "error", message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const worker = this.getWorker();
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout>;
+      const startTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          this.discardWorker();
+          finish({ status: "timeout" });
+        }, timeoutMs);
+      };
+      const finish = (outcome: Outcome<T>) => {
+        clearTimeout(timer);
+        worker.removeEventListener("message", onMessage);
+        worker.removeEventListener("error", onError);
+        resolve(outcome);
+      };
+      const onMessage = (event: MessageEvent<RegexSandboxResponse>) => {
+        const response = event.data;
+        if (response.id !== request.id) {
+          return;
+        }
+        if ("running" in response) {
+          onProgress?.(response.running);
+          startTimer();
+        } else if ("error" in response) {
+          finish({ status: "error", message: response.error });
+        } else {
+          finish({ status: "ok", value: ("runs" in response ? response.runs : response.results) as T });
+        }
+      };
+      const onError = (event: ErrorEvent) => {
+        this.discardWorker();
+        finish({ status: "error", message: event.message || "Regex sandbox failed" });
+      };
+
+      startTimer();
+      worker.addEventListener("message", onMessage);
+      worker.addEventListener("error", onError);
+      worker.postMessage(request);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./regex-sandbox.worker.ts", import.meta.url));
+    }
+    return this.worker;
+  }
+
+  private static discardWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
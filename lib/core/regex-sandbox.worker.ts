@@ -0,0 +1,19 @@
+import { RegexProcessor } from "@/lib/core/regex-processor";
+import type { RegexSandboxRequest, RegexSandboxResponse } from "@/lib/core/regex-sandbox";
+
+self.onmessage = (event: MessageEvent<RegexSandboxRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  let response: RegexSandboxResponse;
+  try {
+    if (request.kind === "inspect") {
+      response = { id, runs: request.texts.map((text) => RegexProcessor.inspectScript(text, request.script, request.macros)) };
+    } else {
+      const onScript = (script: { scriptKey: string }) => self.postMessage({ id, running: script.scriptKey } satisfies RegexSandboxResponse);
+      response = { id, results: request.jobs.map((job) => RegexProcessor.applyInSequence(job.text, request.scriptSet, job.targets, onScript)) };
+    }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
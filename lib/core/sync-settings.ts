@@ -0,0 +1,55 @@
+import { DEFAULT_SYNC_SETTINGS, SyncSettings } from "@/lib/models/sync-model";
+
+const SYNC_SETTINGS_KEY = "sync_settings";
+const LAST_BACKUP_KEY = "sync_last_backup_at";
+// Set by builds that only synced with Google Drive
+const LEGACY_DRIVE_SYNC_KEY = "google_drive_sync_enabled";
+
+export function loadSyncSettings(): SyncSettings {
+  if (typeof localStorage === "undefined") {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+
+  const stored = localStorage.getItem(SYNC_SETTINGS_KEY);
+  if (!stored) {
+    return localStorage.getItem(LEGACY_DRIVE_SYNC_KEY) === "true"
+      ? { ...DEFAULT_SYNC_SETTINGS, backend: "googleDrive", autoSync: true }
+      : DEFAULT_SYNC_SETTINGS;
+  }
+  try {
+    const settings = JSON.parse(stored);
+    return {
+      ...DEFAULT_SYNC_SETTINGS,
+      ...settings,
+      webdav: { ...DEFAULT_SYNC_SETTINGS.webdav, ...settings.webdav },
+      s3: { ...DEFAULT_SYNC_SETTINGS.s3, ...settings.s3 },
+    };
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+export function saveSyncSettings(settings: SyncSettings): void {
+  localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_DRIVE_SYNC_KEY);
+}
+
+export function getLastBackupAt(): Date | null {
+  const stored = typeof localStorage === "undefined" ? null : localStorage.getItem(LAST_BACKUP_KEY);
+  return stored ? new Date(stored) : null;
+}
+
+export function setLastBackupAt(date: Date): void {
+  localStorage.setItem(LAST_BACKUP_KEY, date.toISOString());
+}
+
+/**
+ * Whether a scheduled backup should run now
+ */
+export function isBackupDue(settings: SyncSettings, now: Date = new Date()): boolean {
+  if (!settings.backend || !settings.autoBackup) {
+    return false;
+  }
+  const last = getLastBackupAt();
+  return !last || now.getTime() - last.getTime() >= settings.backupIntervalHours * 60 * 60 * 1000;
+}
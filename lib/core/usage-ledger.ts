@@ -0,0 +1,169 @@
+import { v4 as uuidv4 } from "uuid";
+import type { TokenUsage } from "@/lib/nodeflow/LLMNode/LLMNodeTools";
+import { LLMType } from "@/lib/models/llm-provider-model";
+import {
+  UsageRecord,
+  UsageSource,
+  UsageTotals,
+  addToTotals,
+  emptyUsageTotals,
+  estimateCost,
+} from "@/lib/models/usage-model";
+import { UsageRecordOperations } from "@/lib/data/usage/usage-record-operation";
+
+export interface UsageEntry {
+  source: UsageSource;
+  characterId?: string;
+  llmType: LLMType;
+  modelName: string;
+  tokenUsage: TokenUsage | null;
+  latencyMs: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byCharacter: Record<string, UsageTotals>;
+  // keyed by local date, YYYY-MM-DD
+  byDay: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface BudgetWarningDetail {
+  level: "warning" | "exceeded";
+  cost: number;
+  budget: number;
+}
+
+export const USAGE_BUDGET_EVENT = "llm-usage-budget";
+export const MONTHLY_BUDGET_KEY = "usageMonthlyBudget";
+const SESSION_ID_KEY = "usageSessionId";
+// Share of the monthly budget at which the first warning fires
+const BUDGET_WARNING_RATIO = 0.8;
+
+export function toLocalDate(timestamp: string | Date): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function startOfMonth(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Persistent record of every LLM call: tokens, latency and estimated cost,
+ * with an optional monthly budget. Recording is best effort and never fails
+ * the call it describes.
+ */
+export class UsageLedger {
+  /**
+   * The browser tab's session; a new one starts whenever the app is opened in a new tab
+   */
+  static getSessionId(): string | undefined {
+    if (typeof sessionStorage === "undefined") {
+      return undefined;
+    }
+    let sessionId = sessionStorage.getItem(SESSION_ID_KEY);
+    if (!sessionId) {
+      sessionId = uuidv4();
+      sessionStorage.setItem(SESSION_ID_KEY, sessionId);
+    }
+    return sessionId;
+  }
+
+  static async record(entry: UsageEntry): Promise<UsageRecord | null> {
+    if (typeof indexedDB === "undefined") {
+      return null;
+    }
+
+    const promptTokens = entry.tokenUsage?.prompt_tokens ?? 0;
+    const completionTokens = entry.tokenUsage?.completion_tokens ?? 0;
+    const record: UsageRecord = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      source: entry.source,
+      characterId: entry.characterId,
+      sessionId: this.getSessionId(),
+      llmType: entry.llmType,
+      modelName: entry.modelName,
+      promptTokens,
+      completionTokens,
+      totalTokens: entry.tokenUsage?.total_tokens ?? promptTokens + completionTokens,
+      usageReported: !!entry.tokenUsage,
+      latencyMs: Math.round(entry.latencyMs),
+      estimatedCost: estimateCost(entry.llmType, entry.modelName, promptTokens, completionTokens),
+    };
+
+    try {
+      await UsageRecordOperations.addRecord(record);
+      await this.checkBudget(record);
+      return record;
+    } catch (error) {
+      console.error("Failed to record LLM usage:", error);
+      return null;
+    }
+  }
+
+  static summarize(records: UsageRecord[]): UsageSummary {
+    const summary: UsageSummary = { total: emptyUsageTotals(), byCharacter: {}, byDay: {}, byModel: {} };
+    const add = (group: Record<string, UsageTotals>, key: string, record: UsageRecord) => {
+      group[key] = addToTotals(group[key] || emptyUsageTotals(), record);
+    };
+
+    for (const record of records) {
+      summary.total = addToTotals(summary.total, record);
+      add(summary.byCharacter, record.characterId || "", record);
+      add(summary.byDay, toLocalDate(record.timestamp), record);
+      add(summary.byModel, `${record.llmType}/${record.modelName}`, record);
+    }
+    return summary;
+  }
+
+  static getMonthlyBudget(): number | null {
+    if (typeof localStorage === "undefined") {
+      return null;
+    }
+    const budget = parseFloat(localStorage.getItem(MONTHLY_BUDGET_KEY) || "");
+    return Number.isFinite(budget) && budget > 0 ? budget : null;
+  }
+
+  static setMonthlyBudget(budget: number | null): void {
+    if (budget && budget > 0) {
+      localStorage.setItem(MONTHLY_BUDGET_KEY, String(budget));
+    } else {
+      localStorage.removeItem(MONTHLY_BUDGET_KEY);
+    }
+  }
+
+  static async getMonthToDateCost(now: Date = new Date()): Promise<number> {
+    const records = await UsageRecordOperations.getRecords({ from: startOfMonth(now).toISOString() });
+    return this.summarize(records).total.cost;
+  }
+
+  /**
+   * Fire a warning when this record pushes the month's cost past 80% of the
+   * budget, and again when it passes the budget itself
+   */
+  private static async checkBudget(record: UsageRecord): Promise<void> {
+    const budget = this.getMonthlyBudget();
+    if (!budget || !record.estimatedCost || typeof window === "undefined") {
+      return;
+    }
+
+    const cost = await this.getMonthToDateCost();
+    const previous = cost - record.estimatedCost;
+    let level: BudgetWarningDetail["level"] | null = null;
+    if (previous < budget && cost >= budget) {
+      level = "exceeded";
+    } else if (previous < budget * BUDGET_WARNING_RATIO && cost >= budget * BUDGET_WARNING_RATIO) {
+      level = "warning";
+    }
+
+    if (level) {
+      window.dispatchEvent(new CustomEvent<BudgetWarningDetail>(USAGE_BUDGET_EVENT, {
+        detail: { level, cost, budget },
+      }));
+    }
+  }
+}
@@ -1,46 +1,483 @@
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import {
+  SelectiveLogic,
+  WorldBookEntry,
+  WorldBookEntryRole,
+  WorldBookEntryTimer,
+  WorldBookTimedState,
+} from "@/lib/models/world-book-model";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { WorldBookDropReason, WorldBookTrigger } from "@/lib/models/turn-trace-model";
+
+export type { WorldBookActivation, WorldBookDropReason } from "@/lib/models/turn-trace-model";
 
 export interface WorldBookJson {
   entries: Record<string, WorldBookEntry> | WorldBookEntry[];
 }
 
+export interface WorldBookMatchOptions {
+  contextWindow?: number;
+  /** Default for entries that do not set `case_sensitive`. */
+  caseSensitive?: boolean;
+  /** Default for entries that do not set `match_whole_words`. */
+  matchWholeWords?: boolean;
+  /** How many times activated content is re-scanned for further keys; 0 disables recursion. */
+  recursionDepth?: number;
+  /** Enables probability, sticky, cooldown and delay for the current branch. */
+  timedEffects?: WorldBookTimedOptions;
+}
+
+export interface WorldBookLimitOptions {
+  /** Maximum number of entries to inject; 0 means unlimited. */
+  maxEntries?: number;
+  /** Maximum tokens of entry content to inject; 0 means unlimited. */
+  tokenBudget?: number;
+  countTokens?: (text: string) => number;
+}
+
+export interface DroppedWorldBookEntry {
+  entry: WorldBookEntry;
+  reason: WorldBookDropReason;
+}
+
+export interface WorldBookEntryActivation {
+  entry: WorldBookEntry;
+  trigger: WorldBookTrigger;
+  /** For recursive activations, the activated entries whose content matched. */
+  parents?: WorldBookEntry[];
+}
+
+export interface WorldBookTimedOptions {
+  /** 1-based number of the turn being generated. */
+  turn: number;
+  /** Timers carried over from the parent dialogue node. */
+  state?: WorldBookTimedState;
+  /** Source of randomness for probability rolls; defaults to Math.random. */
+  random?: () => number;
+}
+
+/**
+ * World book content inserted `depth` messages from the bottom of the chat:
+ * 0 places it after the current user input, 1 just before it, and so on.
+ */
+export interface DepthInjection {
+  depth: number;
+  role: WorldBookEntryRole;
+  content: string;
+}
+
+const REGEX_KEY_PATTERN = /^\/([\s\S]+)\/([dgimsuy]*)$/;
+
 export class WorldBookManager {
+  /**
+   * Returns constant entries plus every enabled entry whose keys match the
+   * current message and the last `contextWindow` messages.
+   *
+   * Matching follows SillyTavern: `/pattern/flags` keys (or any key when
+   * `use_regex` is set) are regular expressions, plain keys honour the
+   * case-sensitive and whole-word settings, and `selective` entries gate
+   * their primary match on `secondary_keys` according to `selectiveLogic`.
+   *
+   * With `timedEffects` set, entries still inside their `sticky` window stay
+   * active without matching; `delay`, `cooldown` and `probability` can hold
+   * a matched entry back, in which case it stays inactive for the whole scan.
+   *
+   * With `recursionDepth` set, the content of newly activated entries is
+   * scanned again, up to that many levels. Entries flagged
+   * `exclude_recursion` can only be activated by the chat itself, and the
+   * content of `prevent_recursion` entries never triggers other entries.
+   * Only active entries are scanned, so held-back entries trigger nothing.
+   */
   static getMatchingEntries(
     worldBook: WorldBookEntry[] | Record<string, WorldBookEntry> | undefined,
     message: string,
     chatHistory: DialogueMessage[],
-    options: {
-      contextWindow?: number;
-    } = {},
+    options: WorldBookMatchOptions = {},
   ): WorldBookEntry[] {
+    return this.getActivations(worldBook, message, chatHistory, options).map(({ entry }) => entry);
+  }
+
+  /**
+   * Same as `getMatchingEntries`, but also reports what triggered each entry.
+   */
+  static getActivations(
+    worldBook: WorldBookEntry[] | Record<string, WorldBookEntry> | undefined,
+    message: string,
+    chatHistory: DialogueMessage[],
+    options: WorldBookMatchOptions = {},
+  ): WorldBookEntryActivation[] {
     if (!worldBook) return [];
     
-    const { contextWindow = 5 } = options;
+    const { contextWindow = 5, recursionDepth = 0, timedEffects } = options;
 
     const recentMessages = chatHistory
       .slice(-contextWindow)
       .map(m => m.content)
       .join(" ");
     
-    const fullText = `${recentMessages} ${message}`.toLowerCase();
+    const fullText = `${recentMessages} ${message}`;
 
     const entries = Array.isArray(worldBook) 
       ? worldBook 
       : Object.values(worldBook);
 
-    const enabledEntries = entries.filter(entry => entry.selective !== false);
+    const enabledEntries = entries.filter(entry => this.isEntryEnabled(entry));
 
-    const constantEntries = enabledEntries.filter(entry => entry.constant);
+    const stickyEntries = timedEffects
+      ? enabledEntries.filter(entry => this.isStickyCarried(entry, timedEffects))
+      : [];
+    const activated: WorldBookEntryActivation[] = stickyEntries.map(entry => ({ entry, trigger: { type: "sticky" } }));
+    // Entries already activated or held back; neither is considered again
+    const decided = new Set(stickyEntries);
+    const activate = (entry: WorldBookEntry, trigger: WorldBookTrigger, parents?: WorldBookEntry[]): boolean => {
+      decided.add(entry);
+      if (timedEffects && !this.passesTimedChecks(entry, timedEffects)) {
+        return false;
+      }
+      activated.push({ entry, trigger, ...(parents && { parents }) });
+      return true;
+    };
 
-    const matchedEntries = enabledEntries
-      .filter(entry => {
-        if (entry.constant) return false;
-        if (!entry.keys || entry.keys.length === 0) return false;
-        return entry.keys.some(key => fullText.includes(key.toLowerCase()));
-      });
+    for (const entry of enabledEntries) {
+      if (entry.constant && !decided.has(entry)) {
+        activate(entry, { type: "constant" });
+      }
+    }
+    for (const entry of enabledEntries) {
+      const trigger = decided.has(entry) ? undefined : this.explainMatch(entry, fullText, options);
+      if (trigger) {
+        activate(entry, trigger);
+      }
+    }
+
+    let recursionSource = activated.map(({ entry }) => entry).filter(entry => !this.preventsRecursion(entry));
+    const scannedSources: WorldBookEntry[] = [];
+    let recursionBuffer = "";
+
+    for (let level = 0; level < recursionDepth && recursionSource.length > 0; level++) {
+      scannedSources.push(...recursionSource);
+      recursionBuffer += recursionSource.map(entry => `\n${entry.content || ""}`).join("");
+      const scanText = `${fullText}${recursionBuffer}`;
+
+      const newlyActivated: WorldBookEntry[] = [];
+      for (const entry of enabledEntries) {
+        if (decided.has(entry) || this.excludedFromRecursion(entry)) {
+          continue;
+        }
+        const trigger = this.explainMatch(entry, scanText, options);
+        if (trigger && activate(
+          entry,
+          { ...trigger, recursionLevel: level + 1 },
+          this.findRecursionParents(entry, trigger.key, scannedSources, options),
+        )) {
+          newlyActivated.push(entry);
+        }
+      }
+      recursionSource = newlyActivated.filter(entry => !this.preventsRecursion(entry));
+    }
+
+    return activated;
+  }
+
+  /**
+   * Drops recursive activations whose parents are all missing from `kept`,
+   * e.g. cut by a limit, so no entry reaches the prompt without what
+   * triggered it. Works through `activations` in order, so a dropped child
+   * also drops its own children.
+   */
+  static dropOrphanedEntries(
+    activations: WorldBookEntryActivation[],
+    kept: WorldBookEntry[],
+  ): { entries: WorldBookEntry[]; dropped: DroppedWorldBookEntry[] } {
+    const keptSet = new Set(kept);
+    const dropped: DroppedWorldBookEntry[] = [];
+
+    for (const { entry, parents } of activations) {
+      if (parents && keptSet.has(entry) && !parents.some(parent => keptSet.has(parent))) {
+        keptSet.delete(entry);
+        dropped.push({ entry, reason: "parentDropped" });
+      }
+    }
+
+    return { entries: kept.filter(entry => keptSet.has(entry)), dropped };
+  }
+
+  /**
+   * Enforces the per-book `maxEntries` and token limits. Constant entries are
+   * kept first, then entries with a higher `insertion_order`; the rest are
+   * returned as dropped. Kept entries stay in activation order.
+   */
+  static limitActivatedEntries(
+    entries: WorldBookEntry[],
+    options: WorldBookLimitOptions = {},
+  ): { entries: WorldBookEntry[]; dropped: DroppedWorldBookEntry[] } {
+    const { maxEntries = 0, tokenBudget = 0, countTokens } = options;
+    if (maxEntries <= 0 && (tokenBudget <= 0 || !countTokens)) {
+      return { entries, dropped: [] };
+    }
+
+    const ranked = entries
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) =>
+        Number(Boolean(b.entry.constant)) - Number(Boolean(a.entry.constant)) ||
+        (b.entry.insertion_order || 0) - (a.entry.insertion_order || 0) ||
+        a.index - b.index,
+      );
+
+    const kept = new Set<number>();
+    const dropped: DroppedWorldBookEntry[] = [];
+    let usedTokens = 0;
+
+    for (const { entry, index } of ranked) {
+      if (maxEntries > 0 && kept.size >= maxEntries) {
+        dropped.push({ entry, reason: "maxEntries" });
+        continue;
+      }
+      if (tokenBudget > 0 && countTokens) {
+        const tokens = countTokens(entry.content || "");
+        if (usedTokens + tokens > tokenBudget) {
+          dropped.push({ entry, reason: "tokenBudget" });
+          continue;
+        }
+        usedTokens += tokens;
+      }
+      kept.add(index);
+    }
+
+    return {
+      entries: entries.filter((_, index) => kept.has(index)),
+      dropped,
+    };
+  }
+
+  /**
+   * Whether a matched entry may activate on this turn: `delay` keeps it off
+   * until that turn, `cooldown` keeps it off for that many turns once its
+   * sticky period ends, and `probability` is rolled when `useProbability` is
+   * set. Sticky-carried entries skip these checks.
+   */
+  private static passesTimedChecks(entry: WorldBookEntry, options: WorldBookTimedOptions): boolean {
+    const { turn, state, random = Math.random } = options;
+    if (entry.delay && turn < entry.delay) {
+      return false;
+    }
+    const timer = state?.timers[this.getEntryKey(entry)];
+    if (timer && turn <= timer.cooldownUntil) {
+      return false;
+    }
+    const useProbability = entry.useProbability ?? entry.extensions?.useProbability;
+    const probability = entry.probability ?? 100;
+    if (useProbability === true && probability < 100) {
+      return random() * 100 < probability;
+    }
+    return true;
+  }
+
+  /**
+   * Whether an entry is active on `turn` only because its sticky window from
+   * an earlier trigger has not ended yet.
+   */
+  static isStickyCarried(
+    entry: WorldBookEntry,
+    options: Pick<WorldBookTimedOptions, "turn" | "state">,
+  ): boolean {
+    const timer = options.state?.timers[this.getEntryKey(entry)];
+    return timer !== undefined && options.turn <= timer.stickyUntil;
+  }
+
+  /**
+   * Returns the timers after `turn`: entries that triggered freshly this turn
+   * start their sticky/cooldown windows, expired timers are dropped.
+   */
+  static advanceTimedState(
+    injectedEntries: WorldBookEntry[],
+    options: Pick<WorldBookTimedOptions, "turn" | "state">,
+  ): WorldBookTimedState {
+    const { turn, state } = options;
+    const previous = state?.timers ?? {};
+    const timers: Record<string, WorldBookEntryTimer> = {};
+
+    for (const [key, timer] of Object.entries(previous)) {
+      if (turn < timer.cooldownUntil) {
+        timers[key] = timer;
+      }
+    }
+
+    for (const entry of injectedEntries) {
+      const key = this.getEntryKey(entry);
+      const sticky = Math.max(0, entry.sticky || 0);
+      const cooldown = Math.max(0, entry.cooldown || 0);
+      const carried = previous[key] !== undefined && turn <= previous[key].stickyUntil;
+      if (carried || (sticky === 0 && cooldown === 0)) {
+        continue;
+      }
+      timers[key] = {
+        triggeredAt: turn,
+        stickyUntil: turn + sticky,
+        cooldownUntil: turn + sticky + cooldown,
+      };
+    }
+
+    return { turn, timers };
+  }
+
+  /**
+   * Stable id used to key per-entry state: the storage key when known,
+   * otherwise the numeric id or the entry's keys.
+   */
+  static getEntryKey(entry: WorldBookEntry): string {
+    return entry.entry_id ?? (entry.id !== undefined ? `id_${entry.id}` : `keys_${(entry.keys || []).join("|")}`);
+  }
+
+  /**
+   * A short human-readable name for an entry: its comment, else its first key.
+   */
+  static getEntryLabel(entry: WorldBookEntry): string {
+    return entry.comment?.trim() || entry.keys?.find(key => key && key.trim())?.trim() || `#${entry.id ?? "?"}`;
+  }
+
+  /**
+   * An entry is active unless it is switched off by either the native
+   * `enabled` flag or SillyTavern's `disable` flag.
+   */
+  static isEntryEnabled(entry: WorldBookEntry): boolean {
+    return entry.enabled !== false && entry.disable !== true && entry.extensions?.disable !== true;
+  }
+
+  /**
+   * The scanned entries whose content holds the matched key or one of the
+   * secondary keys. Falls back to all of them when the match only exists
+   * across entries.
+   */
+  private static findRecursionParents(
+    entry: WorldBookEntry,
+    matchedKey: string,
+    sources: WorldBookEntry[],
+    options: WorldBookMatchOptions,
+  ): WorldBookEntry[] {
+    const matchOptions = this.getKeyMatchOptions(entry, options);
+    const keys = [matchedKey, ...(entry.secondary_keys || []).filter(key => key && key.trim())];
+    const parents = sources.filter(source => keys.some(key => this.matchesKey(key, source.content || "", matchOptions)));
+    return parents.length > 0 ? parents : [...sources];
+  }
+
+  private static getKeyMatchOptions(entry: WorldBookEntry, options: WorldBookMatchOptions) {
+    return {
+      useRegex: entry.use_regex === true,
+      caseSensitive: entry.case_sensitive ?? entry.extensions?.case_sensitive ?? options.caseSensitive ?? false,
+      matchWholeWords: entry.match_whole_words ?? entry.extensions?.match_whole_words ?? options.matchWholeWords ?? false,
+    };
+  }
+
+  private static excludedFromRecursion(entry: WorldBookEntry): boolean {
+    return Boolean(entry.exclude_recursion ?? entry.extensions?.exclude_recursion);
+  }
 
-    return [...constantEntries, ...matchedEntries];
+  private static preventsRecursion(entry: WorldBookEntry): boolean {
+    return Boolean(entry.prevent_recursion ?? entry.extensions?.prevent_recursion);
+  }
+
+  static matchesEntry(
+    entry: WorldBookEntry,
+    text: string,
+    options: WorldBookMatchOptions = {},
+  ): boolean {
+    return this.explainMatch(entry, text, options) !== undefined;
+  }
+
+  /**
+   * Returns the key trigger for an entry that matches `text`, naming the first
+   * primary key that matched and, for AND_ANY, the secondary key that
+   * satisfied it; `undefined` when the entry does not match.
+   */
+  static explainMatch(
+    entry: WorldBookEntry,
+    text: string,
+    options: WorldBookMatchOptions = {},
+  ): Extract<WorldBookTrigger, { type: "key" }> | undefined {
+    const keys = (entry.keys || []).filter(key => key && key.trim());
+    if (keys.length === 0) return undefined;
+
+    const matchOptions = this.getKeyMatchOptions(entry, options);
+
+    const key = keys.find(key => this.matchesKey(key, text, matchOptions));
+    if (key === undefined) {
+      return undefined;
+    }
+
+    const secondaryKeys = (entry.secondary_keys || []).filter(key => key && key.trim());
+    if (!entry.selective || secondaryKeys.length === 0) {
+      return { type: "key", key };
+    }
+
+    const logic: SelectiveLogic = entry.selectiveLogic ?? entry.extensions?.selectiveLogic ?? SelectiveLogic.AND_ANY;
+    const secondaryMatches = secondaryKeys.map(key => this.matchesKey(key, text, matchOptions));
+
+    switch (Number(logic)) {
+    case SelectiveLogic.AND_ALL:
+      return secondaryMatches.every(Boolean) ? { type: "key", key } : undefined;
+    case SelectiveLogic.NOT_ANY:
+      return !secondaryMatches.some(Boolean) ? { type: "key", key } : undefined;
+    case SelectiveLogic.NOT_ALL:
+      return !secondaryMatches.every(Boolean) ? { type: "key", key } : undefined;
+    case SelectiveLogic.AND_ANY:
+    default: {
+      const secondaryKey = secondaryKeys.find((_, index) => secondaryMatches[index]);
+      return secondaryKey !== undefined ? { type: "key", key, secondaryKey } : undefined;
+    }
+    }
+  }
+
+  static matchesKey(
+    key: string,
+    text: string,
+    options: { useRegex: boolean; caseSensitive: boolean; matchWholeWords: boolean },
+  ): boolean {
+    const trimmedKey = key.trim();
+    const regex = this.parseRegexKey(trimmedKey, options);
+    if (regex) {
+      return regex.test(text);
+    }
+    if (regex === null) {
+      return false;
+    }
+
+    const haystack = options.caseSensitive ? text : text.toLowerCase();
+    const needle = options.caseSensitive ? trimmedKey : trimmedKey.toLowerCase();
+
+    // Whole-word matching only applies to single-word keys, as in SillyTavern
+    if (options.matchWholeWords && !/\s/.test(needle)) {
+      const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return new RegExp(`(?:^|\\W)(${escaped})(?:$|\\W)`).test(haystack);
+    }
+
+    return haystack.includes(needle);
+  }
+
+  /**
+   * Returns the RegExp for a regex key, `undefined` for a plain key, or
+   * `null` when the key is meant as a regex but does not compile.
+   */
+  private static parseRegexKey(
+    key: string,
+    options: { useRegex: boolean; caseSensitive: boolean },
+  ): RegExp | null | undefined {
+    const literal = key.match(REGEX_KEY_PATTERN);
+    if (!literal && !options.useRegex) {
+      return undefined;
+    }
+
+    const source = literal ? literal[1] : key;
+    // "g" and "y" make test() stateful across calls
+    const flags = literal
+      ? literal[2].replace(/[gy]/g, "")
+      : (options.caseSensitive ? "" : "i");
+
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      console.warn(`Invalid world book regex key: ${key}`, error);
+      return null;
+    }
   }
   
   static normalizeWorldBookEntries(worldBook: any): WorldBookEntry[] {
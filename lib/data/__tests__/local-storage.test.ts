@@ -0,0 +1,163 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import {
+  AGENT_CONVERSATIONS_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  CHARACTERS_RECORD_FILE,
+  DIALOGUE_NODES_FILE,
+  getAllRecords,
+  getBlob,
+  getKeyValueRecords,
+  getRecord,
+  getRecordsByIndex,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PRESET_FILE,
+  readData,
+  REGEX_SCRIPTS_FILE,
+  SAMPLER_PROFILES_FILE,
+  SYNC_STATE_FILE,
+  USAGE_LEDGER_FILE,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+
+const LEGACY_VERSION = 12;
+
+function node(nodeId: string, parentNodeId: string) {
+  return { nodeId, parentNodeId, userInput: `user ${nodeId}`, assistantResponse: `assistant ${nodeId}`, fullResponse: nodeId };
+}
+
+// Node order deliberately differs from id order and tree order
+const ALICE_NODES = [node("root", ""), node("z", "root"), node("b", "z"), node("side", "root"), node("a", "b")];
+
+/**
+ * Every store of a version 12 database, each as the single array it kept under "data"
+ */
+const LEGACY_DATA: Record<string, any[]> = {
+  [CHARACTERS_RECORD_FILE]: [
+    { id: "bob", data: { name: "Bob" }, imagePath: "bob.png", created_at: "2024-01-01", updated_at: "2024-01-02" },
+    { id: "alice", data: { name: "Alice" }, imagePath: "", created_at: "2024-02-01", updated_at: "2024-02-02" },
+  ],
+  [CHARACTER_DIALOGUES_FILE]: [
+    { id: "alice-chat", character_id: "alice", current_nodeId: "a", nodes: ALICE_NODES },
+    { id: "bob-chat", character_id: "bob", current_nodeId: "root", nodes: [node("root", "")] },
+  ],
+  [CHARACTER_IMAGES_FILE]: [],
+  [WORLD_BOOK_FILE]: [{
+    alice: { e1: { content: "Alice's lore", keys: ["alice"] } },
+    alice_settings: { enabled: true, maxEntries: 5 },
+    shared: { s1: { content: "Shared lore", keys: ["town"] } },
+  }],
+  [REGEX_SCRIPTS_FILE]: [{
+    bob: { r1: { scriptKey: "r1", findRegex: "/ +$/g", replaceString: "" } },
+    bob_settings: { enabled: true },
+  }],
+  [PRESET_FILE]: [{ p1: { name: "Default", prompts: [{ identifier: "main", content: "Be kind." }] }, p2: { name: "Empty", prompts: [] } }],
+  [AGENT_CONVERSATIONS_FILE]: [{ id: "agent-1", messages: ["hi"] }],
+  [MEMORY_ENTRIES_FILE]: [
+    { characterId: "alice", maxEntries: 50, entries: [{ id: "m1", characterId: "old-id", content: "Likes tea" }, { id: "m2", content: "Hates rain" }] },
+    { characterId: "bob", maxEntries: 10, entries: [] },
+  ],
+  [MEMORY_EMBEDDINGS_FILE]: [{ id: "m1", characterId: "alice", vector: [0.1, 0.2] }],
+  [SAMPLER_PROFILES_FILE]: [{ warm: { name: "Warm", temperature: 0.9 } }],
+  [USAGE_LEDGER_FILE]: [{ id: "u1", timestamp: "2025-01-01T00:00:00.000Z", characterId: "alice", totalTokens: 12 }],
+};
+
+/**
+ * Create the database the way version 12 did: plain stores holding "data" arrays
+ */
+async function seedLegacyDatabase(): Promise<void> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open("CharacterAppDB", LEGACY_VERSION);
+    request.onupgradeneeded = () => {
+      for (const storeName of Object.keys(LEGACY_DATA)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(Object.keys(LEGACY_DATA), "readwrite");
+    for (const [storeName, data] of Object.entries(LEGACY_DATA)) {
+      tx.objectStore(storeName).put(data, "data");
+    }
+    tx.objectStore(CHARACTER_IMAGES_FILE).put(new Blob(["png"]), "bob.png");
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+}
+
+describe("legacy store migration", () => {
+  it("moves every legacy array into keyed records without losing any", async () => {
+    await seedLegacyDatabase();
+
+    // Characters keep their array order as display order, which stays internal to the store
+    const characters = await LocalCharacterRecordOperations.getAllCharacters();
+    expect(characters).toEqual(LEGACY_DATA[CHARACTERS_RECORD_FILE]);
+    expect(await getRecord(CHARACTERS_RECORD_FILE, "alice")).toEqual(LEGACY_DATA[CHARACTERS_RECORD_FILE][1]);
+
+    // Dialogue trees lose their inline nodes, which move to their own store in their original order
+    expect(await getAllRecords(CHARACTER_DIALOGUES_FILE)).toEqual([
+      { id: "alice-chat", character_id: "alice", current_nodeId: "a" },
+      { id: "bob-chat", character_id: "bob", current_nodeId: "root" },
+    ]);
+    const aliceNodes = await getRecordsByIndex(DIALOGUE_NODES_FILE, "dialogueId", "alice-chat");
+    expect(aliceNodes.sort((a, b) => a.order - b.order)).toEqual(
+      ALICE_NODES.map((item, order) => ({ ...item, dialogueId: "alice-chat", order })),
+    );
+    const aliceTree = await LocalCharacterDialogueOperations.getDialogueTreeById("alice-chat");
+    expect(aliceTree?.nodes.map((item) => item.nodeId)).toEqual(["root", "z", "b", "side", "a"]);
+    expect(aliceTree?.current_nodeId).toBe("a");
+
+    // Memory records split into their config and their entries, which take the owner's id
+    expect(await getAllRecords(MEMORY_CONFIGS_FILE)).toEqual([
+      { characterId: "alice", maxEntries: 50 },
+      { characterId: "bob", maxEntries: 10 },
+    ]);
+    expect(await getRecordsByIndex(MEMORY_ENTRIES_FILE, "characterId", "alice")).toEqual([
+      { id: "m1", characterId: "alice", content: "Likes tea" },
+      { id: "m2", characterId: "alice", content: "Hates rain" },
+    ]);
+    expect(await getAllRecords(MEMORY_EMBEDDINGS_FILE)).toEqual(LEGACY_DATA[MEMORY_EMBEDDINGS_FILE]);
+
+    // Key-value stores get one record per key of their map
+    expect(await getKeyValueRecords(WORLD_BOOK_FILE)).toEqual(LEGACY_DATA[WORLD_BOOK_FILE][0]);
+    expect(await getKeyValueRecords(REGEX_SCRIPTS_FILE)).toEqual(LEGACY_DATA[REGEX_SCRIPTS_FILE][0]);
+    expect(await getKeyValueRecords(PRESET_FILE)).toEqual(LEGACY_DATA[PRESET_FILE][0]);
+    expect(await getKeyValueRecords(SAMPLER_PROFILES_FILE)).toEqual(LEGACY_DATA[SAMPLER_PROFILES_FILE][0]);
+
+    expect(await getAllRecords(AGENT_CONVERSATIONS_FILE)).toEqual(LEGACY_DATA[AGENT_CONVERSATIONS_FILE]);
+    expect(await getRecordsByIndex(USAGE_LEDGER_FILE, "characterId", "alice")).toEqual(LEGACY_DATA[USAGE_LEDGER_FILE]);
+    expect(await getAllRecords(SYNC_STATE_FILE)).toEqual([]);
+
+    // Images stay keyed by path; only the placeholder array is gone
+    expect(await getBlob("bob.png")).not.toBeNull();
+    expect(await getBlob("data")).toBeNull();
+
+    // The legacy layout can still be read back as it was
+    for (const storeName of [CHARACTERS_RECORD_FILE, CHARACTER_DIALOGUES_FILE, MEMORY_ENTRIES_FILE, WORLD_BOOK_FILE, PRESET_FILE]) {
+      expect(await readData(storeName)).toEqual(storeName === MEMORY_ENTRIES_FILE
+        ? LEGACY_DATA[storeName].map((config) => ({
+          ...config,
+          entries: config.entries.map((entry: any) => ({ ...entry, characterId: config.characterId })),
+        }))
+        : LEGACY_DATA[storeName]);
+    }
+  });
+
+  it("keeps the display order internal to the store", async () => {
+    await LocalCharacterRecordOperations.moveCharacterToTop("bob");
+
+    const characters = await getAllRecords(CHARACTERS_RECORD_FILE);
+    expect(characters.map((character) => character.id)).toEqual(["alice", "bob"]);
+    expect(characters.every((character) => !("order" in character))).toBe(true);
+    expect(await LocalCharacterRecordOperations.updateCharacter("bob", { name: "Robert" })).not.toHaveProperty("order");
+  });
+});
@@ -7,7 +7,15 @@ import {
   GenerationOutput,
   TaskEntry,
 } from "../../models/agent-model";
-import { readData, writeData, AGENT_CONVERSATIONS_FILE } from "../local-storage";
+import {
+  clearStore,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+  updateRecord,
+  AGENT_CONVERSATIONS_FILE,
+} from "../local-storage";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -70,8 +78,12 @@ export class ResearchSessionOperations {
    * Get conversation by ID
    */
   static async getSessionById(sessionId: string): Promise<ResearchSession | null> {
-    const sessions = await this.getAllSessions();
-    return sessions.find(s => s.id === sessionId) || null;
+    try {
+      return await getRecord<ResearchSession>(AGENT_CONVERSATIONS_FILE, sessionId);
+    } catch (error) {
+      console.error("Failed to load session:", error);
+      return null;
+    }
   }
 
   /**
@@ -79,8 +91,7 @@ export class ResearchSessionOperations {
    */
   static async getAllSessions(): Promise<ResearchSession[]> {
     try {
-      const data = await readData(AGENT_CONVERSATIONS_FILE);
-      return Array.isArray(data) ? data : [];
+      return await getAllRecords<ResearchSession>(AGENT_CONVERSATIONS_FILE);
     } catch (error) {
       console.error("Failed to load sessions:", error);
       return [];
@@ -91,16 +102,7 @@ export class ResearchSessionOperations {
    * Save conversation to storage
    */
   static async saveSession(session: ResearchSession): Promise<void> {
-    const sessions = await this.getAllSessions();
-    const existingIndex = sessions.findIndex(s => s.id === session.id);
-    
-    if (existingIndex >= 0) {
-      sessions[existingIndex] = session;
-    } else {
-      sessions.push(session);
-    }
-
-    await writeData(AGENT_CONVERSATIONS_FILE, sessions);
+    await putRecord(AGENT_CONVERSATIONS_FILE, session);
   }
 
   /**
@@ -258,16 +260,14 @@ export class ResearchSessionOperations {
    * Delete conversation
    */
   static async deleteSession(sessionId: string): Promise<void> {
-    const sessions = await this.getAllSessions();
-    const updatedSessions = sessions.filter(s => s.id !== sessionId);
-    await writeData(AGENT_CONVERSATIONS_FILE, updatedSessions);
+    await deleteRecord(AGENT_CONVERSATIONS_FILE, sessionId);
   }
 
   /**
    * Clear all sessions from the data file
    */
   static async clearAll(): Promise<void> {
-    await writeData(AGENT_CONVERSATIONS_FILE, []);
+    await clearStore(AGENT_CONVERSATIONS_FILE);
   }
 
   /**
@@ -401,21 +401,22 @@ export class ResearchSessionOperations {
     sessionId: string,
     newTasks: TaskEntry[],
   ): Promise<void> {
-    const sessions = await this.getAllSessions();
-    const sessionIndex = sessions.findIndex(s => s.id === sessionId);
+    const session = await updateRecord<ResearchSession>(AGENT_CONVERSATIONS_FILE, sessionId, (current) => {
+      if (!current) {
+        return undefined;
+      }
+      const currentQueue = current.research_state.task_queue || [];
+      
+      // Add new tasks to the end of current queue
+      return {
+        ...current,
+        research_state: { ...current.research_state, task_queue: [...currentQueue, ...newTasks] },
+      };
+    });
     
-    if (sessionIndex === -1) {
+    if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-
-    const session = sessions[sessionIndex];
-    const currentQueue = session.research_state.task_queue || [];
-    
-    // Add new tasks to the end of current queue
-    session.research_state.task_queue = [...currentQueue, ...newTasks];
-    
-    // Save only the updated session
-    await writeData(AGENT_CONVERSATIONS_FILE, sessions);
   }
   
   /**
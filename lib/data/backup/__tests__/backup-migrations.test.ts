@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { decodeBackup, encodeBackup, InvalidBackupError } from "@/lib/data/backup/backup-archive";
+import { migrateBackupDocument } from "@/lib/data/backup/backup-migrations";
+import { BACKUP_FORMAT, BACKUP_VERSION } from "@/lib/models/backup-model";
+
+// The 8-byte PNG signature
+const PNG_BYTES = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * A version 1 backup: the JSON dump of every store in its legacy layout
+ */
+const V1_DUMP = {
+  characters_record: [
+    { id: "alice", data: { data: { name: "Alice" } }, imagePath: "alice.png", order: 3 },
+    { id: "bob", data: { name: "Bob" }, imagePath: "", order: 1 },
+  ],
+  character_dialogues: [
+    {
+      id: "alice-chat",
+      character_id: "alice",
+      current_nodeId: "n1",
+      nodes: [
+        { nodeId: "root", parentNodeId: "", userInput: "", assistantResponse: "", fullResponse: "" },
+        { nodeId: "n1", parentNodeId: "root", userInput: "hi", assistantResponse: "hello", fullResponse: "hello", worldBookState: { turn: 1, timers: {} } },
+      ],
+    },
+  ],
+  character_images: [{ key: "alice.png", data: "data:image/png;base64,iVBORw0KGgo=" }],
+  world_book: [{
+    alice: { e1: { content: "Alice's lore", keys: ["alice"] } },
+    alice_settings: { enabled: true, maxEntries: 5 },
+    shared: { s1: { content: "Shared lore", keys: ["town"] } },
+    shared_settings: { metadata: { name: "Town lore" } },
+  }],
+  regex_scripts: [{
+    bob: { r1: { scriptKey: "r1", scriptName: "Trim", findRegex: "/ +$/g", replaceString: "" } },
+    bob_settings: { enabled: true, applyToPrompt: false, applyToResponse: true },
+    global_style: { g1: { scriptKey: "g1", scriptName: "Quotes", findRegex: "/'/g", replaceString: "\"" } },
+    global_style_settings: { enabled: true, metadata: { name: "Style" } },
+  }],
+  memory_entries: [
+    { characterId: "alice", maxEntries: 50, entries: [{ id: "m1", characterId: "old-id", content: "Alice likes tea" }] },
+  ],
+  memory_embeddings: [
+    { id: "m1", characterId: "alice", vector: [0.1, 0.2] },
+    { id: "x1", characterId: "gone", vector: [0.3] },
+  ],
+  preset_data: [{ p1: { name: "Default", prompts: [{ identifier: "main", content: "Be kind." }] } }],
+  usage_ledger: [{ id: "u1", timestamp: "2025-01-01T00:00:00.000Z", tokens: 12 }],
+};
+
+function dumpBytes(dump: object): Uint8Array {
+  return strToU8(JSON.stringify(dump));
+}
+
+describe("backup migrations", () => {
+  it("turns a version 1 store dump into a current backup that survives a round trip", () => {
+    const document = decodeBackup(dumpBytes(V1_DUMP));
+    expect(document.version).toBe(BACKUP_VERSION);
+
+    const [alice, bob] = document.characters;
+    expect(alice.record).toEqual({ id: "alice", data: { data: { name: "Alice" } }, imagePath: "alice.png" });
+    expect(alice.dialogues.map((dialogue) => dialogue.id)).toEqual(["alice-chat"]);
+    expect(alice.dialogues[0].nodes[1]).toMatchObject({ nodeId: "n1", worldBookState: { turn: 1, timers: {} } });
+    expect(bob.dialogues).toEqual([]);
+
+    // Each character's own world book and regex set move under the character, the rest stay standalone
+    expect(alice.worldBook).toEqual({ ownerId: "alice", entries: { e1: { content: "Alice's lore", keys: ["alice"] } }, settings: { enabled: true, maxEntries: 5 } });
+    expect(alice.regexSet).toBeNull();
+    expect(bob.worldBook).toBeNull();
+    expect(bob.regexSet?.scripts).toHaveProperty("r1");
+    expect(bob.regexSet?.settings).toEqual({ enabled: true, applyToPrompt: false, applyToResponse: true });
+    expect(document.worldBooks).toEqual([
+      { ownerId: "shared", name: "Town lore", entries: { s1: { content: "Shared lore", keys: ["town"] } }, settings: { metadata: { name: "Town lore" } } },
+    ]);
+    expect(document.regexSets.map((regexSet) => [regexSet.ownerId, regexSet.name])).toEqual([["global_style", "Style"]]);
+
+    // Memories are split into the config and its entries, which take the owner's id
+    expect(alice.memory.config).toEqual({ characterId: "alice", maxEntries: 50 });
+    expect(alice.memory.entries).toEqual([{ id: "m1", characterId: "alice", content: "Alice likes tea" }]);
+    expect(alice.memory.embeddings).toEqual([{ id: "m1", characterId: "alice", vector: [0.1, 0.2] }]);
+    expect(bob.memory).toEqual({ config: null, entries: [], embeddings: [] });
+
+    expect(document.images["alice.png"]).toEqual(new Uint8Array(PNG_BYTES));
+    expect(document.presets).toEqual([{ id: "p1", name: "Default", prompts: [{ identifier: "main", content: "Be kind." }] }]);
+    expect(document.extras.usageLedger).toEqual(V1_DUMP.usage_ledger);
+    expect(document.extras.samplerProfiles).toBeUndefined();
+
+    expect(decodeBackup(encodeBackup(document))).toEqual(document);
+  });
+
+  it("rejects a backup from a newer version of the app", () => {
+    expect(() => migrateBackupDocument({ version: BACKUP_VERSION + 1 }))
+      .toThrow(`Backup version ${BACKUP_VERSION + 1} is newer than this app supports`);
+
+    const manifest = { format: BACKUP_FORMAT, version: BACKUP_VERSION + 1, createdAt: "2030-01-01T00:00:00.000Z" };
+    const archive = zipSync({ "manifest.json": strToU8(JSON.stringify(manifest)) });
+    expect(() => decodeBackup(archive)).toThrow(InvalidBackupError);
+    expect(() => decodeBackup(archive)).toThrow(/newer than this app supports/);
+  });
+
+  it("rejects versions it has no migration for and files that are not backups", () => {
+    expect(() => migrateBackupDocument({ version: 0 })).toThrow("Unsupported backup version 0");
+    expect(() => decodeBackup(dumpBytes({ characters: [] }))).toThrow("Not a Narratium backup");
+  });
+});
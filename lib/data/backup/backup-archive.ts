@@ -0,0 +1,170 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from "fflate";
+import {
+  BACKUP_EXTRA_SECTIONS,
+  BACKUP_FORMAT,
+  BackupDocument,
+  backupDocumentSchema,
+  BackupManifest,
+  backupManifestSchema,
+  characterName,
+} from "@/lib/models/backup-model";
+import { migrateBackupDocument } from "@/lib/data/backup/backup-migrations";
+
+const MANIFEST_FILE = "manifest.json";
+
+/**
+ * Raised when a file is not a backup or does not match its schema
+ */
+export class InvalidBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBackupError";
+  }
+}
+
+function toJson(value: unknown): Uint8Array {
+  return strToU8(JSON.stringify(value, null, 2));
+}
+
+/**
+ * A file name that stays unique within its folder and is safe in any zip tool
+ */
+function entityFile(folder: string, index: number, id: string, extension = ".json"): string {
+  return `${folder}/${String(index + 1).padStart(4, "0")}-${id.replace(/[^\w.-]+/g, "_").slice(0, 60)}${extension}`;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/**
+ * Pack a backup as a zip: `manifest.json` lists every entity and the file it
+ * is stored in, with one JSON file per entity and character images as files.
+ */
+export function encodeBackup(document: BackupDocument): Uint8Array {
+  const files: Zippable = {};
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: document.version,
+    createdAt: document.createdAt,
+    characters: [],
+    presets: [],
+    regexSets: [],
+    worldBooks: [],
+    extras: [],
+  };
+
+  document.characters.forEach((character, index) => {
+    const { id, imagePath } = character.record;
+    const file = entityFile("characters", index, id);
+    const imageBytes = imagePath ? document.images[imagePath] : undefined;
+    const image = imageBytes ? entityFile("images", index, id, "") : undefined;
+    files[file] = toJson(character);
+    if (image && imageBytes) {
+      // Images are already compressed
+      files[image] = [imageBytes, { level: 0 }];
+    }
+    manifest.characters.push({ id, name: characterName(character.record), file, image });
+  });
+  document.presets.forEach((preset, index) => {
+    const file = entityFile("presets", index, preset.id);
+    files[file] = toJson(preset);
+    manifest.presets.push({ id: preset.id, name: preset.name, file });
+  });
+  document.regexSets.forEach((regexSet, index) => {
+    const file = entityFile("regex", index, regexSet.ownerId);
+    files[file] = toJson(regexSet);
+    manifest.regexSets.push({ id: regexSet.ownerId, name: regexSet.name || regexSet.ownerId, file });
+  });
+  document.worldBooks.forEach((worldBook, index) => {
+    const file = entityFile("worldbooks", index, worldBook.ownerId);
+    files[file] = toJson(worldBook);
+    manifest.worldBooks.push({ id: worldBook.ownerId, name: worldBook.name || worldBook.ownerId, file });
+  });
+  for (const section of BACKUP_EXTRA_SECTIONS) {
+    if (document.extras[section]) {
+      files[`extras/${section}.json`] = toJson(document.extras[section]);
+      manifest.extras.push(section);
+    }
+  }
+
+  files[MANIFEST_FILE] = toJson(manifest);
+  return zipSync(files);
+}
+
+/**
+ * Read the entity files a zip's manifest points to back into one document
+ */
+function readArchive(bytes: Uint8Array): any {
+  const files = unzipSync(bytes);
+  const readJson = (path: string) => {
+    if (!files[path]) {
+      throw new InvalidBackupError(`Backup is missing ${path}`);
+    }
+    return JSON.parse(strFromU8(files[path]));
+  };
+
+  const parsedManifest = backupManifestSchema.safeParse(readJson(MANIFEST_FILE));
+  if (!parsedManifest.success) {
+    throw new InvalidBackupError(`Invalid backup manifest: ${parsedManifest.error.message}`);
+  }
+  const manifest = parsedManifest.data;
+
+  const images: Record<string, Uint8Array> = {};
+  const characters = manifest.characters.map((entry) => {
+    const character = readJson(entry.file);
+    const imagePath = character?.record?.imagePath;
+    if (entry.image && imagePath && files[entry.image]) {
+      images[imagePath] = files[entry.image];
+    }
+    return character;
+  });
+
+  return {
+    version: manifest.version,
+    createdAt: manifest.createdAt,
+    characters,
+    presets: manifest.presets.map((entry) => readJson(entry.file)),
+    regexSets: manifest.regexSets.map((entry) => readJson(entry.file)),
+    worldBooks: manifest.worldBooks.map((entry) => readJson(entry.file)),
+    extras: Object.fromEntries(manifest.extras.map((section) => [section, readJson(`extras/${section}.json`)])),
+    images,
+  };
+}
+
+/**
+ * Read a backup zip, or a JSON dump from before backups were versioned, and
+ * migrate it to the current version. Throws InvalidBackupError when the
+ * result does not match the schema.
+ */
+export function decodeBackup(bytes: Uint8Array): BackupDocument {
+  let document: any;
+  try {
+    if (isZip(bytes)) {
+      document = readArchive(bytes);
+    } else {
+      const data = JSON.parse(strFromU8(bytes));
+      if (!data || typeof data !== "object" || !Array.isArray(data.characters_record)) {
+        throw new InvalidBackupError("Not a Narratium backup");
+      }
+      document = { version: 1, data };
+    }
+  } catch (error) {
+    if (error instanceof InvalidBackupError) {
+      throw error;
+    }
+    throw new InvalidBackupError(`Unreadable backup: ${(error as Error).message}`);
+  }
+
+  let migrated: any;
+  try {
+    migrated = migrateBackupDocument(document);
+  } catch (error) {
+    throw new InvalidBackupError((error as Error).message);
+  }
+  const parsed = backupDocumentSchema.safeParse(migrated);
+  if (!parsed.success) {
+    throw new InvalidBackupError(`Invalid backup: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,142 @@
+import { BACKUP_VERSION } from "@/lib/models/backup-model";
+
+/**
+ * Rewrites a backup document of one version into the next. Documents are
+ * plain parsed JSON here and are only validated once fully migrated.
+ */
+type BackupMigration = (document: any) => any;
+
+const SETTINGS_SUFFIX = "_settings";
+
+export interface OwnedRecords {
+  value: Record<string, any> | null;
+  settings: Record<string, any> | null;
+}
+
+/**
+ * Group a world book or regex script store by owner: each owner has its map
+ * under its own id and its settings under `${ownerId}_settings`
+ */
+export function groupOwnedRecords(records: Record<string, any>): Map<string, OwnedRecords> {
+  const owners = new Map<string, OwnedRecords>();
+  for (const [key, value] of Object.entries(records)) {
+    const isSettings = key.endsWith(SETTINGS_SUFFIX);
+    const ownerId = isSettings ? key.slice(0, -SETTINGS_SUFFIX.length) : key;
+    const owned = owners.get(ownerId) || { value: null, settings: null };
+    if (isSettings) {
+      owned.settings = value;
+    } else {
+      owned.value = value;
+    }
+    owners.set(ownerId, owned);
+  }
+  return owners;
+}
+
+export function settingsKey(ownerId: string): string {
+  return `${ownerId}${SETTINGS_SUFFIX}`;
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Version 1 was the raw dump of every store in its legacy array layout, with
+ * key-value stores as `[map]` and images as data URLs. Presets were never
+ * included.
+ */
+function migrateFromStoreDump(document: any): any {
+  const dump: Record<string, any> = document.data || {};
+  const list = (storeName: string): any[] => Array.isArray(dump[storeName]) ? dump[storeName] : [];
+  const map = (storeName: string): Record<string, any> => list(storeName)[0] || {};
+
+  const characterIds = new Set(list("characters_record").map((record) => record.id));
+  const worldBooks = groupOwnedRecords(map("world_book"));
+  const regexSets = groupOwnedRecords(map("regex_scripts"));
+  const memories = list("memory_entries");
+  const embeddings = list("memory_embeddings");
+
+  const characters = list("characters_record").map(({ order, ...record }) => {
+    const worldBook = worldBooks.get(record.id);
+    const regexSet = regexSets.get(record.id);
+    const { entries = [], ...config } = memories.find((memory) => memory.characterId === record.id) || {};
+    return {
+      record,
+      dialogues: list("character_dialogues").filter((dialogue) => dialogue.character_id === record.id),
+      worldBook: worldBook ? { ownerId: record.id, entries: worldBook.value || {}, settings: worldBook.settings } : null,
+      regexSet: regexSet ? { ownerId: record.id, scripts: regexSet.value || {}, settings: regexSet.settings } : null,
+      memory: {
+        config: config.characterId ? config : null,
+        entries: entries.map((entry: any) => ({ ...entry, characterId: record.id })),
+        embeddings: embeddings.filter((embedding) => embedding.characterId === record.id),
+      },
+    };
+  });
+
+  const unowned = (owners: Map<string, OwnedRecords>) =>
+    Array.from(owners.entries()).filter(([ownerId]) => !characterIds.has(ownerId));
+
+  const images: Record<string, Uint8Array> = {};
+  for (const image of list("character_images")) {
+    if (typeof image?.key === "string" && typeof image.data === "string") {
+      images[image.key] = dataUrlToBytes(image.data);
+    }
+  }
+
+  return {
+    version: 2,
+    // The dump did not record when it was made
+    createdAt: "",
+    characters,
+    presets: Object.entries(map("preset_data")).map(([id, preset]) => ({ ...preset, id })),
+    regexSets: unowned(regexSets).map(([ownerId, owned]) => ({
+      ownerId,
+      name: owned.settings?.metadata?.name,
+      scripts: owned.value || {},
+      settings: owned.settings,
+    })),
+    worldBooks: unowned(worldBooks).map(([ownerId, owned]) => ({
+      ownerId,
+      name: owned.settings?.metadata?.name,
+      entries: owned.value || {},
+      settings: owned.settings,
+    })),
+    extras: {
+      samplerProfiles: dump.sampler_profiles ? map("sampler_profiles") : undefined,
+      agentConversations: dump.agent_conversations ? list("agent_conversations") : undefined,
+      usageLedger: dump.usage_ledger ? list("usage_ledger") : undefined,
+    },
+    images,
+  };
+}
+
+/**
+ * Keyed by the version a migration upgrades from
+ */
+const BACKUP_MIGRATIONS: Record<number, BackupMigration> = {
+  1: migrateFromStoreDump,
+};
+
+/**
+ * Bring a backup document of any earlier version up to BACKUP_VERSION
+ */
+export function migrateBackupDocument(document: any): any {
+  let migrated = document;
+  while (migrated.version < BACKUP_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[migrated.version];
+    if (!migrate) {
+      throw new Error(`Unsupported backup version ${migrated.version}`);
+    }
+    migrated = migrate(migrated);
+  }
+  if (migrated.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${migrated.version} is newer than this app supports`);
+  }
+  return migrated;
+}
@@ -0,0 +1,338 @@
+import {
+  AGENT_CONVERSATIONS_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  CHARACTERS_RECORD_FILE,
+  DIALOGUE_NODES_FILE,
+  deleteByIndex,
+  getAllRecords,
+  getBlob,
+  getKeyValueRecords,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PRESET_FILE,
+  promisifyRequest,
+  readData,
+  REGEX_SCRIPTS_FILE,
+  SAMPLER_PROFILES_FILE,
+  USAGE_LEDGER_FILE,
+  withTransaction,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
+import { groupOwnedRecords, OwnedRecords, settingsKey } from "@/lib/data/backup/backup-migrations";
+import {
+  BACKUP_VERSION,
+  BackupDocument,
+  BackupExtraSection,
+  BackupExtras,
+  CharacterBackup,
+  DialogueBackup,
+  PresetBackup,
+  RegexSetBackup,
+  RestoreMode,
+  RestoreReport,
+  RestoreSelection,
+  WorldBookBackup,
+} from "@/lib/models/backup-model";
+
+const CHARACTER_STORES = [
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  CHARACTER_IMAGES_FILE,
+  WORLD_BOOK_FILE,
+  REGEX_SCRIPTS_FILE,
+  MEMORY_ENTRIES_FILE,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+];
+
+const EXTRA_STORES: Record<BackupExtraSection, string> = {
+  samplerProfiles: SAMPLER_PROFILES_FILE,
+  agentConversations: AGENT_CONVERSATIONS_FILE,
+  usageLedger: USAGE_LEDGER_FILE,
+};
+
+export function imageType(bytes: Uint8Array): string {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "image/jpeg";
+  if (bytes[0] === 0x47 && bytes[1] === 0x49) return "image/gif";
+  if (bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) return "image/webp";
+  return "";
+}
+
+async function getStoredValue(tx: IDBTransaction, storeName: string, key: IDBValidKey): Promise<any> {
+  const value = await promisifyRequest(tx.objectStore(storeName).get(key));
+  return value ?? null;
+}
+
+/**
+ * Write one owner's map and settings to a world book or regex script store.
+ * Merging keeps local items the backup lacks and local settings.
+ */
+export async function restoreOwnedRecords(
+  tx: IDBTransaction,
+  storeName: string,
+  ownerId: string,
+  items: Record<string, any>,
+  settings: Record<string, any> | null,
+  mode: RestoreMode,
+): Promise<void> {
+  const store = tx.objectStore(storeName);
+  const [localItems, localSettings] = mode === "merge"
+    ? await Promise.all([getStoredValue(tx, storeName, ownerId), getStoredValue(tx, storeName, settingsKey(ownerId))])
+    : [null, null];
+
+  await promisifyRequest(store.put({ ...(localItems || {}), ...items }, ownerId));
+  const nextSettings = localSettings || settings;
+  if (nextSettings) {
+    await promisifyRequest(store.put(nextSettings, settingsKey(ownerId)));
+  } else {
+    await promisifyRequest(store.delete(settingsKey(ownerId)));
+  }
+}
+
+/**
+ * Write a dialogue tree with its nodes over any local tree with the same id.
+ * Needs a transaction over CHARACTER_DIALOGUES_FILE and DIALOGUE_NODES_FILE.
+ */
+export async function restoreDialogueTree(tx: IDBTransaction, { nodes, ...dialogue }: DialogueBackup): Promise<void> {
+  const existing = await getStoredValue(tx, CHARACTER_DIALOGUES_FILE, dialogue.id);
+  if (existing) {
+    await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", dialogue.id);
+  }
+  // Bump past the local version so edits prepared against the old tree are rejected
+  const version = Math.max(existing?.version ?? 0, dialogue.version ?? 0) + 1;
+  await promisifyRequest(tx.objectStore(CHARACTER_DIALOGUES_FILE).put({ ...dialogue, version }));
+  await Promise.all(nodes.map((node, index) =>
+    promisifyRequest(tx.objectStore(DIALOGUE_NODES_FILE).put({ ...node, dialogueId: dialogue.id, order: index })),
+  ));
+}
+
+/**
+ * Full backups and selective restores. Backups are read from and written to
+ * the stores directly, one transaction per restored entity, so an entity is
+ * either restored completely or left as it was.
+ */
+export class BackupOperations {
+  static async createBackup(): Promise<BackupDocument> {
+    const [characterRecords, dialogues, memoryEntries, memoryConfigs, embeddings, worldBookRecords, regexRecords, presets] =
+      await Promise.all([
+        getAllRecords(CHARACTERS_RECORD_FILE),
+        readData(CHARACTER_DIALOGUES_FILE),
+        getAllRecords(MEMORY_ENTRIES_FILE),
+        getAllRecords(MEMORY_CONFIGS_FILE),
+        getAllRecords(MEMORY_EMBEDDINGS_FILE),
+        getKeyValueRecords(WORLD_BOOK_FILE),
+        getKeyValueRecords(REGEX_SCRIPTS_FILE),
+        getKeyValueRecords(PRESET_FILE),
+      ]);
+    const worldBooks = groupOwnedRecords(worldBookRecords);
+    const regexSets = groupOwnedRecords(regexRecords);
+    const characterIds = new Set(characterRecords.map((record) => record.id));
+    const images: Record<string, Uint8Array> = {};
+
+    const characters: CharacterBackup[] = [];
+    for (const record of characterRecords) {
+      const worldBook = worldBooks.get(record.id);
+      const regexSet = regexSets.get(record.id);
+      characters.push({
+        record,
+        dialogues: dialogues.filter((dialogue) => dialogue.character_id === record.id),
+        worldBook: worldBook ? this.toWorldBookBackup(record.id, worldBook) : null,
+        regexSet: regexSet ? this.toRegexSetBackup(record.id, regexSet) : null,
+        memory: {
+          config: memoryConfigs.find((config) => config.characterId === record.id) || null,
+          entries: memoryEntries.filter((entry) => entry.characterId === record.id),
+          embeddings: embeddings.filter((embedding) => embedding.characterId === record.id),
+        },
+      });
+
+      const image = record.imagePath ? await getBlob(record.imagePath) : null;
+      if (image) {
+        images[record.imagePath] = new Uint8Array(await image.arrayBuffer());
+      }
+    }
+
+    return {
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      characters,
+      presets: Object.entries(presets).map(([id, preset]) => ({ ...preset, id })),
+      regexSets: Array.from(regexSets.entries())
+        .filter(([ownerId]) => !characterIds.has(ownerId))
+        .map(([ownerId, owned]) => this.toRegexSetBackup(ownerId, owned)),
+      worldBooks: Array.from(worldBooks.entries())
+        .filter(([ownerId]) => !characterIds.has(ownerId))
+        .map(([ownerId, owned]) => this.toWorldBookBackup(ownerId, owned)),
+      extras: {
+        samplerProfiles: await this.readSamplerProfiles(),
+        agentConversations: await getAllRecords(AGENT_CONVERSATIONS_FILE),
+        usageLedger: await getAllRecords(USAGE_LEDGER_FILE),
+      },
+      images,
+    };
+  }
+
+  static async restoreBackup(backup: BackupDocument, selection: RestoreSelection): Promise<RestoreReport> {
+    const report: RestoreReport = { characters: 0, presets: 0, regexSets: 0, worldBooks: 0, extras: 0 };
+
+    for (const character of backup.characters) {
+      const mode = selection.characters[character.record.id];
+      if (mode) {
+        const imagePath = character.record.imagePath;
+        await this.restoreCharacter(character, imagePath ? backup.images[imagePath] : undefined, mode);
+        report.characters++;
+      }
+    }
+    for (const preset of backup.presets) {
+      const mode = selection.presets[preset.id];
+      if (mode) {
+        await this.restorePreset(preset, mode);
+        report.presets++;
+      }
+    }
+    for (const regexSet of backup.regexSets) {
+      const mode = selection.regexSets[regexSet.ownerId];
+      if (mode) {
+        await withTransaction(REGEX_SCRIPTS_FILE, "readwrite", (tx) =>
+          restoreOwnedRecords(tx, REGEX_SCRIPTS_FILE, regexSet.ownerId, regexSet.scripts, regexSet.settings, mode),
+        );
+        report.regexSets++;
+      }
+    }
+    for (const worldBook of backup.worldBooks) {
+      const mode = selection.worldBooks[worldBook.ownerId];
+      if (mode) {
+        await withTransaction(WORLD_BOOK_FILE, "readwrite", (tx) =>
+          restoreOwnedRecords(tx, WORLD_BOOK_FILE, worldBook.ownerId, worldBook.entries, worldBook.settings, mode),
+        );
+        report.worldBooks++;
+      }
+    }
+    for (const [section, mode] of Object.entries(selection.extras) as [BackupExtraSection, RestoreMode][]) {
+      if (mode && backup.extras[section]) {
+        await this.restoreExtra(section, backup.extras, mode);
+        report.extras++;
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Restore a character with its chats, memories, world book, regex scripts
+   * and avatar. Chats in the backup replace local chats with the same id.
+   */
+  private static async restoreCharacter(
+    character: CharacterBackup,
+    image: Uint8Array | undefined,
+    mode: RestoreMode,
+  ): Promise<void> {
+    const characterId = character.record.id;
+
+    await withTransaction(CHARACTER_STORES, "readwrite", async (tx) => {
+      const local = await getStoredValue(tx, CHARACTERS_RECORD_FILE, characterId);
+      const dialogueStore = tx.objectStore(CHARACTER_DIALOGUES_FILE);
+      const localDialogues: any[] = await promisifyRequest(dialogueStore.index("character_id").getAll(characterId));
+
+      if (mode === "replace") {
+        for (const dialogue of localDialogues) {
+          await promisifyRequest(dialogueStore.delete(dialogue.id));
+          await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", dialogue.id);
+        }
+        await deleteByIndex(tx, MEMORY_ENTRIES_FILE, "characterId", characterId);
+        await deleteByIndex(tx, MEMORY_EMBEDDINGS_FILE, "characterId", characterId);
+        await promisifyRequest(tx.objectStore(MEMORY_CONFIGS_FILE).delete(characterId));
+        for (const storeName of [WORLD_BOOK_FILE, REGEX_SCRIPTS_FILE]) {
+          await promisifyRequest(tx.objectStore(storeName).delete(characterId));
+          await promisifyRequest(tx.objectStore(storeName).delete(settingsKey(characterId)));
+        }
+      }
+
+      // A restored character keeps its place in the list, a new one goes to the top
+      await promisifyRequest(tx.objectStore(CHARACTERS_RECORD_FILE).put({
+        ...character.record,
+        order: local?.order ?? Date.now(),
+      }));
+
+      for (const dialogue of character.dialogues) {
+        await restoreDialogueTree(tx, { ...dialogue, character_id: characterId });
+      }
+
+      const { config, entries, embeddings } = character.memory;
+      const localConfig = await getStoredValue(tx, MEMORY_CONFIGS_FILE, characterId);
+      if (config && !(mode === "merge" && localConfig)) {
+        await promisifyRequest(tx.objectStore(MEMORY_CONFIGS_FILE).put({ ...config, characterId }));
+      }
+      await Promise.all([
+        ...entries.map((entry) => promisifyRequest(tx.objectStore(MEMORY_ENTRIES_FILE).put({ ...entry, characterId }))),
+        ...embeddings.map((embedding) =>
+          promisifyRequest(tx.objectStore(MEMORY_EMBEDDINGS_FILE).put({ ...embedding, characterId })),
+        ),
+      ]);
+
+      if (character.worldBook) {
+        const { entries: worldBookEntries, settings } = character.worldBook;
+        await restoreOwnedRecords(tx, WORLD_BOOK_FILE, characterId, worldBookEntries, settings, mode);
+      }
+      if (character.regexSet) {
+        const { scripts, settings } = character.regexSet;
+        await restoreOwnedRecords(tx, REGEX_SCRIPTS_FILE, characterId, scripts, settings, mode);
+      }
+      if (image && character.record.imagePath) {
+        const blob = new Blob([image], { type: imageType(image) });
+        await promisifyRequest(tx.objectStore(CHARACTER_IMAGES_FILE).put(blob, character.record.imagePath));
+      }
+    });
+  }
+
+  /**
+   * Merging a preset keeps local prompts the backup lacks; prompts in both
+   * take the backup's version
+   */
+  private static async restorePreset(preset: PresetBackup, mode: RestoreMode): Promise<void> {
+    await withTransaction(PRESET_FILE, "readwrite", async (tx) => {
+      const local = mode === "merge" ? await getStoredValue(tx, PRESET_FILE, preset.id) : null;
+      const backupPrompts = new Set(preset.prompts.map((prompt) => prompt.identifier));
+      const prompts = local
+        ? [...preset.prompts, ...(local.prompts || []).filter((prompt: any) => !backupPrompts.has(prompt.identifier))]
+        : preset.prompts;
+      await promisifyRequest(tx.objectStore(PRESET_FILE).put({ ...(local || {}), ...preset, prompts }, preset.id));
+    });
+  }
+
+  private static async restoreExtra(section: BackupExtraSection, extras: BackupExtras, mode: RestoreMode): Promise<void> {
+    const storeName = EXTRA_STORES[section];
+    await withTransaction(storeName, "readwrite", async (tx) => {
+      const store = tx.objectStore(storeName);
+      if (mode === "replace") {
+        await promisifyRequest(store.clear());
+      }
+
+      if (section === "samplerProfiles" && extras.samplerProfiles) {
+        for (const [key, values] of Object.entries(extras.samplerProfiles)) {
+          const local = mode === "merge" ? await getStoredValue(tx, storeName, key) : null;
+          await promisifyRequest(store.put({ ...(local || {}), ...values }, key));
+        }
+      } else if (section === "agentConversations" && extras.agentConversations) {
+        await Promise.all(extras.agentConversations.map((record) => promisifyRequest(store.put(record))));
+      } else if (section === "usageLedger" && extras.usageLedger) {
+        await Promise.all(extras.usageLedger.map((record) => promisifyRequest(store.put(record))));
+      }
+    });
+  }
+
+  private static async readSamplerProfiles(): Promise<BackupExtras["samplerProfiles"]> {
+    const store = await getKeyValueRecords(SAMPLER_PROFILES_FILE);
+    return { profiles: store.profiles || {}, characterProfiles: store.characterProfiles || {} };
+  }
+
+  private static toWorldBookBackup(ownerId: string, owned: OwnedRecords): WorldBookBackup {
+    return { ownerId, name: owned.settings?.metadata?.name, entries: owned.value || {}, settings: owned.settings };
+  }
+
+  private static toRegexSetBackup(ownerId: string, owned: OwnedRecords): RegexSetBackup {
+    return { ownerId, name: owned.settings?.metadata?.name, scripts: owned.value || {}, settings: owned.settings };
+  }
+}
@@ -1,9 +1,13 @@
 const DB_NAME = "CharacterAppDB";
 
-const DB_VERSION = 10;
+const DB_VERSION = 14;
+
+// Versions before this one kept each store as a single array under the key "data"
+const KEYED_RECORDS_VERSION = 13;
 
 export const CHARACTERS_RECORD_FILE = "characters_record";
 export const CHARACTER_DIALOGUES_FILE = "character_dialogues";
+export const DIALOGUE_NODES_FILE = "dialogue_nodes";
 export const CHARACTER_IMAGES_FILE = "character_images";
 export const WORLD_BOOK_FILE = "world_book";
 export const REGEX_SCRIPTS_FILE = "regex_scripts";
@@ -14,114 +18,427 @@ export const AGENT_CONVERSATIONS_FILE = "agent_conversations";
 
 // Memory/RAG storage constants
 export const MEMORY_ENTRIES_FILE = "memory_entries";
+export const MEMORY_CONFIGS_FILE = "memory_configs";
 export const MEMORY_EMBEDDINGS_FILE = "memory_embeddings";
 
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// Sampler profile storage constants
+export const SAMPLER_PROFILES_FILE = "sampler_profiles";
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+// Usage ledger storage constants
+export const USAGE_LEDGER_FILE = "usage_ledger";
 
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(CHARACTERS_RECORD_FILE)) {
-        db.createObjectStore(CHARACTERS_RECORD_FILE);
-      }
-      if (!db.objectStoreNames.contains(CHARACTER_DIALOGUES_FILE)) {
-        db.createObjectStore(CHARACTER_DIALOGUES_FILE);
-      }
-      if (!db.objectStoreNames.contains(CHARACTER_IMAGES_FILE)) {
-        db.createObjectStore(CHARACTER_IMAGES_FILE);
-      }
-      if (!db.objectStoreNames.contains(WORLD_BOOK_FILE)) {
-        db.createObjectStore(WORLD_BOOK_FILE);
-      }
-      if (!db.objectStoreNames.contains(REGEX_SCRIPTS_FILE)) {
-        db.createObjectStore(REGEX_SCRIPTS_FILE);
-      }
-      if (!db.objectStoreNames.contains(PRESET_FILE)) {
-        db.createObjectStore(PRESET_FILE);
-      }
-      // Agent-related object stores
-      if (!db.objectStoreNames.contains(AGENT_CONVERSATIONS_FILE)) {
-        db.createObjectStore(AGENT_CONVERSATIONS_FILE);
-      }
-      // Memory/RAG object stores
-      if (!db.objectStoreNames.contains(MEMORY_ENTRIES_FILE)) {
-        db.createObjectStore(MEMORY_ENTRIES_FILE);
+// Sync storage constants
+export const SYNC_STATE_FILE = "sync_state";
+
+interface StoreSchema {
+  // Stores without a key path take an explicit key, e.g. a character id or image path
+  keyPath?: string | string[];
+  indexes?: Record<string, string | string[]>;
+}
+
+const STORE_SCHEMAS: Record<string, StoreSchema> = {
+  [CHARACTERS_RECORD_FILE]: { keyPath: "id" },
+  [CHARACTER_DIALOGUES_FILE]: { keyPath: "id", indexes: { character_id: "character_id" } },
+  [DIALOGUE_NODES_FILE]: {
+    keyPath: ["dialogueId", "nodeId"],
+    indexes: { dialogueId: "dialogueId", nodeId: "nodeId" },
+  },
+  [CHARACTER_IMAGES_FILE]: {},
+  [WORLD_BOOK_FILE]: {},
+  [REGEX_SCRIPTS_FILE]: {},
+  [PRESET_FILE]: {},
+  [AGENT_CONVERSATIONS_FILE]: { keyPath: "id" },
+  [MEMORY_ENTRIES_FILE]: { keyPath: "id", indexes: { characterId: "characterId" } },
+  [MEMORY_CONFIGS_FILE]: { keyPath: "characterId" },
+  [MEMORY_EMBEDDINGS_FILE]: { keyPath: "id", indexes: { characterId: "characterId" } },
+  [SAMPLER_PROFILES_FILE]: {},
+  [USAGE_LEDGER_FILE]: { keyPath: "id", indexes: { timestamp: "timestamp", characterId: "characterId" } },
+  [SYNC_STATE_FILE]: { keyPath: ["target", "key"], indexes: { target: "target" } },
+};
+
+/**
+ * Stores that used to hold one map as `[map]`; every top-level key of the map
+ * is now its own record under that key
+ */
+const KEY_VALUE_STORES = [WORLD_BOOK_FILE, REGEX_SCRIPTS_FILE, PRESET_FILE, SAMPLER_PROFILES_FILE];
+
+/**
+ * Stores whose legacy array is split over several stores: dialogue trees keep
+ * their nodes in DIALOGUE_NODES_FILE, memory records their RAG config in
+ * MEMORY_CONFIGS_FILE
+ */
+const LEGACY_STORE_PARTS: Record<string, string[]> = {
+  [CHARACTER_DIALOGUES_FILE]: [CHARACTER_DIALOGUES_FILE, DIALOGUE_NODES_FILE],
+  [MEMORY_ENTRIES_FILE]: [MEMORY_ENTRIES_FILE, MEMORY_CONFIGS_FILE],
+};
+
+/**
+ * Stores whose records keep their display position in an `order` field. Reads
+ * return them in that order, without the field; it only matters to the store.
+ */
+const ORDERED_STORES = [CHARACTERS_RECORD_FILE];
+
+function withoutOrder(storeName: string, value: any): any {
+  if (!ORDERED_STORES.includes(storeName) || !value || typeof value !== "object") {
+    return value;
+  }
+  const { order, ...record } = value;
+  return record;
+}
+
+interface StoredRecord {
+  value: any;
+  key?: IDBValidKey;
+}
+
+type StoredRecords = Record<string, StoredRecord[]>;
+
+function storeParts(storeName: string): string[] {
+  return LEGACY_STORE_PARTS[storeName] || [storeName];
+}
+
+/**
+ * Turn a store's legacy array into the records of each store it now spans
+ */
+function splitLegacyData(storeName: string, data: any[]): StoredRecords {
+  if (KEY_VALUE_STORES.includes(storeName)) {
+    return {
+      [storeName]: Object.entries(data[0] || {}).map(([key, value]) => ({ key, value })),
+    };
+  }
+
+  switch (storeName) {
+  case CHARACTERS_RECORD_FILE:
+    // The array order is the display order
+    return { [storeName]: data.map((record, index) => ({ value: { ...record, order: index } })) };
+  case CHARACTER_DIALOGUES_FILE: {
+    const trees: StoredRecord[] = [];
+    const nodes: StoredRecord[] = [];
+    for (const { nodes: treeNodes = [], ...tree } of data) {
+      trees.push({ value: tree });
+      treeNodes.forEach((node: any, index: number) => {
+        nodes.push({ value: { ...node, dialogueId: tree.id, order: index } });
+      });
+    }
+    return { [CHARACTER_DIALOGUES_FILE]: trees, [DIALOGUE_NODES_FILE]: nodes };
+  }
+  case MEMORY_ENTRIES_FILE: {
+    const configs: StoredRecord[] = [];
+    const entries: StoredRecord[] = [];
+    for (const { entries: characterEntries = [], ...config } of data) {
+      configs.push({ value: config });
+      characterEntries.forEach((entry: any) => {
+        entries.push({ value: { ...entry, characterId: config.characterId } });
+      });
+    }
+    return { [MEMORY_ENTRIES_FILE]: entries, [MEMORY_CONFIGS_FILE]: configs };
+  }
+  default:
+    return { [storeName]: data.map((value) => ({ value })) };
+  }
+}
+
+/**
+ * Reassemble a store's legacy array from its records, the inverse of splitLegacyData
+ */
+function joinLegacyData(storeName: string, records: StoredRecords): any[] {
+  if (KEY_VALUE_STORES.includes(storeName)) {
+    return [Object.fromEntries(records[storeName].map(({ key, value }) => [key, value]))];
+  }
+
+  const byOrder = (a: any, b: any) => (a.order ?? 0) - (b.order ?? 0);
+  switch (storeName) {
+  case CHARACTERS_RECORD_FILE:
+    return records[storeName]
+      .map(({ value }) => value)
+      .sort(byOrder)
+      .map(({ order, ...record }) => record);
+  case CHARACTER_DIALOGUES_FILE: {
+    const nodesByDialogue = new Map<string, any[]>();
+    for (const { value } of records[DIALOGUE_NODES_FILE]) {
+      const nodes = nodesByDialogue.get(value.dialogueId) || [];
+      nodes.push(value);
+      nodesByDialogue.set(value.dialogueId, nodes);
+    }
+    return records[CHARACTER_DIALOGUES_FILE].map(({ value: tree }) => ({
+      ...tree,
+      nodes: (nodesByDialogue.get(tree.id) || [])
+        .sort(byOrder)
+        .map(({ dialogueId, order, ...node }) => node),
+    }));
+  }
+  case MEMORY_ENTRIES_FILE:
+    return records[MEMORY_CONFIGS_FILE].map(({ value: config }) => ({
+      ...config,
+      entries: records[MEMORY_ENTRIES_FILE]
+        .map(({ value }) => value)
+        .filter((entry) => entry.characterId === config.characterId),
+    }));
+  default:
+    return records[storeName].map(({ value }) => value);
+  }
+}
+
+function createStore(db: IDBDatabase, storeName: string): IDBObjectStore {
+  const { keyPath, indexes = {} } = STORE_SCHEMAS[storeName];
+  const store = db.createObjectStore(storeName, keyPath ? { keyPath } : undefined);
+  for (const [indexName, indexKeyPath] of Object.entries(indexes)) {
+    store.createIndex(indexName, indexKeyPath);
+  }
+  return store;
+}
+
+function putStoredRecord(store: IDBObjectStore, { key, value }: StoredRecord): IDBRequest {
+  return store.keyPath === null ? store.put(value, key) : store.put(value);
+}
+
+/**
+ * Move a legacy `"data"` array into keyed records. Runs inside the upgrade
+ * transaction, so the old array is only gone once every record is written.
+ */
+function migrateLegacyStore(db: IDBDatabase, tx: IDBTransaction, storeName: string): void {
+  const legacyRequest = tx.objectStore(storeName).get("data");
+  legacyRequest.onsuccess = () => {
+    const data = Array.isArray(legacyRequest.result) ? legacyRequest.result : [];
+    const records = splitLegacyData(storeName, data);
+
+    for (const part of storeParts(storeName)) {
+      // A key path can only be set on a new store, so keyed stores are recreated
+      if (STORE_SCHEMAS[part].keyPath) {
+        if (db.objectStoreNames.contains(part)) {
+          db.deleteObjectStore(part);
+        }
+        createStore(db, part);
+      } else {
+        tx.objectStore(part).delete("data");
       }
-      if (!db.objectStoreNames.contains(MEMORY_EMBEDDINGS_FILE)) {
-        db.createObjectStore(MEMORY_EMBEDDINGS_FILE);
+      const store = tx.objectStore(part);
+      for (const record of records[part] || []) {
+        putStoredRecord(store, record);
       }
+    }
+  };
+}
+
+function upgradeDB(db: IDBDatabase, tx: IDBTransaction, oldVersion: number): void {
+  const legacyStores = oldVersion > 0 && oldVersion < KEYED_RECORDS_VERSION
+    ? Object.keys(STORE_SCHEMAS).filter((name) => name !== CHARACTER_IMAGES_FILE && db.objectStoreNames.contains(name))
+    : [];
+
+  for (const storeName of Object.keys(STORE_SCHEMAS)) {
+    if (!db.objectStoreNames.contains(storeName)) {
+      createStore(db, storeName);
+    }
+  }
+
+  for (const storeName of legacyStores) {
+    migrateLegacyStore(db, tx, storeName);
+  }
+  if (legacyStores.length > 0) {
+    // Images were always keyed by path; only the empty placeholder array goes
+    tx.objectStore(CHARACTER_IMAGES_FILE).delete("data");
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Step aside when another tab upgrades or deletes the database; the next call reopens it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      upgradeDB(request.result, request.transaction as IDBTransaction, event.oldVersion);
     };
   });
+  return dbPromise;
 }
 
-export async function readData(storeName: string): Promise<any[]> {
-  await initializeDataFiles();
-  const db = await openDB();
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(storeName, "readonly");
-    const store = tx.objectStore(storeName);
-    const request = store.get("data");
-
-    request.onsuccess = () => resolve(request.result || []);
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
-export async function writeData(storeName: string, data: any[]): Promise<void> {
-  await initializeDataFiles();
+/**
+ * Run `work` in a single transaction over `storeNames`. Its writes commit
+ * together once `work` resolves and are rolled back if it throws. Only await
+ * IndexedDB requests inside `work`, or the transaction commits early.
+ */
+export async function withTransaction<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>,
+): Promise<T> {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(storeName, "readwrite");
+  const tx = db.transaction(storeNames, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error || new DOMException("Transaction aborted", "AbortError"));
+  });
+
+  try {
+    const result = await work(tx);
+    await completed;
+    return result;
+  } catch (error) {
+    completed.catch(() => undefined);
+    try {
+      tx.abort();
+    } catch {
+      // Already committed or aborted
+    }
+    throw error;
+  }
+}
+
+export async function getRecord<T = any>(storeName: string, key: IDBValidKey): Promise<T | null> {
+  return withTransaction(storeName, "readonly", async (tx) => {
+    const value = await promisifyRequest(tx.objectStore(storeName).get(key));
+    return value === undefined ? null : withoutOrder(storeName, value);
+  });
+}
+
+export async function getAllRecords<T = any>(storeName: string): Promise<T[]> {
+  return withTransaction(storeName, "readonly", async (tx) => {
+    const values = await promisifyRequest(tx.objectStore(storeName).getAll());
+    if (!ORDERED_STORES.includes(storeName)) {
+      return values;
+    }
+    return values
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((value) => withoutOrder(storeName, value));
+  });
+}
+
+export async function getRecordsByIndex<T = any>(
+  storeName: string,
+  indexName: string,
+  query: IDBValidKey | IDBKeyRange,
+): Promise<T[]> {
+  return withTransaction(storeName, "readonly", (tx) =>
+    promisifyRequest(tx.objectStore(storeName).index(indexName).getAll(query)),
+  );
+}
+
+/**
+ * All records of a store without a key path, as a map from key to record
+ */
+export async function getKeyValueRecords<T = any>(storeName: string): Promise<Record<string, T>> {
+  return withTransaction(storeName, "readonly", async (tx) => {
     const store = tx.objectStore(storeName);
-    const request = store.put(data, "data");
+    const [keys, values] = await Promise.all([
+      promisifyRequest(store.getAllKeys()),
+      promisifyRequest(store.getAll()),
+    ]);
+    return Object.fromEntries(keys.map((key, index) => [String(key), values[index]]));
+  });
+}
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+/**
+ * Insert or replace a record; `key` is only used by stores without a key path
+ */
+export async function putRecord<T>(storeName: string, value: T, key?: IDBValidKey): Promise<void> {
+  await withTransaction(storeName, "readwrite", async (tx) => {
+    await promisifyRequest(putStoredRecord(tx.objectStore(storeName), { value, key }));
   });
 }
 
-export async function initializeDataFiles(): Promise<void> {
-  const db = await openDB();
+/**
+ * Read, change and write back one record in the same transaction, so no other
+ * write can land in between. Return undefined from `update` to leave the
+ * record untouched and null to delete it. `update` sees the record as stored,
+ * `order` included. Resolves to the stored record.
+ */
+export async function updateRecord<T = any>(
+  storeName: string,
+  key: IDBValidKey,
+  update: (current: T | null) => T | null | undefined,
+): Promise<T | null> {
+  return withTransaction(storeName, "readwrite", async (tx) => {
+    const store = tx.objectStore(storeName);
+    const stored = await promisifyRequest(store.get(key));
+    const current: T | null = stored === undefined ? null : stored;
+    const next = update(current);
 
-  const storeNames = [
-    CHARACTERS_RECORD_FILE, 
-    CHARACTER_DIALOGUES_FILE, 
-    CHARACTER_IMAGES_FILE,
-    WORLD_BOOK_FILE,
-    PRESET_FILE,
-    REGEX_SCRIPTS_FILE,
-    AGENT_CONVERSATIONS_FILE,
-    MEMORY_ENTRIES_FILE,
-    MEMORY_EMBEDDINGS_FILE,
-  ];
-
-  await Promise.all(storeNames.map(storeName => {
-    return new Promise<void>((resolve, reject) => {
-      const tx = db.transaction(storeName, "readwrite");
-      const store = tx.objectStore(storeName);
-      const getRequest = store.get("data");
-
-      getRequest.onsuccess = () => {
-        if (getRequest.result === undefined) {
-          const putRequest = store.put([], "data");
-          putRequest.onsuccess = () => resolve();
-          putRequest.onerror = () => reject(putRequest.error);
-        } else {
-          resolve();
-        }
-      };
+    if (next === undefined) {
+      return withoutOrder(storeName, current);
+    }
+    if (next === null) {
+      await promisifyRequest(store.delete(key));
+    } else {
+      await promisifyRequest(putStoredRecord(store, { value: next, key }));
+    }
+    return withoutOrder(storeName, next);
+  });
+}
 
-      getRequest.onerror = () => reject(getRequest.error);
-    });
-  }));
+export async function deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+  await withTransaction(storeName, "readwrite", async (tx) => {
+    await promisifyRequest(tx.objectStore(storeName).delete(key));
+  });
+}
+
+/**
+ * Delete every record matching `query` on an index, within the given transaction
+ */
+export async function deleteByIndex(
+  tx: IDBTransaction,
+  storeName: string,
+  indexName: string,
+  query: IDBValidKey | IDBKeyRange,
+): Promise<void> {
+  const store = tx.objectStore(storeName);
+  const keys = await promisifyRequest(store.index(indexName).getAllKeys(query));
+  await Promise.all(keys.map((key) => promisifyRequest(store.delete(key))));
+}
+
+export async function clearStore(storeName: string): Promise<void> {
+  await withTransaction(storeName, "readwrite", async (tx) => {
+    await promisifyRequest(tx.objectStore(storeName).clear());
+  });
+}
+
+/**
+ * Snapshot of a whole store in the array layout used before keyed records,
+ * e.g. dialogue trees with their nodes inline. Regular reads go through the
+ * record helpers.
+ */
+export async function readData(storeName: string): Promise<any[]> {
+  const parts = storeParts(storeName);
+  return withTransaction(parts, "readonly", async (tx) => {
+    const records: StoredRecords = {};
+    for (const part of parts) {
+      const store = tx.objectStore(part);
+      const [keys, values] = await Promise.all([
+        promisifyRequest(store.getAllKeys()),
+        promisifyRequest(store.getAll()),
+      ]);
+      records[part] = values.map((value, index) => ({ key: keys[index], value }));
+    }
+    return joinLegacyData(storeName, records);
+  });
 }
 
 export async function setBlob(key: string, blob: Blob): Promise<void> {
-  await initializeDataFiles();
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CHARACTER_IMAGES_FILE, "readwrite");
@@ -133,7 +450,6 @@ export async function setBlob(key: string, blob: Blob): Promise<void> {
 }
 
 export async function getBlob(key: string): Promise<Blob | null> {
-  await initializeDataFiles();
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CHARACTER_IMAGES_FILE, "readonly");
@@ -145,7 +461,6 @@ export async function getBlob(key: string): Promise<Blob | null> {
 }
 
 export async function deleteBlob(key: string): Promise<void> {
-  await initializeDataFiles();
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CHARACTER_IMAGES_FILE, "readwrite");
@@ -156,111 +471,3 @@ export async function deleteBlob(key: string): Promise<void> {
     request.onerror = () => reject(request.error);
   });
 }
-
-export async function exportAllData(): Promise<Record<string, any>> {
-  const db = await openDB();
-  const exportData: Record<string, any> = {};
-  
-  // Handle regular data stores
-  const regularStores = [
-    CHARACTERS_RECORD_FILE,
-    CHARACTER_DIALOGUES_FILE,
-    WORLD_BOOK_FILE,
-    REGEX_SCRIPTS_FILE,
-    AGENT_CONVERSATIONS_FILE,
-    MEMORY_ENTRIES_FILE,
-    MEMORY_EMBEDDINGS_FILE,
-  ];
-
-  for (const storeName of regularStores) {
-    const data = await readData(storeName);
-    exportData[storeName] = data;
-  }
-
-  // Handle image data separately
-  const imageData = await readData(CHARACTER_IMAGES_FILE);
-  const imageBlobs: Array<{key: string, data: string}> = [];
-  
-  // Get all keys from the image store
-  const tx = db.transaction(CHARACTER_IMAGES_FILE, "readonly");
-  const store = tx.objectStore(CHARACTER_IMAGES_FILE);
-  const keys = await new Promise<string[]>((resolve) => {
-    const request = store.getAllKeys();
-    request.onsuccess = () => resolve(request.result as string[]);
-  });
-
-  // Read each image blob and convert to base64
-  for (const key of keys) {
-    const blob = await getBlob(key);
-    if (blob && blob instanceof Blob) {
-      try {
-        const base64 = await blobToBase64(blob);
-        imageBlobs.push({ key, data: base64 });
-      } catch (error) {
-        console.error(`Failed to convert image ${key} to base64:`, error);
-      }
-    }
-  }
-  
-  exportData[CHARACTER_IMAGES_FILE] = imageBlobs;
-
-  return exportData;
-}
-
-export async function importAllData(data: Record<string, any>): Promise<void> {
-  const db = await openDB();
-  
-  // Handle regular data stores
-  const regularStores = [
-    CHARACTERS_RECORD_FILE,
-    CHARACTER_DIALOGUES_FILE,
-    WORLD_BOOK_FILE,
-    REGEX_SCRIPTS_FILE,
-    AGENT_CONVERSATIONS_FILE,
-    MEMORY_ENTRIES_FILE,
-    MEMORY_EMBEDDINGS_FILE,
-  ];
-
-  for (const storeName of regularStores) {
-    if (data[storeName]) {
-      await writeData(storeName, data[storeName]);
-    }
-  }
-
-  // Handle image data separately
-  if (data[CHARACTER_IMAGES_FILE]) {
-    for (const item of data[CHARACTER_IMAGES_FILE]) {
-      if (typeof item.data === "string") {
-        const blob = await base64ToBlob(item.data);
-        await setBlob(item.key, blob);
-      }
-    }
-  }
-}
-
-// Helper function to convert Blob to base64
-async function blobToBase64(blob: Blob): Promise<string> {
-  if (!(blob instanceof Blob)) {
-    throw new Error("Input is not a valid Blob object");
-  }
-  
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === "string") {
-        resolve(reader.result);
-      } else {
-        reject(new Error("Failed to convert blob to base64"));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
-
-// Helper function to convert base64 to Blob
-async function base64ToBlob(base64: string): Promise<Blob> {
-  const response = await fetch(base64);
-  return response.blob();
-}
-
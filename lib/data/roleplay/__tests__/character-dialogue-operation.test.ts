@@ -0,0 +1,209 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it, vi } from "vitest";
+import {
+  DialogueConflictError,
+  LocalCharacterDialogueOperations as Dialogues,
+} from "@/lib/data/roleplay/character-dialogue-operation";
+import { DialogueTree } from "@/lib/models/node-model";
+
+function reply(label: string) {
+  return {
+    nodeId: label,
+    userInput: `user ${label}`,
+    assistantResponse: `assistant ${label}`,
+    fullResponse: `assistant ${label}`,
+  };
+}
+
+function parentOf(tree: DialogueTree, nodeId: string): string | undefined {
+  return tree.nodes.find((node) => node.nodeId === nodeId)?.parentNodeId;
+}
+
+/**
+ * Node ids from the current node back up to (excluding) the root
+ */
+function currentBranch(tree: DialogueTree): string[] {
+  const branch: string[] = [];
+  let nodeId = tree.current_nodeId;
+  while (nodeId && nodeId !== "root") {
+    branch.unshift(nodeId);
+    nodeId = parentOf(tree, nodeId) as string;
+  }
+  return branch;
+}
+
+describe("LocalCharacterDialogueOperations write safety", () => {
+  it("keeps every node when replies are appended concurrently", async () => {
+    await Dialogues.createDialogueTree("char", "", "burst");
+    const labels = Array.from({ length: 25 }, (_, i) => `m${i}`);
+
+    await Promise.all(labels.map((label) => Dialogues.appendToCurrentBranch("burst", reply(label))));
+
+    const tree = (await Dialogues.getDialogueTreeById("burst"))!;
+    expect(tree.nodes.map((node) => node.nodeId)).toEqual(["root", ...labels]);
+    // Each reply hangs under the one before it, in call order
+    expect(currentBranch(tree)).toEqual(labels);
+  });
+
+  it("keeps appended nodes while other nodes are edited, switched to and deleted", async () => {
+    await Dialogues.createDialogueTree("char", "", "mixed");
+    await Dialogues.addNodeToDialogueTree("mixed", "root", "side", "side", "side", undefined, undefined, "side");
+    await Dialogues.addNodeToDialogueTree("mixed", "root", "a", "a", "a", undefined, undefined, "a");
+
+    await Promise.all([
+      Dialogues.appendToCurrentBranch("mixed", reply("m1")),
+      Dialogues.updateNodeInDialogueTree("mixed", "a", { assistantResponse: "edited" }),
+      Dialogues.appendToCurrentBranch("mixed", reply("m2")),
+      Dialogues.deleteNode("mixed", "side"),
+      Dialogues.switchBranch("mixed", "m2"),
+      Dialogues.appendToCurrentBranch("mixed", reply("m3")),
+    ]);
+
+    const tree = (await Dialogues.getDialogueTreeById("mixed"))!;
+    expect(tree.nodes.map((node) => node.nodeId)).toEqual(["root", "a", "m1", "m2", "m3"]);
+    expect(tree.nodes.find((node) => node.nodeId === "a")?.assistantResponse).toBe("edited");
+    expect(currentBranch(tree)).toEqual(["a", "m1", "m2", "m3"]);
+  });
+
+  it("keeps every node when two tabs write to the same tree", async () => {
+    await Dialogues.createDialogueTree("char", "", "tabs");
+    // A second copy of the module has its own operation queue and database connection, like another tab
+    vi.resetModules();
+    const { LocalCharacterDialogueOperations: OtherTab } = await import(
+      "@/lib/data/roleplay/character-dialogue-operation"
+    );
+
+    const writes = Array.from({ length: 10 }, (_, i) => [
+      Dialogues.appendToCurrentBranch("tabs", reply(`a${i}`)),
+      OtherTab.appendToCurrentBranch("tabs", reply(`b${i}`)),
+    ]).flat();
+    await Promise.all(writes);
+
+    const tree = (await Dialogues.getDialogueTreeById("tabs"))!;
+    expect(tree.nodes).toHaveLength(21);
+    // No two replies were attached to the same parent, so none was overwritten or orphaned
+    expect(currentBranch(tree)).toHaveLength(20);
+  });
+
+  it("rejects writes prepared from a stale copy of the tree", async () => {
+    await Dialogues.createDialogueTree("char", "", "stale");
+    await Dialogues.appendToCurrentBranch("stale", reply("first"));
+    const snapshot = (await Dialogues.getDialogueTreeById("stale"))!;
+
+    await Dialogues.appendToCurrentBranch("stale", reply("second"));
+
+    snapshot.nodes = snapshot.nodes.filter((node) => node.nodeId !== "first");
+    await expect(Dialogues.updateDialogueTree("stale", snapshot)).rejects.toBeInstanceOf(DialogueConflictError);
+    await expect(
+      Dialogues.updateNodeInDialogueTree("stale", "first", { assistantResponse: "late" }, snapshot.version),
+    ).rejects.toBeInstanceOf(DialogueConflictError);
+
+    const tree = (await Dialogues.getDialogueTreeById("stale"))!;
+    expect(tree.nodes.map((node) => node.nodeId)).toEqual(["root", "first", "second"]);
+    expect(tree.version).toBeGreaterThan(snapshot.version);
+
+    const updated = await Dialogues.updateNodeInDialogueTree("stale", "first", { assistantResponse: "fresh" }, tree.version);
+    expect(updated?.nodes.find((node) => node.nodeId === "first")?.assistantResponse).toBe("fresh");
+  });
+
+  it("keeps counting versions after a tree is replaced without one", async () => {
+    await Dialogues.createDialogueTree("char", "", "unversioned");
+    await Dialogues.appendToCurrentBranch("unversioned", reply("first"));
+    await Dialogues.appendToCurrentBranch("unversioned", reply("second"));
+    const stale = (await Dialogues.getDialogueTreeById("unversioned"))!;
+    const staleVersion = stale.version!;
+
+    const { version, ...unversioned } = (await Dialogues.getDialogueTreeById("unversioned"))!;
+    unversioned.nodes = unversioned.nodes.filter((node) => node.nodeId !== "second");
+    await Dialogues.updateDialogueTree("unversioned", unversioned as DialogueTree);
+
+    const tree = (await Dialogues.getDialogueTreeById("unversioned"))!;
+    expect(tree.version).toBe(version! + 1);
+
+    // A copy read before the unversioned write is still stale
+    await expect(Dialogues.updateDialogueTree("unversioned", stale)).rejects.toBeInstanceOf(DialogueConflictError);
+    await expect(
+      Dialogues.updateNodeInDialogueTree("unversioned", "first", { assistantResponse: "late" }, staleVersion),
+    ).rejects.toBeInstanceOf(DialogueConflictError);
+    expect((await Dialogues.getDialogueTreeById("unversioned"))!.nodes.map((node) => node.nodeId)).toEqual(["root", "first"]);
+  });
+
+  it("keeps running queued operations after one of them fails", async () => {
+    const failed = Dialogues.addNodeToDialogueTree("missing", "root", "", "", "");
+    const created = Dialogues.createDialogueTree("char", "", "missing");
+    const appended = Dialogues.appendToCurrentBranch("missing", reply("after"));
+
+    await expect(failed).rejects.toThrow("Dialogue not found");
+    await created;
+    await appended;
+    expect(await Dialogues.nodeExists("missing", "after")).toBe(true);
+  });
+});
+
+describe("LocalCharacterDialogueOperations chats", () => {
+  it("keeps several chats per character apart", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2025-01-01T10:00:00Z"));
+      const first = await Dialogues.createDialogueTree("hero", "First run");
+      vi.setSystemTime(new Date("2025-01-02T10:00:00Z"));
+      const second = await Dialogues.createDialogueTree("hero", "Second run");
+      await Dialogues.appendToCurrentBranch(second.id, reply("s1"));
+
+      vi.setSystemTime(new Date("2025-01-03T10:00:00Z"));
+      await Dialogues.appendToCurrentBranch(first.id, reply("f1"));
+      vi.setSystemTime(new Date("2025-01-04T10:00:00Z"));
+      const copy = (await Dialogues.duplicateDialogue(first.id, "Copy"))!;
+      await Dialogues.appendToCurrentBranch(copy.id, reply("c1"));
+      await Dialogues.setDialogueArchived(copy.id, true);
+
+      expect(currentBranch((await Dialogues.getDialogueTreeById(first.id))!)).toEqual(["f1"]);
+      expect(currentBranch((await Dialogues.getDialogueTreeById(second.id))!)).toEqual(["s1"]);
+      expect(currentBranch((await Dialogues.getDialogueTreeById(copy.id))!)).toEqual(["f1", "c1"]);
+
+      const chats = await Dialogues.getDialoguesByCharacter("hero");
+      expect(chats.map((chat) => [chat.title, chat.archived])).toEqual([
+        ["Copy", true],
+        ["First run", false],
+        ["Second run", false],
+      ]);
+      expect(chats[2].created_at).toBe("2025-01-02T10:00:00.000Z");
+      expect(await Dialogues.getActiveDialogueId("hero")).toBe(first.id);
+
+      await Dialogues.deleteCharacterDialogues("hero");
+      expect(await Dialogues.getDialoguesByCharacter("hero")).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("keeps each branch's macro variables on its nodes", async () => {
+    await Dialogues.createDialogueTree("char", "", "vars");
+    await Dialogues.appendToCurrentBranch("vars", { ...reply("a"), macroVariables: { mood: "calm" } });
+    await Dialogues.appendToCurrentBranch("vars", { ...reply("b"), macroVariables: { mood: "angry" } });
+    await Dialogues.switchBranch("vars", "a");
+    await Dialogues.appendToCurrentBranch("vars", reply("c"));
+
+    const tree = (await Dialogues.getDialogueTreeById("vars"))!;
+    const path = await Dialogues.getDialoguePathToNode("vars", tree.current_nodeId);
+    expect(path.map((node) => node.macroVariables)).toEqual([undefined, { mood: "calm" }, undefined]);
+    expect(tree.nodes.find((node) => node.nodeId === "b")?.macroVariables).toEqual({ mood: "angry" });
+  });
+
+  it("keeps when each node was added, whatever happens to the chat later", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2025-03-01T08:00:00Z"));
+      await Dialogues.createDialogueTree("char", "", "times");
+      await Dialogues.appendToCurrentBranch("times", reply("t1"));
+      vi.setSystemTime(new Date("2025-03-01T09:00:00Z"));
+      await Dialogues.switchBranch("times", "t1");
+      await Dialogues.updateNodeInDialogueTree("times", "t1", { assistantResponse: "edited" });
+
+      const tree = (await Dialogues.getDialogueTreeById("times"))!;
+      expect(tree.nodes.find((node) => node.nodeId === "t1")?.createdAt).toBe(Date.parse("2025-03-01T08:00:00Z"));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
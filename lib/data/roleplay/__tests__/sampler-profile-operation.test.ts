@@ -0,0 +1,56 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SamplerProfileOperations as Profiles } from "@/lib/data/roleplay/sampler-profile-operation";
+
+let clock = Date.parse("2025-01-01T00:00:00.000Z");
+
+/**
+ * Profile ids come from the clock; step it so each profile gets its own
+ */
+async function createProfile(profile: Parameters<typeof Profiles.createProfile>[0]): Promise<string> {
+  vi.setSystemTime(clock += 1000);
+  return (await Profiles.createProfile(profile))!;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("SamplerProfileOperations", () => {
+  it("keeps every change when profiles are edited concurrently", async () => {
+    const first = await createProfile({ name: "first", temperature: 1.1 });
+    const second = await createProfile({ name: "second", topP: 0.9 });
+
+    await Promise.all([
+      Profiles.updateProfile(first, { name: "renamed", temperature: 0.4 }),
+      Profiles.setCharacterProfile("alice", first),
+      Profiles.setCharacterProfile("bob", second),
+      Profiles.setCharacterProfile("carol", second),
+      Profiles.deleteProfile(second),
+      Profiles.setCharacterProfile("dave", first),
+    ]);
+
+    expect((await Profiles.getAllProfiles()).map(({ id, name, temperature }) => ({ id, name, temperature })))
+      .toEqual([{ id: first, name: "renamed", temperature: 0.4 }]);
+    expect(await Profiles.getCharacterProfileId("alice")).toBe(first);
+    expect(await Profiles.getCharacterProfileId("dave")).toBe(first);
+    // Deleting a profile clears the characters that used it
+    expect(await Profiles.getCharacterProfileId("bob")).toBeNull();
+    expect(await Profiles.getCharacterProfileId("carol")).toBeNull();
+  });
+
+  it("falls back to temperature 0.7 when the resolved profile does not set one", async () => {
+    const cool = await createProfile({ name: "cool", temperature: 0.2, seed: 7 });
+    const seeded = await createProfile({ name: "seeded", seed: 3 });
+    await Profiles.setCharacterProfile("erin", cool);
+
+    expect(await Profiles.resolveSettings("nobody")).toEqual({ temperature: 0.7 });
+    expect(await Profiles.resolveSettings("nobody", seeded)).toEqual({ temperature: 0.7, seed: 3 });
+    // The character's own profile wins over the API config's
+    expect(await Profiles.resolveSettings("erin", seeded)).toEqual({ temperature: 0.2, seed: 7 });
+  });
+});
@@ -1,48 +1,194 @@
-import { readData, writeData, CHARACTER_DIALOGUES_FILE } from "@/lib/data/local-storage";
-import { DialogueNode, DialogueTree } from "@/lib/models/node-model";
+import {
+  deleteByIndex,
+  getRecordsByIndex,
+  promisifyRequest,
+  withTransaction,
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+} from "@/lib/data/local-storage";
+import { DialogueNode, DialogueSummary, DialogueTree } from "@/lib/models/node-model";
 import { v4 as uuidv4 } from "uuid";
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import { WorldBookTimedState } from "@/lib/models/world-book-model";
+import { TurnTrace } from "@/lib/models/turn-trace-model";
+import { LLMResponder } from "@/lib/models/llm-provider-model";
+import { DialogueBackup } from "@/lib/models/backup-model";
+import { restoreDialogueTree } from "@/lib/data/backup/backup-operation";
+
+/**
+ * Dialogue trees are stored as a header in CHARACTER_DIALOGUES_FILE and one
+ * record per node in DIALOGUE_NODES_FILE, keyed by [dialogueId, nodeId].
+ * A character can have any number of trees, each one a separate chat.
+ */
+interface DialogueHeader {
+  id: string;
+  character_id: string;
+  current_nodeId: string;
+  // Chats from before a character could have several have no title or dates
+  title?: string;
+  created_at?: string;
+  last_active_at?: string;
+  archived?: boolean;
+  // Bumped by every write to the tree; headers migrated from the array layout start at 0
+  version?: number;
+}
+
+interface StoredDialogueNode extends DialogueNode {
+  dialogueId: string;
+  // Insertion order, which keeps sibling branches in the order they were created
+  order: number;
+}
+
+interface DialogueState {
+  header: DialogueHeader;
+  nodes: StoredDialogueNode[];
+}
+
+export type NewDialogueNode = Omit<DialogueNode, "nodeId" | "parentNodeId"> & { nodeId?: string };
+
+/**
+ * Thrown when a write was prepared from a tree that has changed since it was read
+ */
+export class DialogueConflictError extends Error {
+  readonly dialogueId: string;
+  readonly expectedVersion: number;
+  readonly actualVersion: number;
+
+  constructor(dialogueId: string, expectedVersion: number, actualVersion: number) {
+    super(`Dialogue ${dialogueId} was modified (expected version ${expectedVersion}, found ${actualVersion})`);
+    this.name = "DialogueConflictError";
+    this.dialogueId = dialogueId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+const DIALOGUE_STORES = [CHARACTER_DIALOGUES_FILE, DIALOGUE_NODES_FILE];
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 50;
+// Failures that leave nothing committed, so the operation can simply run again
+const TRANSIENT_ERROR_NAMES = ["AbortError", "TransactionInactiveError", "UnknownError", "TimeoutError"];
+
+// Pending operations per dialogue; each waits for the one queued before it
+const operationQueues = new Map<string, Promise<unknown>>();
+
+let lastNodeOrder = 0;
+
+// Millisecond timestamps, bumped so nodes added within the same millisecond keep their order
+function nextNodeOrder(): number {
+  lastNodeOrder = Math.max(Date.now(), lastNodeOrder + 1);
+  return lastNodeOrder;
+}
+
+function toStoredNode(dialogueId: string, node: DialogueNode, order: number): StoredDialogueNode {
+  return { ...node, dialogueId, order };
+}
+
+function isTransientError(error: unknown): boolean {
+  return error instanceof DOMException && TRANSIENT_ERROR_NAMES.includes(error.name);
+}
 
 export class LocalCharacterDialogueOperations {
-  static async createDialogueTree(characterId: string): Promise<DialogueTree> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    
-    const filteredDialogues = dialogues.filter((d: any) => d.character_id !== characterId);
-    
-    const dialogueTree = new DialogueTree(
-      characterId,
-      characterId,
-      [],
-      "root",
-    );
-    
-    filteredDialogues.push(dialogueTree); 
-    await writeData(CHARACTER_DIALOGUES_FILE, filteredDialogues);
+  /**
+   * Start a new chat with a character. An existing tree with the same id is replaced.
+   */
+  static async createDialogueTree(
+    characterId: string,
+    title: string = "",
+    dialogueId: string = uuidv4(),
+  ): Promise<DialogueTree> {
+    const rootNode = new DialogueNode("root", "", "", "", "", "", undefined);
+    
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const previous = await this.readHeader(tx, dialogueId);
+      if (previous) {
+        await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", dialogueId);
+      }
+      
+      const now = new Date().toISOString();
+      // The version carries on so that snapshots of the replaced tree are rejected
+      const header: DialogueHeader = {
+        id: dialogueId,
+        character_id: characterId,
+        current_nodeId: "root",
+        title,
+        created_at: now,
+        last_active_at: now,
+        archived: false,
+        version: previous?.version ?? 0,
+      };
+      const storedRoot = toStoredNode(dialogueId, rootNode, nextNodeOrder());
+      await promisifyRequest(tx.objectStore(DIALOGUE_NODES_FILE).put(storedRoot));
+      const version = await this.saveHeader(tx, header);
+      return this.toDialogueTree({ ...header, version }, [storedRoot]);
+    });
+  }
+
+  /**
+   * A character's chats, most recently active first
+   */
+  static async getDialoguesByCharacter(characterId: string): Promise<DialogueSummary[]> {
+    const headers = await getRecordsByIndex<DialogueHeader>(CHARACTER_DIALOGUES_FILE, "character_id", characterId);
+    return headers
+      .map((header) => this.toSummary(header))
+      .sort((a, b) => b.last_active_at.localeCompare(a.last_active_at));
+  }
+
+  /**
+   * The chat to open when none is named: the most recently active one that is not archived
+   */
+  static async getActiveDialogueId(characterId: string): Promise<string | null> {
+    const dialogues = await this.getDialoguesByCharacter(characterId);
+    return dialogues.find((dialogue) => !dialogue.archived)?.id || null;
+  }
+
+  static async renameDialogue(dialogueId: string, title: string): Promise<DialogueSummary | null> {
+    return this.updateHeader(dialogueId, { title });
+  }
 
-    await this.addNodeToDialogueTree(characterId, "", "", "", "", "", undefined, "root");
-    return dialogueTree;
+  static async setDialogueArchived(dialogueId: string, archived: boolean): Promise<DialogueSummary | null> {
+    return this.updateHeader(dialogueId, { archived });
+  }
+
+  static async markDialogueActive(dialogueId: string): Promise<DialogueSummary | null> {
+    return this.updateHeader(dialogueId, { last_active_at: new Date().toISOString() });
+  }
+
+  /**
+   * Copy a chat with all of its branches into a new, unarchived chat
+   */
+  static async duplicateDialogue(dialogueId: string, title: string): Promise<DialogueSummary | null> {
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const state = await this.readState(tx, dialogueId);
+      if (!state) {
+        return null;
+      }
+      
+      const copyId = uuidv4();
+      const now = new Date().toISOString();
+      const nodeStore = tx.objectStore(DIALOGUE_NODES_FILE);
+      await Promise.all(state.nodes.map((node) =>
+        promisifyRequest(nodeStore.put({ ...node, dialogueId: copyId })),
+      ));
+      const header: DialogueHeader = {
+        ...state.header,
+        id: copyId,
+        title,
+        created_at: now,
+        last_active_at: now,
+        archived: false,
+        version: 0,
+      };
+      const version = await this.saveHeader(tx, header);
+      return this.toSummary({ ...header, version });
+    });
   }
   
   static async getDialogueTreeById(dialogueId: string): Promise<DialogueTree | null> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const dialogue = dialogues.find((d: any) => d.id === dialogueId);
-    
-    if (!dialogue) return null;
-    
-    return new DialogueTree(
-      dialogue.id,
-      dialogue.character_id,
-      dialogue.nodes?.map((node: any) => new DialogueNode(
-        node.nodeId,
-        node.parentNodeId,
-        node.userInput,
-        node.assistantResponse,
-        node.fullResponse,
-        node.thinkingContent,
-        node.parsedContent,
-      )) || [],
-      dialogue.current_nodeId,
-    );
+    return this.runOperation(dialogueId, "readonly", async (tx) => {
+      const state = await this.readState(tx, dialogueId);
+      return state ? this.toDialogueTree(state.header, state.nodes) : null;
+    });
   }
   
   static async addNodeToDialogueTree(
@@ -54,158 +200,195 @@ export class LocalCharacterDialogueOperations {
     thinkingContent?: string,
     parsedContent?: ParsedResponse,
     nodeId?: string,
+    worldBookState?: WorldBookTimedState,
+    trace?: TurnTrace,
+    respondedBy?: LLMResponder,
+    macroVariables?: Record<string, string>,
   ): Promise<string> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const index = dialogues.findIndex((d: any) => d.id === dialogueId);
-    
-    if (!nodeId) {
-      nodeId = uuidv4();
-    }
-    
     const newNode = new DialogueNode(
-      nodeId,
+      nodeId || uuidv4(),
       parentNodeId,
       userInput,
       assistantResponse,
       fullResponse,
       thinkingContent,
       parsedContent,
+      worldBookState,
+      trace,
+      respondedBy,
+      macroVariables,
     );
     
-    if (!dialogues[index].nodes) {
-      dialogues[index].nodes = [];
-    }
-    
-    dialogues[index].nodes.push(newNode);
-    dialogues[index].current_nodeId = nodeId;
-    
-    await writeData(CHARACTER_DIALOGUES_FILE, dialogues);
+    return this.insertNode(dialogueId, newNode, false);
+  }
+
+  /**
+   * Add a node under whichever node is current when the write runs, rather
+   * than the one that was current when the caller last looked
+   */
+  static async appendToCurrentBranch(dialogueId: string, node: NewDialogueNode): Promise<string> {
+    const newNode = new DialogueNode(
+      node.nodeId || uuidv4(),
+      "",
+      node.userInput,
+      node.assistantResponse,
+      node.fullResponse,
+      node.thinkingContent,
+      node.parsedContent,
+      node.worldBookState,
+      node.trace,
+      node.respondedBy,
+      node.macroVariables,
+    );
     
-    return nodeId;
+    return this.insertNode(dialogueId, newNode, true);
   }
 
+  /**
+   * Replace a whole tree. Throws DialogueConflictError when the stored tree
+   * has changed since `updatedDialogue` was read.
+   */
   static async updateDialogueTree(dialogueId: string, updatedDialogue: DialogueTree): Promise<boolean> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const index = dialogues.findIndex((d: any) => d.id === dialogueId);
-    
-    if (index === -1) {
-      return false;
-    }
-    
-    dialogues[index] = {
-      ...updatedDialogue,
-    };
-    
-    await writeData(CHARACTER_DIALOGUES_FILE, dialogues);
-    return true;
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const header = await this.readHeader(tx, dialogueId);
+      if (!header) {
+        return false;
+      }
+      this.checkVersion(header, updatedDialogue.version);
+      
+      const { nodes, version, ...fields } = updatedDialogue;
+      await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", dialogueId);
+      const nodeStore = tx.objectStore(DIALOGUE_NODES_FILE);
+      await Promise.all(nodes.map((node, index) =>
+        promisifyRequest(nodeStore.put(toStoredNode(dialogueId, node, index))),
+      ));
+      // The stored counter always moves forward, whatever version the caller's copy carries
+      await this.saveHeader(tx, { ...header, ...fields, id: dialogueId });
+      return true;
+    });
+  }
+
+  /**
+   * Write a tree received from elsewhere, such as a sync remote, over the
+   * local one, queued with the other writes to it. Throws
+   * DialogueConflictError when the local tree has changed since
+   * `expectedVersion` was read.
+   */
+  static async replaceDialogueTree(dialogue: DialogueBackup, expectedVersion?: number): Promise<void> {
+    return this.runOperation(dialogue.id, "readwrite", async (tx) => {
+      const header = await this.readHeader(tx, dialogue.id);
+      if (header) {
+        this.checkVersion(header, expectedVersion);
+      }
+      await restoreDialogueTree(tx, dialogue);
+    });
   }
 
+  /**
+   * Patch one node. With `expectedVersion`, the patch is refused with a
+   * DialogueConflictError if anything in the tree changed after that version.
+   */
   static async updateNodeInDialogueTree(
     dialogueId: string, 
     nodeId: string, 
     updates: Partial<DialogueNode>,
+    expectedVersion?: number,
   ): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
-    
-    if (!dialogueTree) {
-      return null;
-    }
-    
-    const nodeIndex = dialogueTree.nodes.findIndex(node => node.nodeId === nodeId);
-    
-    if (nodeIndex === -1) {
-      return null;
-    }
-    
-    dialogueTree.nodes[nodeIndex] = {
-      ...dialogueTree.nodes[nodeIndex],
-      ...updates,
-    };
-    
-    await this.updateDialogueTree(dialogueId, dialogueTree);
-    
-    return dialogueTree;
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const state = await this.readState(tx, dialogueId);
+      const nodeIndex = state ? state.nodes.findIndex(node => node.nodeId === nodeId) : -1;
+      if (!state || nodeIndex === -1) {
+        return null;
+      }
+      this.checkVersion(state.header, expectedVersion);
+      
+      const updatedNode = { ...state.nodes[nodeIndex], ...updates, dialogueId, nodeId };
+      state.nodes[nodeIndex] = updatedNode;
+      await promisifyRequest(tx.objectStore(DIALOGUE_NODES_FILE).put(updatedNode));
+      const version = await this.saveHeader(tx, state.header);
+      return this.toDialogueTree({ ...state.header, version }, state.nodes);
+    });
   }
   
   static async switchBranch(dialogueId: string, nodeId: string): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
-    
-    if (!dialogueTree) {
-      return null;
-    }
-    
-    const node = dialogueTree.nodes.find(n => n.nodeId === nodeId);
-    
-    if (!node) {
-      return null;
-    }
-    
-    dialogueTree.current_nodeId = nodeId;
-    
-    await this.updateDialogueTree(dialogueId, dialogueTree);
-    
-    return dialogueTree;
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const state = await this.readState(tx, dialogueId);
+      if (!state || !state.nodes.some(node => node.nodeId === nodeId)) {
+        return null;
+      }
+      
+      const header = { ...state.header, current_nodeId: nodeId };
+      const version = await this.saveHeader(tx, header);
+      return this.toDialogueTree({ ...header, version }, state.nodes);
+    });
   }
   
   static async clearDialogueHistory(dialogueId: string): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
-    
-    if (!dialogueTree) {
-      return null;
-    }
-    
-    dialogueTree.nodes = [];
-    dialogueTree.current_nodeId = "root";
-    
-    await this.updateDialogueTree(dialogueId, dialogueTree);
-    
-    return dialogueTree;
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const header = await this.readHeader(tx, dialogueId);
+      if (!header) {
+        return null;
+      }
+      
+      await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", dialogueId);
+      const cleared = { ...header, current_nodeId: "root" };
+      const version = await this.saveHeader(tx, cleared);
+      return this.toDialogueTree({ ...cleared, version }, []);
+    });
   }
 
   static async deleteDialogueTree(dialogueId: string): Promise<boolean> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const initialLength = dialogues.length;
-    
-    const filteredDialogues = dialogues.filter((d: any) => d.id !== dialogueId);
-    
-    if (filteredDialogues.length === initialLength) {
-      return false;
-    }
-    
-    await writeData(CHARACTER_DIALOGUES_FILE, filteredDialogues);
-    
-    return true;
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const header = await this.readHeader(tx, dialogueId);
+      if (!header) {
+        return false;
+      }
+      
+      await promisifyRequest(tx.objectStore(CHARACTER_DIALOGUES_FILE).delete(dialogueId));
+      await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", dialogueId);
+      return true;
+    });
+  }
+
+  static async deleteCharacterDialogues(characterId: string): Promise<void> {
+    const dialogues = await this.getDialoguesByCharacter(characterId);
+    await Promise.all(dialogues.map((dialogue) => this.deleteDialogueTree(dialogue.id)));
   }
 
   static async deleteNode(dialogueId: string, nodeId: string): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
-    
-    if (!dialogueTree || nodeId === "root") {
+    if (nodeId === "root") {
       return null;
     }
     
-    const nodeToDelete = dialogueTree.nodes.find(node => node.nodeId === nodeId);
-    if (!nodeToDelete) {
-      return null;
-    }
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const state = await this.readState(tx, dialogueId);
+      const nodeToDelete = state?.nodes.find(node => node.nodeId === nodeId);
+      if (!state || !nodeToDelete) {
+        return null;
+      }
 
-    const nodesToDelete = new Set<string>();
-    const collectNodesToDelete = (currentNodeId: string) => {
-      nodesToDelete.add(currentNodeId);
-      const children = dialogueTree.nodes.filter(node => node.parentNodeId === currentNodeId);
-      children.forEach(child => collectNodesToDelete(child.nodeId));
-    };
-    
-    collectNodesToDelete(nodeId);
-    dialogueTree.nodes = dialogueTree.nodes.filter(node => !nodesToDelete.has(node.nodeId));
-    if (nodesToDelete.has(dialogueTree.current_nodeId)) {
-      dialogueTree.current_nodeId = nodeToDelete.parentNodeId;
-      const newCurrentNode = dialogueTree.nodes.find(node => node.nodeId === dialogueTree.current_nodeId);
-    }
-    
-    await this.updateDialogueTree(dialogueId, dialogueTree);
-    
-    return dialogueTree;
+      const nodesToDelete = new Set<string>();
+      const collectNodesToDelete = (currentNodeId: string) => {
+        nodesToDelete.add(currentNodeId);
+        const children = state.nodes.filter(node => node.parentNodeId === currentNodeId);
+        children.forEach(child => collectNodesToDelete(child.nodeId));
+      };
+      
+      collectNodesToDelete(nodeId);
+      const header = nodesToDelete.has(state.header.current_nodeId)
+        ? { ...state.header, current_nodeId: nodeToDelete.parentNodeId }
+        : state.header;
+      
+      const nodeStore = tx.objectStore(DIALOGUE_NODES_FILE);
+      await Promise.all(Array.from(nodesToDelete).map((deletedId) =>
+        promisifyRequest(nodeStore.delete([dialogueId, deletedId])),
+      ));
+      const version = await this.saveHeader(tx, header);
+      return this.toDialogueTree(
+        { ...header, version },
+        state.nodes.filter(node => !nodesToDelete.has(node.nodeId)),
+      );
+    });
   }
 
   static async getDialoguePathToNode(dialogueId: string, nodeId: string): Promise<DialogueNode[]> {
@@ -241,8 +424,8 @@ export class LocalCharacterDialogueOperations {
     return dialogueTree.nodes.filter(node => node.parentNodeId === parentNodeId);
   }
 
-  static async getSystemMessage(characterId: string): Promise<string> {
-    const dialogueTree = await this.getDialogueTreeById(characterId);
+  static async getSystemMessage(dialogueId: string): Promise<string> {
+    const dialogueTree = await this.getDialogueTreeById(dialogueId);
     if (!dialogueTree || !dialogueTree.nodes || dialogueTree.nodes.length === 0) {
       return "";
     }
@@ -250,19 +433,162 @@ export class LocalCharacterDialogueOperations {
     return rootNode?.assistantResponse || "";
   }
   
-  static async getLastNodeId(characterId: string): Promise<string> {
-    const dialogueTree = await this.getDialogueTreeById(characterId);
+  static async getLastNodeId(dialogueId: string): Promise<string> {
+    const dialogueTree = await this.getDialogueTreeById(dialogueId);
     return dialogueTree?.current_nodeId || "root";
   }
 
-  static async nodeExists(characterId: string, nodeId: string): Promise<boolean> {
+  static async nodeExists(dialogueId: string, nodeId: string): Promise<boolean> {
     if (nodeId === "root") return true;
     
-    const dialogueTree = await this.getDialogueTreeById(characterId);
-    if (!dialogueTree || !dialogueTree.nodes || dialogueTree.nodes.length === 0) {
-      return false;
+    return this.runOperation(dialogueId, "readonly", async (tx) =>
+      !!await promisifyRequest(tx.objectStore(DIALOGUE_NODES_FILE).get([dialogueId, nodeId])),
+    );
+  }
+
+  private static insertNode(dialogueId: string, node: DialogueNode, underCurrentNode: boolean): Promise<string> {
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const header = await this.readHeader(tx, dialogueId);
+      if (!header) {
+        throw new Error(`Dialogue not found: ${dialogueId}`);
+      }
+      
+      const parentNodeId = underCurrentNode ? header.current_nodeId : node.parentNodeId;
+      const storedNode = toStoredNode(
+        dialogueId,
+        { ...node, parentNodeId, createdAt: node.createdAt ?? Date.now() },
+        nextNodeOrder(),
+      );
+      await promisifyRequest(tx.objectStore(DIALOGUE_NODES_FILE).put(storedNode));
+      await this.saveHeader(tx, {
+        ...header,
+        current_nodeId: node.nodeId,
+        last_active_at: new Date().toISOString(),
+      });
+      return node.nodeId;
+    });
+  }
+
+  /**
+   * Run one logical operation on a dialogue: after every operation queued
+   * before it in this tab, inside a single transaction (which IndexedDB also
+   * orders against other tabs), and run again if that transaction fails
+   * without committing
+   */
+  private static runOperation<T>(
+    dialogueId: string,
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => Promise<T>,
+  ): Promise<T> {
+    const previous = operationQueues.get(dialogueId) || Promise.resolve();
+    const operation = previous.catch(() => undefined).then(() => this.runWithRetry(mode, work));
+    operationQueues.set(dialogueId, operation);
+    
+    const release = () => {
+      if (operationQueues.get(dialogueId) === operation) {
+        operationQueues.delete(dialogueId);
+      }
+    };
+    operation.then(release, release);
+    return operation;
+  }
+
+  private static async runWithRetry<T>(
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await withTransaction(DIALOGUE_STORES, mode, work);
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS || !isTransientError(error)) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      }
     }
+  }
 
-    return dialogueTree.nodes.some(node => node.nodeId === nodeId);
+  private static updateHeader(
+    dialogueId: string,
+    changes: Partial<Omit<DialogueHeader, "id" | "character_id">>,
+  ): Promise<DialogueSummary | null> {
+    return this.runOperation(dialogueId, "readwrite", async (tx) => {
+      const header = await this.readHeader(tx, dialogueId);
+      if (!header) {
+        return null;
+      }
+      
+      const updated = { ...header, ...changes };
+      const version = await this.saveHeader(tx, updated);
+      return this.toSummary({ ...updated, version });
+    });
+  }
+
+  private static async readHeader(tx: IDBTransaction, dialogueId: string): Promise<DialogueHeader | null> {
+    const header = await promisifyRequest(tx.objectStore(CHARACTER_DIALOGUES_FILE).get(dialogueId));
+    return header || null;
+  }
+
+  private static async readState(tx: IDBTransaction, dialogueId: string): Promise<DialogueState | null> {
+    const header = await this.readHeader(tx, dialogueId);
+    if (!header) {
+      return null;
+    }
+    
+    const nodes: StoredDialogueNode[] = await promisifyRequest(
+      tx.objectStore(DIALOGUE_NODES_FILE).index("dialogueId").getAll(dialogueId),
+    );
+    return { header, nodes: nodes.sort((a, b) => a.order - b.order) };
+  }
+
+  /**
+   * Write the header with its version bumped; every change to a tree goes through here
+   */
+  private static async saveHeader(tx: IDBTransaction, header: DialogueHeader): Promise<number> {
+    const version = (header.version ?? 0) + 1;
+    await promisifyRequest(tx.objectStore(CHARACTER_DIALOGUES_FILE).put({ ...header, version }));
+    return version;
+  }
+
+  private static checkVersion(header: DialogueHeader, expectedVersion?: number): void {
+    const actualVersion = header.version ?? 0;
+    if (expectedVersion !== undefined && expectedVersion !== actualVersion) {
+      throw new DialogueConflictError(header.id, expectedVersion, actualVersion);
+    }
+  }
+
+  private static toSummary(header: DialogueHeader): DialogueSummary {
+    return {
+      id: header.id,
+      character_id: header.character_id,
+      title: header.title || "",
+      created_at: header.created_at || "",
+      last_active_at: header.last_active_at || header.created_at || "",
+      archived: !!header.archived,
+    };
+  }
+
+  private static toDialogueTree(header: DialogueHeader, nodes: StoredDialogueNode[]): DialogueTree {
+    return new DialogueTree(
+      header.id,
+      header.character_id,
+      nodes.map((node) => new DialogueNode(
+        node.nodeId,
+        node.parentNodeId,
+        node.userInput,
+        node.assistantResponse,
+        node.fullResponse,
+        node.thinkingContent,
+        node.parsedContent,
+        node.worldBookState,
+        node.trace,
+        node.respondedBy,
+        node.macroVariables,
+        node.createdAt,
+      )),
+      header.current_nodeId,
+      header.version ?? 0,
+    );
   }
 }
@@ -1,4 +1,11 @@
-import { readData, writeData, CHARACTERS_RECORD_FILE } from "@/lib/data/local-storage";
+import {
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+  updateRecord,
+  CHARACTERS_RECORD_FILE,
+} from "@/lib/data/local-storage";
 import { RawCharacterData } from "@/lib/models/rawdata-model";
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 
@@ -10,9 +17,14 @@ export interface CharacterRecord {
   updated_at: string;
 }
 
+/**
+ * A record as stored: `order` is its display position, ascending, and the
+ * list is rendered newest-first. Reads leave it out.
+ */
+type StoredCharacterRecord = CharacterRecord & { order?: number };
+
 export class LocalCharacterRecordOperations {
   static async createCharacter(characterId: string, rawCharacterData: RawCharacterData, imagePath: string): Promise<CharacterRecord> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
     const characterRecord: CharacterRecord = {
       id: characterId,
       data: rawCharacterData,
@@ -21,80 +33,56 @@ export class LocalCharacterRecordOperations {
       updated_at: new Date().toISOString(),
     };
     
-    characterRecords.push(characterRecord);
-    await writeData(CHARACTERS_RECORD_FILE, characterRecords);
+    await putRecord<StoredCharacterRecord>(CHARACTERS_RECORD_FILE, { ...characterRecord, order: Date.now() });
     
     return characterRecord;
   }
   
   static async getAllCharacters(): Promise<CharacterRecord[]> {
-    return await readData(CHARACTERS_RECORD_FILE);
+    return await getAllRecords<CharacterRecord>(CHARACTERS_RECORD_FILE);
   }
   
   static async getCharacterById(characterId: string): Promise<CharacterRecord> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-  
-    const characterRecord = characterRecords.find(
-      (record: CharacterRecord) => record.id === characterId,
-    );
-
-    return characterRecord;
+    return await getRecord<CharacterRecord>(CHARACTERS_RECORD_FILE, characterId) as CharacterRecord;
   }
   
   static async updateCharacter(characterId: string, characterData: Partial<RawCharacterData>): Promise<CharacterRecord | null> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-    const index = characterRecords.findIndex((characterRecord: CharacterRecord) => characterRecord.id === characterId);
-    
-    if (index === -1) {
-      return null;
-    }
-    
-    characterRecords[index].data = { ...characterRecords[index].data, ...characterData };
-    characterRecords[index].updated_at = new Date().toISOString();
-    
-    await writeData(CHARACTERS_RECORD_FILE, characterRecords);
-    
-    return characterRecords[index];
+    return updateRecord<CharacterRecord>(CHARACTERS_RECORD_FILE, characterId, (characterRecord) =>
+      characterRecord
+        ? {
+          ...characterRecord,
+          data: { ...characterRecord.data, ...characterData },
+          updated_at: new Date().toISOString(),
+        }
+        : undefined,
+    );
   }
   
   static async deleteCharacter(characterId: string): Promise<boolean> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-    const initialLength = characterRecords.length;
-    
-    const filteredCharacterRecords = characterRecords.filter((characterRecord: CharacterRecord) => characterRecord.id !== characterId);
+    const characterRecord = await getRecord<CharacterRecord>(CHARACTERS_RECORD_FILE, characterId);
     
-    if (filteredCharacterRecords.length === initialLength) {
+    if (!characterRecord) {
       return false;
     }
     
-    await writeData(CHARACTERS_RECORD_FILE, filteredCharacterRecords);
+    await deleteRecord(CHARACTERS_RECORD_FILE, characterId);
     
-    await LocalCharacterDialogueOperations.deleteDialogueTree(characterId);
+    await LocalCharacterDialogueOperations.deleteCharacterDialogues(characterId);
     
     return true;
   }
 
   /**
- * As we rendering the array as descending order, 
- * we need to move character to end of the array to bring the card to the top of the screen
+ * As we rendering the list in descending order, 
+ * we need to give the character the highest order to bring the card to the top of the screen
  * @param characterId 
  * @returns 
  */
   static async moveCharacterToTop(characterId: string): Promise<boolean> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-    const index = characterRecords.findIndex((characterRecord: CharacterRecord) => characterRecord.id === characterId);
-    
-    if (index === characterRecords.length - 1) {
-      return true;
-    } else if (index === -1) {
-      return false;
-    }
-
-    const characterRecord = characterRecords[index];
-    characterRecords.splice(index, 1);
-    characterRecords.push(characterRecord);
-    await writeData(CHARACTERS_RECORD_FILE, characterRecords);
+    const characterRecord = await updateRecord<StoredCharacterRecord>(CHARACTERS_RECORD_FILE, characterId, (current) =>
+      current ? { ...current, order: Date.now() } : undefined,
+    );
 
-    return true;
+    return !!characterRecord;
   }
 }
@@ -1,4 +1,15 @@
-import { readData, writeData, MEMORY_ENTRIES_FILE, MEMORY_EMBEDDINGS_FILE } from "@/lib/data/local-storage";
+import {
+  deleteByIndex,
+  getRecord,
+  getRecordsByIndex,
+  promisifyRequest,
+  putRecord,
+  updateRecord,
+  withTransaction,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+} from "@/lib/data/local-storage";
 import { 
   MemoryEntry, 
   MemoryType, 
@@ -8,6 +19,10 @@ import {
 } from "@/lib/models/memory-model";
 import { v4 as uuidv4 } from "uuid";
 
+/**
+ * A character's memories as they appear in backups. In the database the
+ * entries are separate records and the rest is a MemoryConfigRecord.
+ */
 export interface MemoryRecord {
   id: string;
   characterId: string;
@@ -17,6 +32,8 @@ export interface MemoryRecord {
   updated_at: string;
 }
 
+export type MemoryConfigRecord = Omit<MemoryRecord, "entries">;
+
 export interface EmbeddingRecord {
   id: string; // Same as memory entry ID
   characterId: string;
@@ -36,12 +53,12 @@ export class LocalMemoryOperations {
     metadata: any = {},
     tags: string[] = [],
     importance: number = 0.5,
+    dialogueId?: string,
   ): Promise<MemoryEntry> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    
     const memoryEntry: MemoryEntry = {
       id: uuidv4(),
       characterId,
+      dialogueId,
       type,
       content,
       metadata: {
@@ -57,56 +74,34 @@ export class LocalMemoryOperations {
       updated_at: new Date().toISOString(),
     };
 
-    // Find existing character record or create new one
-    let characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
-    );
-
-    if (!characterRecord) {
-      characterRecord = {
-        id: uuidv4(),
-        characterId,
-        entries: [memoryEntry],
-        config: this.getDefaultRAGConfig(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-      memoryRecords.push(characterRecord);
-    } else {
-      characterRecord.entries.push(memoryEntry);
-      characterRecord.updated_at = new Date().toISOString();
-    }
+    await withTransaction([MEMORY_ENTRIES_FILE, MEMORY_CONFIGS_FILE], "readwrite", async (tx) => {
+      const configs = tx.objectStore(MEMORY_CONFIGS_FILE);
+      const configRecord = await promisifyRequest(configs.get(characterId));
+      if (!configRecord) {
+        await promisifyRequest(configs.put(this.createConfigRecord(characterId, this.getDefaultRAGConfig())));
+      }
+      await promisifyRequest(tx.objectStore(MEMORY_ENTRIES_FILE).put(memoryEntry));
+    });
 
-    await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
     return memoryEntry;
   }
 
   /**
-   * Get all memory entries for a character
+   * Get all memory entries for a character. With a chat, only that chat's
+   * memories and the ones shared by all chats are returned.
    */
-  static async getMemoryEntriesByCharacter(characterId: string): Promise<MemoryEntry[]> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    const characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
-    );
-    
-    return characterRecord ? characterRecord.entries : [];
+  static async getMemoryEntriesByCharacter(characterId: string, dialogueId?: string): Promise<MemoryEntry[]> {
+    const entries = await getRecordsByIndex<MemoryEntry>(MEMORY_ENTRIES_FILE, "characterId", characterId);
+    return entries
+      .filter((entry) => !dialogueId || !entry.dialogueId || entry.dialogueId === dialogueId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
   }
 
   /**
    * Get a specific memory entry by ID
    */
   static async getMemoryEntryById(entryId: string): Promise<MemoryEntry | null> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    
-    for (const record of memoryRecords) {
-      const entry = record.entries.find((entry: MemoryEntry) => entry.id === entryId);
-      if (entry) {
-        return entry;
-      }
-    }
-    
-    return null;
+    return getRecord<MemoryEntry>(MEMORY_ENTRIES_FILE, entryId);
   }
 
   /**
@@ -116,68 +111,46 @@ export class LocalMemoryOperations {
     entryId: string, 
     updates: Partial<MemoryEntry>,
   ): Promise<MemoryEntry | null> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    
-    for (const record of memoryRecords) {
-      const entryIndex = record.entries.findIndex((entry: MemoryEntry) => entry.id === entryId);
-      if (entryIndex !== -1) {
-        record.entries[entryIndex] = {
-          ...record.entries[entryIndex],
-          ...updates,
-          updated_at: new Date().toISOString(),
-        };
-        record.updated_at = new Date().toISOString();
-        
-        await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-        return record.entries[entryIndex];
-      }
-    }
-    
-    return null;
+    return updateRecord<MemoryEntry>(MEMORY_ENTRIES_FILE, entryId, (entry) =>
+      entry
+        ? { ...entry, ...updates, id: entryId, updated_at: new Date().toISOString() }
+        : undefined,
+    );
   }
 
   /**
    * Delete a memory entry
    */
   static async deleteMemoryEntry(entryId: string): Promise<boolean> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    
-    for (const record of memoryRecords) {
-      const entryIndex = record.entries.findIndex((entry: MemoryEntry) => entry.id === entryId);
-      if (entryIndex !== -1) {
-        record.entries.splice(entryIndex, 1);
-        record.updated_at = new Date().toISOString();
-        
-        await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-        
-        // Also delete embedding if exists
-        await this.deleteEmbedding(entryId);
-        
-        return true;
+    // The entry and its embedding go together
+    return withTransaction([MEMORY_ENTRIES_FILE, MEMORY_EMBEDDINGS_FILE], "readwrite", async (tx) => {
+      const entries = tx.objectStore(MEMORY_ENTRIES_FILE);
+      const entry = await promisifyRequest(entries.get(entryId));
+      if (!entry) {
+        return false;
       }
-    }
-    
-    return false;
+      await promisifyRequest(entries.delete(entryId));
+      await promisifyRequest(tx.objectStore(MEMORY_EMBEDDINGS_FILE).delete(entryId));
+      return true;
+    });
   }
 
   /**
    * Increment access count for a memory entry
    */
   static async incrementAccessCount(entryId: string): Promise<void> {
-    const entry = await this.getMemoryEntryById(entryId);
-    if (entry) {
-      await this.updateMemoryEntry(entryId, {
-        accessCount: entry.accessCount + 1,
-        lastAccessed: new Date().toISOString(),
-      });
-    }
+    await updateRecord<MemoryEntry>(MEMORY_ENTRIES_FILE, entryId, (entry) =>
+      entry
+        ? { ...entry, accessCount: entry.accessCount + 1, lastAccessed: new Date().toISOString() }
+        : undefined,
+    );
   }
 
   /**
    * Search memories by text (basic search, not vector search)
    */
   static async searchMemoriesByText(query: MemorySearchQuery): Promise<MemoryEntry[]> {
-    const entries = await this.getMemoryEntriesByCharacter(query.characterId);
+    const entries = await this.getMemoryEntriesByCharacter(query.characterId, query.dialogueId);
     const lowerQuery = query.query.toLowerCase();
     
     let filteredEntries = entries.filter((entry: MemoryEntry) => {
@@ -219,8 +192,6 @@ export class LocalMemoryOperations {
     embedding: number[], 
     model: string,
   ): Promise<void> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    
     const embeddingRecord: EmbeddingRecord = {
       id: entryId,
       characterId,
@@ -229,58 +200,36 @@ export class LocalMemoryOperations {
       created_at: new Date().toISOString(),
     };
     
-    // Remove existing embedding if exists
-    const existingIndex = embeddingRecords.findIndex(
-      (record: EmbeddingRecord) => record.id === entryId,
-    );
-    
-    if (existingIndex !== -1) {
-      embeddingRecords[existingIndex] = embeddingRecord;
-    } else {
-      embeddingRecords.push(embeddingRecord);
-    }
-    
-    await writeData(MEMORY_EMBEDDINGS_FILE, embeddingRecords);
+    await putRecord(MEMORY_EMBEDDINGS_FILE, embeddingRecord);
   }
 
   /**
    * Get embedding for a memory entry
    */
   static async getEmbedding(entryId: string): Promise<EmbeddingRecord | null> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    const embedding = embeddingRecords.find(
-      (record: EmbeddingRecord) => record.id === entryId,
-    );
-    
-    return embedding || null;
+    return getRecord<EmbeddingRecord>(MEMORY_EMBEDDINGS_FILE, entryId);
   }
 
   /**
    * Get all embeddings for a character
    */
   static async getEmbeddingsByCharacter(characterId: string): Promise<EmbeddingRecord[]> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    return embeddingRecords.filter(
-      (record: EmbeddingRecord) => record.characterId === characterId,
-    );
+    return getRecordsByIndex<EmbeddingRecord>(MEMORY_EMBEDDINGS_FILE, "characterId", characterId);
   }
 
   /**
    * Delete embedding
    */
   static async deleteEmbedding(entryId: string): Promise<boolean> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    const index = embeddingRecords.findIndex(
-      (record: EmbeddingRecord) => record.id === entryId,
-    );
-    
-    if (index !== -1) {
-      embeddingRecords.splice(index, 1);
-      await writeData(MEMORY_EMBEDDINGS_FILE, embeddingRecords);
+    return withTransaction(MEMORY_EMBEDDINGS_FILE, "readwrite", async (tx) => {
+      const embeddings = tx.objectStore(MEMORY_EMBEDDINGS_FILE);
+      const embedding = await promisifyRequest(embeddings.get(entryId));
+      if (!embedding) {
+        return false;
+      }
+      await promisifyRequest(embeddings.delete(entryId));
       return true;
-    }
-    
-    return false;
+    });
   }
 
   /**
@@ -335,12 +284,8 @@ export class LocalMemoryOperations {
    * Get RAG configuration for a character
    */
   static async getRAGConfig(characterId: string): Promise<MemoryRAGConfig> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    const characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
-    );
-    
-    return characterRecord?.config || this.getDefaultRAGConfig();
+    const configRecord = await getRecord<MemoryConfigRecord>(MEMORY_CONFIGS_FILE, characterId);
+    return configRecord?.config || this.getDefaultRAGConfig();
   }
 
   /**
@@ -350,50 +295,62 @@ export class LocalMemoryOperations {
     characterId: string, 
     config: Partial<MemoryRAGConfig>,
   ): Promise<MemoryRAGConfig> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    let characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
+    const configRecord = await updateRecord<MemoryConfigRecord>(MEMORY_CONFIGS_FILE, characterId, (current) =>
+      current
+        ? { ...current, config: { ...current.config, ...config }, updated_at: new Date().toISOString() }
+        : this.createConfigRecord(characterId, { ...this.getDefaultRAGConfig(), ...config }),
     );
-
-    if (!characterRecord) {
-      characterRecord = {
-        id: uuidv4(),
-        characterId,
-        entries: [],
-        config: { ...this.getDefaultRAGConfig(), ...config },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-      memoryRecords.push(characterRecord);
-    } else {
-      characterRecord.config = { ...characterRecord.config, ...config };
-      characterRecord.updated_at = new Date().toISOString();
-    }
-
-    await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-    return characterRecord.config;
+    return (configRecord as MemoryConfigRecord).config;
   }
 
   /**
    * Clear all memories for a character
    */
   static async clearCharacterMemories(characterId: string): Promise<void> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    const characterRecordIndex = memoryRecords.findIndex(
-      (record: MemoryRecord) => record.characterId === characterId,
+    // Embeddings are cleared along with the entries
+    await withTransaction(
+      [MEMORY_ENTRIES_FILE, MEMORY_CONFIGS_FILE, MEMORY_EMBEDDINGS_FILE],
+      "readwrite",
+      async (tx) => {
+        await promisifyRequest(tx.objectStore(MEMORY_CONFIGS_FILE).delete(characterId));
+        await deleteByIndex(tx, MEMORY_ENTRIES_FILE, "characterId", characterId);
+        await deleteByIndex(tx, MEMORY_EMBEDDINGS_FILE, "characterId", characterId);
+      },
     );
+  }
 
-    if (characterRecordIndex !== -1) {
-      memoryRecords.splice(characterRecordIndex, 1);
-      await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-    }
+  /**
+   * Delete the memories formed in one chat, leaving shared memories in place
+   */
+  static async deleteDialogueMemories(characterId: string, dialogueId: string): Promise<void> {
+    await withTransaction([MEMORY_ENTRIES_FILE, MEMORY_EMBEDDINGS_FILE], "readwrite", async (tx) => {
+      const entries: MemoryEntry[] = await promisifyRequest(
+        tx.objectStore(MEMORY_ENTRIES_FILE).index("characterId").getAll(characterId),
+      );
+      for (const entry of entries.filter((entry) => entry.dialogueId === dialogueId)) {
+        await promisifyRequest(tx.objectStore(MEMORY_ENTRIES_FILE).delete(entry.id));
+        await promisifyRequest(tx.objectStore(MEMORY_EMBEDDINGS_FILE).delete(entry.id));
+      }
+    });
+  }
 
-    // Also clear embeddings
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    const filteredEmbeddings = embeddingRecords.filter(
-      (record: EmbeddingRecord) => record.characterId !== characterId,
-    );
-    await writeData(MEMORY_EMBEDDINGS_FILE, filteredEmbeddings);
+  /**
+   * Give a duplicated chat its own copy of the source chat's memories and their embeddings
+   */
+  static async copyDialogueMemories(characterId: string, fromDialogueId: string, toDialogueId: string): Promise<void> {
+    await withTransaction([MEMORY_ENTRIES_FILE, MEMORY_EMBEDDINGS_FILE], "readwrite", async (tx) => {
+      const entryStore = tx.objectStore(MEMORY_ENTRIES_FILE);
+      const embeddingStore = tx.objectStore(MEMORY_EMBEDDINGS_FILE);
+      const entries: MemoryEntry[] = await promisifyRequest(entryStore.index("characterId").getAll(characterId));
+      for (const entry of entries.filter((entry) => entry.dialogueId === fromDialogueId)) {
+        const copyId = uuidv4();
+        await promisifyRequest(entryStore.put({ ...entry, id: copyId, dialogueId: toDialogueId }));
+        const embedding: EmbeddingRecord | undefined = await promisifyRequest(embeddingStore.get(entry.id));
+        if (embedding) {
+          await promisifyRequest(embeddingStore.put({ ...embedding, id: copyId }));
+        }
+      }
+    });
   }
 
   /**
@@ -410,6 +367,19 @@ export class LocalMemoryOperations {
     };
   }
 
+  /**
+   * New per-character record holding the RAG configuration
+   */
+  private static createConfigRecord(characterId: string, config: MemoryRAGConfig): MemoryConfigRecord {
+    return {
+      id: uuidv4(),
+      characterId,
+      config,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+  }
+
   /**
    * Calculate memory density (memories per day)
    */
@@ -1,14 +1,16 @@
-import { readData, writeData, PRESET_FILE } from "@/lib/data/local-storage";
+import {
+  getKeyValueRecords,
+  getRecord,
+  promisifyRequest,
+  updateRecord,
+  withTransaction,
+  PRESET_FILE,
+} from "@/lib/data/local-storage";
 import { Preset, PresetPrompt } from "@/lib/models/preset-model";
 
 export class PresetOperations {
   static async getPresets(): Promise<Record<string, any>> {
-    const presetsArray = await readData(PRESET_FILE);
-    return presetsArray[0] || {};
-  }
-
-  private static async savePresets(presets: Record<string, any>): Promise<void> {
-    await writeData(PRESET_FILE, [presets]);
+    return getKeyValueRecords(PRESET_FILE);
   }
 
   static async getAllPresets(): Promise<Preset[]> {
@@ -27,8 +29,7 @@ export class PresetOperations {
 
   static async getPreset(presetId: string): Promise<Preset | null> {
     try {
-      const presets = await this.getPresets();
-      return presets[presetId] as Preset || null;
+      return await getRecord<Preset>(PRESET_FILE, presetId);
     } catch (error) {
       console.error("Error getting preset:", error);
       return null;
@@ -37,7 +38,6 @@ export class PresetOperations {
 
   static async createPreset(preset: Preset): Promise<string | null> {
     try {
-      const presets = await this.getPresets();
       const presetId = `preset_${Date.now()}`;
       
       const newPresetIsActive = preset.enabled !== false;
@@ -50,19 +50,27 @@ export class PresetOperations {
         updated_at: new Date().toISOString(),
       };
       
-      if (newPresetIsActive) {
-        for (const existingPresetId in presets) {
-          if (presets.hasOwnProperty(existingPresetId) && existingPresetId !== presetId) {
-            if (presets[existingPresetId].enabled !== false) {
-              presets[existingPresetId].enabled = false;
-              presets[existingPresetId].updated_at = new Date().toISOString();
+      // Only one preset is active at a time, so the others are switched off in the same transaction
+      await withTransaction(PRESET_FILE, "readwrite", async (tx) => {
+        const store = tx.objectStore(PRESET_FILE);
+        if (newPresetIsActive) {
+          const [keys, presets] = await Promise.all([
+            promisifyRequest(store.getAllKeys()),
+            promisifyRequest(store.getAll()),
+          ]);
+          await Promise.all(presets.map((existingPreset, index) => {
+            if (keys[index] === presetId || existingPreset.enabled === false) {
+              return undefined;
             }
-          }
+            return promisifyRequest(store.put({
+              ...existingPreset,
+              enabled: false,
+              updated_at: new Date().toISOString(),
+            }, keys[index]));
+          }));
         }
-      }
-      
-      presets[presetId] = newPreset;
-      await this.savePresets(presets);
+        await promisifyRequest(store.put(newPreset, presetId));
+      });
       
       return presetId;
     } catch (error) {
@@ -73,20 +81,13 @@ export class PresetOperations {
 
   static async updatePreset(presetId: string, updates: Partial<Preset>): Promise<boolean> {
     try {
-      const presets = await this.getPresets();
-      
-      if (!presets[presetId]) {
-        return false;
-      }
-      
-      presets[presetId] = {
-        ...presets[presetId],
-        ...updates,
-        updated_at: new Date().toISOString(),
-      };
+      const updatedPreset = await updateRecord<Preset>(PRESET_FILE, presetId, (preset) =>
+        preset
+          ? { ...preset, ...updates, updated_at: new Date().toISOString() }
+          : undefined,
+      );
       
-      await this.savePresets(presets);
-      return true;
+      return !!updatedPreset;
     } catch (error) {
       console.error("Error updating preset:", error);
       return false;
@@ -95,16 +96,16 @@ export class PresetOperations {
 
   static async deletePreset(presetId: string): Promise<boolean> {
     try {
-      const presets = await this.getPresets();
-      
-      if (!presets[presetId]) {
-        return false;
-      }
-      
-      delete presets[presetId];
-      await this.savePresets(presets);
-      
-      return true;
+      return await withTransaction(PRESET_FILE, "readwrite", async (tx) => {
+        const store = tx.objectStore(PRESET_FILE);
+        const preset = await promisifyRequest(store.get(presetId));
+        if (!preset) {
+          return false;
+        }
+        
+        await promisifyRequest(store.delete(presetId));
+        return true;
+      });
     } catch (error) {
       console.error("Error deleting preset:", error);
       return false;
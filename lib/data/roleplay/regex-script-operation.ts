@@ -1,5 +1,13 @@
-import { readData, writeData, REGEX_SCRIPTS_FILE } from "@/lib/data/local-storage";
-import { RegexScript } from "@/lib/models/regex-script-model";
+import {
+  getKeyValueRecords,
+  getRecord,
+  promisifyRequest,
+  putRecord,
+  updateRecord,
+  withTransaction,
+  REGEX_SCRIPTS_FILE,
+} from "@/lib/data/local-storage";
+import { RegexPlacement, RegexScript } from "@/lib/models/regex-script-model";
 
 export interface RegexScriptSettings {
   enabled: boolean;
@@ -10,35 +18,23 @@ export interface RegexScriptSettings {
 
 const DEFAULT_SETTINGS: RegexScriptSettings = {
   enabled: true,
-  applyToPrompt: false,
+  applyToPrompt: true,
   applyToResponse: true,
 };
 
 export class RegexScriptOperations {
   private static async getRegexScriptStore(): Promise<Record<string, any>> {
     try {
-      const scriptsArray = await readData(REGEX_SCRIPTS_FILE);
-      return scriptsArray[0] || {};
+      return await getKeyValueRecords(REGEX_SCRIPTS_FILE);
     } catch (error) {
       console.error("Error reading regex scripts:", error);
       return {};
     }
   }
 
-  private static async saveRegexScriptStore(store: Record<string, any>): Promise<boolean> {
-    try {
-      await writeData(REGEX_SCRIPTS_FILE, [store]);
-      return true;
-    } catch (error) {
-      console.error("Error saving regex scripts:", error);
-      return false;
-    }
-  }
-
   static async getRegexScripts(ownerId: string): Promise<Record<string, RegexScript> | null> {
     try {
-      const store = await this.getRegexScriptStore();
-      return store[ownerId] as Record<string, RegexScript> || null;
+      return await getRecord<Record<string, RegexScript>>(REGEX_SCRIPTS_FILE, ownerId);
     } catch (error) {
       console.error("Error getting regex scripts:", error);
       return null;
@@ -92,24 +88,26 @@ export class RegexScriptOperations {
   }
 
   private static async updateOwnerScripts(ownerId: string, scripts: Record<string, RegexScript>): Promise<boolean> {
-    const store = await this.getRegexScriptStore();
-    store[ownerId] = scripts;
-    return this.saveRegexScriptStore(store);
+    try {
+      await putRecord(REGEX_SCRIPTS_FILE, scripts, ownerId);
+      return true;
+    } catch (error) {
+      console.error("Error saving regex scripts:", error);
+      return false;
+    }
   }
 
   static async updateRegexScripts(
     ownerId: string,
     regexScripts: Record<string, RegexScript> | RegexScript[],
   ): Promise<boolean> {
-    const scriptStore = await this.getRegexScriptStore();
-    
     const processScript = (script: RegexScript): RegexScript => {
       return {
         ...script,
         disabled: script.disabled || false,
         scriptName: script.scriptName || "Unnamed Script",
         trimStrings: script.trimStrings || [],
-        placement: script.placement || [999],
+        placement: script.placement || [RegexPlacement.AI_OUTPUT],
       } as RegexScript;
     };
     
@@ -136,14 +134,22 @@ export class RegexScriptOperations {
         }).filter(([_, script]) => script !== null),
       );
     
-    scriptStore[ownerId] = scripts;
-    await this.saveRegexScriptStore(scriptStore);
-    return true;
+    return this.updateOwnerScripts(ownerId, scripts);
+  }
+
+  /**
+   * Remove an owner's scripts together with their settings
+   */
+  static async deleteOwnerScripts(ownerId: string): Promise<void> {
+    await withTransaction(REGEX_SCRIPTS_FILE, "readwrite", async (tx) => {
+      const store = tx.objectStore(REGEX_SCRIPTS_FILE);
+      await promisifyRequest(store.delete(ownerId));
+      await promisifyRequest(store.delete(`${ownerId}_settings`));
+    });
   }
 
   static async getRegexScriptSettings(ownerId: string): Promise<RegexScriptSettings> {
-    const store = await this.getRegexScriptStore();
-    const settings = store[`${ownerId}_settings`] as RegexScriptSettings;
+    const settings = await getRecord<RegexScriptSettings>(REGEX_SCRIPTS_FILE, `${ownerId}_settings`);
     
     if (!settings) {
       return { ...DEFAULT_SETTINGS };
@@ -159,14 +165,13 @@ export class RegexScriptOperations {
     ownerId: string,
     updates: Partial<RegexScriptSettings>,
   ): Promise<RegexScriptSettings> {
-    const store = await this.getRegexScriptStore();
-    const currentSettings = await this.getRegexScriptSettings(ownerId);
-    const newSettings = { ...currentSettings, ...updates };
-    
-    store[`${ownerId}_settings`] = newSettings;
-    await this.saveRegexScriptStore(store);
+    const newSettings = await updateRecord<RegexScriptSettings>(
+      REGEX_SCRIPTS_FILE,
+      `${ownerId}_settings`,
+      (currentSettings) => ({ ...DEFAULT_SETTINGS, ...currentSettings, ...updates }),
+    );
     
-    return newSettings;
+    return newSettings as RegexScriptSettings;
   }
 
   static async getAllScriptsForProcessing(
@@ -0,0 +1,150 @@
+import { getKeyValueRecords, promisifyRequest, withTransaction, SAMPLER_PROFILES_FILE } from "@/lib/data/local-storage";
+import {
+  DEFAULT_SAMPLER_SETTINGS,
+  pickSamplerSettings,
+  SamplerProfile,
+  SamplerSettings,
+} from "@/lib/models/sampler-profile-model";
+
+interface SamplerProfileStore {
+  profiles: Record<string, SamplerProfile>;
+  // characterId -> profileId, overriding the profile of the active API config
+  characterProfiles: Record<string, string>;
+}
+
+export class SamplerProfileOperations {
+  private static async getStore(): Promise<SamplerProfileStore> {
+    try {
+      const store = await getKeyValueRecords(SAMPLER_PROFILES_FILE);
+      return {
+        profiles: store.profiles || {},
+        characterProfiles: store.characterProfiles || {},
+      };
+    } catch (error) {
+      console.error("Error reading sampler profiles:", error);
+      return { profiles: {}, characterProfiles: {} };
+    }
+  }
+
+  /**
+   * Read, change and write back the store in one transaction, so concurrent
+   * edits cannot overwrite each other. Return false from `update` to leave
+   * the store untouched.
+   */
+  private static async updateStore(update: (store: SamplerProfileStore) => boolean): Promise<boolean> {
+    try {
+      return await withTransaction(SAMPLER_PROFILES_FILE, "readwrite", async (tx) => {
+        const records = tx.objectStore(SAMPLER_PROFILES_FILE);
+        const [profiles, characterProfiles] = await Promise.all([
+          promisifyRequest(records.get("profiles")),
+          promisifyRequest(records.get("characterProfiles")),
+        ]);
+        const store: SamplerProfileStore = { profiles: profiles || {}, characterProfiles: characterProfiles || {} };
+        if (!update(store)) {
+          return false;
+        }
+
+        await promisifyRequest(records.put(store.profiles, "profiles"));
+        await promisifyRequest(records.put(store.characterProfiles, "characterProfiles"));
+        return true;
+      });
+    } catch (error) {
+      console.error("Error saving sampler profiles:", error);
+      return false;
+    }
+  }
+
+  static async getAllProfiles(): Promise<SamplerProfile[]> {
+    const store = await this.getStore();
+    return Object.values(store.profiles);
+  }
+
+  static async getProfile(profileId: string): Promise<SamplerProfile | null> {
+    const store = await this.getStore();
+    return store.profiles[profileId] || null;
+  }
+
+  static async createProfile(profile: Omit<SamplerProfile, "id">): Promise<string | null> {
+    const profileId = `sampler_${Date.now()}`;
+    const now = new Date().toISOString();
+
+    const success = await this.updateStore((store) => {
+      store.profiles[profileId] = {
+        ...pickSamplerSettings(profile),
+        id: profileId,
+        name: profile.name,
+        created_at: now,
+        updated_at: now,
+      };
+      return true;
+    });
+    return success ? profileId : null;
+  }
+
+  static async updateProfile(profileId: string, updates: Partial<SamplerProfile>): Promise<boolean> {
+    return this.updateStore((store) => {
+      const existing = store.profiles[profileId];
+      if (!existing) {
+        return false;
+      }
+
+      // Settings are replaced as a whole so that clearing a field in the editor removes it
+      store.profiles[profileId] = {
+        ...pickSamplerSettings(updates),
+        id: profileId,
+        name: updates.name ?? existing.name,
+        created_at: existing.created_at,
+        updated_at: new Date().toISOString(),
+      };
+      return true;
+    });
+  }
+
+  static async deleteProfile(profileId: string): Promise<boolean> {
+    return this.updateStore((store) => {
+      if (!store.profiles[profileId]) {
+        return false;
+      }
+
+      delete store.profiles[profileId];
+      for (const [characterId, assignedId] of Object.entries(store.characterProfiles)) {
+        if (assignedId === profileId) {
+          delete store.characterProfiles[characterId];
+        }
+      }
+      return true;
+    });
+  }
+
+  static async getCharacterProfileId(characterId: string): Promise<string | null> {
+    const store = await this.getStore();
+    return store.characterProfiles[characterId] || null;
+  }
+
+  /**
+   * Override the sampler profile for one character. Passing null removes the
+   * override so the character follows the active API config again.
+   */
+  static async setCharacterProfile(characterId: string, profileId: string | null): Promise<boolean> {
+    return this.updateStore((store) => {
+      if (profileId) {
+        store.characterProfiles[characterId] = profileId;
+      } else {
+        delete store.characterProfiles[characterId];
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Resolve the sampler settings for a chat turn: the character's override
+   * wins over the API config's profile. Fields the profile leaves unset take
+   * DEFAULT_SAMPLER_SETTINGS, then the provider default.
+   */
+  static async resolveSettings(characterId: string, apiConfigProfileId?: string): Promise<SamplerSettings> {
+    const store = await this.getStore();
+    const profileId = store.characterProfiles[characterId] || apiConfigProfileId;
+    const profile = profileId ? store.profiles[profileId] : undefined;
+    return { ...DEFAULT_SAMPLER_SETTINGS, ...pickSamplerSettings(profile) };
+  }
+}
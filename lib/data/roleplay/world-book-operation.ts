@@ -1,10 +1,22 @@
-import { readData, writeData, WORLD_BOOK_FILE } from "@/lib/data/local-storage";
+import {
+  getKeyValueRecords,
+  getRecord,
+  promisifyRequest,
+  putRecord,
+  updateRecord,
+  withTransaction,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
 import { WorldBookEntry } from "@/lib/models/world-book-model";
 
 export interface WorldBookSettings {
   enabled: boolean;
   maxEntries: number;
   contextWindow: number;
+  /** Token cap for injected entry content; 0 means no cap. */
+  tokenBudget: number;
+  /** Levels of recursive scanning over activated entries; 0 disables recursion. */
+  recursionDepth: number;
   metadata?: any;
 }
 
@@ -12,22 +24,21 @@ const DEFAULT_SETTINGS: WorldBookSettings = {
   enabled: true,
   maxEntries: 5,
   contextWindow: 5,
+  tokenBudget: 0,
+  recursionDepth: 3,
 };
 
 export class WorldBookOperations {
+  /**
+   * Every world book and settings record, keyed by character id and `${characterId}_settings`
+   */
   static async getWorldBooks(): Promise<Record<string, any>> {
-    const worldBooksArray = await readData(WORLD_BOOK_FILE);
-    return worldBooksArray[0] || {};
-  }
-
-  private static async saveWorldBooks(worldBooks: Record<string, any>): Promise<void> {
-    await writeData(WORLD_BOOK_FILE, [worldBooks]);
+    return getKeyValueRecords(WORLD_BOOK_FILE);
   }
 
   static async getWorldBook(characterId: string): Promise<Record<string, WorldBookEntry> | null> {
     try {
-      const worldBooks = await this.getWorldBooks();
-      return worldBooks[characterId] as Record<string, WorldBookEntry> || null;
+      return await getRecord<Record<string, WorldBookEntry>>(WORLD_BOOK_FILE, characterId);
     } catch (error) {
       console.error("Error getting world book:", error);
       return null;
@@ -38,12 +49,10 @@ export class WorldBookOperations {
     characterId: string, 
     worldBook: Record<string, WorldBookEntry> | WorldBookEntry[],
   ): Promise<boolean> {
-    const worldBooks = await this.getWorldBooks();
-    
     const processEntry = (entry: WorldBookEntry): WorldBookEntry => {
       return {
         ...entry,
-        depth: entry.extensions?.depth ?? 1,
+        depth: entry.extensions?.depth ?? entry.depth ?? 1,
         position: entry.extensions?.position ?? 4,
       } as WorldBookEntry;
     };
@@ -63,11 +72,21 @@ export class WorldBookOperations {
         }),
       );
     
-    worldBooks[characterId] = entries;
-    await this.saveWorldBooks(worldBooks);
+    await putRecord(WORLD_BOOK_FILE, entries, characterId);
     return true;
   }
   
+  /**
+   * Remove a character's world book together with its settings
+   */
+  static async deleteWorldBook(characterId: string): Promise<void> {
+    await withTransaction(WORLD_BOOK_FILE, "readwrite", async (tx) => {
+      const store = tx.objectStore(WORLD_BOOK_FILE);
+      await promisifyRequest(store.delete(characterId));
+      await promisifyRequest(store.delete(`${characterId}_settings`));
+    });
+  }
+  
   static async addWorldBookEntry(
     characterId: string, 
     entry: WorldBookEntry,
@@ -112,8 +131,7 @@ export class WorldBookOperations {
   }
   
   static async getWorldBookSettings(characterId: string): Promise<WorldBookSettings> {
-    const worldBooks = await this.getWorldBooks();
-    const settings = worldBooks[`${characterId}_settings`] as unknown as WorldBookSettings;
+    const settings = await getRecord<WorldBookSettings>(WORLD_BOOK_FILE, `${characterId}_settings`);
     
     if (!settings) {
       return { ...DEFAULT_SETTINGS };
@@ -129,13 +147,12 @@ export class WorldBookOperations {
     characterId: string,
     updates: Partial<WorldBookSettings>,
   ): Promise<WorldBookSettings> {
-    const worldBooks = await this.getWorldBooks();
-    const currentSettings = await this.getWorldBookSettings(characterId);
-    const newSettings = { ...currentSettings, ...updates };
-    
-    worldBooks[`${characterId}_settings`] = newSettings;
-    await this.saveWorldBooks(worldBooks);
+    const newSettings = await updateRecord<WorldBookSettings>(
+      WORLD_BOOK_FILE,
+      `${characterId}_settings`,
+      (currentSettings) => ({ ...DEFAULT_SETTINGS, ...currentSettings, ...updates }),
+    );
     
-    return newSettings;
+    return newSettings as WorldBookSettings;
   }
 }
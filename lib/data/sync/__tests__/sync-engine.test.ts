@@ -0,0 +1,181 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { SyncEngine } from "@/lib/data/sync/sync-engine";
+import { LocalCharacterDialogueOperations as Dialogues } from "@/lib/data/roleplay/character-dialogue-operation";
+import { getRecord, PRESET_FILE, putRecord } from "@/lib/data/local-storage";
+import { RemoteFile, SyncBackend } from "@/lib/models/sync-model";
+
+/**
+ * Drive folder kept in memory. Other devices are simulated by editing its
+ * files directly, which moves their revision like a real upload would.
+ */
+class FakeDrive implements SyncBackend {
+  private files = new Map<string, { data: Uint8Array; revision: number }>();
+  private nextRevision = 1;
+  /** Runs while a file is downloaded, to write locally in the middle of a sync */
+  beforeRead?: () => Promise<void>;
+
+  constructor(readonly id: string) {}
+
+  async list(): Promise<RemoteFile[]> {
+    return Array.from(this.files.entries()).map(([name, file]) => ({ name, revision: String(file.revision) }));
+  }
+
+  async read(name: string): Promise<Uint8Array> {
+    await this.beforeRead?.();
+    const file = this.files.get(name);
+    if (!file) {
+      throw new Error(`No such file: ${name}`);
+    }
+    return file.data;
+  }
+
+  async write(name: string, data: Uint8Array): Promise<RemoteFile> {
+    const revision = this.nextRevision++;
+    this.files.set(name, { data, revision });
+    return { name, revision: String(revision) };
+  }
+
+  async remove(name: string): Promise<void> {
+    this.files.delete(name);
+  }
+
+  has(key: string): boolean {
+    return this.files.has(this.nameOf(key));
+  }
+
+  readJson(key: string): any {
+    return JSON.parse(new TextDecoder().decode(this.files.get(this.nameOf(key))!.data));
+  }
+
+  editJson(key: string, edit: (value: any) => any): void {
+    this.write(this.nameOf(key), new TextEncoder().encode(JSON.stringify(edit(this.readJson(key)))));
+  }
+
+  removeEntity(key: string): void {
+    this.files.delete(this.nameOf(key));
+  }
+
+  private nameOf(key: string): string {
+    return `${encodeURIComponent(key)}.json`;
+  }
+}
+
+function node(nodeId: string, parentNodeId: string) {
+  return {
+    nodeId,
+    parentNodeId,
+    userInput: `user ${nodeId}`,
+    assistantResponse: `assistant ${nodeId}`,
+    fullResponse: `assistant ${nodeId}`,
+  };
+}
+
+describe("SyncEngine", () => {
+  it("uploads only entities that changed since the last sync", async () => {
+    const drive = new FakeDrive("incremental");
+    const engine = new SyncEngine(drive);
+    const tree = await Dialogues.createDialogueTree("char-a", "First chat");
+    await putRecord(PRESET_FILE, { name: "Preset", prompts: [] }, "preset-a");
+
+    const first = await engine.sync();
+    expect(first.pushed).toBeGreaterThanOrEqual(2);
+    expect(drive.has(`dialogue:${tree.id}`)).toBe(true);
+    expect(drive.readJson("preset:preset-a").name).toBe("Preset");
+
+    expect(await engine.sync()).toMatchObject({ pulled: 0, pushed: 0, deletedLocal: 0, deletedRemote: 0 });
+
+    await Dialogues.addNodeToDialogueTree(tree.id, "root", "hi", "hello", "hello", undefined, undefined, "n1");
+    const third = await engine.sync();
+    expect(third.pushed).toBe(1);
+    expect(drive.readJson(`dialogue:${tree.id}`).nodes.map((item: any) => item.nodeId)).toContain("n1");
+  });
+
+  it("pulls remote edits and deletions", async () => {
+    const drive = new FakeDrive("pull");
+    const engine = new SyncEngine(drive);
+    await putRecord(PRESET_FILE, { name: "Before", prompts: [] }, "preset-b");
+    await putRecord(PRESET_FILE, { name: "Doomed", prompts: [] }, "preset-c");
+    await engine.sync();
+
+    drive.editJson("preset:preset-b", (preset) => ({ ...preset, name: "After" }));
+    drive.removeEntity("preset:preset-c");
+    const report = await engine.sync();
+
+    expect(report).toMatchObject({ pulled: 1, deletedLocal: 1, pushed: 0 });
+    expect((await getRecord(PRESET_FILE, "preset-b")).name).toBe("After");
+    expect(await getRecord(PRESET_FILE, "preset-c")).toBeNull();
+  });
+
+  it("merges a dialogue tree edited on two devices by node id", async () => {
+    const drive = new FakeDrive("conflict");
+    const engine = new SyncEngine(drive);
+    const tree = await Dialogues.createDialogueTree("char-b", "Shared chat");
+    await Dialogues.addNodeToDialogueTree(tree.id, "root", "hi", "hello", "hello", undefined, undefined, "n1");
+    await engine.sync();
+
+    // The other device continues from n1 while this one branches off it
+    drive.editJson(`dialogue:${tree.id}`, (remote) => ({
+      ...remote,
+      current_nodeId: "remote-1",
+      last_active_at: "2999-01-01T00:00:00.000Z",
+      nodes: [...remote.nodes, node("remote-1", "n1")],
+    }));
+    await Dialogues.addNodeToDialogueTree(tree.id, "n1", "local", "local reply", "local reply", undefined, undefined, "local-1");
+
+    const report = await engine.sync();
+    expect(report.conflicts).toEqual([
+      { key: `dialogue:${tree.id}`, kind: "dialogue", resolution: "merged", conflictingItems: [] },
+    ]);
+
+    const merged = await Dialogues.getDialogueTreeById(tree.id);
+    expect(merged?.nodes.map((item) => item.nodeId).sort()).toEqual(["local-1", "n1", "remote-1", "root"]);
+    // The other device used the chat last, so its current node wins
+    expect(merged?.current_nodeId).toBe("remote-1");
+    expect(drive.readJson(`dialogue:${tree.id}`).nodes).toHaveLength(4);
+
+    expect(await engine.sync()).toMatchObject({ pulled: 0, pushed: 0, conflicts: [] });
+  });
+
+  it("merges instead of overwriting a tree written to while the sync runs", async () => {
+    const drive = new FakeDrive("in-flight");
+    const engine = new SyncEngine(drive);
+    const tree = await Dialogues.createDialogueTree("char-d", "Busy chat");
+    await Dialogues.addNodeToDialogueTree(tree.id, "root", "hi", "hello", "hello", undefined, undefined, "n1");
+    await engine.sync();
+
+    drive.editJson(`dialogue:${tree.id}`, (remote) => ({
+      ...remote,
+      nodes: [...remote.nodes, node("remote-1", "n1")],
+    }));
+    drive.beforeRead = async () => {
+      drive.beforeRead = undefined;
+      await Dialogues.addNodeToDialogueTree(tree.id, "n1", "local", "local reply", "local reply", undefined, undefined, "local-1");
+    };
+
+    const report = await engine.sync();
+    expect(report.conflicts).toMatchObject([{ key: `dialogue:${tree.id}`, resolution: "merged" }]);
+    const merged = await Dialogues.getDialogueTreeById(tree.id);
+    expect(merged?.nodes.map((item) => item.nodeId).sort()).toEqual(["local-1", "n1", "remote-1", "root"]);
+    expect(drive.readJson(`dialogue:${tree.id}`).nodes).toHaveLength(4);
+  });
+
+  it("keeps the local copy of a node edited on both devices", async () => {
+    const drive = new FakeDrive("node-conflict");
+    const engine = new SyncEngine(drive);
+    const tree = await Dialogues.createDialogueTree("char-c", "Edited chat");
+    await Dialogues.addNodeToDialogueTree(tree.id, "root", "hi", "hello", "hello", undefined, undefined, "n1");
+    await engine.sync();
+
+    drive.editJson(`dialogue:${tree.id}`, (remote) => ({
+      ...remote,
+      nodes: remote.nodes.map((item: any) => item.nodeId === "n1" ? { ...item, assistantResponse: "remote edit" } : item),
+    }));
+    await Dialogues.updateNodeInDialogueTree(tree.id, "n1", { assistantResponse: "local edit" });
+
+    const report = await engine.sync();
+    expect(report.conflicts[0]).toMatchObject({ resolution: "merged", conflictingItems: ["n1"] });
+    const merged = await Dialogues.getDialogueTreeById(tree.id);
+    expect(merged?.nodes.find((item) => item.nodeId === "n1")?.assistantResponse).toBe("local edit");
+  });
+});
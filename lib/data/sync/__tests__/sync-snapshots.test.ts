@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { listSnapshots, pruneSnapshots, snapshotFileName } from "@/lib/data/sync/sync-snapshots";
+import { RemoteFile, SyncBackend } from "@/lib/models/sync-model";
+
+class FakeFolder implements SyncBackend {
+  readonly id = "folder";
+
+  constructor(public names: string[]) {}
+
+  async list(): Promise<RemoteFile[]> {
+    return this.names.map((name) => ({ name, revision: name }));
+  }
+
+  async read(): Promise<Uint8Array> {
+    return new Uint8Array();
+  }
+
+  async write(name: string): Promise<RemoteFile> {
+    this.names.push(name);
+    return { name, revision: name };
+  }
+
+  async remove(name: string): Promise<void> {
+    this.names = this.names.filter((item) => item !== name);
+  }
+}
+
+const day = (date: string) => snapshotFileName(new Date(`${date}T00:00:00.000Z`));
+
+describe("snapshot rotation", () => {
+  it("rotates only scheduled .zip snapshots and leaves manual .json backups alone", async () => {
+    const manual = ["narratium-backup-2024-01-01_1704067200000.json", "narratium-backup-2024-02-01_1706745600000.json"];
+    const folder = new FakeFolder([...manual, day("2025-01-01"), day("2025-01-03"), day("2025-01-02"), "notes.txt"]);
+
+    expect(await pruneSnapshots(folder, 2)).toEqual([day("2025-01-01")]);
+    expect(folder.names).toEqual([...manual, day("2025-01-03"), day("2025-01-02"), "notes.txt"]);
+
+    // Manual backups can still be restored from the list
+    expect((await listSnapshots(folder)).map((file) => file.name)).toEqual([day("2025-01-03"), day("2025-01-02"), ...manual.reverse()]);
+  });
+
+  it("always keeps the newest snapshot", async () => {
+    const folder = new FakeFolder([day("2025-01-01"), day("2025-01-02")]);
+
+    expect(await pruneSnapshots(folder, 0)).toEqual([day("2025-01-01")]);
+  });
+});
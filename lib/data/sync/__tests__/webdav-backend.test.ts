@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebDavBackend } from "@/lib/data/sync/webdav-backend";
+
+/**
+ * A Depth 1 PROPFIND answer in the shape Nextcloud sends: the folder itself,
+ * a child folder, and files with and without an ETag
+ */
+const MULTISTATUS = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <d:response>
+    <d:href>/remote.php/dav/files/ann/Narratium/sync/</d:href>
+    <d:propstat>
+      <d:prop><d:resourcetype><d:collection/></d:resourcetype><d:getetag>"folder"</d:getetag></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>/remote.php/dav/files/ann/Narratium/sync/manifest.json</d:href>
+    <d:propstat>
+      <d:prop><d:resourcetype/><d:getetag>"5f1c"</d:getetag><d:getlastmodified>Mon, 06 Jan 2025 10:00:00 GMT</d:getlastmodified></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>/remote.php/dav/files/ann/Narratium/sync/character%20Ann%20%26%20Bob.json</d:href>
+    <d:propstat>
+      <d:prop><d:resourcetype/><d:getlastmodified>Tue, 07 Jan 2025 11:30:00 GMT</d:getlastmodified></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>/remote.php/dav/files/ann/Narratium/sync/old/</d:href>
+    <d:propstat>
+      <d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+</d:multistatus>`;
+
+const requests: { method: string; url: string; headers: Record<string, string> }[] = [];
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const method = init.method || "GET";
+    requests.push({ method, url, headers: init.headers as Record<string, string> });
+    if (method === "MKCOL") {
+      return new Response(null, { status: 405 });
+    }
+    return new Response(MULTISTATUS, { status: 207, headers: { "Content-Type": "application/xml" } });
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("WebDavBackend", () => {
+  it("lists the files of a PROPFIND response, skipping collections", async () => {
+    const backend = new WebDavBackend(
+      { url: "https://cloud.example.com/remote.php/dav/files/ann/Narratium/", username: "ann", password: "secret" },
+      "sync",
+    );
+
+    expect(await backend.list()).toEqual([
+      { name: "manifest.json", revision: "\"5f1c\"" },
+      // Without an ETag the modification date stands in as the revision
+      { name: "character Ann & Bob.json", revision: "Tue, 07 Jan 2025 11:30:00 GMT" },
+    ]);
+
+    const folderUrl = "https://cloud.example.com/remote.php/dav/files/ann/Narratium/sync/";
+    expect(requests.map(({ method, url }) => [method, url])).toEqual([["MKCOL", folderUrl], ["PROPFIND", folderUrl]]);
+    expect(requests[1].headers).toMatchObject({ Depth: "1", Authorization: `Basic ${btoa("ann:secret")}` });
+  });
+});
@@ -0,0 +1,163 @@
+import { RemoteFile, S3Settings, SyncBackend } from "@/lib/models/sync-model";
+
+const EMPTY_PAYLOAD_HASH = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", new Uint8Array(bytes)));
+}
+
+async function hmac(key: Uint8Array | ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey("raw", new Uint8Array(key), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return crypto.subtle.sign("HMAC", cryptoKey, new TextEncoder().encode(data));
+}
+
+/**
+ * RFC 3986 encoding as SigV4 expects it, stricter than encodeURIComponent
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => "%" + char.charCodeAt(0).toString(16).toUpperCase());
+}
+
+export interface S3SigningParams {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  payloadHash: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  date: Date;
+}
+
+/**
+ * Headers that authenticate a request with AWS Signature Version 4, signing
+ * the host, every given header and the payload hash
+ */
+export async function signS3Request(params: S3SigningParams): Promise<Record<string, string>> {
+  const url = new URL(params.url);
+  const amzDate = params.date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${params.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...params.headers,
+    "x-amz-content-sha256": params.payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const canonicalHeaders: Record<string, string> = { host: url.host };
+  for (const [name, value] of Object.entries(headers)) {
+    canonicalHeaders[name.toLowerCase()] = value.trim().replace(/\s+/g, " ");
+  }
+  const signedHeaders = Object.keys(canonicalHeaders).sort();
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const canonicalRequest = [
+    params.method,
+    url.pathname,
+    canonicalQuery,
+    signedHeaders.map((name) => `${name}:${canonicalHeaders[name]}\n`).join(""),
+    signedHeaders.join(";"),
+    params.payloadHash,
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, await sha256Hex(canonicalRequest)].join("\n");
+  let signingKey = await hmac(new TextEncoder().encode(`AWS4${params.secretAccessKey}`), day);
+  for (const part of [params.region, "s3", "aws4_request"]) {
+    signingKey = await hmac(signingKey, part);
+  }
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Backend over an S3-compatible bucket such as MinIO, addressed path-style
+ * so custom endpoints work without wildcard DNS. Each area is a key prefix
+ * under the configured one. The bucket has to allow this app's origin
+ * through CORS and expose the ETag header.
+ */
+export class S3Backend implements SyncBackend {
+  readonly id: string;
+  private readonly bucketUrl: string;
+  private readonly keyPrefix: string;
+
+  constructor(private readonly settings: S3Settings, folder: string) {
+    const prefix = settings.prefix.replace(/^\/+/, "");
+    this.bucketUrl = `${settings.endpoint.replace(/\/+$/, "")}/${uriEncode(settings.bucket)}`;
+    this.keyPrefix = `${prefix && !prefix.endsWith("/") ? prefix + "/" : prefix}${folder}/`;
+    this.id = `s3:${this.bucketUrl}/${this.keyPrefix}`;
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    const files: RemoteFile[] = [];
+    let continuationToken = "";
+    do {
+      const url = new URL(this.bucketUrl);
+      url.searchParams.set("list-type", "2");
+      url.searchParams.set("prefix", this.keyPrefix);
+      if (continuationToken) {
+        url.searchParams.set("continuation-token", continuationToken);
+      }
+      const response = await this.request("GET", url.toString());
+      const document = new DOMParser().parseFromString(await response.text(), "application/xml");
+      for (const item of Array.from(document.getElementsByTagName("Contents"))) {
+        const key = item.getElementsByTagName("Key")[0]?.textContent || "";
+        const name = key.slice(this.keyPrefix.length);
+        // Keys in nested "folders" are not part of this area
+        if (name && !name.includes("/")) {
+          files.push({ name, revision: item.getElementsByTagName("ETag")[0]?.textContent || "" });
+        }
+      }
+      const truncated = document.getElementsByTagName("IsTruncated")[0]?.textContent === "true";
+      continuationToken = truncated ? document.getElementsByTagName("NextContinuationToken")[0]?.textContent || "" : "";
+    } while (continuationToken);
+    return files;
+  }
+
+  async read(name: string): Promise<Uint8Array> {
+    const response = await this.request("GET", this.objectUrl(name));
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async write(name: string, data: Uint8Array): Promise<RemoteFile> {
+    const response = await this.request("PUT", this.objectUrl(name), data);
+    return { name, revision: response.headers.get("ETag") || await sha256Hex(data) };
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.request("DELETE", this.objectUrl(name));
+  }
+
+  private objectUrl(name: string): string {
+    return `${this.bucketUrl}/${(this.keyPrefix + name).split("/").map(uriEncode).join("/")}`;
+  }
+
+  private async request(method: string, url: string, body?: Uint8Array): Promise<Response> {
+    const headers = await signS3Request({
+      method,
+      url,
+      headers: {},
+      payloadHash: body ? await sha256Hex(body) : EMPTY_PAYLOAD_HASH,
+      accessKeyId: this.settings.accessKeyId,
+      secretAccessKey: this.settings.secretAccessKey,
+      region: this.settings.region || "us-east-1",
+      date: new Date(),
+    });
+    const response = await fetch(url, { method, headers, body: body ? new Blob([body]) : undefined });
+    if (!response.ok) {
+      throw new Error(`S3 ${method} failed with status ${response.status}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,213 @@
+import { SyncOperations } from "@/lib/data/sync/sync-operation";
+import { DialogueConflictError } from "@/lib/data/roleplay/character-dialogue-operation";
+import { ENTITY_MERGERS, hashContent, hashValue } from "@/lib/data/sync/sync-merge";
+import {
+  RemoteFile,
+  SYNC_ENTITY_KINDS,
+  SyncEntity,
+  SyncEntityKind,
+  SyncEntityState,
+  SyncReport,
+  SyncBackend,
+} from "@/lib/models/sync-model";
+
+const JSON_EXTENSION = ".json";
+
+interface RemoteEntityFile extends RemoteFile {
+  key: string;
+  kind: SyncEntityKind;
+  id: string;
+}
+
+interface SyncRun {
+  target: string;
+  report: SyncReport;
+  // New state per entity key, null once an entity is gone on both sides
+  stateChanges: Map<string, SyncEntityState | null>;
+}
+
+/**
+ * Remote file name of an entity key. Keys are URI-encoded so any id makes a
+ * flat, portable name.
+ */
+function fileName(kind: SyncEntityKind, key: string): string {
+  return encodeURIComponent(key) + (kind === "image" ? "" : JSON_EXTENSION);
+}
+
+/**
+ * The entity a remote file holds, or null for files the engine did not write
+ */
+function parseFileName(name: string): { key: string; kind: SyncEntityKind; id: string } | null {
+  let key: string;
+  try {
+    key = decodeURIComponent(name.endsWith(JSON_EXTENSION) ? name.slice(0, -JSON_EXTENSION.length) : name);
+  } catch {
+    return null;
+  }
+  const separator = key.indexOf(":");
+  const kind = key.slice(0, separator) as SyncEntityKind;
+  if (separator < 0 || !SYNC_ENTITY_KINDS.includes(kind) || fileName(kind, key) !== name) {
+    return null;
+  }
+  return { key, kind, id: key.slice(separator + 1) };
+}
+
+function encodeContent(kind: SyncEntityKind, content: any): Uint8Array {
+  return kind === "image" ? content : new TextEncoder().encode(JSON.stringify(content));
+}
+
+function decodeContent(kind: SyncEntityKind, data: Uint8Array): any {
+  return kind === "image" ? data : JSON.parse(new TextDecoder().decode(data));
+}
+
+function hashOf(kind: SyncEntityKind, content: any): string {
+  return kind === "image" ? hashContent(content) : hashValue(content);
+}
+
+/**
+ * Two-way sync of every entity with a remote folder, one file per entity.
+ *
+ * Each device remembers, per entity, the content hash and remote revision it
+ * last agreed on. An entity whose hash moved changed here; one whose revision
+ * moved changed elsewhere. Changes on one side are copied to the other,
+ * including deletions. Changes on both sides are merged where the kind allows
+ * it, otherwise the local copy wins; both are listed in the report.
+ */
+export class SyncEngine {
+  constructor(private readonly backend: SyncBackend) {}
+
+  async sync(): Promise<SyncReport> {
+    const target = this.backend.id;
+    const [remoteFiles, localEntities, states] = await Promise.all([
+      this.backend.list(),
+      SyncOperations.collectEntities(),
+      SyncOperations.getStates(target),
+    ]);
+
+    const remote = new Map<string, RemoteEntityFile>();
+    for (const file of remoteFiles) {
+      const parsed = parseFileName(file.name);
+      if (parsed) {
+        remote.set(parsed.key, { ...file, ...parsed });
+      }
+    }
+
+    const run: SyncRun = {
+      target,
+      report: { pulled: 0, pushed: 0, deletedLocal: 0, deletedRemote: 0, conflicts: [] },
+      stateChanges: new Map(),
+    };
+    for (const key of new Set([...localEntities.keys(), ...remote.keys(), ...states.keys()])) {
+      try {
+        await this.syncEntity(run, key, localEntities.get(key), remote.get(key), states.get(key));
+      } catch (error) {
+        // A failed entity keeps its old state, so the next sync retries it
+        console.error(`Failed to sync ${key}:`, error);
+      }
+    }
+
+    await SyncOperations.saveStates(target, run.stateChanges);
+    return run.report;
+  }
+
+  private async syncEntity(
+    run: SyncRun,
+    key: string,
+    local: SyncEntity | undefined,
+    remoteFile: RemoteEntityFile | undefined,
+    state: SyncEntityState | undefined,
+  ): Promise<void> {
+    const localChanged = local ? local.hash !== state?.hash : !!state;
+    const remoteChanged = remoteFile ? remoteFile.revision !== state?.revision : !!state;
+
+    if (!remoteChanged) {
+      if (local && localChanged) {
+        await this.push(run, local.kind, key, local.content);
+      } else if (!local && remoteFile) {
+        await this.backend.remove(remoteFile.name);
+        run.stateChanges.set(key, null);
+        run.report.deletedRemote++;
+      }
+      return;
+    }
+
+    if (!remoteFile) {
+      // Deleted elsewhere; local edits since the last sync bring it back
+      if (local && localChanged) {
+        await this.push(run, local.kind, key, local.content);
+        return;
+      }
+      if (local) {
+        await SyncOperations.deleteEntity(local.kind, local.id);
+        run.report.deletedLocal++;
+      }
+      run.stateChanges.set(key, null);
+      return;
+    }
+
+    const remoteContent = decodeContent(remoteFile.kind, await this.backend.read(remoteFile.name));
+    if (local && localChanged) {
+      await this.resolveConflict(run, local, remoteContent, remoteFile.revision, state);
+    } else {
+      try {
+        await SyncOperations.applyEntity(remoteFile.kind, remoteFile.id, remoteContent, local?.version);
+      } catch (error) {
+        // Written here while this sync ran: merge with the tree as it is now
+        const current = error instanceof DialogueConflictError ? await SyncOperations.collectDialogue(remoteFile.id) : undefined;
+        if (!current) {
+          throw error;
+        }
+        await this.resolveConflict(run, current, remoteContent, remoteFile.revision, state);
+        return;
+      }
+      this.record(run, remoteFile.kind, key, remoteContent, remoteFile.revision);
+      run.report.pulled++;
+    }
+  }
+
+  /**
+   * Both sides changed since the last sync
+   */
+  private async resolveConflict(
+    run: SyncRun,
+    local: SyncEntity,
+    remoteContent: any,
+    remoteRevision: string,
+    state: SyncEntityState | undefined,
+  ): Promise<void> {
+    if (hashOf(local.kind, remoteContent) === local.hash) {
+      // The same change made on both sides
+      this.record(run, local.kind, local.key, local.content, remoteRevision);
+      return;
+    }
+
+    const merger = ENTITY_MERGERS[local.kind];
+    if (!merger) {
+      await this.push(run, local.kind, local.key, local.content);
+      run.report.conflicts.push({ key: local.key, kind: local.kind, resolution: "keptLocal", conflictingItems: [] });
+      return;
+    }
+
+    const { content, conflictingItems } = merger.merge(local.content, remoteContent, state?.itemHashes || {});
+    // Another write in between fails the entity; the next sync merges again
+    await SyncOperations.applyEntity(local.kind, local.id, content, local.version);
+    await this.push(run, local.kind, local.key, content);
+    run.report.conflicts.push({ key: local.key, kind: local.kind, resolution: "merged", conflictingItems });
+  }
+
+  private async push(run: SyncRun, kind: SyncEntityKind, key: string, content: any): Promise<void> {
+    const written = await this.backend.write(fileName(kind, key), encodeContent(kind, content));
+    this.record(run, kind, key, content, written.revision);
+    run.report.pushed++;
+  }
+
+  private record(run: SyncRun, kind: SyncEntityKind, key: string, content: any, revision: string): void {
+    run.stateChanges.set(key, {
+      target: run.target,
+      key,
+      hash: hashOf(kind, content),
+      revision,
+      itemHashes: ENTITY_MERGERS[kind]?.itemHashes(content),
+    });
+  }
+}
@@ -0,0 +1,186 @@
+import { SyncEntityKind } from "@/lib/models/sync-model";
+
+/**
+ * JSON with object keys sorted, so equal values serialize equally whatever
+ * order their keys were written in
+ */
+function stableStringify(value: any): string {
+  if (value && typeof value.toJSON === "function") {
+    return stableStringify(value.toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const fields = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * 53-bit cyrb53 hash of a string or bytes. Only used to notice changes, so
+ * it does not need to be cryptographic.
+ */
+export function hashContent(input: string | Uint8Array): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const code = typeof input === "string" ? input.charCodeAt(i) : input[i];
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function hashValue(value: any): string {
+  return hashContent(stableStringify(value));
+}
+
+interface ItemMerge<T> {
+  items: T[];
+  conflictingItems: string[];
+}
+
+/**
+ * Three-way merge of two lists of items against the hashes both sides last
+ * agreed on. An item changed on one side takes that side's copy, an item
+ * deleted on one side and untouched on the other is dropped, and an item
+ * changed differently on both sides keeps the local copy and is reported.
+ * Local order is kept, with items only the remote has appended.
+ */
+function mergeItems<T>(
+  base: Record<string, string>,
+  local: T[],
+  remote: T[],
+  idOf: (item: T) => string,
+): ItemMerge<T> {
+  const remoteById = new Map(remote.map((item) => [idOf(item), item]));
+  const localIds = new Set(local.map(idOf));
+  const items: T[] = [];
+  const conflictingItems: string[] = [];
+
+  for (const localItem of local) {
+    const id = idOf(localItem);
+    const remoteItem = remoteById.get(id);
+    const localHash = hashValue(localItem);
+    if (!remoteItem) {
+      // Deleted remotely is only honoured if the local copy is unchanged
+      if (base[id] === undefined || base[id] !== localHash) {
+        items.push(localItem);
+      }
+      continue;
+    }
+    const remoteHash = hashValue(remoteItem);
+    if (localHash === remoteHash || remoteHash === base[id]) {
+      items.push(localItem);
+    } else if (localHash === base[id]) {
+      items.push(remoteItem);
+    } else {
+      items.push(localItem);
+      conflictingItems.push(id);
+    }
+  }
+
+  for (const remoteItem of remote) {
+    const id = idOf(remoteItem);
+    if (!localIds.has(id) && (base[id] === undefined || base[id] !== hashValue(remoteItem))) {
+      items.push(remoteItem);
+    }
+  }
+  return { items, conflictingItems };
+}
+
+function itemHashes<T>(items: T[], idOf: (item: T) => string): Record<string, string> {
+  return Object.fromEntries(items.map((item) => [idOf(item), hashValue(item)]));
+}
+
+const nodeId = (node: any): string => node.nodeId;
+
+/**
+ * Merge two copies of a dialogue tree by node id. Nodes deleted on one side
+ * come back when the other side kept replies below them, so every branch
+ * still reaches the root. Title, archive flag and current node come from the
+ * copy used most recently.
+ */
+function mergeDialogueTrees(local: any, remote: any, base: Record<string, string>): { tree: any; conflictingItems: string[] } {
+  const { items, conflictingItems } = mergeItems(base, local.nodes || [], remote.nodes || [], nodeId);
+  const available = new Map<string, any>([...(remote.nodes || []), ...(local.nodes || [])].map((node) => [node.nodeId, node]));
+  const kept = new Map<string, any>(items.map((node) => [node.nodeId, node]));
+
+  for (const node of items) {
+    let parentId = node.parentNodeId;
+    while (parentId && !kept.has(parentId) && available.has(parentId)) {
+      const parent = available.get(parentId);
+      kept.set(parentId, parent);
+      parentId = parent.parentNodeId;
+    }
+  }
+  const reachesRoot = (node: any): boolean => {
+    const visited = new Set<string>();
+    let current = node;
+    while (current?.parentNodeId) {
+      if (visited.has(current.nodeId)) {
+        return false;
+      }
+      visited.add(current.nodeId);
+      current = kept.get(current.parentNodeId);
+    }
+    return !!current;
+  };
+  const merged = new Set(items);
+  const restored = Array.from(kept.values()).filter((node) => !merged.has(node));
+  const nodes = [...items, ...restored].filter(reachesRoot);
+
+  const [newer, older] = (remote.last_active_at || "") > (local.last_active_at || "")
+    ? [remote, local]
+    : [local, remote];
+  const nodeIds = new Set(nodes.map(nodeId));
+  const current_nodeId = [newer.current_nodeId, older.current_nodeId].find((id) => nodeIds.has(id)) || "root";
+
+  return {
+    tree: { ...older, ...newer, created_at: older.created_at || newer.created_at, current_nodeId, nodes },
+    conflictingItems,
+  };
+}
+
+const memoryEntryId = (entry: any): string => `entry:${entry.id}`;
+const memoryEmbeddingId = (embedding: any): string => `embedding:${embedding.id}`;
+
+interface EntityMerger {
+  itemHashes(content: any): Record<string, string>;
+  merge(local: any, remote: any, base: Record<string, string>): { content: any; conflictingItems: string[] };
+}
+
+/**
+ * Kinds that are merged item by item when both sides changed. Other kinds
+ * have no finer grain than the whole entity.
+ */
+export const ENTITY_MERGERS: Partial<Record<SyncEntityKind, EntityMerger>> = {
+  dialogue: {
+    itemHashes: (tree) => itemHashes(tree.nodes || [], nodeId),
+    merge: (local, remote, base) => {
+      const { tree, conflictingItems } = mergeDialogueTrees(local, remote, base);
+      return { content: tree, conflictingItems };
+    },
+  },
+  memory: {
+    itemHashes: (memory) => ({
+      ...itemHashes(memory.entries || [], memoryEntryId),
+      ...itemHashes(memory.embeddings || [], memoryEmbeddingId),
+    }),
+    merge: (local, remote, base) => {
+      const entries = mergeItems(base, local.entries || [], remote.entries || [], memoryEntryId);
+      const embeddings = mergeItems(base, local.embeddings || [], remote.embeddings || [], memoryEmbeddingId);
+      return {
+        content: { config: local.config || remote.config, entries: entries.items, embeddings: embeddings.items },
+        conflictingItems: [...entries.conflictingItems, ...embeddings.conflictingItems],
+      };
+    },
+  },
+};
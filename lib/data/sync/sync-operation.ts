@@ -0,0 +1,284 @@
+import {
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  CHARACTERS_RECORD_FILE,
+  DIALOGUE_NODES_FILE,
+  deleteByIndex,
+  getAllRecords,
+  getBlob,
+  getKeyValueRecords,
+  getRecordsByIndex,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PRESET_FILE,
+  promisifyRequest,
+  readData,
+  REGEX_SCRIPTS_FILE,
+  SAMPLER_PROFILES_FILE,
+  SYNC_STATE_FILE,
+  withTransaction,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
+import { imageType, restoreOwnedRecords } from "@/lib/data/backup/backup-operation";
+import { groupOwnedRecords, OwnedRecords, settingsKey } from "@/lib/data/backup/backup-migrations";
+import { hashContent, hashValue } from "@/lib/data/sync/sync-merge";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { SyncEntity, SyncEntityKind, SyncEntityState } from "@/lib/models/sync-model";
+
+const MEMORY_STORES = [MEMORY_CONFIGS_FILE, MEMORY_ENTRIES_FILE, MEMORY_EMBEDDINGS_FILE];
+const SAMPLER_PROFILES_ID = "all";
+
+function entity(kind: SyncEntityKind, id: string, content: any): SyncEntity {
+  return {
+    key: `${kind}:${id}`,
+    kind,
+    id,
+    content,
+    hash: content instanceof Uint8Array ? hashContent(content) : hashValue(content),
+  };
+}
+
+/**
+ * A dialogue's write counter stays out of the content but rides along, so a
+ * pulled copy is only written over the tree as it was read
+ */
+function dialogueEntity({ version, ...dialogue }: any): SyncEntity {
+  return { ...entity("dialogue", dialogue.id, dialogue), version: version ?? 0 };
+}
+
+function ownedContent(owned: OwnedRecords | undefined, itemsField: "entries" | "scripts") {
+  return owned ? { [itemsField]: owned.value || {}, settings: owned.settings } : null;
+}
+
+async function deleteOwnedRecords(tx: IDBTransaction, storeName: string, ownerId: string): Promise<void> {
+  await promisifyRequest(tx.objectStore(storeName).delete(ownerId));
+  await promisifyRequest(tx.objectStore(storeName).delete(settingsKey(ownerId)));
+}
+
+/**
+ * Local side of sync: reads everything synced as separate entities and writes
+ * entities pulled from a remote. Fields that only make sense on one device,
+ * like a character's place in the list or a tree's write counter, are left
+ * out of the synced content and kept as they are locally.
+ */
+export class SyncOperations {
+  static async collectEntities(): Promise<Map<string, SyncEntity>> {
+    const [characterRecords, dialogues, memoryConfigs, memoryEntries, embeddings, worldBookRecords, regexRecords, presets, samplerProfiles] =
+      await Promise.all([
+        getAllRecords(CHARACTERS_RECORD_FILE),
+        readData(CHARACTER_DIALOGUES_FILE),
+        getAllRecords(MEMORY_CONFIGS_FILE),
+        getAllRecords(MEMORY_ENTRIES_FILE),
+        getAllRecords(MEMORY_EMBEDDINGS_FILE),
+        getKeyValueRecords(WORLD_BOOK_FILE),
+        getKeyValueRecords(REGEX_SCRIPTS_FILE),
+        getKeyValueRecords(PRESET_FILE),
+        getKeyValueRecords(SAMPLER_PROFILES_FILE),
+      ]);
+    const worldBooks = groupOwnedRecords(worldBookRecords);
+    const regexSets = groupOwnedRecords(regexRecords);
+    const characterIds = new Set(characterRecords.map((record) => record.id));
+    const entities: SyncEntity[] = [];
+
+    for (const record of characterRecords) {
+      entities.push(entity("character", record.id, {
+        record,
+        worldBook: ownedContent(worldBooks.get(record.id), "entries"),
+        regexSet: ownedContent(regexSets.get(record.id), "scripts"),
+      }));
+
+      const image = record.imagePath ? await getBlob(record.imagePath) : null;
+      if (image) {
+        entities.push(entity("image", record.imagePath, new Uint8Array(await image.arrayBuffer())));
+      }
+    }
+    for (const dialogue of dialogues) {
+      entities.push(dialogueEntity(dialogue));
+    }
+
+    const memoryOwners = new Set([...memoryConfigs, ...memoryEntries, ...embeddings].map((record) => record.characterId));
+    for (const characterId of memoryOwners) {
+      entities.push(entity("memory", characterId, {
+        config: memoryConfigs.find((config) => config.characterId === characterId) || null,
+        entries: memoryEntries.filter((entry) => entry.characterId === characterId),
+        embeddings: embeddings.filter((embedding) => embedding.characterId === characterId),
+      }));
+    }
+
+    for (const [id, preset] of Object.entries(presets)) {
+      entities.push(entity("preset", id, preset));
+    }
+    for (const [ownerId, owned] of worldBooks) {
+      if (!characterIds.has(ownerId)) {
+        entities.push(entity("worldBook", ownerId, ownedContent(owned, "entries")));
+      }
+    }
+    for (const [ownerId, owned] of regexSets) {
+      if (!characterIds.has(ownerId)) {
+        entities.push(entity("regexSet", ownerId, ownedContent(owned, "scripts")));
+      }
+    }
+    if (Object.keys(samplerProfiles).length > 0) {
+      entities.push(entity("samplerProfiles", SAMPLER_PROFILES_ID, {
+        profiles: samplerProfiles.profiles || {},
+        characterProfiles: samplerProfiles.characterProfiles || {},
+      }));
+    }
+
+    return new Map(entities.map((item) => [item.key, item]));
+  }
+
+  /**
+   * One dialogue as collectEntities reads it, to retry against a tree that
+   * changed while a sync was running
+   */
+  static async collectDialogue(id: string): Promise<SyncEntity | undefined> {
+    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
+    const dialogue = dialogues.find((item) => item.id === id);
+    return dialogue ? dialogueEntity(dialogue) : undefined;
+  }
+
+  /**
+   * Write an entity's content over the local copy, in one transaction.
+   * Dialogues go through the dialogue write queue and are refused with a
+   * DialogueConflictError unless the local tree is still at
+   * `expectedVersion`, 0 meaning it did not exist.
+   */
+  static async applyEntity(kind: SyncEntityKind, id: string, content: any, expectedVersion = 0): Promise<void> {
+    switch (kind) {
+    case "character":
+      await withTransaction([CHARACTERS_RECORD_FILE, WORLD_BOOK_FILE, REGEX_SCRIPTS_FILE], "readwrite", async (tx) => {
+        const local = await promisifyRequest(tx.objectStore(CHARACTERS_RECORD_FILE).get(id));
+        await promisifyRequest(tx.objectStore(CHARACTERS_RECORD_FILE).put({
+          ...content.record,
+          order: local?.order ?? Date.now(),
+        }));
+        for (const [storeName, owned, itemsField] of [
+          [WORLD_BOOK_FILE, content.worldBook, "entries"],
+          [REGEX_SCRIPTS_FILE, content.regexSet, "scripts"],
+        ] as const) {
+          if (owned) {
+            await restoreOwnedRecords(tx, storeName, id, owned[itemsField], owned.settings, "replace");
+          } else {
+            await deleteOwnedRecords(tx, storeName, id);
+          }
+        }
+      });
+      break;
+    case "dialogue":
+      await LocalCharacterDialogueOperations.replaceDialogueTree(content, expectedVersion);
+      break;
+    case "memory":
+      await withTransaction(MEMORY_STORES, "readwrite", async (tx) => {
+        await this.deleteMemory(tx, id);
+        if (content.config) {
+          await promisifyRequest(tx.objectStore(MEMORY_CONFIGS_FILE).put({ ...content.config, characterId: id }));
+        }
+        await Promise.all([
+          ...content.entries.map((entry: any) => promisifyRequest(tx.objectStore(MEMORY_ENTRIES_FILE).put(entry))),
+          ...content.embeddings.map((embedding: any) =>
+            promisifyRequest(tx.objectStore(MEMORY_EMBEDDINGS_FILE).put(embedding)),
+          ),
+        ]);
+      });
+      break;
+    case "preset":
+      await withTransaction(PRESET_FILE, "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(PRESET_FILE).put(content, id));
+      });
+      break;
+    case "worldBook":
+      await withTransaction(WORLD_BOOK_FILE, "readwrite", (tx) =>
+        restoreOwnedRecords(tx, WORLD_BOOK_FILE, id, content.entries, content.settings, "replace"),
+      );
+      break;
+    case "regexSet":
+      await withTransaction(REGEX_SCRIPTS_FILE, "readwrite", (tx) =>
+        restoreOwnedRecords(tx, REGEX_SCRIPTS_FILE, id, content.scripts, content.settings, "replace"),
+      );
+      break;
+    case "samplerProfiles":
+      await withTransaction(SAMPLER_PROFILES_FILE, "readwrite", async (tx) => {
+        const store = tx.objectStore(SAMPLER_PROFILES_FILE);
+        await promisifyRequest(store.put(content.profiles, "profiles"));
+        await promisifyRequest(store.put(content.characterProfiles, "characterProfiles"));
+      });
+      break;
+    case "image":
+      await withTransaction(CHARACTER_IMAGES_FILE, "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(CHARACTER_IMAGES_FILE).put(new Blob([content], { type: imageType(content) }), id));
+      });
+      break;
+    }
+  }
+
+  static async deleteEntity(kind: SyncEntityKind, id: string): Promise<void> {
+    switch (kind) {
+    case "character":
+      await withTransaction([CHARACTERS_RECORD_FILE, WORLD_BOOK_FILE, REGEX_SCRIPTS_FILE], "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(CHARACTERS_RECORD_FILE).delete(id));
+        await deleteOwnedRecords(tx, WORLD_BOOK_FILE, id);
+        await deleteOwnedRecords(tx, REGEX_SCRIPTS_FILE, id);
+      });
+      break;
+    case "dialogue":
+      await withTransaction([CHARACTER_DIALOGUES_FILE, DIALOGUE_NODES_FILE], "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(CHARACTER_DIALOGUES_FILE).delete(id));
+        await deleteByIndex(tx, DIALOGUE_NODES_FILE, "dialogueId", id);
+      });
+      break;
+    case "memory":
+      await withTransaction(MEMORY_STORES, "readwrite", (tx) => this.deleteMemory(tx, id));
+      break;
+    case "preset":
+      await withTransaction(PRESET_FILE, "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(PRESET_FILE).delete(id));
+      });
+      break;
+    case "worldBook":
+      await withTransaction(WORLD_BOOK_FILE, "readwrite", (tx) => deleteOwnedRecords(tx, WORLD_BOOK_FILE, id));
+      break;
+    case "regexSet":
+      await withTransaction(REGEX_SCRIPTS_FILE, "readwrite", (tx) => deleteOwnedRecords(tx, REGEX_SCRIPTS_FILE, id));
+      break;
+    case "samplerProfiles":
+      await withTransaction(SAMPLER_PROFILES_FILE, "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(SAMPLER_PROFILES_FILE).clear());
+      });
+      break;
+    case "image":
+      await withTransaction(CHARACTER_IMAGES_FILE, "readwrite", async (tx) => {
+        await promisifyRequest(tx.objectStore(CHARACTER_IMAGES_FILE).delete(id));
+      });
+      break;
+    }
+  }
+
+  static async getStates(target: string): Promise<Map<string, SyncEntityState>> {
+    const states = await getRecordsByIndex<SyncEntityState>(SYNC_STATE_FILE, "target", target);
+    return new Map(states.map((state) => [state.key, state]));
+  }
+
+  /**
+   * Record what was last agreed on with a remote; null clears an entity's state
+   */
+  static async saveStates(target: string, changes: Map<string, SyncEntityState | null>): Promise<void> {
+    await withTransaction(SYNC_STATE_FILE, "readwrite", async (tx) => {
+      const store = tx.objectStore(SYNC_STATE_FILE);
+      await Promise.all(Array.from(changes.entries()).map(async ([key, state]) => {
+        if (state) {
+          await promisifyRequest(store.put(state));
+        } else {
+          await promisifyRequest(store.delete([target, key]));
+        }
+      }));
+    });
+  }
+
+  private static async deleteMemory(tx: IDBTransaction, characterId: string): Promise<void> {
+    await promisifyRequest(tx.objectStore(MEMORY_CONFIGS_FILE).delete(characterId));
+    await deleteByIndex(tx, MEMORY_ENTRIES_FILE, "characterId", characterId);
+    await deleteByIndex(tx, MEMORY_EMBEDDINGS_FILE, "characterId", characterId);
+  }
+}
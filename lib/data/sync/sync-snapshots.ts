@@ -0,0 +1,52 @@
+import { BackupOperations } from "@/lib/data/backup/backup-operation";
+import { encodeBackup } from "@/lib/data/backup/backup-archive";
+import { RemoteFile, SyncBackend } from "@/lib/models/sync-model";
+
+const SNAPSHOT_PATTERN = /^narratium-backup-.*_(\d+)\.(zip|json)$/;
+
+/**
+ * File name of a backup made at `date`; the millisecond timestamp orders
+ * snapshots. Older builds wrote the same pattern with a .json extension.
+ */
+export function snapshotFileName(date: Date = new Date()): string {
+  return `narratium-backup-${date.toISOString().split("T")[0]}_${date.getTime()}.zip`;
+}
+
+function snapshotTime(name: string): number {
+  return Number(SNAPSHOT_PATTERN.exec(name)?.[1] ?? 0);
+}
+
+/**
+ * Backups on the backend, newest first
+ */
+export async function listSnapshots(backend: SyncBackend): Promise<RemoteFile[]> {
+  const files = await backend.list();
+  return files
+    .filter((file) => SNAPSHOT_PATTERN.test(file.name))
+    .sort((a, b) => snapshotTime(b.name) - snapshotTime(a.name));
+}
+
+/**
+ * Delete all but the newest `keep` .zip snapshots. The .json backups older
+ * builds uploaded by hand to the same folder are listed but never rotated.
+ * @returns {Promise<string[]>} Names of the deleted snapshots
+ */
+export async function pruneSnapshots(backend: SyncBackend, keep: number): Promise<string[]> {
+  const stale = (await listSnapshots(backend))
+    .filter((file) => file.name.endsWith(".zip"))
+    .slice(Math.max(1, keep));
+  for (const file of stale) {
+    await backend.remove(file.name);
+  }
+  return stale.map((file) => file.name);
+}
+
+/**
+ * Upload a full backup as a new snapshot, then rotate out the oldest
+ */
+export async function createSnapshot(backend: SyncBackend, keep: number, date: Date = new Date()): Promise<RemoteFile> {
+  const backup = await BackupOperations.createBackup();
+  const snapshot = await backend.write(snapshotFileName(date), encodeBackup(backup));
+  await pruneSnapshots(backend, keep);
+  return snapshot;
+}
@@ -0,0 +1,107 @@
+import { RemoteFile, SyncBackend, WebDavSettings } from "@/lib/models/sync-model";
+
+const DAV_NAMESPACE = "DAV:";
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:getlastmodified/><d:resourcetype/></d:prop></d:propfind>`;
+
+function basicAuth(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return "Basic " + btoa(String.fromCharCode(...bytes));
+}
+
+function davProperty(response: Element, name: string): string {
+  return response.getElementsByTagNameNS(DAV_NAMESPACE, name)[0]?.textContent?.trim() || "";
+}
+
+/**
+ * Backend over a WebDAV collection, e.g. a Nextcloud folder. Each area is a
+ * child collection of the configured URL, created on first use. The server
+ * has to allow this app's origin through CORS.
+ */
+export class WebDavBackend implements SyncBackend {
+  readonly id: string;
+  private readonly folderUrl: string;
+  private folderReady = false;
+
+  constructor(private readonly settings: WebDavSettings, folder: string) {
+    this.folderUrl = `${settings.url.replace(/\/+$/, "")}/${encodeURIComponent(folder)}/`;
+    this.id = `webdav:${this.folderUrl}`;
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    await this.ensureFolder();
+    const response = await this.request("PROPFIND", this.folderUrl, {
+      headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+      body: PROPFIND_BODY,
+    });
+    return this.parseMultistatus(await response.text()).filter((file) => file.name);
+  }
+
+  async read(name: string): Promise<Uint8Array> {
+    const response = await this.request("GET", this.fileUrl(name));
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async write(name: string, data: Uint8Array): Promise<RemoteFile> {
+    await this.ensureFolder();
+    const response = await this.request("PUT", this.fileUrl(name), { body: new Blob([data]) });
+    const etag = response.headers.get("ETag");
+    if (etag) {
+      return { name, revision: etag };
+    }
+
+    // Servers may not send an ETag, or CORS may hide it; ask for it instead
+    const properties = await this.request("PROPFIND", this.fileUrl(name), {
+      headers: { Depth: "0", "Content-Type": "application/xml; charset=utf-8" },
+      body: PROPFIND_BODY,
+    });
+    const [file] = this.parseMultistatus(await properties.text());
+    return { name, revision: file?.revision || String(Date.now()) };
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.request("DELETE", this.fileUrl(name), {}, [404]);
+  }
+
+  private fileUrl(name: string): string {
+    return this.folderUrl + encodeURIComponent(name);
+  }
+
+  private async ensureFolder(): Promise<void> {
+    if (this.folderReady) {
+      return;
+    }
+    // 405 means the collection already exists
+    await this.request("MKCOL", this.folderUrl, {}, [405]);
+    this.folderReady = true;
+  }
+
+  private async request(method: string, url: string, init: RequestInit = {}, allowedStatuses: number[] = []): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      method,
+      headers: { ...init.headers, Authorization: basicAuth(this.settings.username, this.settings.password) },
+    });
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new Error(`WebDAV ${method} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  /**
+   * Files in a PROPFIND response, skipping collections such as the folder itself
+   */
+  private parseMultistatus(xml: string): RemoteFile[] {
+    const document = new DOMParser().parseFromString(xml, "application/xml");
+    return Array.from(document.getElementsByTagNameNS(DAV_NAMESPACE, "response"))
+      .filter((response) => response.getElementsByTagNameNS(DAV_NAMESPACE, "collection").length === 0)
+      .map((response) => {
+        const href = davProperty(response, "href");
+        return {
+          name: decodeURIComponent(href.split("/").filter(Boolean).pop() || ""),
+          revision: davProperty(response, "getetag") || davProperty(response, "getlastmodified"),
+        };
+      });
+  }
+}
@@ -0,0 +1,47 @@
+import { clearStore, getAllRecords, getRecordsByIndex, putRecord, USAGE_LEDGER_FILE } from "@/lib/data/local-storage";
+import { UsageRecord } from "@/lib/models/usage-model";
+
+export interface UsageRecordQuery {
+  // ISO timestamps, inclusive lower bound and exclusive upper bound
+  from?: string;
+  to?: string;
+  characterId?: string;
+}
+
+export class UsageRecordOperations {
+  static async addRecord(record: UsageRecord): Promise<void> {
+    await putRecord(USAGE_LEDGER_FILE, record);
+  }
+
+  static async getRecords(query: UsageRecordQuery = {}): Promise<UsageRecord[]> {
+    try {
+      const range = this.timestampRange(query);
+      const records = range
+        ? await getRecordsByIndex<UsageRecord>(USAGE_LEDGER_FILE, "timestamp", range)
+        : query.characterId
+          ? await getRecordsByIndex<UsageRecord>(USAGE_LEDGER_FILE, "characterId", query.characterId)
+          : await getAllRecords<UsageRecord>(USAGE_LEDGER_FILE);
+      return records.filter((record) => !query.characterId || record.characterId === query.characterId);
+    } catch (error) {
+      console.error("Error reading usage ledger:", error);
+      return [];
+    }
+  }
+
+  static async clearRecords(): Promise<void> {
+    await clearStore(USAGE_LEDGER_FILE);
+  }
+
+  private static timestampRange({ from, to }: UsageRecordQuery): IDBKeyRange | null {
+    if (from && to) {
+      return IDBKeyRange.bound(from, to, false, true);
+    }
+    if (from) {
+      return IDBKeyRange.lowerBound(from);
+    }
+    if (to) {
+      return IDBKeyRange.upperBound(to, true);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,158 @@
+import { z } from "zod";
+
+export const BACKUP_FORMAT = "narratium-backup";
+
+/**
+ * Version of the backup layout written by this build. Version 1 is the single
+ * JSON dump of every store written by earlier builds; older backups are
+ * brought up to this version by the migrations in backup-migrations.ts.
+ */
+export const BACKUP_VERSION = 2;
+
+export const BACKUP_EXTRA_SECTIONS = ["samplerProfiles", "agentConversations", "usageLedger"] as const;
+
+export type BackupExtraSection = typeof BACKUP_EXTRA_SECTIONS[number];
+
+/**
+ * "merge" keeps local data the backup does not contain and takes the backup's
+ * copy of everything it does; "replace" removes the local entity first
+ */
+export type RestoreMode = "merge" | "replace";
+
+// Records keep fields this schema does not know about, so nothing is lost on a round trip
+const record = z.record(z.string(), z.any());
+
+const dialogueNodeSchema = z.object({
+  nodeId: z.string(),
+  parentNodeId: z.string(),
+  userInput: z.string().default(""),
+  assistantResponse: z.string().default(""),
+  fullResponse: z.string().default(""),
+}).passthrough();
+
+const dialogueSchema = z.object({
+  id: z.string(),
+  character_id: z.string(),
+  current_nodeId: z.string().default("root"),
+  title: z.string().optional(),
+  created_at: z.string().optional(),
+  last_active_at: z.string().optional(),
+  archived: z.boolean().optional(),
+  version: z.number().optional(),
+  nodes: z.array(dialogueNodeSchema),
+}).passthrough();
+
+const ownedRecordSchema = z.object({
+  id: z.string(),
+  characterId: z.string(),
+}).passthrough();
+
+export const worldBookBackupSchema = z.object({
+  ownerId: z.string(),
+  name: z.string().optional(),
+  entries: record.default({}),
+  settings: record.nullable().default(null),
+});
+
+export const regexSetBackupSchema = z.object({
+  ownerId: z.string(),
+  name: z.string().optional(),
+  scripts: record.default({}),
+  settings: record.nullable().default(null),
+});
+
+export const characterBackupSchema = z.object({
+  record: z.object({
+    id: z.string(),
+    data: record,
+    imagePath: z.string().default(""),
+  }).passthrough(),
+  dialogues: z.array(dialogueSchema).default([]),
+  worldBook: worldBookBackupSchema.nullable().default(null),
+  regexSet: regexSetBackupSchema.nullable().default(null),
+  memory: z.object({
+    config: z.object({ characterId: z.string() }).passthrough().nullable().default(null),
+    entries: z.array(ownedRecordSchema).default([]),
+    embeddings: z.array(ownedRecordSchema).default([]),
+  }).default({}),
+});
+
+export const presetBackupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prompts: z.array(z.object({ identifier: z.string() }).passthrough()).default([]),
+}).passthrough();
+
+export const backupExtrasSchema = z.object({
+  samplerProfiles: z.object({
+    profiles: record.default({}),
+    characterProfiles: z.record(z.string(), z.string()).default({}),
+  }).optional(),
+  agentConversations: z.array(z.object({ id: z.string() }).passthrough()).optional(),
+  usageLedger: z.array(z.object({ id: z.string(), timestamp: z.string() }).passthrough()).optional(),
+});
+
+const manifestEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  file: z.string(),
+});
+
+export const backupManifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  createdAt: z.string(),
+  characters: z.array(manifestEntrySchema.extend({ image: z.string().optional() })).default([]),
+  presets: z.array(manifestEntrySchema).default([]),
+  regexSets: z.array(manifestEntrySchema).default([]),
+  worldBooks: z.array(manifestEntrySchema).default([]),
+  extras: z.array(z.enum(BACKUP_EXTRA_SECTIONS)).default([]),
+});
+
+/**
+ * A whole backup once read from its archive: the entity files in place of the
+ * manifest's file names, and images as bytes keyed by their image path
+ */
+export const backupDocumentSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  createdAt: z.string(),
+  characters: z.array(characterBackupSchema),
+  presets: z.array(presetBackupSchema),
+  regexSets: z.array(regexSetBackupSchema),
+  worldBooks: z.array(worldBookBackupSchema),
+  extras: backupExtrasSchema,
+  images: z.record(z.string(), z.custom<Uint8Array>((value) => value instanceof Uint8Array, "Expected image bytes")),
+});
+
+export type CharacterBackup = z.infer<typeof characterBackupSchema>;
+export type DialogueBackup = z.infer<typeof dialogueSchema>;
+export type PresetBackup = z.infer<typeof presetBackupSchema>;
+export type WorldBookBackup = z.infer<typeof worldBookBackupSchema>;
+export type RegexSetBackup = z.infer<typeof regexSetBackupSchema>;
+export type BackupExtras = z.infer<typeof backupExtrasSchema>;
+export type BackupManifest = z.infer<typeof backupManifestSchema>;
+export type BackupDocument = z.infer<typeof backupDocumentSchema>;
+
+/**
+ * What to restore from a backup: entity ids mapped to how each is restored.
+ * Entities left out are not touched.
+ */
+export interface RestoreSelection {
+  characters: Record<string, RestoreMode>;
+  presets: Record<string, RestoreMode>;
+  regexSets: Record<string, RestoreMode>;
+  worldBooks: Record<string, RestoreMode>;
+  extras: Partial<Record<BackupExtraSection, RestoreMode>>;
+}
+
+export interface RestoreReport {
+  characters: number;
+  presets: number;
+  regexSets: number;
+  worldBooks: number;
+  extras: number;
+}
+
+export function characterName(record: { id: string; data?: any }): string {
+  return record.data?.data?.name || record.data?.name || record.id;
+}
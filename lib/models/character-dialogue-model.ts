@@ -1,4 +1,5 @@
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import { LLMType } from "@/lib/models/llm-provider-model";
 
 export interface DialogueMessage {
   role: "user" | "assistant" | "system" | "sample";
@@ -11,7 +12,7 @@ export interface DialogueOptions {
   modelName: string;
   apiKey: string;
   baseUrl: string;
-  llmType: "openai" | "ollama";
+  llmType: LLMType;
   temperature?: number;
   maxTokens?: number;
   streaming?: boolean;
@@ -0,0 +1,90 @@
+/**
+ * Chat model providers an API config can point at. "openai-compatible" covers
+ * OpenRouter and other gateways that speak the OpenAI protocol but identify
+ * the calling app through their own headers.
+ */
+export type LLMType = "openai" | "ollama" | "anthropic" | "gemini" | "openai-compatible";
+
+export const LLM_TYPES: LLMType[] = ["openai", "anthropic", "gemini", "openai-compatible", "ollama"];
+
+export const DEFAULT_BASE_URLS: Record<LLMType, string> = {
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434",
+  anthropic: "https://api.anthropic.com",
+  gemini: "https://generativelanguage.googleapis.com",
+  "openai-compatible": "https://openrouter.ai/api/v1",
+};
+
+/**
+ * Ollama runs locally without a key; every other provider authenticates with
+ * one and shares the `openai*` localStorage keys for model, URL and key.
+ */
+export function requiresApiKey(type: LLMType): boolean {
+  return type !== "ollama";
+}
+
+export function isLLMType(value: unknown): value is LLMType {
+  return typeof value === "string" && (LLM_TYPES as string[]).includes(value);
+}
+
+/**
+ * Harm categories and block thresholds of Gemini's `safetySettings`
+ */
+export const GEMINI_HARM_CATEGORIES = [
+  "HARM_CATEGORY_HARASSMENT",
+  "HARM_CATEGORY_HATE_SPEECH",
+  "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+  "HARM_CATEGORY_DANGEROUS_CONTENT",
+  "HARM_CATEGORY_CIVIC_INTEGRITY",
+] as const;
+
+export const GEMINI_SAFETY_THRESHOLDS = [
+  "BLOCK_NONE",
+  "BLOCK_ONLY_HIGH",
+  "BLOCK_MEDIUM_AND_ABOVE",
+  "BLOCK_LOW_AND_ABOVE",
+  "OFF",
+] as const;
+
+export type GeminiSafetyThreshold = typeof GEMINI_SAFETY_THRESHOLDS[number];
+
+export interface GeminiSafetySetting {
+  category: string;
+  threshold: string;
+}
+
+/**
+ * The same threshold for every harm category
+ */
+export function geminiSafetySettings(threshold: GeminiSafetyThreshold): GeminiSafetySetting[] {
+  return GEMINI_HARM_CATEGORIES.map((category) => ({ category, threshold }));
+}
+
+/**
+ * One model a turn can be sent to. A config's fallback chain is an ordered
+ * list of these, tried after the primary model fails.
+ */
+export interface LLMEndpoint {
+  configId?: string;
+  configName?: string;
+  llmType: LLMType;
+  modelName: string;
+  apiKey: string;
+  baseUrl?: string;
+  /** Gemini only; left unset, Google's default thresholds apply */
+  safetySettings?: GeminiSafetySetting[];
+}
+
+/**
+ * The endpoint that actually produced a reply. `fallbackIndex` is 0 for the
+ * primary model and n for the n-th fallback; `attempts` counts every request
+ * made for the turn, failed ones included.
+ */
+export interface LLMResponder {
+  configId?: string;
+  configName?: string;
+  llmType: LLMType;
+  modelName: string;
+  fallbackIndex: number;
+  attempts: number;
+}
@@ -4,6 +4,7 @@
 export interface MemoryEntry {
   id: string;
   characterId: string;
+  dialogueId?: string; // Chat the memory was formed in; memories without one belong to every chat
   type: MemoryType;
   content: string;
   metadata: MemoryMetadata;
@@ -65,6 +66,7 @@ export interface MemoryRAGConfig {
 export interface MemorySearchQuery {
   query: string;
   characterId: string;
+  dialogueId?: string; // Limit to memories visible in this chat
   types?: MemoryType[]; // Filter by memory types
   tags?: string[]; // Filter by tags
   timeframe?: string; // Filter by time period
@@ -1,4 +1,7 @@
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import { WorldBookTimedState } from "@/lib/models/world-book-model";
+import { TurnTrace } from "@/lib/models/turn-trace-model";
+import { LLMResponder } from "@/lib/models/llm-provider-model";
 
 export class DialogueNode {
   nodeId: string;
@@ -8,6 +11,13 @@ export class DialogueNode {
   fullResponse: string;
   thinkingContent?: string;
   parsedContent?: ParsedResponse;
+  worldBookState?: WorldBookTimedState;
+  trace?: TurnTrace;
+  respondedBy?: LLMResponder;
+  /** `{{setvar}}` variables after this turn; the next turn on the branch starts from them */
+  macroVariables?: Record<string, string>;
+  /** When the node was added, in milliseconds; nodes stored before this was kept have none */
+  createdAt?: number;
   constructor(
     nodeId: string,
     parentNodeId: string,
@@ -16,6 +26,11 @@ export class DialogueNode {
     fullResponse: string,
     thinkingContent?: string,
     parsedContent?: ParsedResponse,
+    worldBookState?: WorldBookTimedState,
+    trace?: TurnTrace,
+    respondedBy?: LLMResponder,
+    macroVariables?: Record<string, string>,
+    createdAt?: number,
   ) {
     this.nodeId = nodeId;
     this.parentNodeId = parentNodeId;
@@ -24,6 +39,11 @@ export class DialogueNode {
     this.fullResponse = fullResponse;
     this.thinkingContent = thinkingContent;
     this.parsedContent = parsedContent;
+    this.worldBookState = worldBookState;
+    this.trace = trace;
+    this.respondedBy = respondedBy;
+    this.macroVariables = macroVariables;
+    this.createdAt = createdAt;
   }
 }
 
@@ -31,6 +51,8 @@ export class DialogueTree {
   id: string;
   character_id: string;
   current_nodeId: string;
+  // Write counter of the stored tree when this copy was read
+  version: number;
   
   nodes: DialogueNode[];
   
@@ -39,10 +61,24 @@ export class DialogueTree {
     character_id: string,
     nodes: DialogueNode[] = [],
     current_nodeId: string = "root",
+    version: number = 0,
   ) {
     this.id = id;
     this.character_id = character_id;
     this.nodes = nodes;
     this.current_nodeId = current_nodeId;
+    this.version = version;
   }
 }
+
+/**
+ * One of a character's chats, without its nodes
+ */
+export interface DialogueSummary {
+  id: string;
+  character_id: string;
+  title: string;
+  created_at: string;
+  last_active_at: string;
+  archived: boolean;
+}
@@ -14,6 +14,8 @@ export interface Preset {
   id?: string;
   name: string;
   enabled?: boolean;
+  // "flattened" (default) sends one system + one user message; "messages" expands chat history into turns
+  assemblyMode?: "flattened" | "messages";
   prompts: PresetPrompt[];
   created_at?: string;
   updated_at?: string;
@@ -1,12 +1,32 @@
+/**
+ * Which text a script runs on. Values follow SillyTavern's `placement`
+ * numbering so imported scripts keep their meaning; a script may list several.
+ */
+export enum RegexPlacement {
+  USER_INPUT = 1,
+  AI_OUTPUT = 2,
+  SLASH_COMMAND = 3,
+  WORLD_INFO = 5,
+  REASONING = 6,
+}
+
 export interface RegexScript {
   scriptKey: string;
   id?: string; 
   scriptName: string;
   findRegex: string;
   replaceString?: string | null;
+  /** Removed from the match and its capture groups before they are inserted into the replacement. */
   trimStrings: string[];
   placement: number[];
   disabled?: boolean;
+  /** Only rewrites the text as displayed; what is stored and sent to the model stays unchanged. */
+  markdownOnly?: boolean;
+  /** Only rewrites the text sent to the model; what is stored and displayed stays unchanged. */
+  promptOnly?: boolean;
+  /** Messages from the end of the chat (0 = latest) the script is limited to; unset or -1 means no limit. */
+  minDepth?: number | null;
+  maxDepth?: number | null;
   extensions?: {
     imported?: boolean;
     importedAt?: number;
@@ -0,0 +1,78 @@
+/**
+ * Sampling parameters sent with a chat request. Every field is optional; an
+ * unset field falls back to DEFAULT_SAMPLER_SETTINGS, then to the provider
+ * default, and providers that have no equivalent (e.g. min_p on OpenAI)
+ * ignore it.
+ */
+export interface SamplerSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  minP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  repeatPenalty?: number;
+  stopSequences?: string[];
+  seed?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Sent for fields the resolved profile leaves unset. Chats always sent
+ * temperature 0.7 before sampler profiles existed, so it stays the default
+ * rather than the provider's (1.0 on OpenAI).
+ */
+export const DEFAULT_SAMPLER_SETTINGS: SamplerSettings = {
+  temperature: 0.7,
+};
+
+export const SAMPLER_SETTING_KEYS: (keyof SamplerSettings)[] = [
+  "temperature",
+  "topP",
+  "topK",
+  "minP",
+  "frequencyPenalty",
+  "presencePenalty",
+  "repeatPenalty",
+  "stopSequences",
+  "seed",
+  "maxTokens",
+];
+
+/**
+ * A named set of sampler settings. Profiles are attached to an API config
+ * and can be overridden per character.
+ */
+export interface SamplerProfile extends SamplerSettings {
+  id: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Copy only the sampler fields that are actually set, so spreading the result
+ * never overwrites a value with `undefined`.
+ */
+export function pickSamplerSettings(source: Partial<SamplerSettings> | null | undefined): SamplerSettings {
+  const settings: SamplerSettings = {};
+  if (!source) {
+    return settings;
+  }
+
+  for (const key of SAMPLER_SETTING_KEYS) {
+    const value = source[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (key === "stopSequences") {
+      const stops = (value as string[]).filter((stop) => stop !== "");
+      if (stops.length > 0) {
+        settings.stopSequences = stops;
+      }
+    } else if (typeof value === "number" && Number.isFinite(value)) {
+      (settings as Record<string, number>)[key] = value;
+    }
+  }
+  return settings;
+}
@@ -0,0 +1,135 @@
+/**
+ * Kinds of entity synced as separate remote files. Agent conversations and
+ * the usage ledger are not synced; they stay on the device that recorded them.
+ */
+export const SYNC_ENTITY_KINDS = [
+  "character",
+  "dialogue",
+  "memory",
+  "preset",
+  "regexSet",
+  "worldBook",
+  "samplerProfiles",
+  "image",
+] as const;
+
+export type SyncEntityKind = typeof SYNC_ENTITY_KINDS[number];
+
+/**
+ * One entity as it exists on this device. `key` is `${kind}:${id}`; images
+ * carry their bytes, every other kind a JSON value.
+ */
+export interface SyncEntity {
+  key: string;
+  kind: SyncEntityKind;
+  id: string;
+  content: any;
+  hash: string;
+  /** A dialogue's write counter when it was read, so writing a pulled copy can tell whether it moved since. */
+  version?: number;
+}
+
+/**
+ * A file on the remote. `revision` changes whenever the file is written,
+ * from this device or any other.
+ */
+export interface RemoteFile {
+  name: string;
+  revision: string;
+}
+
+/**
+ * A flat folder of files on a remote, used both by the sync engine and for
+ * backup snapshots. Backends only move bytes; change tracking and merging
+ * are up to the engine.
+ */
+export interface SyncBackend {
+  // Identifies the remote, so each remote keeps its own sync state
+  readonly id: string;
+  list(): Promise<RemoteFile[]>;
+  read(name: string): Promise<Uint8Array>;
+  write(name: string, data: Uint8Array): Promise<RemoteFile>;
+  remove(name: string): Promise<void>;
+}
+
+/**
+ * What this device last agreed on with a remote for one entity: the hash of
+ * the local content and the remote revision. Mergeable entities also keep a
+ * hash per item, the common base for a three-way merge.
+ */
+export interface SyncEntityState {
+  target: string;
+  key: string;
+  hash: string;
+  revision: string;
+  itemHashes?: Record<string, string>;
+}
+
+/**
+ * An entity changed both here and on the remote since the last sync.
+ * Dialogue trees and memories are merged item by item; anything else keeps
+ * the local copy, which then overwrites the remote one.
+ */
+export interface SyncConflict {
+  key: string;
+  kind: SyncEntityKind;
+  resolution: "merged" | "keptLocal";
+  // Items changed differently on both sides, where the local copy was kept
+  conflictingItems: string[];
+}
+
+export interface SyncReport {
+  pulled: number;
+  pushed: number;
+  deletedLocal: number;
+  deletedRemote: number;
+  conflicts: SyncConflict[];
+}
+
+export const SYNC_BACKEND_TYPES = ["googleDrive", "webdav", "s3"] as const;
+
+export type SyncBackendType = typeof SYNC_BACKEND_TYPES[number];
+
+/**
+ * What a backend folder is used for; each gets its own folder on the remote
+ */
+export type SyncArea = "sync" | "snapshots";
+
+export interface WebDavSettings {
+  // Base collection, e.g. https://cloud.example.com/remote.php/dav/files/me/Narratium
+  url: string;
+  username: string;
+  password: string;
+}
+
+export interface S3Settings {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  // Key prefix inside the bucket, e.g. "narratium/"
+  prefix: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface SyncSettings {
+  backend: SyncBackendType | null;
+  webdav: WebDavSettings;
+  s3: S3Settings;
+  // Sync with the backend when the app starts
+  autoSync: boolean;
+  autoBackup: boolean;
+  backupIntervalHours: number;
+  // Snapshots kept on the backend; older ones are deleted after each backup
+  backupsToKeep: number;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  backend: null,
+  webdav: { url: "", username: "", password: "" },
+  s3: { endpoint: "", region: "us-east-1", bucket: "", prefix: "narratium/", accessKeyId: "", secretAccessKey: "" },
+  autoSync: false,
+  autoBackup: false,
+  backupIntervalHours: 24,
+  backupsToKeep: 7,
+};
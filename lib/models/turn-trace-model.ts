@@ -0,0 +1,54 @@
+import { WorldBookEntryRole } from "@/lib/models/world-book-model";
+
+/**
+ * Why a world book entry activated: it is constant, it is still inside its
+ * sticky window, or one of its keys matched. `recursionLevel` is set when the
+ * key matched the content of another activated entry rather than the chat.
+ */
+export type WorldBookTrigger =
+  | { type: "constant" }
+  | { type: "sticky" }
+  | { type: "key"; key: string; secondaryKey?: string; recursionLevel?: number };
+
+/**
+ * Why an activated entry was left out: a limit or budget cut it, or it was
+ * activated recursively and every entry that triggered it was cut.
+ */
+export type WorldBookDropReason = "maxEntries" | "tokenBudget" | "contextBudget" | "parentDropped";
+
+export interface WorldBookEntryTrace {
+  label: string;
+  entryId?: string;
+  trigger: WorldBookTrigger;
+  position: number;
+  /** Set for position 4 entries, which are inserted into the chat history. */
+  depth?: number;
+  role?: WorldBookEntryRole;
+}
+
+export interface DroppedWorldBookEntryTrace extends WorldBookEntryTrace {
+  reason: WorldBookDropReason;
+}
+
+/**
+ * A serializable summary of one world book activation pass, returned with
+ * each turn so the chat UI can show what was injected and what was cut.
+ */
+export interface WorldBookActivation {
+  activated: WorldBookEntryTrace[];
+  dropped: DroppedWorldBookEntryTrace[];
+}
+
+export interface RegexScriptTrace {
+  scriptKey: string;
+  scriptName: string;
+}
+
+/**
+ * Everything that shaped one dialogue turn besides the chat itself, stored on
+ * the dialogue node so the chat can explain why the model saw what it saw.
+ */
+export interface TurnTrace {
+  worldBook: WorldBookActivation;
+  regexScripts: RegexScriptTrace[];
+}
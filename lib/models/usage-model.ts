@@ -0,0 +1,117 @@
+import { LLMType } from "@/lib/models/llm-provider-model";
+
+/**
+ * What an LLM call was made for. "agent" is reserved for the creator agent,
+ * "other" covers one-off calls such as connection tests.
+ */
+export type UsageSource = "dialogue" | "memory" | "agent" | "other";
+
+/**
+ * One LLM call in the usage ledger. `usageReported` is false when the
+ * provider returned no token counts, in which case the counts are zero.
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  source: UsageSource;
+  characterId?: string;
+  sessionId?: string;
+  llmType: LLMType;
+  modelName: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  usageReported: boolean;
+  latencyMs: number;
+  // USD; null when the model has no known price
+  estimatedCost: number | null;
+}
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * List prices of common models, matched by name prefix (the longest prefix
+ * wins). Gateway names such as "openai/gpt-4o" are matched without the vendor.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "deepseek-chat": { input: 0.27, output: 1.1 },
+  "deepseek-reasoner": { input: 0.55, output: 2.19 },
+};
+
+export function findModelPricing(modelName: string): ModelPricing | null {
+  const name = modelName.trim().toLowerCase();
+  const bareName = name.replace(/^models\//, "").split("/").pop() || name;
+  const prefix = Object.keys(DEFAULT_MODEL_PRICING)
+    .filter((key) => bareName.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? DEFAULT_MODEL_PRICING[prefix] : null;
+}
+
+/**
+ * Estimated cost of a call in USD. Local models (Ollama) are free; models
+ * without a known price return null rather than a misleading zero.
+ */
+export function estimateCost(
+  llmType: LLMType,
+  modelName: string,
+  promptTokens: number,
+  completionTokens: number,
+): number | null {
+  if (llmType === "ollama") {
+    return 0;
+  }
+  const pricing = findModelPricing(modelName);
+  if (!pricing) {
+    return null;
+  }
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+export function addToTotals(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    cost: totals.cost + (record.estimatedCost ?? 0),
+  };
+}
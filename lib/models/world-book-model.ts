@@ -3,6 +3,25 @@ interface WorldBookEntryExtensions {
   [key: string]: any;
 }
 
+/**
+ * How secondary keys gate an entry whose primary keys matched.
+ * Values follow SillyTavern's `selectiveLogic` numbering so imported books keep their meaning.
+ */
+export enum SelectiveLogic {
+  AND_ANY = 0,
+  NOT_ALL = 1,
+  NOT_ANY = 2,
+  AND_ALL = 3,
+}
+
+/**
+ * Message role for entries injected at a depth inside the chat history.
+ * Indexed like SillyTavern's numeric `role` (0 system, 1 user, 2 assistant).
+ */
+export const WORLD_BOOK_ENTRY_ROLES = ["system", "user", "assistant"] as const;
+
+export type WorldBookEntryRole = typeof WORLD_BOOK_ENTRY_ROLES[number];
+
 export interface WorldBookEntry {
   entry_id?: string;
   id?: number;
@@ -10,13 +29,45 @@ export interface WorldBookEntry {
   keys: string[];
   secondary_keys?: string[];
   selective: boolean;
+  selectiveLogic?: SelectiveLogic;
   constant: boolean;
   position: string | number;
   insertion_order?: number;
   enabled?: boolean;
+  disable?: boolean;
   use_regex?: boolean;
+  case_sensitive?: boolean;
+  match_whole_words?: boolean;
+  exclude_recursion?: boolean;
+  prevent_recursion?: boolean;
+  /** Chance (0-100) that a matched entry activates, applied only when `useProbability` is true. */
+  probability?: number;
+  useProbability?: boolean;
+  /** Turns the entry stays active after it triggers. */
+  sticky?: number;
+  /** Turns the entry cannot trigger again once its sticky period ends. */
+  cooldown?: number;
+  /** First turn on which the entry may trigger. */
+  delay?: number;
   depth?: number;
+  role?: WorldBookEntryRole;
   comment?: string;
   tokens?: number;
   extensions?: WorldBookEntryExtensions;
 }
+
+export interface WorldBookEntryTimer {
+  triggeredAt: number;
+  stickyUntil: number;
+  cooldownUntil: number;
+}
+
+/**
+ * Sticky/cooldown timers after a dialogue turn, keyed by entry id. A snapshot
+ * is stored on each dialogue node so switching branches restores the timers
+ * that were in effect on that branch.
+ */
+export interface WorldBookTimedState {
+  turn: number;
+  timers: Record<string, WorldBookEntryTimer>;
+}
@@ -1,6 +1,10 @@
 // ContextNode
 // 职责：
 // - 将近期对话拼接到 `userMessage`，形成包含 {{chatHistory}} 的上下文消息
+// - 对话节点保存原文，历史在此处应用修改文本与仅作用于提示词的正则脚本
+// - messages 组装模式下改为输出 user/assistant 交替的 `chatHistory` 消息数组
+// - 传入上下文预算时，历史作为最低优先级部分在剩余额度内从最新一轮往前保留
+// - 将世界书“按深度插入”的条目放入历史中对应位置（距底部 N 条消息）
 // - 生成供记忆系统使用的 `conversationContext`（更短的摘要形式）
 // - 不直接调用 LLM，由工具类 ContextNodeTools 完成具体逻辑，节点仅负责编排与 I/O
 import { NodeBase } from "@/lib/nodeflow/NodeBase";
@@ -8,6 +12,8 @@ import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
 import { ContextNodeTools } from "./ContextNodeTools";
 import { NodeToolRegistry } from "../NodeTool";
+import { ContextBudget } from "@/lib/core/context-budget";
+import { DepthInjection } from "@/lib/core/world-book";
 
 export class ContextNode extends NodeBase {
   static readonly nodeName = "context"; // 节点名（用于工作流注册/引用）
@@ -26,9 +32,14 @@ export class ContextNode extends NodeBase {
 
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     const userMessage = input.userMessage; // 上游（Preset）产出的用户消息（可含占位符）
-    const characterId = input.characterId; // 角色 ID（用于检索对话记录）
+    const characterId = input.characterId; // 角色 ID
+    const username = input.username; // 用户名（展开正则脚本中的 {{user}}）
+    const dialogueId = input.dialogueId || ""; // 当前聊天 ID（用于检索对话记录）
     const userInput = input.userInput; // 当前用户输入（用于生成简短上下文）
     const memoryLength = input.memoryLength || 10; // 拼接的对话条数上限，默认 10
+    const assemblyMode = input.assemblyMode || "flattened"; // 预设选择的组装模式：单条文本 / 多消息
+    const contextBudget = input.contextBudget as ContextBudget | undefined; // 上下文预算：历史只使用剩余额度
+    const depthInjections = (input.depthInjections || []) as DepthInjection[]; // 世界书按深度插入的内容
 
     if (!userMessage) {
       throw new Error("User message is required for ContextNode"); // 缺少基础消息无法拼接上下文
@@ -42,21 +53,28 @@ export class ContextNode extends NodeBase {
     const result = await this.executeTool(
       "assembleChatHistory",
       userMessage,
-      characterId,
+      dialogueId,
       memoryLength,
+      assemblyMode,
+      contextBudget,
+      depthInjections,
+      characterId, // 历史消息按角色的正则脚本生成发送给模型的版本
+      username,
     ) as { userMessage: string; messages: DialogueMessage[] };
 
     // 2) 生成记忆系统所需的简短对话上下文摘要（更短，便于存储/检索）
     const conversationContext = await this.executeTool(
       "generateConversationContext",
-      characterId,
+      dialogueId,
       userInput || "",
       3, // Use shorter context for memory
     ) as string;
 
     return {
       userMessage: result.userMessage, // 带入近期对话后的用户消息
+      chatHistory: result.messages, // messages 模式下的最近对话消息（flattened 模式为空）
       conversationContext, // 面向记忆模块的简短上下文
+      tokenBreakdown: contextBudget?.getBreakdown(), // 历史是最后裁剪的部分，此时的预算即本轮提示词的 token 分布
     };
   }
 } 
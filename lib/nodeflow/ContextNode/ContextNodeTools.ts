@@ -1,7 +1,29 @@
 import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { DialogueNode } from "@/lib/models/node-model";
 import { DialogueStory } from "@/lib/core/character-history";
+import { PromptAssemblyMode } from "@/lib/core/message-assembler";
+import { ContextBudget } from "@/lib/core/context-budget";
+import { DepthInjection } from "@/lib/core/world-book";
+import { RegexProcessor } from "@/lib/core/regex-processor";
+import { RegexSandbox } from "@/lib/core/regex-sandbox";
+import { RegexPlacement } from "@/lib/models/regex-script-model";
+
+interface CharacterHistoryData {
+  systemMessage: string;
+  recentDialogue: DialogueStory;
+  historyDialogue: DialogueStory;
+}
+
+/**
+ * 经过预算裁剪后实际发送的历史窗口
+ */
+interface HistoryWindow {
+  opening: string;
+  compressed: string;
+  recentStart: number;
+}
 
 export class ContextNodeTools extends NodeTool {
   protected static readonly toolType: string = "context";
@@ -30,22 +52,57 @@ export class ContextNodeTools extends NodeTool {
     }
   }
 
+  /**
+   * flattened：把对话路径拼成文本替换 {{chatHistory}}；
+   * messages：{{chatHistory}} 只保留开场白与压缩历史，最近 memoryLength 轮以 user/assistant 消息返回。
+   * 传入 budget 时，历史作为优先级最低的部分只使用剩余额度：
+   * 开场白优先，其次从最新一轮往前保留，压缩历史最先被丢弃。
+   * depthInjections 为世界书“按深度插入”的条目：深度 0 放在本轮用户输入之后，
+   * 深度 N 插在倒数第 N 条消息（本轮用户输入计为最后一条）之前；模板没有历史占位符时统一放在用户输入之后。
+   * 传入 characterId 时历史消息按该角色与全局的正则脚本转换为发送给模型的版本。
+   */
   static async assembleChatHistory(
     userMessage: string,
-    characterId: string,
+    dialogueId: string,
     memoryLength: number = 10,
+    assemblyMode: PromptAssemblyMode = "flattened",
+    budget?: ContextBudget,
+    depthInjections: DepthInjection[] = [],
+    characterId?: string,
+    username?: string,
   ): Promise<{ userMessage: string; messages: DialogueMessage[] }> {
     try {
       if (!userMessage.includes("{{chatHistory}}")) {
-        return { userMessage, messages: [] };
+        return { userMessage: this.appendAfterUserInput(userMessage, depthInjections), messages: [] };
       }
 
-      const historyData = await this.loadCharacterHistory(characterId);
-      const chatHistoryContent = this.formatChatHistory(historyData, memoryLength);
+      const historyData = await this.loadCharacterHistory(dialogueId, characterId, username);
+      const window = this.selectHistoryWindow(historyData, memoryLength, budget);
+      const recentLength = historyData.recentDialogue.userInput.length - window.recentStart;
+      const historyInjections = depthInjections.filter(injection => injection.depth > 0);
+      userMessage = this.appendAfterUserInput(
+        userMessage,
+        depthInjections.filter(injection => injection.depth === 0),
+      );
+
+      if (assemblyMode === "messages") {
+        const summaryContent = this.formatHistoryWindow(window, historyData.recentDialogue, false);
+        const recentMessages = this.buildRecentMessages(historyData.recentDialogue, recentLength);
+        return {
+          userMessage: userMessage.replace("{{chatHistory}}", summaryContent),
+          messages: this.insertAtDepth(recentMessages, historyInjections, injection => ({
+            role: injection.role,
+            content: injection.content.trim(),
+            id: -1,
+          })).map((message, index) => ({ ...message, id: index })),
+        };
+      }
+
+      const chatHistoryContent = this.formatHistoryWindow(window, historyData.recentDialogue, true, historyInjections);
 
       const assembledUserMessage = userMessage.replace("{{chatHistory}}", chatHistoryContent);
 
-      console.log(`Assembled chat history for character ${characterId}`);
+      console.log(`Assembled chat history for dialogue ${dialogueId}`);
 
       return {
         userMessage: assembledUserMessage,
@@ -56,39 +113,176 @@ export class ContextNodeTools extends NodeTool {
     }
   }
 
+  /**
+   * 确定本轮发送的历史窗口：先按 memoryLength 取最近轮次，
+   * 再（如有预算）按 开场白 > 最新轮次 > 较早轮次 > 压缩历史 的优先级连续裁剪。
+   */
+  static selectHistoryWindow(
+    historyData: CharacterHistoryData,
+    memoryLength: number,
+    budget?: ContextBudget,
+  ): HistoryWindow {
+    const { recentDialogue, historyDialogue } = historyData;
+    const turnCount = recentDialogue.userInput.length;
+    const recentStart = Math.max(0, turnCount - memoryLength);
+    const window: HistoryWindow = {
+      opening: historyData.systemMessage,
+      compressed: historyDialogue.getStory(0, Math.max(0, historyDialogue.responses.length - memoryLength)),
+      recentStart,
+    };
+
+    if (!budget) {
+      return window;
+    }
+
+    type HistoryPart = "opening" | "compressed" | number;
+    const items: { value: HistoryPart; text: string; priority: number }[] = [];
+    if (window.opening) {
+      items.push({ value: "opening", text: window.opening, priority: turnCount + 1 });
+    }
+    for (let i = recentStart; i < turnCount; i++) {
+      items.push({ value: i, text: recentDialogue.getStory(i, i + 1), priority: i + 1 });
+    }
+    if (window.compressed) {
+      items.push({ value: "compressed", text: window.compressed, priority: 0 });
+    }
+
+    const kept = budget.fit("history", items, true);
+    const keptTurns = kept.filter((part): part is number => typeof part === "number");
+
+    return {
+      opening: kept.includes("opening") ? window.opening : "",
+      compressed: kept.includes("compressed") ? window.compressed : "",
+      recentStart: keptTurns.length > 0 ? Math.min(...keptTurns) : turnCount,
+    };
+  }
+
+  /**
+   * 按深度把注入项插入消息序列。深度按“距底部的消息数”计算，且本轮用户输入
+   * 不在 items 中而视为最后一条，因此深度 N 对应插入位置 items.length - (N - 1)；
+   * 超出历史长度的注入项放在最前面。
+   */
+  static insertAtDepth<T>(
+    items: T[],
+    injections: DepthInjection[],
+    toItem: (injection: DepthInjection) => T,
+  ): T[] {
+    if (injections.length === 0) {
+      return items;
+    }
+
+    const byIndex = new Map<number, DepthInjection[]>();
+    for (const injection of [...injections].sort((a, b) => b.depth - a.depth)) {
+      const index = Math.max(0, items.length - Math.max(0, injection.depth - 1));
+      byIndex.set(index, [...(byIndex.get(index) || []), injection]);
+    }
+
+    const result: T[] = [];
+    for (let i = 0; i <= items.length; i++) {
+      for (const injection of byIndex.get(i) || []) {
+        result.push(toItem(injection));
+      }
+      if (i < items.length) {
+        result.push(items[i]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 深度 0 的注入项紧跟在本轮用户输入之后；模板中没有 </userInput> 时追加到末尾
+   */
+  private static appendAfterUserInput(userMessage: string, injections: DepthInjection[]): string {
+    const content = injections.map(injection => injection.content).filter(Boolean).join("\n\n");
+    if (!content) {
+      return userMessage;
+    }
+    if (userMessage.includes("</userInput>")) {
+      return userMessage.replace("</userInput>", `</userInput>\n\n${content}`);
+    }
+    return `${userMessage}\n\n${content}`;
+  }
+
+  /**
+   * 将最近 memoryLength 轮对话转为交替的 user/assistant 消息
+   */
+  static buildRecentMessages(recentDialogue: DialogueStory, memoryLength: number): DialogueMessage[] {
+    const messages: DialogueMessage[] = [];
+    const startIndex = Math.max(0, recentDialogue.userInput.length - memoryLength);
+
+    for (let i = startIndex; i < recentDialogue.userInput.length; i++) {
+      if (recentDialogue.userInput[i]) {
+        messages.push({ role: "user", content: recentDialogue.userInput[i], id: messages.length });
+      }
+      if (recentDialogue.responses[i]) {
+        messages.push({ role: "assistant", content: recentDialogue.responses[i], id: messages.length });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * 读取当前分支的对话记录。传入 characterId 时，按正则脚本生成发送给模型的版本：
+   * 每条消息先执行修改文本的脚本，再执行仅作用于提示词的脚本，深度按“距底部第 N 条”计算
+   * （本轮用户输入为深度 0）；旧版节点（parsedContent.regexResult 存在）保存时已应用过修改文本的脚本，只再执行提示词脚本。
+   * 所有消息一次性交给正则沙箱执行，超时的脚本会被标记并跳过，不会卡住页面。
+   */
   static async loadCharacterHistory(
-    characterId: string,
-  ): Promise<{
-    systemMessage: string;
-    recentDialogue: DialogueStory;
-    historyDialogue: DialogueStory;
-  }> {
+    dialogueId: string,
+    characterId?: string,
+    username?: string,
+  ): Promise<CharacterHistoryData> {
     try {
       const recentDialogue = new DialogueStory("en");
       const historyDialogue = new DialogueStory("en");
       let systemMessage = "";
 
-      const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
       if (!dialogueTree) {
-        console.warn(`Dialogue tree not found for character ${characterId}`);
+        console.warn(`Dialogue tree not found: ${dialogueId}`);
         return { systemMessage, recentDialogue, historyDialogue };
       }
 
       const nodePath = dialogueTree.current_nodeId !== "root"
-        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(characterId, dialogueTree.current_nodeId)
+        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(dialogueId, dialogueTree.current_nodeId)
         : [];
-      
+
+      // 按时间顺序列出路径上的每条消息，最后一条深度为 1
+      const messages = nodePath
+        .flatMap((node) => node.parentNodeId === "root"
+          ? [{ node, field: "assistantResponse" as const, placement: RegexPlacement.AI_OUTPUT }]
+          : [
+            { node, field: "userInput" as const, placement: RegexPlacement.USER_INPUT },
+            { node, field: "assistantResponse" as const, placement: RegexPlacement.AI_OUTPUT },
+          ])
+        .filter(({ node, field }) => !!node[field]);
+      const scriptSet = characterId ? await RegexProcessor.loadScripts(characterId, username) : null;
+      const results = scriptSet
+        ? await RegexSandbox.applyScripts(scriptSet, messages.map(({ node, field, placement }, index) => ({
+          text: node[field],
+          targets: RegexProcessor.targetsFor("prompt", placement, messages.length - index, !!node.parsedContent?.regexResult),
+        })))
+        : undefined;
+      const promptTexts = new Map(messages.map(({ node, field }, index) =>
+        [`${node.nodeId}:${field}`, results ? results[index].replacedText : node[field]]));
+      const forPrompt = (node: DialogueNode, field: "userInput" | "assistantResponse") =>
+        promptTexts.get(`${node.nodeId}:${field}`) ?? node[field];
+
       for (const node of nodePath) {
-        if (node.parentNodeId === "root" && node.assistantResponse) {
-          systemMessage = node.assistantResponse;
+        if (node.parentNodeId === "root") {
+          if (node.assistantResponse) {
+            systemMessage = forPrompt(node, "assistantResponse");
+          }
           continue;
         }
         if (node.userInput) {
-          recentDialogue.userInput.push(node.userInput);
-          historyDialogue.userInput.push(node.userInput);
+          const userInput = forPrompt(node, "userInput");
+          recentDialogue.userInput.push(userInput);
+          historyDialogue.userInput.push(userInput);
         }
         if (node.assistantResponse) {
-          recentDialogue.responses.push(node.assistantResponse);
+          recentDialogue.responses.push(forPrompt(node, "assistantResponse"));
           const compressedContent = node.parsedContent?.compressedContent || "";
           historyDialogue.responses.push(compressedContent);
         }
@@ -101,48 +295,77 @@ export class ContextNodeTools extends NodeTool {
   }
 
   static formatChatHistory(
-    historyData: {
-      systemMessage: string;
-      recentDialogue: DialogueStory;
-      historyDialogue: DialogueStory;
-    },
+    historyData: CharacterHistoryData,
     memoryLength: number,
+    includeRecent: boolean = true,
   ): string {
     try {
-      const parts: string[] = [];
+      return this.formatHistoryWindow(
+        this.selectHistoryWindow(historyData, memoryLength),
+        historyData.recentDialogue,
+        includeRecent,
+      );
+    } catch (error) {
+      this.handleError(error as Error, "formatChatHistory");
+    }
+  }
 
-      if (historyData.systemMessage) {
-        parts.push(`开场白：${historyData.systemMessage}`);
-      }
+  private static formatHistoryWindow(
+    window: HistoryWindow,
+    recentDialogue: DialogueStory,
+    includeRecent: boolean = true,
+    depthInjections: DepthInjection[] = [],
+  ): string {
+    const parts: string[] = [];
 
-      // Use DialogueStory.getStory directly for compressed history
-      const compressedHistory = historyData.historyDialogue.getStory(0, Math.max(0, historyData.historyDialogue.responses.length - memoryLength));
-      if (compressedHistory) {
-        parts.push(`历史信息：${compressedHistory}`);
-      }
+    if (window.opening) {
+      parts.push(`开场白：${window.opening}`);
+    }
 
-      // Use DialogueStory.getStory directly for recent history
-      const recentHistory = historyData.recentDialogue.getStory(Math.max(0, historyData.recentDialogue.userInput.length - memoryLength));
-      if (recentHistory) {
-        parts.push(`最近故事：${recentHistory}`);
-      }
+    if (window.compressed) {
+      parts.push(`历史信息：${window.compressed}`);
+    }
 
-      return parts.filter(Boolean).join("\n\n");
-    } catch (error) {
-      this.handleError(error as Error, "formatChatHistory");
+    // Use DialogueStory.getStory directly for recent history
+    const recentHistory = includeRecent
+      ? (depthInjections.length > 0
+        ? this.formatRecentWithInjections(recentDialogue, window.recentStart, depthInjections)
+        : recentDialogue.getStory(window.recentStart))
+      : "";
+    if (recentHistory) {
+      parts.push(`最近故事：${recentHistory}`);
     }
+
+    return parts.filter(Boolean).join("\n\n");
+  }
+
+  /**
+   * 与 DialogueStory.getStory 相同的逐行格式，但在对应深度处插入世界书内容
+   */
+  private static formatRecentWithInjections(
+    recentDialogue: DialogueStory,
+    recentStart: number,
+    depthInjections: DepthInjection[],
+  ): string {
+    const speakerLabels: Record<string, string> = { user: "User", assistant: "Character" };
+    const lines = this.buildRecentMessages(recentDialogue, recentDialogue.userInput.length - recentStart)
+      .map(message => `${speakerLabels[message.role]}: ${message.content}`);
+
+    return this.insertAtDepth(lines, depthInjections, injection =>
+      speakerLabels[injection.role] ? `${speakerLabels[injection.role]}: ${injection.content.trim()}` : injection.content.trim(),
+    ).join("\n").trim();
   }
 
   /**
    * Generate conversation context for memory system
    */
   static async generateConversationContext(
-    characterId: string,
+    dialogueId: string,
     currentUserInput: string,
     memoryLength: number = 3,
   ): Promise<string> {
     try {
-      const historyData = await this.loadCharacterHistory(characterId);
+      const historyData = await this.loadCharacterHistory(dialogueId);
       
       // Get recent dialogue for context using DialogueStory.getStory directly
       const recentHistory = historyData.recentDialogue.getStory(Math.max(0, historyData.recentDialogue.userInput.length - memoryLength));
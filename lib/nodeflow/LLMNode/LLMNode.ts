@@ -1,6 +1,10 @@
 import { NodeBase } from "@/lib/nodeflow/NodeBase";
 import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/types";
-import { LLMNodeTools } from "./LLMNodeTools";
+import { LLMNodeTools, LLMConfig, LLMResult, StreamChunkHandler } from "./LLMNodeTools";
+import { MessageAssembler, PromptMessage } from "@/lib/core/message-assembler";
+import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { GeminiSafetySetting, LLMEndpoint } from "@/lib/models/llm-provider-model";
+import { pickSamplerSettings } from "@/lib/models/sampler-profile-model";
 import { NodeToolRegistry } from "../NodeTool";
 
 export class LLMNode extends NodeBase {
@@ -25,10 +29,17 @@ export class LLMNode extends NodeBase {
     const apiKey = input.apiKey;
     const baseUrl = input.baseUrl;
     const llmType = input.llmType || "openai";
-    const temperature = input.temperature;
+    const samplerSettings = pickSamplerSettings(input); // 采样参数：只取已设置的字段
     const language = input.language || "zh";
     const streaming = input.streaming || false;
     const streamUsage = input.streamUsage ?? true; // 默认启用token usage追踪
+    const onStreamChunk = input.onStreamChunk as StreamChunkHandler | undefined;
+    const signal = input.signal as AbortSignal | undefined; // 用户取消时中断请求
+    const assemblyMode = input.assemblyMode || "flattened";
+    const chatHistory = (input.chatHistory || []) as DialogueMessage[];
+    const fallbacks = input.fallbacks as LLMEndpoint[] | undefined; // 主模型失败时依次尝试的备用端点
+    const safetySettings = input.safetySettings as GeminiSafetySetting[] | undefined; // 仅 Gemini 使用的安全过滤阈值
+    const characterId = input.characterId as string | undefined; // 用量账本按角色统计
 
     if (!systemMessage) {
       throw new Error("System message is required for LLMNode");
@@ -38,24 +49,35 @@ export class LLMNode extends NodeBase {
       throw new Error("User message is required for LLMNode");
     }
 
-    const llmResponse = await this.executeTool(
-      "invokeLLM",
-      systemMessage,
-      userMessage,
-      {
-        modelName,
-        apiKey,
-        baseUrl,
-        llmType,
-        temperature,
-        language,
-        streaming,
-        streamUsage,
-      },
-    ) as string;
+    const config: LLMConfig = {
+      modelName,
+      apiKey,
+      baseUrl,
+      llmType,
+      ...samplerSettings,
+      language,
+      streaming,
+      streamUsage,
+      signal,
+      fallbacks,
+      safetySettings,
+      usageSource: "dialogue",
+      characterId,
+    };
+
+    // 多消息模式：把带标签的提示词与对话路径展开为 system/user/assistant 消息数组
+    const chatMessages: PromptMessage[] | undefined = assemblyMode === "messages"
+      ? MessageAssembler.buildMessages(systemMessage, userMessage, chatHistory)
+      : undefined;
+
+    // 流式模式下逐块推送给调用方，最终仍返回完整文本
+    const { content: llmResponse, respondedBy } = streaming
+      ? await this.executeTool("streamLLM", systemMessage, userMessage, config, onStreamChunk, chatMessages) as LLMResult
+      : await this.executeTool("invokeLLM", systemMessage, userMessage, config, chatMessages) as LLMResult;
 
     return {
       llmResponse,
+      respondedBy,
       systemMessage,
       userMessage,
       modelName,
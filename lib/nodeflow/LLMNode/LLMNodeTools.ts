@@ -1,9 +1,19 @@
 import { NodeTool } from "@/lib/nodeflow/NodeTool";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatOllama } from "@langchain/ollama";
-import { ChatPromptTemplate } from "@langchain/core/prompts";
-import { StringOutputParser } from "@langchain/core/output_parsers";
-import { RunnablePassthrough } from "@langchain/core/runnables";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessageChunk } from "@langchain/core/messages";
+import { MessageAssembler, PromptMessage } from "@/lib/core/message-assembler";
+import { GeminiSafetySetting, LLMEndpoint, LLMResponder, LLMType } from "@/lib/models/llm-provider-model";
+import { createChatModel } from "@/lib/nodeflow/LLMNode/providers";
+import {
+  AttemptSignal,
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  getBackoffDelay,
+  isTransientError,
+  sleep,
+} from "@/lib/nodeflow/LLMNode/providers/retry";
+import { UsageLedger } from "@/lib/core/usage-ledger";
+import { UsageSource } from "@/lib/models/usage-model";
 
 // 为window对象添加lastTokenUsage属性的类型声明
 declare global {
@@ -20,7 +30,7 @@ export interface LLMConfig {
   modelName: string;
   apiKey: string;
   baseUrl?: string;
-  llmType: "openai" | "ollama";
+  llmType: LLMType;
   temperature?: number;
   maxTokens?:number;
   maxRetries?: number,
@@ -29,10 +39,39 @@ export interface LLMConfig {
   presencePenalty?: number,
   topK?: number,
   repeatPenalty?: number,
+  minP?: number;
+  seed?: number;
+  stopSequences?: string[];
+  // 仅 Gemini：各危害类别的拦截阈值，属于端点配置，备用端点各用自己的设置
+  safetySettings?: GeminiSafetySetting[];
   streaming?: boolean;
   streamUsage?: boolean;
   language?: "zh" | "en";
+  signal?: AbortSignal;
+  // 主模型失败后依次尝试的备用端点（沿用主配置的采样参数）
+  fallbacks?: LLMEndpoint[];
+  retryPolicy?: Partial<RetryPolicy>;
+  // 用量账本：记录调用来源与所属角色
+  usageSource?: UsageSource;
+  characterId?: string;
 }
+
+export interface LLMResult {
+  content: string;
+  respondedBy: LLMResponder;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * 流式回调：每收到一个增量片段时触发，accumulated 为截至目前的完整文本
+ */
+export type StreamChunkHandler = (chunk: string, accumulated: string) => void;
+
 export class LLMNodeTools extends NodeTool {
   protected static readonly toolType: string = "llm";
   protected static readonly version: string = "1.0.0";
@@ -61,140 +100,208 @@ export class LLMNodeTools extends NodeTool {
     }
   }
 
+  /**
+   * 非流式调用。chatMessages 为 "messages" 组装模式下由 MessageAssembler 生成的完整消息数组，
+   * 传入时直接发送，否则沿用 system + user 两条消息。
+   */
   static async invokeLLM(
     systemMessage: string,
     userMessage: string,
     config: LLMConfig,
-  ): Promise<string> {
+    chatMessages?: PromptMessage[],
+  ): Promise<LLMResult> {
     try {
       console.log("invokeLLM");
-      
-      // 为了获取真实的token usage，我们需要直接调用LLM而不是使用chain
-      if (config.llmType === "openai") {
-        const openaiLlm = this.createLLM(config) as ChatOpenAI;
-        
-        // 直接调用LLM获取完整的AIMessage响应
-        const aiMessage = await openaiLlm.invoke([
-          { role: "system", content: systemMessage },
-          { role: "user", content: userMessage },
-        ]);
-        
-        // 提取token usage信息
-        let tokenUsage = null;
-        if (aiMessage.usage_metadata) {
-          tokenUsage = {
-            prompt_tokens: aiMessage.usage_metadata.input_tokens,
-            completion_tokens: aiMessage.usage_metadata.output_tokens,
-            total_tokens: aiMessage.usage_metadata.total_tokens,
-          };
-        } else if (aiMessage.response_metadata?.tokenUsage) {
-          // 兼容旧版本格式
-          tokenUsage = aiMessage.response_metadata.tokenUsage;
-        } else if (aiMessage.response_metadata?.usage) {
-          // 兼容另一种格式
-          tokenUsage = aiMessage.response_metadata.usage;
-        }
-        
+
+      const messages = this.buildMessages(systemMessage, userMessage, chatMessages);
+
+      return await this.runWithFallback(config, async (endpointConfig, attempt) => {
+        // 直接调用模型以拿到带 usage_metadata 的完整 AIMessage；
+        // 多消息模式同样直接发送，避免模板把历史压回单条消息
+        const llm = this.createLLM(endpointConfig);
+        const startedAt = Date.now();
+        const aiMessage = await llm.invoke(messages, { signal: attempt.signal });
+
+        const tokenUsage = this.extractTokenUsage(aiMessage);
+        this.recordUsage(endpointConfig, tokenUsage, Date.now() - startedAt);
+
         // 如果没有从响应中获取到token usage，尝试从流式响应中获取
         if (!tokenUsage && config.streaming && config.streamUsage) {
           console.log("📊 Token usage not found in response, this may be due to streaming mode");
         }
-        
-        // 将token usage信息存储到全局变量供插件使用
-        if (tokenUsage) {
-          if (typeof window !== "undefined") {
-            window.lastTokenUsage = tokenUsage;
-            console.log("📊 Token usage stored for plugins:", tokenUsage);
-            
-            // 触发自定义事件通知插件
-            const event = new CustomEvent("llm-token-usage", {
-              detail: { tokenUsage },
-            });
-            window.dispatchEvent(event);
-          }
-        }
-        
+
+        this.publishTokenUsage(tokenUsage);
+
         return aiMessage.content as string;
-      } else {
-        // 对于其他LLM类型，使用原来的chain方式
-        const llm = this.createLLM(config);
-        const dialogueChain = this.createDialogueChain(llm);
-        const response = await dialogueChain.invoke({
-          system_message: systemMessage,
-          user_message: userMessage,
-        });
-        
-        if (!response || typeof response !== "string") {
-          throw new Error("Invalid response from LLM");
+      });
+    } catch (error) {
+      this.handleError(error as Error, "invokeLLM");
+    }
+  }
+
+  /**
+   * 流式调用：逐块产出模型输出并通过 onChunk 回调推送，结束后返回完整文本。
+   * 所有供应商均走 LangChain 的 stream 接口，token usage 在聚合后的消息上提取。
+   * 已有片段推送给调用方后不再重试或切换端点，以免界面上出现两段拼接的回复。
+   */
+  static async streamLLM(
+    systemMessage: string,
+    userMessage: string,
+    config: LLMConfig,
+    onChunk?: StreamChunkHandler,
+    chatMessages?: PromptMessage[],
+  ): Promise<LLMResult> {
+    try {
+      console.log("streamLLM");
+
+      const messages = this.buildMessages(systemMessage, userMessage, chatMessages);
+      let accumulated = "";
+
+      return await this.runWithFallback({ ...config, streaming: true }, async (endpointConfig, attempt) => {
+        const llm = this.createLLM(endpointConfig);
+        const startedAt = Date.now();
+        const stream = await llm.stream(messages, { signal: attempt.signal });
+
+        let aggregated: AIMessageChunk | undefined;
+
+        for await (const chunk of stream) {
+          attempt.touch();
+          aggregated = aggregated ? aggregated.concat(chunk) : chunk;
+          const text = typeof chunk.content === "string" ? chunk.content : "";
+          if (!text) continue;
+
+          accumulated += text;
+          onChunk?.(text, accumulated);
         }
 
-        return response;
-      }
+        if (!accumulated) {
+          throw new Error("Empty streaming response from LLM");
+        }
+
+        const tokenUsage = aggregated ? this.extractTokenUsage(aggregated) : null;
+        this.publishTokenUsage(tokenUsage);
+        this.recordUsage(endpointConfig, tokenUsage, Date.now() - startedAt);
+
+        return accumulated;
+      }, () => accumulated === "");
     } catch (error) {
-      this.handleError(error as Error, "invokeLLM");
+      this.handleError(error as Error, "streamLLM");
     }
   }
 
-  private static createLLM(config: LLMConfig): ChatOpenAI | ChatOllama {
-    const safeModel = config.modelName?.trim() || "";
-    const defaultSettings = {
-      temperature: 0.7,
-      maxTokens: undefined,
-      timeout: 1000000000,
-      maxRetries: 0,
-      topP: 0.7,
-      frequencyPenalty: 0,
-      presencePenalty: 0,
-      topK: 40,
-      repeatPenalty: 1.1,
-      streaming: false,
-      streamUsage: true, // 默认启用token usage追踪
-    };
+  /**
+   * 依次尝试主端点与 fallbacks：临时错误（限流、5xx、网络中断、超时）按指数退避加抖动重试同一端点，
+   * 重试用尽或遇到不可重试的错误时切换到下一个端点；调用方取消或 canRetry 返回 false 时立即抛出。
+   * 返回内容及实际作答的端点。
+   */
+  private static async runWithFallback(
+    config: LLMConfig,
+    request: (endpointConfig: LLMConfig, attempt: AttemptSignal) => Promise<string>,
+    canRetry: () => boolean = () => true,
+  ): Promise<LLMResult> {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy };
+    const endpoints: LLMEndpoint[] = [
+      { llmType: config.llmType, modelName: config.modelName, apiKey: config.apiKey, baseUrl: config.baseUrl, safetySettings: config.safetySettings },
+      ...(config.fallbacks || []),
+    ];
 
-    if (config.llmType === "openai") {
-      return new ChatOpenAI({
-        modelName: safeModel,
-        openAIApiKey: config.apiKey,
-        configuration: {
-          baseURL: config.baseUrl?.trim() || undefined,
-        },
-        temperature: config.temperature ?? defaultSettings.temperature,
-        maxRetries: config.maxRetries ?? defaultSettings.maxRetries,
-        topP: config.topP ?? defaultSettings.topP,
-        frequencyPenalty: config.frequencyPenalty ?? defaultSettings.frequencyPenalty,
-        presencePenalty: config.presencePenalty ?? defaultSettings.presencePenalty,
-        streaming: config.streaming ?? defaultSettings.streaming,
-        streamUsage: config.streamUsage ?? defaultSettings.streamUsage,
-      });
-    } else if (config.llmType === "ollama") {
-      return new ChatOllama({
-        model: safeModel,
-        baseUrl: config.baseUrl?.trim() || "http://localhost:11434",
-        temperature: config.temperature ?? defaultSettings.temperature,
-        topK: config.topK ?? defaultSettings.topK,
-        topP: config.topP ?? defaultSettings.topP,
-        frequencyPenalty: config.frequencyPenalty ?? defaultSettings.frequencyPenalty,
-        presencePenalty: config.presencePenalty ?? defaultSettings.presencePenalty,
-        repeatPenalty: config.repeatPenalty ?? defaultSettings.repeatPenalty,
-        streaming: config.streaming ?? defaultSettings.streaming,
-      });
-    } else {
-      throw new Error(`Unsupported LLM type: ${config.llmType}`);
+    let attempts = 0;
+    let lastError: unknown;
+
+    for (const [fallbackIndex, endpoint] of endpoints.entries()) {
+      const { configId, configName, ...connection } = endpoint;
+      // 安全设置属于端点，未设置的备用端点不沿用主端点的
+      const endpointConfig: LLMConfig = { ...config, ...connection, safetySettings: connection.safetySettings };
+
+      for (let retry = 0; retry <= policy.maxRetries; retry++) {
+        const attempt = new AttemptSignal(policy.timeoutMs, config.signal);
+        attempts++;
+
+        try {
+          const content = await request(endpointConfig, attempt);
+          return {
+            content,
+            respondedBy: { configId, configName, llmType: endpoint.llmType, modelName: endpoint.modelName, fallbackIndex, attempts },
+          };
+        } catch (error) {
+          if (config.signal?.aborted || !canRetry()) {
+            throw error;
+          }
+
+          // 超时中断时 LangChain 只抛出笼统的 AbortError，改用计时器给出的原因
+          lastError = attempt.timedOut ? attempt.signal.reason : error;
+          console.warn(`LLM request to ${endpoint.llmType}/${endpoint.modelName} failed (attempt ${retry + 1}):`, lastError);
+
+          if (retry === policy.maxRetries || !(attempt.timedOut || isTransientError(error))) {
+            break;
+          }
+          await sleep(getBackoffDelay(retry, policy), config.signal);
+        } finally {
+          attempt.dispose();
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private static buildMessages(
+    systemMessage: string,
+    userMessage: string,
+    chatMessages?: PromptMessage[],
+  ): [string, string][] {
+    const messages = chatMessages && chatMessages.length > 0
+      ? chatMessages
+      : MessageAssembler.buildFlattenedMessages(systemMessage, userMessage);
+    return messages.map(message => [message.role, message.content]);
+  }
+
+  private static extractTokenUsage(aiMessage: AIMessageChunk): TokenUsage | null {
+    if (aiMessage.usage_metadata) {
+      return {
+        prompt_tokens: aiMessage.usage_metadata.input_tokens,
+        completion_tokens: aiMessage.usage_metadata.output_tokens,
+        total_tokens: aiMessage.usage_metadata.total_tokens,
+      };
+    } else if (aiMessage.response_metadata?.tokenUsage) {
+      // 兼容旧版本格式
+      return aiMessage.response_metadata.tokenUsage;
+    } else if (aiMessage.response_metadata?.usage) {
+      // 兼容另一种格式
+      return aiMessage.response_metadata.usage;
+    }
+    return null;
+  }
+
+  // 将token usage信息存储到全局变量供插件使用
+  private static publishTokenUsage(tokenUsage: TokenUsage | null): void {
+    if (!tokenUsage || typeof window === "undefined") {
+      return;
     }
+
+    window.lastTokenUsage = tokenUsage;
+    console.log("📊 Token usage stored for plugins:", tokenUsage);
+
+    // 触发自定义事件通知插件
+    const event = new CustomEvent("llm-token-usage", {
+      detail: { tokenUsage },
+    });
+    window.dispatchEvent(event);
+  }
+
+  // 写入用量账本（不阻塞、不影响本次调用结果）；失败的尝试不计入
+  private static recordUsage(config: LLMConfig, tokenUsage: TokenUsage | null, latencyMs: number): void {
+    void UsageLedger.record({
+      source: config.usageSource || "other",
+      characterId: config.characterId,
+      llmType: config.llmType,
+      modelName: config.modelName,
+      tokenUsage,
+      latencyMs,
+    });
   }
 
-  private static createDialogueChain(llm: ChatOpenAI | ChatOllama): any {
-    const dialoguePrompt = ChatPromptTemplate.fromMessages([
-      ["system", "{system_message}"],
-      ["human", "{user_message}"],
-    ]);
-
-    return RunnablePassthrough.assign({
-      system_message: (input: any) => input.system_message,
-      user_message: (input: any) => input.user_message,
-    })
-      .pipe(dialoguePrompt)
-      .pipe(llm)
-      .pipe(new StringOutputParser());
+  private static createLLM(config: LLMConfig): BaseChatModel {
+    return createChatModel(config);
   }
 } 
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AIMessage, AIMessageChunk, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { AnthropicChatModel } from "@/lib/nodeflow/LLMNode/providers";
+
+/**
+ * Requests sent to the stubbed Messages API
+ */
+const requests: { url: string; headers: Record<string, string>; body: any }[] = [];
+
+/**
+ * The events of a streamed reply, as the Messages API sends them
+ */
+const STREAM_EVENTS = [
+  { type: "message_start", message: { usage: { input_tokens: 20, cache_read_input_tokens: 5, output_tokens: 1 } } },
+  { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "The gate " } },
+  { type: "ping" },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "opens." } },
+  { type: "content_block_stop", index: 0 },
+  { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 4 } },
+  { type: "message_stop" },
+];
+
+function streamReply(): Response {
+  const text = STREAM_EVENTS.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join("");
+  return new Response(text, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    requests.push({ url, headers: init.headers as Record<string, string>, body });
+    if (body.stream) {
+      return streamReply();
+    }
+    return new Response(JSON.stringify({
+      model: body.model,
+      content: [{ type: "text", text: "The gate " }, { type: "tool_use", id: "t1" }, { type: "text", text: "opens." }],
+      stop_reason: "stop_sequence",
+      usage: { input_tokens: 12, cache_creation_input_tokens: 3, output_tokens: 7 },
+    }), { status: 200, headers: { "Content-Type": "application/json" } });
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function createModel(fields: Partial<ConstructorParameters<typeof AnthropicChatModel>[0]> = {}) {
+  return new AnthropicChatModel({ model: "claude-test", apiKey: "key", ...fields });
+}
+
+describe("AnthropicChatModel", () => {
+  it("hoists leading system messages and sends later ones as user turns", async () => {
+    await createModel({ temperature: 0.5, stopSequences: ["\nUser:"] }).invoke([
+      new SystemMessage("You are the narrator."),
+      new SystemMessage("Lore: the castle has one gate."),
+      new AIMessage("Welcome, traveller."),
+      new HumanMessage("I walk to the gate."),
+      new SystemMessage("[Summary: the guard is asleep]"),
+      new AIMessage("The guard snores."),
+      new HumanMessage("I knock."),
+    ]);
+
+    expect(requests[0].url).toBe("https://api.anthropic.com/v1/messages");
+    expect(requests[0].headers).toMatchObject({ "x-api-key": "key", "anthropic-version": "2023-06-01" });
+    expect(requests[0].body).toEqual({
+      model: "claude-test",
+      system: "You are the narrator.\n\nLore: the castle has one gate.",
+      messages: [
+        // The history starts with the character's greeting, so a user turn opens it
+        { role: "user", content: "[Start a new chat]" },
+        { role: "assistant", content: "Welcome, traveller." },
+        { role: "user", content: "I walk to the gate.\n\n[Summary: the guard is asleep]" },
+        { role: "assistant", content: "The guard snores." },
+        { role: "user", content: "I knock." },
+      ],
+      max_tokens: 4096,
+      temperature: 0.5,
+      stop_sequences: ["\nUser:"],
+      stream: false,
+    });
+  });
+
+  it("prefers per-call stop sequences and leaves them out when there are none", async () => {
+    await createModel({ stopSequences: ["\nUser:"] }).invoke("hello", { stop: ["###"] });
+    await createModel().invoke("hello");
+
+    expect(requests[0].body.stop_sequences).toEqual(["###"]);
+    expect(requests[1].body).not.toHaveProperty("stop_sequences");
+    expect(requests[1].body).not.toHaveProperty("system");
+  });
+
+  it("reads the text and usage of a reply, counting cached prompt tokens as input", async () => {
+    const message = await createModel().invoke("hello");
+
+    expect(message.content).toBe("The gate opens.");
+    expect(message.usage_metadata).toEqual({ input_tokens: 15, output_tokens: 7, total_tokens: 22 });
+    expect(message.response_metadata).toMatchObject({ model: "claude-test", stop_reason: "stop_sequence" });
+  });
+
+  it("streams text deltas and reports the final usage once", async () => {
+    const chunks: AIMessageChunk[] = [];
+    for await (const chunk of await createModel().stream("hello")) {
+      chunks.push(chunk);
+    }
+    const aggregated = chunks.reduce((total, chunk) => total.concat(chunk));
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks.filter((chunk) => chunk.content).map((chunk) => chunk.content)).toEqual(["The gate ", "opens."]);
+    // output_tokens in message_delta is cumulative, so it replaces the count from message_start
+    expect(aggregated.usage_metadata).toEqual({ input_tokens: 25, output_tokens: 4, total_tokens: 29 });
+    expect(aggregated.response_metadata).toMatchObject({ stop_reason: "end_turn" });
+  });
+});
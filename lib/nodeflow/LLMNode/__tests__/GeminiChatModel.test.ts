@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LLMNodeTools } from "@/lib/nodeflow/LLMNode/LLMNodeTools";
+import { GeminiChatModel } from "@/lib/nodeflow/LLMNode/providers";
+import { geminiSafetySettings } from "@/lib/models/llm-provider-model";
+
+/**
+ * Request bodies sent to the stubbed Gemini API, by model
+ */
+const requests: { model: string; body: any }[] = [];
+
+function reply(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+}
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const model = decodeURIComponent(url.match(/models\/([^:]+):/)![1]);
+    requests.push({ model, body: JSON.parse(init.body as string) });
+    if (model === "broken") {
+      return reply(400, { error: { message: "bad request" } });
+    }
+    return reply(200, {
+      candidates: [{ content: { parts: [{ text: `reply from ${model}` }] }, finishReason: "STOP" }],
+      usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 3, totalTokenCount: 8 },
+    });
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("GeminiChatModel safety settings", () => {
+  it("sends the configured safety settings and leaves them out when unset", async () => {
+    const safetySettings = geminiSafetySettings("BLOCK_ONLY_HIGH");
+    await new GeminiChatModel({ model: "models/gemini-pro", apiKey: "key", safetySettings }).invoke("hello");
+    await new GeminiChatModel({ model: "gemini-flash", apiKey: "key" }).invoke("hello");
+
+    expect(requests[0].model).toBe("gemini-pro");
+    expect(requests[0].body.safetySettings).toEqual(safetySettings);
+    expect(requests[0].body.safetySettings).toContainEqual({ category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" });
+    expect(requests[1].body).not.toHaveProperty("safetySettings");
+  });
+
+  it("gives each endpoint of a fallback chain its own safety settings", async () => {
+    const result = await LLMNodeTools.invokeLLM("system", "hello", {
+      llmType: "gemini",
+      modelName: "broken",
+      apiKey: "key",
+      safetySettings: geminiSafetySettings("BLOCK_NONE"),
+      fallbacks: [
+        { llmType: "gemini", modelName: "broken", apiKey: "key" },
+        { llmType: "gemini", modelName: "strict", apiKey: "key", safetySettings: geminiSafetySettings("BLOCK_LOW_AND_ABOVE") },
+      ],
+      retryPolicy: { maxRetries: 0 },
+    });
+
+    expect(result.content).toBe("reply from strict");
+    expect(requests.map(({ model, body }) => [model, body.safetySettings?.[0]?.threshold])).toEqual([
+      ["broken", "BLOCK_NONE"],
+      ["broken", undefined],
+      ["strict", "BLOCK_LOW_AND_ABOVE"],
+    ]);
+  });
+});
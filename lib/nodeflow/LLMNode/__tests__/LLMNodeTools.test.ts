@@ -0,0 +1,223 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { LLMConfig, LLMNodeTools } from "@/lib/nodeflow/LLMNode/LLMNodeTools";
+import { getBackoffDelay, isTransientError } from "@/lib/nodeflow/LLMNode/providers/retry";
+import { UsageLedger } from "@/lib/core/usage-ledger";
+
+/**
+ * A stub OpenAI-compatible server. Each model name has a queue of scripted
+ * replies; once a queue is exhausted the model answers normally.
+ */
+type StubReply =
+  | { status: number; error: string }
+  | { delayMs: number }
+  | { streamThenDrop: string }
+  | { emptyStream: true };
+
+const scripts = new Map<string, StubReply[]>();
+const requests: string[] = [];
+let server: Server;
+let baseUrl: string;
+
+function sendCompletion(res: ServerResponse, model: string, stream: boolean) {
+  const content = `reply from ${model}`;
+  if (!stream) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({
+      id: "chatcmpl-stub",
+      object: "chat.completion",
+      created: 0,
+      model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    }));
+    return;
+  }
+
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  for (const piece of content.split(" ")) {
+    res.write(`data: ${JSON.stringify({
+      id: "chatcmpl-stub",
+      object: "chat.completion.chunk",
+      created: 0,
+      model,
+      choices: [{ index: 0, delta: { content: `${piece} ` }, finish_reason: null }],
+    })}\n\n`);
+  }
+  res.end("data: [DONE]\n\n");
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  const { model, stream } = JSON.parse(body);
+  requests.push(model);
+
+  const reply = scripts.get(model)?.shift();
+  if (!reply) {
+    sendCompletion(res, model, !!stream);
+  } else if ("status" in reply) {
+    res.writeHead(reply.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { message: reply.error, type: "stub_error" } }));
+  } else if ("emptyStream" in reply) {
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    res.end("data: [DONE]\n\n");
+  } else if ("delayMs" in reply) {
+    setTimeout(() => sendCompletion(res, model, !!stream), reply.delayMs);
+  } else {
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    res.write(`data: ${JSON.stringify({
+      id: "chatcmpl-stub",
+      object: "chat.completion.chunk",
+      created: 0,
+      model,
+      choices: [{ index: 0, delta: { content: reply.streamThenDrop }, finish_reason: null }],
+    })}\n\n`);
+    setTimeout(() => res.destroy(), 20);
+  }
+}
+
+function createConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+  return {
+    llmType: "openai",
+    modelName: "primary",
+    apiKey: "test-key",
+    baseUrl,
+    retryPolicy: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, timeoutMs: 1000 },
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    handle(req, res).catch(() => res.destroy());
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  scripts.clear();
+  requests.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("LLMNodeTools retry and fallback", () => {
+  it("retries a rate-limited request on the same endpoint", async () => {
+    scripts.set("primary", [{ status: 429, error: "rate limited" }, { status: 502, error: "bad gateway" }]);
+
+    const result = await LLMNodeTools.invokeLLM("system", "user", createConfig());
+
+    expect(result.content).toBe("reply from primary");
+    expect(result.respondedBy).toMatchObject({ llmType: "openai", modelName: "primary", fallbackIndex: 0, attempts: 3 });
+    expect(requests).toEqual(["primary", "primary", "primary"]);
+  });
+
+  it("moves to the next endpoint when retries run out", async () => {
+    scripts.set("primary", Array(3).fill({ status: 503, error: "overloaded" }));
+
+    const result = await LLMNodeTools.invokeLLM("system", "user", createConfig({
+      fallbacks: [{ configId: "backup", configName: "Backup", llmType: "openai", modelName: "secondary", apiKey: "test-key", baseUrl }],
+    }));
+
+    expect(result.content).toBe("reply from secondary");
+    expect(result.respondedBy).toMatchObject({ configId: "backup", configName: "Backup", modelName: "secondary", fallbackIndex: 1, attempts: 4 });
+  });
+
+  it("does not retry errors that are not transient", async () => {
+    scripts.set("primary", [{ status: 401, error: "invalid api key" }]);
+
+    const result = await LLMNodeTools.invokeLLM("system", "user", createConfig({
+      fallbacks: [{ llmType: "openai", modelName: "secondary", apiKey: "test-key", baseUrl }],
+    }));
+
+    expect(requests).toEqual(["primary", "secondary"]);
+    expect(result.respondedBy.fallbackIndex).toBe(1);
+  });
+
+  it("throws the last error once every endpoint has failed", async () => {
+    scripts.set("primary", [{ status: 400, error: "bad request" }]);
+    scripts.set("secondary", [{ status: 400, error: "still bad" }]);
+
+    await expect(LLMNodeTools.invokeLLM("system", "user", createConfig({
+      fallbacks: [{ llmType: "openai", modelName: "secondary", apiKey: "test-key", baseUrl }],
+    }))).rejects.toThrow(/still bad/);
+  });
+
+  it("retries a request that exceeds the timeout", async () => {
+    scripts.set("primary", [{ delayMs: 500 }]);
+
+    const result = await LLMNodeTools.invokeLLM("system", "user", createConfig({
+      retryPolicy: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 150 },
+    }));
+
+    expect(result.content).toBe("reply from primary");
+    expect(result.respondedBy.attempts).toBe(2);
+  });
+
+  it("falls back while streaming as long as nothing was emitted", async () => {
+    scripts.set("primary", [{ status: 429, error: "rate limited" }]);
+    const chunks: string[] = [];
+
+    const result = await LLMNodeTools.streamLLM(
+      "system",
+      "user",
+      createConfig({ retryPolicy: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 1000 }, fallbacks: [{ llmType: "openai", modelName: "secondary", apiKey: "test-key", baseUrl }] }),
+      chunk => chunks.push(chunk),
+    );
+
+    expect(result.content.trim()).toBe("reply from secondary");
+    expect(chunks.join("")).toBe(result.content);
+    expect(result.respondedBy.fallbackIndex).toBe(1);
+  });
+
+  it("records only the streamed attempt that produced a reply", async () => {
+    scripts.set("primary", [{ emptyStream: true }]);
+    const record = vi.spyOn(UsageLedger, "record").mockResolvedValue(null);
+
+    const result = await LLMNodeTools.streamLLM(
+      "system",
+      "user",
+      createConfig({ retryPolicy: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 1000 }, fallbacks: [{ llmType: "openai", modelName: "secondary", apiKey: "test-key", baseUrl }] }),
+    );
+
+    expect(result.content.trim()).toBe("reply from secondary");
+    expect(requests).toEqual(["primary", "secondary"]);
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record.mock.calls[0][0]).toMatchObject({ modelName: "secondary" });
+  });
+
+  it("does not retry a stream that already emitted text", async () => {
+    scripts.set("primary", [{ streamThenDrop: "partial " }]);
+    const chunks: string[] = [];
+
+    await expect(LLMNodeTools.streamLLM("system", "user", createConfig(), chunk => chunks.push(chunk))).rejects.toThrow();
+
+    expect(chunks).toEqual(["partial "]);
+    expect(requests).toEqual(["primary"]);
+  });
+});
+
+describe("retry helpers", () => {
+  it("classifies transient errors by status and network failure", () => {
+    expect(isTransientError({ status: 429 })).toBe(true);
+    expect(isTransientError({ status: 529 })).toBe(true);
+    expect(isTransientError({ status: 401 })).toBe(false);
+    expect(isTransientError(new TypeError("fetch failed"))).toBe(true);
+    expect(isTransientError(new Error("Invalid prompt"))).toBe(false);
+  });
+
+  it("caps the exponential backoff and applies jitter", () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000, timeoutMs: 1000 };
+    expect(getBackoffDelay(0, policy, () => 1)).toBe(100);
+    expect(getBackoffDelay(2, policy, () => 1)).toBe(400);
+    expect(getBackoffDelay(6, policy, () => 1)).toBe(1000);
+    expect(getBackoffDelay(2, policy, () => 0.5)).toBe(200);
+  });
+});
@@ -0,0 +1,170 @@
+import { BaseChatModel, BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { AIMessage, AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { postJson, readServerSentEvents, resolveApiRoot } from "@/lib/nodeflow/LLMNode/providers/http";
+import { toProviderConversation, toUsageMetadata } from "@/lib/nodeflow/LLMNode/providers/messages";
+import { DEFAULT_BASE_URLS } from "@/lib/models/llm-provider-model";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+// Messages API 要求显式给出 max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+export interface AnthropicChatModelFields extends BaseChatModelParams {
+  model: string;
+  apiKey: string;
+  baseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * 直接调用 Anthropic Messages API（/v1/messages）的聊天模型，
+ * 系统提示走顶层 system 字段，token usage 取自 input_tokens / output_tokens。
+ */
+export class AnthropicChatModel extends BaseChatModel {
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+
+  static lc_name(): string {
+    return "AnthropicChatModel";
+  }
+
+  constructor(fields: AnthropicChatModelFields) {
+    super(fields);
+    this.model = fields.model;
+    this.apiKey = fields.apiKey;
+    this.baseUrl = fields.baseUrl?.trim() || DEFAULT_BASE_URLS.anthropic;
+    this.temperature = fields.temperature;
+    this.maxTokens = fields.maxTokens;
+    this.topP = fields.topP;
+    this.topK = fields.topK;
+    this.stopSequences = fields.stopSequences;
+  }
+
+  _llmType(): string {
+    return "anthropic";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+    const usage = data.usage
+      ? toUsageMetadata(this.countInputTokens(data.usage), data.usage.output_tokens ?? 0)
+      : undefined;
+
+    return {
+      generations: [{
+        text,
+        message: new AIMessage({
+          content: text,
+          usage_metadata: usage,
+          response_metadata: { model: data.model, stop_reason: data.stop_reason },
+        }),
+      }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new Error("Anthropic returned an empty stream");
+    }
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: string | undefined;
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      const event = JSON.parse(data);
+
+      if (event.type === "message_start") {
+        inputTokens = this.countInputTokens(event.message?.usage);
+        outputTokens = event.message?.usage?.output_tokens ?? 0;
+      } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        const text: string = event.delta.text;
+        yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+        await runManager?.handleLLMNewToken(text);
+      } else if (event.type === "message_delta") {
+        // message_delta 中的 output_tokens 为累计值
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        stopReason = event.delta?.stop_reason ?? stopReason;
+      } else if (event.type === "error") {
+        throw new Error(`Anthropic stream error: ${event.error?.message || data}`);
+      }
+    }
+
+    // usage 只在最后一个块上给出，避免 AIMessageChunk.concat 重复累加
+    yield new ChatGenerationChunk({
+      text: "",
+      message: new AIMessageChunk({
+        content: "",
+        usage_metadata: toUsageMetadata(inputTokens, outputTokens),
+        response_metadata: { stop_reason: stopReason },
+      }),
+    });
+  }
+
+  private countInputTokens(usage: any): number {
+    if (!usage) return 0;
+    // 命中或写入提示缓存的 token 不计入 input_tokens，但同样属于本次提示
+    return (usage.input_tokens ?? 0)
+      + (usage.cache_creation_input_tokens ?? 0)
+      + (usage.cache_read_input_tokens ?? 0);
+  }
+
+  private request(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    stream: boolean,
+  ): Promise<Response> {
+    const { system, turns } = toProviderConversation(messages);
+    const stopSequences = options.stop ?? this.stopSequences;
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      messages: turns,
+      max_tokens: this.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+    };
+    if (system) body.system = system;
+    if (this.temperature !== undefined) body.temperature = this.temperature;
+    if (this.topP !== undefined) body.top_p = this.topP;
+    if (this.topK !== undefined) body.top_k = this.topK;
+    if (stopSequences?.length) body.stop_sequences = stopSequences;
+
+    return postJson(
+      "Anthropic",
+      `${resolveApiRoot(this.baseUrl, "/v1")}/messages`,
+      {
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        // 应用在浏览器中直接请求，需显式允许跨域调用
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      body,
+      options.signal,
+    );
+  }
+}
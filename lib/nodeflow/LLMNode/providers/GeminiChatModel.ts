@@ -0,0 +1,207 @@
+import { BaseChatModel, BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { AIMessage, AIMessageChunk, BaseMessage, UsageMetadata } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { postJson, readServerSentEvents, resolveApiRoot } from "@/lib/nodeflow/LLMNode/providers/http";
+import { toProviderConversation, toUsageMetadata } from "@/lib/nodeflow/LLMNode/providers/messages";
+import { DEFAULT_BASE_URLS, GeminiSafetySetting } from "@/lib/models/llm-provider-model";
+
+export interface GeminiChatModelFields extends BaseChatModelParams {
+  model: string;
+  apiKey: string;
+  baseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  seed?: number;
+  stopSequences?: string[];
+  safetySettings?: GeminiSafetySetting[];
+}
+
+/**
+ * 直接调用 Google Gemini generateContent / streamGenerateContent 接口的聊天模型，
+ * 系统提示走 systemInstruction，token usage 取自 usageMetadata；
+ * 设置了 safetySettings 时随请求发送各类别的拦截阈值，未设置时使用 Google 的默认阈值。
+ */
+export class GeminiChatModel extends BaseChatModel {
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  seed?: number;
+  stopSequences?: string[];
+  safetySettings?: GeminiSafetySetting[];
+
+  static lc_name(): string {
+    return "GeminiChatModel";
+  }
+
+  constructor(fields: GeminiChatModelFields) {
+    super(fields);
+    // 模型列表接口返回的名称带有 "models/" 前缀
+    this.model = fields.model.replace(/^models\//, "");
+    this.apiKey = fields.apiKey;
+    this.baseUrl = fields.baseUrl?.trim() || DEFAULT_BASE_URLS.gemini;
+    this.temperature = fields.temperature;
+    this.maxTokens = fields.maxTokens;
+    this.topP = fields.topP;
+    this.topK = fields.topK;
+    this.frequencyPenalty = fields.frequencyPenalty;
+    this.presencePenalty = fields.presencePenalty;
+    this.seed = fields.seed;
+    this.stopSequences = fields.stopSequences;
+    this.safetySettings = fields.safetySettings;
+  }
+
+  _llmType(): string {
+    return "gemini";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+    const text = this.extractText(data);
+
+    if (!text) {
+      this.throwIfBlocked(data);
+    }
+
+    return {
+      generations: [{
+        text,
+        message: new AIMessage({
+          content: text,
+          usage_metadata: this.extractUsage(data),
+          response_metadata: { finish_reason: data.candidates?.[0]?.finishReason },
+        }),
+      }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new Error("Gemini returned an empty stream");
+    }
+
+    let usage: UsageMetadata | undefined;
+    let finishReason: string | undefined;
+    let received = false;
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      const chunk = JSON.parse(data);
+      const text = this.extractText(chunk);
+
+      // 每个分块的 usageMetadata 都是截至当前的累计值，只保留最后一次
+      usage = this.extractUsage(chunk) ?? usage;
+      finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+
+      if (text) {
+        received = true;
+        yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+        await runManager?.handleLLMNewToken(text);
+      } else if (!received) {
+        this.throwIfBlocked(chunk);
+      }
+    }
+
+    yield new ChatGenerationChunk({
+      text: "",
+      message: new AIMessageChunk({
+        content: "",
+        usage_metadata: usage,
+        response_metadata: { finish_reason: finishReason },
+      }),
+    });
+  }
+
+  private extractText(data: any): string {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    // 思考模型的推理片段带 thought 标记，不计入回复正文
+    return parts
+      .filter((part: any) => typeof part.text === "string" && !part.thought)
+      .map((part: any) => part.text)
+      .join("");
+  }
+
+  private extractUsage(data: any): UsageMetadata | undefined {
+    const metadata = data.usageMetadata;
+    if (!metadata) return undefined;
+
+    // 思考模型的推理 token 单独计在 thoughtsTokenCount，同样按输出计费
+    return toUsageMetadata(
+      metadata.promptTokenCount ?? 0,
+      (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+      metadata.totalTokenCount,
+    );
+  }
+
+  private throwIfBlocked(data: any): void {
+    const blockReason = data.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new Error(`Gemini blocked the prompt: ${blockReason}`);
+    }
+
+    const finishReason = data.candidates?.[0]?.finishReason;
+    if (finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT") {
+      throw new Error(`Gemini blocked the response: ${finishReason}`);
+    }
+  }
+
+  private request(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    stream: boolean,
+  ): Promise<Response> {
+    const { system, turns } = toProviderConversation(messages);
+    const stopSequences = options.stop ?? this.stopSequences;
+
+    const generationConfig: Record<string, unknown> = {};
+    if (this.temperature !== undefined) generationConfig.temperature = this.temperature;
+    if (this.maxTokens !== undefined) generationConfig.maxOutputTokens = this.maxTokens;
+    if (this.topP !== undefined) generationConfig.topP = this.topP;
+    if (this.topK !== undefined) generationConfig.topK = this.topK;
+    if (this.frequencyPenalty !== undefined) generationConfig.frequencyPenalty = this.frequencyPenalty;
+    if (this.presencePenalty !== undefined) generationConfig.presencePenalty = this.presencePenalty;
+    if (this.seed !== undefined) generationConfig.seed = this.seed;
+    if (stopSequences?.length) generationConfig.stopSequences = stopSequences;
+
+    const body: Record<string, unknown> = {
+      contents: turns.map(turn => ({
+        role: turn.role === "assistant" ? "model" : "user",
+        parts: [{ text: turn.content }],
+      })),
+      generationConfig,
+    };
+    if (system) {
+      body.systemInstruction = { parts: [{ text: system }] };
+    }
+    if (this.safetySettings?.length) {
+      body.safetySettings = this.safetySettings;
+    }
+
+    const method = stream ? "streamGenerateContent?alt=sse" : "generateContent";
+    return postJson(
+      "Gemini",
+      `${resolveApiRoot(this.baseUrl, "/v1beta")}/models/${encodeURIComponent(this.model)}:${method}`,
+      { "x-goog-api-key": this.apiKey },
+      body,
+      options.signal,
+    );
+  }
+}
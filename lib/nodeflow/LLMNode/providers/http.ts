@@ -0,0 +1,98 @@
+/**
+ * 原生 HTTP 适配器在非 2xx 响应时抛出的错误，保留状态码供上层判断是否可重试
+ */
+export class ProviderRequestError extends Error {
+  readonly status: number;
+  readonly provider: string;
+
+  constructor(provider: string, status: number, message: string) {
+    super(`${provider} request failed (${status}): ${message}`);
+    this.name = "ProviderRequestError";
+    this.status = status;
+    this.provider = provider;
+  }
+}
+
+/**
+ * 去掉末尾斜杠；若地址未带版本段则补上 defaultVersion（如 "/v1"、"/v1beta"）
+ */
+export function resolveApiRoot(baseUrl: string, defaultVersion: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  return /\/v\d+(beta\d*|alpha\d*)?$/.test(trimmed) ? trimmed : `${trimmed}${defaultVersion}`;
+}
+
+export async function postJson(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new ProviderRequestError(provider, response.status, await readErrorMessage(response));
+  }
+  return response;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  try {
+    const data = JSON.parse(text);
+    // Anthropic 与 Gemini 都把错误放在 error.message 中
+    return data?.error?.message || data?.message || text || response.statusText;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+/**
+ * 逐条解析 text/event-stream，产出每个事件的 event 名与 data 字符串
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseEvent = (raw: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || "";
+
+      for (const raw of events) {
+        const parsed = parseEvent(raw);
+        if (parsed) yield parsed;
+      }
+    }
+
+    const parsed = parseEvent(buffer);
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,125 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatOllama } from "@langchain/ollama";
+import type { LLMConfig } from "@/lib/nodeflow/LLMNode/LLMNodeTools";
+import { LLMType } from "@/lib/models/llm-provider-model";
+import { AnthropicChatModel } from "@/lib/nodeflow/LLMNode/providers/AnthropicChatModel";
+import { GeminiChatModel } from "@/lib/nodeflow/LLMNode/providers/GeminiChatModel";
+
+export { AnthropicChatModel } from "@/lib/nodeflow/LLMNode/providers/AnthropicChatModel";
+export { GeminiChatModel } from "@/lib/nodeflow/LLMNode/providers/GeminiChatModel";
+export { ProviderRequestError } from "@/lib/nodeflow/LLMNode/providers/http";
+
+type ChatModelFactory = (config: LLMConfig, model: string) => BaseChatModel;
+
+const DEFAULT_SETTINGS = {
+  temperature: 0.7,
+  maxRetries: 0,
+  topP: 0.7,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  topK: 40,
+  repeatPenalty: 1.1,
+  streaming: false,
+  streamUsage: true, // 默认启用token usage追踪
+};
+
+// 只保留已设置的字段，未设置的采样参数不出现在请求体中
+function definedOnly(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+function createOpenAIModel(
+  config: LLMConfig,
+  model: string,
+  defaultHeaders?: Record<string, string>,
+  extraBody: Record<string, unknown> = {},
+): ChatOpenAI {
+  return new ChatOpenAI({
+    modelName: model,
+    openAIApiKey: config.apiKey,
+    configuration: {
+      baseURL: config.baseUrl?.trim() || undefined,
+      defaultHeaders,
+    },
+    temperature: config.temperature ?? DEFAULT_SETTINGS.temperature,
+    maxRetries: config.maxRetries ?? DEFAULT_SETTINGS.maxRetries,
+    topP: config.topP ?? DEFAULT_SETTINGS.topP,
+    frequencyPenalty: config.frequencyPenalty ?? DEFAULT_SETTINGS.frequencyPenalty,
+    presencePenalty: config.presencePenalty ?? DEFAULT_SETTINGS.presencePenalty,
+    maxTokens: config.maxTokens,
+    stop: config.stopSequences,
+    modelKwargs: definedOnly({ seed: config.seed, ...extraBody }),
+    streaming: config.streaming ?? DEFAULT_SETTINGS.streaming,
+    streamUsage: config.streamUsage ?? DEFAULT_SETTINGS.streamUsage,
+  });
+}
+
+/**
+ * 各供应商的模型工厂。Anthropic 与 Gemini 走原生接口，
+ * 只传用户显式设置的采样参数（部分模型不允许同时指定 temperature 与 top_p）。
+ */
+const FACTORIES: Record<LLMType, ChatModelFactory> = {
+  openai: (config, model) => createOpenAIModel(config, model),
+  // OpenRouter 等网关通过这两个请求头识别调用方应用；
+  // top_k / min_p / repetition_penalty 不在 OpenAI 协议内，但多数网关与本地推理服务接受
+  "openai-compatible": (config, model) => createOpenAIModel(config, model, {
+    ...(typeof window !== "undefined" ? { "HTTP-Referer": window.location.origin } : {}),
+    "X-Title": "Narratium",
+  }, {
+    top_k: config.topK,
+    min_p: config.minP,
+    repetition_penalty: config.repeatPenalty,
+  }),
+  ollama: (config, model) => new ChatOllama({
+    model,
+    baseUrl: config.baseUrl?.trim() || "http://localhost:11434",
+    temperature: config.temperature ?? DEFAULT_SETTINGS.temperature,
+    topK: config.topK ?? DEFAULT_SETTINGS.topK,
+    topP: config.topP ?? DEFAULT_SETTINGS.topP,
+    frequencyPenalty: config.frequencyPenalty ?? DEFAULT_SETTINGS.frequencyPenalty,
+    presencePenalty: config.presencePenalty ?? DEFAULT_SETTINGS.presencePenalty,
+    repeatPenalty: config.repeatPenalty ?? DEFAULT_SETTINGS.repeatPenalty,
+    numPredict: config.maxTokens,
+    seed: config.seed,
+    stop: config.stopSequences,
+    streaming: config.streaming ?? DEFAULT_SETTINGS.streaming,
+  }),
+  anthropic: (config, model) => new AnthropicChatModel({
+    model,
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    temperature: config.temperature ?? DEFAULT_SETTINGS.temperature,
+    maxTokens: config.maxTokens,
+    topP: config.topP,
+    topK: config.topK,
+    stopSequences: config.stopSequences,
+    maxRetries: config.maxRetries ?? DEFAULT_SETTINGS.maxRetries,
+  }),
+  gemini: (config, model) => new GeminiChatModel({
+    model,
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    temperature: config.temperature ?? DEFAULT_SETTINGS.temperature,
+    maxTokens: config.maxTokens,
+    topP: config.topP,
+    topK: config.topK,
+    frequencyPenalty: config.frequencyPenalty,
+    presencePenalty: config.presencePenalty,
+    seed: config.seed,
+    stopSequences: config.stopSequences,
+    safetySettings: config.safetySettings,
+    maxRetries: config.maxRetries ?? DEFAULT_SETTINGS.maxRetries,
+  }),
+};
+
+/**
+ * 按 llmType 创建对应供应商的 LangChain 聊天模型，invoke / stream 及 usage_metadata 的形态对所有供应商一致
+ */
+export function createChatModel(config: LLMConfig): BaseChatModel {
+  const factory = FACTORIES[config.llmType];
+  if (!factory) {
+    throw new Error(`Unsupported LLM type: ${config.llmType}`);
+  }
+  return factory(config, config.modelName?.trim() || "");
+}
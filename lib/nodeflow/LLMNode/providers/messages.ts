@@ -0,0 +1,67 @@
+import { BaseMessage, UsageMetadata } from "@langchain/core/messages";
+
+export interface ProviderTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ProviderConversation {
+  system: string;
+  turns: ProviderTurn[];
+}
+
+// 对话须以 user 开头的供应商（Anthropic、Gemini），在历史以角色开场白开头时补上的占位消息
+const CONVERSATION_START = "[Start a new chat]";
+
+export function getMessageText(message: BaseMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map(part => (part.type === "text" && "text" in part ? String(part.text) : ""))
+    .join("");
+}
+
+/**
+ * 将 LangChain 消息整理为 system + 严格交替的 user/assistant 轮次：
+ * - 开头连续的 system 消息合并为独立的系统提示；
+ * - 历史中间的 system 消息（深度注入的世界书、摘要等）按 user 发送，保持其原有位置；
+ * - 相邻同角色消息合并，首条为 assistant 时补一条占位 user 消息。
+ */
+export function toProviderConversation(messages: BaseMessage[]): ProviderConversation {
+  const systemParts: string[] = [];
+  const turns: ProviderTurn[] = [];
+
+  for (const message of messages) {
+    const type = message._getType();
+    const content = getMessageText(message);
+    if (!content.trim()) continue;
+
+    if (type === "system" && turns.length === 0) {
+      systemParts.push(content);
+      continue;
+    }
+
+    const role = type === "ai" ? "assistant" : "user";
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.content += `\n\n${content}`;
+    } else {
+      turns.push({ role, content });
+    }
+  }
+
+  if (turns.length === 0 || turns[0].role === "assistant") {
+    turns.unshift({ role: "user", content: CONVERSATION_START });
+  }
+
+  return { system: systemParts.join("\n\n"), turns };
+}
+
+export function toUsageMetadata(inputTokens: number, outputTokens: number, totalTokens?: number): UsageMetadata {
+  return {
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: totalTokens ?? inputTokens + outputTokens,
+  };
+}
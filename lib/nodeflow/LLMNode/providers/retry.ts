@@ -0,0 +1,109 @@
+export interface RetryPolicy {
+  // 每个端点在首次请求之外的最大重试次数
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // 单次请求的超时；流式请求按“两次输出之间的间隔”计时，避免长回复被误判超时
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  timeoutMs: 120000,
+};
+
+// 429 限流、529 过载（Anthropic）及网关/服务端的临时错误
+const TRANSIENT_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+const NETWORK_ERROR_PATTERN = /fetch failed|failed to fetch|networkerror|network error|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN/i;
+
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.status_code ?? error?.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * 判断错误是否值得对同一端点重试：限流、服务端临时故障与网络中断可重试，
+ * 鉴权失败、参数错误等 4xx 直接交给下一个备用端点。
+ */
+export function isTransientError(error: any): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return TRANSIENT_STATUS.has(status);
+  }
+
+  if (error?.name === "APIConnectionError" || error?.name === "APIConnectionTimeoutError") {
+    return true;
+  }
+  return NETWORK_ERROR_PATTERN.test(String(error?.message ?? error));
+}
+
+/**
+ * 指数退避加全抖动（full jitter）：在 [0, min(maxDelay, baseDelay * 2^retry)] 内随机取值，
+ * 避免多个请求在同一时刻集中重试
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(random() * ceiling);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 单次请求的中断信号：调用方取消或超时都会中断请求。
+ * touch() 重新开始计时，流式请求在每收到一块输出时调用。
+ */
+export class AttemptSignal {
+  private readonly controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+  private expired = false;
+  private readonly onParentAbort = () => this.controller.abort(this.parent?.reason);
+
+  constructor(private readonly timeoutMs: number, private readonly parent?: AbortSignal) {
+    if (parent?.aborted) {
+      this.controller.abort(parent.reason);
+    } else {
+      parent?.addEventListener("abort", this.onParentAbort, { once: true });
+    }
+    this.touch();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get timedOut(): boolean {
+    return this.expired;
+  }
+
+  touch(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.expired = true;
+      this.controller.abort(new Error(`LLM request timed out after ${this.timeoutMs}ms`));
+    }, this.timeoutMs);
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener("abort", this.onParentAbort);
+  }
+}
@@ -2,6 +2,7 @@ import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { MemoryManager, RAGGenerationOptions, MemoryExtractionResult } from "@/lib/core/memory-manager";
 import { MemoryType, MemoryContext } from "@/lib/models/memory-model";
 import { LocalMemoryOperations } from "@/lib/data/roleplay/memory-operation";
+import { ContextBudget } from "@/lib/core/context-budget";
 
 export class MemoryNodeTools extends NodeTool {
   protected static readonly toolType: string = "memory";
@@ -41,9 +42,10 @@ export class MemoryNodeTools extends NodeTool {
     topK: number = 5,
     includeTypes?: MemoryType[],
     useSemanticSearch: boolean = true,
+    dialogueId?: string,
   ): Promise<any> {
     try {
-      const memoryManager = new MemoryManager(apiKey, baseUrl);
+      const memoryManager = new MemoryManager(apiKey, baseUrl, dialogueId);
 
       if (useSemanticSearch) {
         const results = await memoryManager.hybridSearch(characterId, query, {
@@ -70,6 +72,7 @@ export class MemoryNodeTools extends NodeTool {
         const entries = await LocalMemoryOperations.searchMemoriesByText({
           query,
           characterId,
+          dialogueId,
           types: includeTypes,
           maxResults: topK,
         });
@@ -111,9 +114,10 @@ export class MemoryNodeTools extends NodeTool {
     tags: string[] = [],
     importance: number = 0.5,
     metadata: any = {},
+    dialogueId?: string,
   ): Promise<any> {
     try {
-      const memoryManager = new MemoryManager(apiKey, baseUrl);
+      const memoryManager = new MemoryManager(apiKey, baseUrl, dialogueId);
       
       const memoryEntry = await memoryManager.createMemory(
         characterId,
@@ -175,6 +179,8 @@ export class MemoryNodeTools extends NodeTool {
     baseUrl?: string,
     language: "zh" | "en" = "zh",
     maxMemories: number = 5,
+    budget?: ContextBudget,
+    dialogueId?: string,
   ): Promise<{
     enhancedSystemMessage: string;
     memoryPrompt: string;
@@ -191,14 +197,24 @@ export class MemoryNodeTools extends NodeTool {
         maxMemories,
         undefined, // includeTypes
         true, // useSemanticSearch
+        dialogueId,
       );
 
       if (!searchResult.success) {
         return this.createFallbackResult(systemMessage, language);
       }
 
+      // Keep the most relevant memories that fit the remaining context budget
+      const retrievedMemories = budget
+        ? budget.fit("memory", searchResult.results.map((memory: any, index: number) => ({
+          value: memory,
+          text: this.formatMemoriesForPrompt([memory], language),
+          priority: searchResult.results.length - index,
+        })))
+        : searchResult.results;
+
       // Format memories for prompt injection
-      const memoryPrompt = this.formatMemoriesForPrompt(searchResult.results, language);
+      const memoryPrompt = this.formatMemoriesForPrompt(retrievedMemories, language);
 
       // Inject memories into system message
       const enhancedSystemMessage = this.injectMemoriesIntoSystemMessage(systemMessage, memoryPrompt);
@@ -208,8 +224,8 @@ export class MemoryNodeTools extends NodeTool {
       return {
         enhancedSystemMessage,
         memoryPrompt,
-        retrievedMemories: searchResult.results,
-        memoryCount: searchResult.count,
+        retrievedMemories,
+        memoryCount: retrievedMemories.length,
       };
     } catch (error) {
       this.handleError(error as Error, "retrieveAndEnhanceSystemMessage");
@@ -228,6 +244,7 @@ export class MemoryNodeTools extends NodeTool {
     apiKey: string,
     baseUrl?: string,
     language: "zh" | "en" = "zh",
+    dialogueId?: string,
   ): Promise<{
     success: boolean;
     extractedCount: number;
@@ -256,6 +273,7 @@ export class MemoryNodeTools extends NodeTool {
             source: "conversation_extraction",
             context: conversationContext,
           },
+          dialogueId,
         );
         
         if (result.success) {
@@ -283,6 +301,7 @@ export class MemoryNodeTools extends NodeTool {
             source: "conversation_extraction",
             context: conversationContext,
           },
+          dialogueId,
         );
         
         if (result.success) {
@@ -2,6 +2,7 @@ import { NodeBase } from "@/lib/nodeflow/NodeBase";
 import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/types";
 import { MemoryNodeTools } from "./MemoryNodeTools";
 import { NodeToolRegistry } from "../NodeTool";
+import { ContextBudget } from "@/lib/core/context-budget";
 
 export class MemoryRetrievalNode extends NodeBase {
   static readonly nodeName = "memoryRetrieval";
@@ -20,12 +21,14 @@ export class MemoryRetrievalNode extends NodeBase {
 
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     const characterId = input.characterId;
+    const dialogueId = input.dialogueId; // Memories are scoped to the current chat
     const userInput = input.userInput || "";
     const systemMessage = input.systemMessage || "";
     const apiKey = input.apiKey;
     const baseUrl = input.baseUrl;
     const language = input.language || "zh";
     const maxMemories = input.maxMemories || 5;
+    const contextBudget = input.contextBudget as ContextBudget | undefined;
 
     if (!characterId) {
       throw new Error("Character ID is required for MemoryRetrievalNode");
@@ -49,6 +52,8 @@ export class MemoryRetrievalNode extends NodeBase {
       baseUrl,
       language,
       maxMemories,
+      contextBudget,
+      dialogueId,
     ) as {
       enhancedSystemMessage: string;
       memoryPrompt: string;
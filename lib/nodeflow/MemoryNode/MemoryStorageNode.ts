@@ -20,6 +20,7 @@ export class MemoryStorageNode extends NodeBase {
 
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     const characterId = input.characterId;
+    const dialogueId = input.dialogueId; // New memories belong to the current chat
     const userInput = input.userInput || "";
     const fullResponse = input.fullResponse || input.replacedText || "";
     const conversationContext = input.conversationContext || "";
@@ -81,6 +82,7 @@ export class MemoryStorageNode extends NodeBase {
         apiKey,
         baseUrl,
         language,
+        dialogueId,
       ) as {
         success: boolean;
         extractedCount: number;
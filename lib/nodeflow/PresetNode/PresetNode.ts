@@ -2,6 +2,8 @@ import { NodeBase } from "@/lib/nodeflow/NodeBase";
 import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/types";
 import { PresetNodeTools } from "./PresetNodeTools";
 import { NodeToolRegistry } from "../NodeTool";
+import { ContextBudget } from "@/lib/core/context-budget";
+import { MacroContext } from "@/lib/core/macro-engine";
 
 /**
  * 预设节点（PresetNode）
@@ -33,10 +35,16 @@ export class PresetNode extends NodeBase {
    * 关键入参：
    * - characterId：角色 ID，用于选择角色相关的预设
    * - language/username/charName/number/fastModel/systemPresetType：影响模板内容或复杂度
+   * - userInput/maxContextTokens/reservedResponseTokens：用于创建本轮的上下文预算
+   * - presetId：可选，指定要使用的预设（如预览时），缺省为已启用的预设
+   * - dialogueId：当前聊天 ID，用于宏上下文中的最新消息与闲置时长
    *
    * 返回：
    * - systemMessage/userMessage：用于后续节点的标准提示词文本
    * - presetId：可选的预设标识，便于追踪/审计
+   * - assemblyMode：预设选择的组装模式（flattened / messages），供上下文与 LLM 节点使用
+   * - contextBudget：已计入预设与用户输入的上下文预算，供世界书、记忆、上下文节点裁剪
+   * - macroContext：本轮宏上下文（含 {{setvar}} 设置的变量），供世界书节点展开条目中的宏
    */
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     const characterId = input.characterId;
@@ -52,6 +60,16 @@ export class PresetNode extends NodeBase {
       throw new Error("Character ID is required for PresetNode");
     }
 
+    const macroContext = await this.executeTool(
+      "createMacroContext",
+      characterId,
+      input.dialogueId || "",
+      language,
+      username,
+      charName,
+      input.userInput,
+    ) as MacroContext;
+
     const result = await this.executeTool(
       "buildPromptFramework",
       characterId,
@@ -61,12 +79,28 @@ export class PresetNode extends NodeBase {
       number,
       fastModel,
       systemPresetType,
-    ) as { systemMessage: string; userMessage: string; presetId?: string };
+      input.presetId,
+      macroContext,
+    ) as { systemMessage: string; userMessage: string; presetId?: string; assemblyMode: string };
+
+    const contextBudget = await this.executeTool(
+      "createContextBudget",
+      result.systemMessage,
+      result.userMessage,
+      input.userInput,
+      {
+        maxContextTokens: input.maxContextTokens,
+        reservedResponseTokens: input.reservedResponseTokens,
+      },
+    ) as ContextBudget;
 
     return {
       systemMessage: result.systemMessage,
       userMessage: result.userMessage,
       presetId: result.presetId,
+      assemblyMode: result.assemblyMode,
+      contextBudget,
+      macroContext,
     };
   }
 } 
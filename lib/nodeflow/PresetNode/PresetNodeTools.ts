@@ -2,8 +2,12 @@ import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { PresetOperations } from "@/lib/data/roleplay/preset-operation";
 import { PresetAssembler } from "@/lib/core/preset-assembler";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { Character } from "@/lib/core/character";
 import { PromptKey } from "@/lib/prompts/preset-prompts";
+import { PromptAssemblyMode } from "@/lib/core/message-assembler";
+import { ContextBudget, ContextBudgetOptions } from "@/lib/core/context-budget";
+import { MacroContext } from "@/lib/core/macro-engine";
 
 /**
  * 预设工具类：提供供 `PresetNode` 调用的静态方法。
@@ -51,10 +55,10 @@ export class PresetNodeTools extends NodeTool {
    *
    * 流程：
    * 1) 读取角色并构造 `Character`（含描述/性格/场景等基础信息）；
-   * 2) 读取启用的预设，按有序列表取出提示片段；
+   * 2) 读取指定的预设（未指定时为启用的预设），按有序列表取出提示片段；
    * 3) 用角色信息补全缺失片段内容（`enrichPromptsWithCharacterInfo`）；
-   * 4) 交给 `PresetAssembler.assemblePrompts` 产出 `systemMessage/userMessage`；
-   * 5) 返回提示词与所使用的 `presetId`。
+   * 4) 交给 `PresetAssembler.assemblePrompts` 产出 `systemMessage/userMessage`，片段中的宏按 `macros` 展开；
+   * 5) 返回提示词、所使用的 `presetId` 及该预设的组装模式 `assemblyMode`。
    */
   static async buildPromptFramework(
     characterId: string,
@@ -64,20 +68,22 @@ export class PresetNodeTools extends NodeTool {
     number?: number,
     fastModel: boolean = false,
     systemPresetType: PromptKey = "mirror_realm",
-  ): Promise<{ systemMessage: string; userMessage: string; presetId?: string }> {
+    presetId?: string,
+    macros?: MacroContext,
+  ): Promise<{ systemMessage: string; userMessage: string; presetId?: string; assemblyMode: PromptAssemblyMode }> {
     try {
       const characterRecord = await LocalCharacterRecordOperations.getCharacterById(characterId);
       const character = new Character(characterRecord);
       
       const allPresets = await PresetOperations.getAllPresets();
-      const enabledPreset = allPresets.find(preset => preset.enabled === true);
+      const preset = presetId
+        ? allPresets.find(candidate => candidate.id === presetId)
+        : allPresets.find(candidate => candidate.enabled === true);
       
       let orderedPrompts: any[] = [];
-      let presetId: string | undefined = undefined;
       
-      if (enabledPreset && enabledPreset.id) {
-        orderedPrompts = await PresetOperations.getOrderedPrompts(enabledPreset.id);
-        presetId = enabledPreset.id;
+      if (preset && preset.id) {
+        orderedPrompts = await PresetOperations.getOrderedPrompts(preset.id);
       } else {
         console.log(`No enabled preset found, using ${systemPresetType} system framework for character ${characterId}`);
       }
@@ -89,20 +95,80 @@ export class PresetNodeTools extends NodeTool {
         enrichedPrompts,
         language,
         fastModel,
-        { username, charName: charName || character.characterData.name, number },
+        { username, charName: charName || character.characterData.name, number, macros },
         systemPresetType,
       );
 
       return { 
         systemMessage: systemMessage, 
         userMessage: userMessage,
-        presetId: presetId,
+        presetId: preset?.id,
+        assemblyMode: preset?.assemblyMode || "flattened",
       };
     } catch (error) {
       this.handleError(error as Error, "buildPromptFramework");
     }
   }
 
+  /**
+   * 创建本轮提示词装配共用的宏上下文。
+   *
+   * - `lastMessage` 为本轮用户输入；没有输入时取当前分支最新的回复；
+   * - `lastMessageTime` 取当前分支最新消息节点的创建时间，供 `{{idle_duration}}` 使用；
+   *   切换聊天或分支不会刷新该时间；
+   * - `variables` 由预设与世界书共用，预设中 `{{setvar}}` 设置的变量可在世界书条目中读取；
+   *   初始值复制自当前分支上最近一个保存了变量的节点，本轮结束后随新节点保存，切换分支时各分支互不影响。
+   */
+  static async createMacroContext(
+    characterId: string,
+    dialogueId: string,
+    language: "zh" | "en" = "zh",
+    username?: string,
+    charName?: string,
+    userInput: string = "",
+  ): Promise<MacroContext> {
+    try {
+      const characterRecord = await LocalCharacterRecordOperations.getCharacterById(characterId);
+      const dialogueTree = dialogueId ? await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId) : null;
+      const nodePath = dialogueTree && dialogueTree.current_nodeId !== "root"
+        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(dialogueId, dialogueTree.current_nodeId)
+        : [];
+
+      return {
+        language,
+        user: username,
+        char: charName || new Character(characterRecord).characterData.name,
+        lastMessage: userInput || nodePath[nodePath.length - 1]?.assistantResponse || "",
+        lastMessageTime: nodePath[nodePath.length - 1]?.createdAt,
+        variables: { ...[...nodePath].reverse().find(node => node.macroVariables)?.macroVariables },
+      };
+    } catch (error) {
+      this.handleError(error as Error, "createMacroContext");
+    }
+  }
+
+  /**
+   * 创建本轮对话的上下文预算，并预先计入必定发送的部分：
+   * 预设模板（去掉待填充的占位符）与用户输入。
+   * 后续的世界书、记忆、聊天历史节点在剩余额度内按优先级裁剪。
+   */
+  static async createContextBudget(
+    systemMessage: string,
+    userMessage: string,
+    userInput: string = "",
+    options: ContextBudgetOptions = {},
+  ): Promise<ContextBudget> {
+    try {
+      const budget = await ContextBudget.create(options);
+      const template = `${systemMessage}\n${userMessage}`.replace(/\{\{(chatHistory|userInput|memory)\}\}/g, "");
+      budget.reserve("preset", template);
+      budget.reserve("userInput", userInput);
+      return budget;
+    } catch (error) {
+      this.handleError(error as Error, "createContextBudget");
+    }
+  }
+
   /**
    * 将角色的描述/性格/场景等信息注入到预设片段中，
    * 仅在片段缺失内容时进行补全，不覆盖已有自定义内容。
@@ -1,7 +1,8 @@
 import { NodeBase } from "@/lib/nodeflow/NodeBase";
 import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/types";
-import { RegexNodeTools } from "./RegexNodeTools";
+import { RegexNodeTools, ParsedLLMResponse } from "./RegexNodeTools";
 import { NodeToolRegistry } from "../NodeTool";
+import { RegexScriptTrace } from "@/lib/models/turn-trace-model";
 
 export class RegexNode extends NodeBase {
   static readonly nodeName = "regex";
@@ -19,7 +20,7 @@ export class RegexNode extends NodeBase {
   }
 
   protected async _call(input: NodeInput): Promise<NodeOutput> {
-    let llmResponse = input.llmResponse;
+    const llmResponse = input.llmResponse;
     const characterId = input.characterId;
 
     if (!llmResponse) {
@@ -30,61 +31,28 @@ export class RegexNode extends NodeBase {
       throw new Error("Character ID is required for RegexNode");
     }
 
-    // Extract thinking content from LLM response
-    let thinkingContent = "";
-    const thinkingMatch = llmResponse.match(/<(?:think|thinking)>([\s\S]*?)<\/(?:think|thinking)>/);
-    if (thinkingMatch) {
-      thinkingContent = thinkingMatch[1].trim();
-    }
+    const { thinkingContent, mainContent, fullResponse, nextPrompts, event } = await this.executeTool(
+      "parseResponse",
+      llmResponse,
+    ) as ParsedLLMResponse;
     console.log("thinkingContent", thinkingContent);
 
-    llmResponse = llmResponse
-      .replace(/\n*\s*<think>[\s\S]*?<\/think>\s*\n*/g, "")
-      .replace(/\n*\s*<thinking>[\s\S]*?<\/thinking>\s*\n*/g, "")
-      .trim();
-
-    let mainContent = "";
-    let nextPrompts: string[] = [];
-    let event = "";
-
-    const cleanedResponse = llmResponse
-      .replace(/\s*<\/?output>\s*/g, "")
-      .replace(/\s*<\/?outputFormat>\s*/g, "")
-      .trim();
-
-    const nextPromptsMatch = cleanedResponse.match(/<next_prompts>([\s\S]*?)<\/next_prompts>/);
-    if (nextPromptsMatch) {
-      nextPrompts = nextPromptsMatch[1]
-        .trim()
-        .split("\n")
-        .map((l: string) => l.trim())
-        .filter((l: string) => l.length > 0)
-        .map((l: string) => l.replace(/^[-*]\s*/, "").replace(/^\s*\[|\]\s*$/g, "").trim());
-    }
-
-    const eventsMatch = cleanedResponse.match(/<events>([\s\S]*?)<\/events>/);
-    if (eventsMatch) {
-      event = eventsMatch[1].trim().replace(/\[|\]/g, "");
-    }
-
-    mainContent = cleanedResponse
-      .replace(/\n*\s*<next_prompts>[\s\S]*?<\/next_prompts>\s*\n*/g, "")
-      .replace(/\n*\s*<events>[\s\S]*?<\/events>\s*\n*/g, "")
-      .trim();
-
-    const processedResult = await this.executeTool(
-      "processRegex",
+    const appliedScripts = await this.executeTool(
+      "traceRegex",
       mainContent,
+      thinkingContent,
       characterId,
-    ) as { replacedText: string };
+      input.username, // 展开替换文本中的 {{user}}
+    ) as RegexScriptTrace[];
 
     return {
       thinkingContent,
-      screenContent: processedResult.replacedText,
-      fullResponse: llmResponse,
+      screenContent: mainContent, // 原文；显示类正则在渲染时应用
+      fullResponse,
       nextPrompts,
       event,
       characterId,
+      appliedScripts, // 本轮回复显示时会改动文本的正则脚本
     };
   }
 } 
@@ -1,5 +1,16 @@
 import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { RegexProcessor } from "@/lib/core/regex-processor";
+import { RegexSandbox } from "@/lib/core/regex-sandbox";
+import { RegexPlacement, RegexScript } from "@/lib/models/regex-script-model";
+import { RegexScriptTrace } from "@/lib/models/turn-trace-model";
+
+export interface ParsedLLMResponse {
+  thinkingContent: string;
+  mainContent: string;
+  fullResponse: string;
+  nextPrompts: string[];
+  event: string;
+}
 
 export class RegexNodeTools extends NodeTool {
   protected static readonly toolType: string = "regex";
@@ -28,20 +39,103 @@ export class RegexNodeTools extends NodeTool {
     }
   }
 
-  static async processRegex(
+  /**
+   * 拆分模型输出：思考内容、正文、next_prompts 与 events
+   */
+  static parseResponse(llmResponse: string): ParsedLLMResponse {
+    let thinkingContent = "";
+    const thinkingMatch = llmResponse.match(/<(?:think|thinking)>([\s\S]*?)<\/(?:think|thinking)>/);
+    if (thinkingMatch) {
+      thinkingContent = thinkingMatch[1].trim();
+    }
+
+    const fullResponse = llmResponse
+      .replace(/\n*\s*<think>[\s\S]*?<\/think>\s*\n*/g, "")
+      .replace(/\n*\s*<thinking>[\s\S]*?<\/thinking>\s*\n*/g, "")
+      .trim();
+
+    let nextPrompts: string[] = [];
+    let event = "";
+
+    const cleanedResponse = fullResponse
+      .replace(/\s*<\/?output>\s*/g, "")
+      .replace(/\s*<\/?outputFormat>\s*/g, "")
+      .trim();
+
+    const nextPromptsMatch = cleanedResponse.match(/<next_prompts>([\s\S]*?)<\/next_prompts>/);
+    if (nextPromptsMatch) {
+      nextPrompts = nextPromptsMatch[1]
+        .trim()
+        .split("\n")
+        .map((l: string) => l.trim())
+        .filter((l: string) => l.length > 0)
+        .map((l: string) => l.replace(/^[-*]\s*/, "").replace(/^\s*\[|\]\s*$/g, "").trim());
+    }
+
+    const eventsMatch = cleanedResponse.match(/<events>([\s\S]*?)<\/events>/);
+    if (eventsMatch) {
+      event = eventsMatch[1].trim().replace(/\[|\]/g, "");
+    }
+
+    const mainContent = cleanedResponse
+      .replace(/\n*\s*<next_prompts>[\s\S]*?<\/next_prompts>\s*\n*/g, "")
+      .replace(/\n*\s*<events>[\s\S]*?<\/events>\s*\n*/g, "")
+      .trim();
+
+    return { thinkingContent, mainContent, fullResponse, nextPrompts, event };
+  }
+
+  /**
+   * 流式生成过程中的预览：在 parseResponse 的基础上去掉尚未闭合的
+   * 思考块、next_prompts 与 events，只保留可以展示给用户的正文
+   */
+  static extractStreamingPreview(partialResponse: string): { thinkingContent: string; screenContent: string } {
+    const openThinking = partialResponse.match(/<(think|thinking)>(?![\s\S]*<\/\1>)([\s\S]*)$/);
+    const closedPart = openThinking ? partialResponse.slice(0, openThinking.index) : partialResponse;
+    const parsed = this.parseResponse(closedPart);
+
+    const screenContent = parsed.mainContent
+      .replace(/<(?:next_prompts|events)>[\s\S]*$/, "")
+      .replace(/<\/?[a-zA-Z_]*$/, "")
+      .trim();
+
+    return {
+      thinkingContent: openThinking ? openThinking[2].trim() : parsed.thinkingContent,
+      screenContent,
+    };
+  }
+
+  /**
+   * 正文与思考内容按原文保存，正则脚本在显示与组装提示词时才应用；
+   * 这里只计算本轮回复显示时（修改文本的脚本 + 仅显示的脚本）会改动文本的脚本，供激活追踪记录
+   */
+  static async traceRegex(
     response: string,
+    thinkingContent: string,
     characterId: string,
-  ): Promise<{ replacedText: string}> {
+    username?: string,
+  ): Promise<RegexScriptTrace[]> {
     try {
-      const result = await RegexProcessor.processFullContext(response, {
-        ownerId: characterId,
-      });
+      const scriptSet = await RegexProcessor.loadScripts(characterId, username);
+      const results = await RegexSandbox.applyScripts(scriptSet, [
+        { text: response, targets: RegexProcessor.targetsFor("display", RegexPlacement.AI_OUTPUT, 0) },
+        ...(thinkingContent ? [{ text: thinkingContent, targets: RegexProcessor.targetsFor("display", RegexPlacement.REASONING, 0) }] : []),
+      ]);
+      const appliedScripts = Array.from(new Set(results.flatMap((result) => result.appliedScripts)));
 
-      return {
-        replacedText: result.replacedText,
-      };
+      return this.describeScripts(appliedScripts, scriptSet.scripts);
     } catch (error) {
-      this.handleError(error as Error, "processRegex");
+      this.handleError(error as Error, "traceRegex");
     }
   }
+
+  /**
+   * 将命中的脚本 key 解析为名称，供对话节点记录本轮应用了哪些正则脚本
+   */
+  private static describeScripts(scriptKeys: string[], scripts: RegexScript[]): RegexScriptTrace[] {
+    return scriptKeys.map(scriptKey => ({
+      scriptKey,
+      scriptName: scripts.find(script => script.scriptKey === scriptKey)?.scriptName || scriptKey,
+    }));
+  }
 } 
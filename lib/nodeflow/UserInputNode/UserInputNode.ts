@@ -1,10 +1,14 @@
 // UserInputNode
 // 职责：
 // - 作为工作流的 ENTRY 节点，接收调用方传入的运行参数（characterId、userInput 等）
-// - 不修改内容，不做外部调用，仅把输入规范化并透传给上下文
+// - 把输入透传给上下文；用户输入按 placement 为“用户输入”的正则脚本转换为发送给模型的版本
+//   （先执行修改文本的脚本，再执行仅作用于提示词的脚本，深度为 0）；对话节点仍保存原始输入
 // - 生命周期钩子（beforeExecute/afterExecute）由基类处理日志/计时等通用逻辑
 import { NodeBase } from "@/lib/nodeflow/NodeBase";
 import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/types";
+import { RegexProcessor } from "@/lib/core/regex-processor";
+import { RegexSandbox } from "@/lib/core/regex-sandbox";
+import { RegexPlacement } from "@/lib/models/regex-script-model";
 
 export class UserInputNode extends NodeBase {
   static readonly nodeName = "userInput"; // 节点名（供工作流图引用）
@@ -32,7 +36,15 @@ export class UserInputNode extends NodeBase {
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     // 主体执行：
     // - 对于入口节点，通常直接将输入参数透传为输出（由工作流的 outputFields 控制具体字段）
-    // - 如需对原始输入做规范化/清洗，可在此实现
-    return await super._call(input);
+    // - 用户输入按角色与全局的正则脚本改写，仅影响提示词
+    const output = await super._call(input);
+    if (input.userInput && input.characterId) {
+      const scriptSet = await RegexProcessor.loadScripts(input.characterId, input.username);
+      const [result] = await RegexSandbox.applyScripts(scriptSet, [
+        { text: input.userInput, targets: RegexProcessor.targetsFor("prompt", RegexPlacement.USER_INPUT, 0) },
+      ]);
+      output.userInput = result.replacedText;
+    }
+    return output;
   }
 }
@@ -13,6 +13,15 @@ import {
 export interface WorkflowExecutionOptions {
   executeAfterNodes?: boolean; // Whether to execute AFTER nodes (default: true)
   awaitAfterNodes?: boolean; // Whether to wait for AFTER nodes completion (default: false)
+  signal?: AbortSignal; // Cancels the main workflow; also exposed to nodes as the "signal" input
+  stopBeforeNode?: string; // Node name at which the main workflow stops without running it (dry runs); AFTER nodes are skipped
+}
+
+export class WorkflowAbortedError extends Error {
+  constructor(message = "Workflow execution was cancelled") {
+    super(message);
+    this.name = "AbortError";
+  }
 }
 
 export { NodeCategory } from "@/lib/nodeflow/types";
@@ -88,6 +97,12 @@ export class WorkflowEngine {
     return result.output!;
   }
 
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new WorkflowAbortedError();
+    }
+  }
+
   private async executeParallel(
     nodes: NodeBase[],
     context: NodeContext,
@@ -105,7 +120,7 @@ export class WorkflowEngine {
     context?: NodeContext,
     options: WorkflowExecutionOptions = {},
   ): Promise<WorkflowExecutionResult> {
-    const { executeAfterNodes = true, awaitAfterNodes = false } = options;
+    const { executeAfterNodes = true, awaitAfterNodes = false, signal, stopBeforeNode } = options;
     const ctx = context || new NodeContext();
     const startTime = new Date();
     const result: WorkflowExecutionResult = {
@@ -120,16 +135,20 @@ export class WorkflowEngine {
       for (const key in initialWorkflowInput) {
         ctx.setInput(key, initialWorkflowInput[key]);
       }
+      if (signal) {
+        ctx.setInput("signal", signal);
+      }
 
       // Execute main workflow (ENTRY -> MIDDLE -> EXIT)
-      const mainWorkflowResult = await this.executeMainWorkflow(ctx);
+      const mainWorkflowResult = await this.executeMainWorkflow(ctx, signal, stopBeforeNode);
+      this.throwIfAborted(signal);
       
       // Set main workflow results
       result.outputData = mainWorkflowResult.outputData;
       result.status = mainWorkflowResult.status;
 
-      // Handle AFTER nodes
-      if (executeAfterNodes) {
+      // Handle AFTER nodes (a stopped dry run never reached EXIT, so they are skipped)
+      if (executeAfterNodes && !mainWorkflowResult.stopped) {
         const afterNodesPromise = this.executeAfterNodes(ctx);
         
         if (awaitAfterNodes) {
@@ -144,7 +163,8 @@ export class WorkflowEngine {
       }
 
     } catch (error) {
-      result.status = NodeExecutionStatus.FAILED;
+      result.status = signal?.aborted ? NodeExecutionStatus.CANCELLED : NodeExecutionStatus.FAILED;
+      result.error = error as Error;
     } finally {
       result.endTime = new Date();
     }
@@ -153,17 +173,20 @@ export class WorkflowEngine {
   }
 
   /**
-   * Execute main workflow from ENTRY to EXIT nodes
+   * Execute main workflow from ENTRY to EXIT nodes, checking for cancellation between levels.
+   * With `stopBeforeNode`, execution ends before the level containing that node.
    */
-  private async executeMainWorkflow(context: NodeContext): Promise<{
+  private async executeMainWorkflow(context: NodeContext, signal?: AbortSignal, stopBeforeNode?: string): Promise<{
     status: NodeExecutionStatus;
     outputData: Record<string, any>;
+    stopped: boolean;
   }> {
     const entryNodes = this.getEntryNodes();
     if (entryNodes.length === 0) {
       throw new Error("No entry nodes found in workflow");
     }
     
+    this.throwIfAborted(signal);
     await this.executeParallel(entryNodes, context);
 
     const processedNodes = new Set<string>();
@@ -188,6 +211,8 @@ export class WorkflowEngine {
       queue.push({ nodes: Array.from(nextLevelNodesSet) });
     }
 
+    let stopped = false;
+
     // Process nodes level by level until EXIT nodes
     while (queue.length > 0) {
       const currentBatch = queue.shift()!;
@@ -195,6 +220,15 @@ export class WorkflowEngine {
       
       if (nodesToExecuteInBatch.length === 0) continue;
 
+      // Dry runs stop before the requested node and leave its inputs in the context
+      if (stopBeforeNode && nodesToExecuteInBatch.some(node =>
+        this.config.nodes.find(n => n.id === node.getId())?.name === stopBeforeNode,
+      )) {
+        stopped = true;
+        break;
+      }
+
+      this.throwIfAborted(signal);
       await this.executeParallel(nodesToExecuteInBatch, context);
 
       nodesToExecuteInBatch.forEach(node => processedNodes.add(node.getId()));
@@ -225,9 +259,12 @@ export class WorkflowEngine {
       }
     }
 
+    // A stopped run has no EXIT output yet; return the cache the next node would have read
+    const { cacheStore, outputStore } = context.toJSON();
     return {
       status: NodeExecutionStatus.COMPLETED,
-      outputData: context.toJSON().outputStore,
+      outputData: stopped ? cacheStore : outputStore,
+      stopped,
     };
   }
 
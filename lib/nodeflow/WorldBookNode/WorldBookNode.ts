@@ -7,6 +7,9 @@ import { NodeBase } from "@/lib/nodeflow/NodeBase";
 import { NodeConfig, NodeInput, NodeOutput, NodeCategory } from "@/lib/nodeflow/types";
 import { WorldBookNodeTools } from "./WorldBookNodeTools";
 import { NodeToolRegistry } from "../NodeTool";
+import { ContextBudget } from "@/lib/core/context-budget";
+import { AssembledPrompt } from "@/lib/core/prompt-assembler";
+import { MacroContext } from "@/lib/core/macro-engine";
 
 export class WorldBookNode extends NodeBase {
   static readonly nodeName = "worldBook"; // 节点名（供工作流注册/引用）
@@ -27,11 +30,14 @@ export class WorldBookNode extends NodeBase {
     const systemMessage = input.systemMessage; // 上游构建的系统提示
     const userMessage = input.userMessage; // 上游构建的用户提示
     const characterId = input.characterId; // 角色 ID（用于定位世界书）
+    const dialogueId = input.dialogueId || ""; // 当前聊天 ID（用于读取近期对话与计时状态）
     const language = input.language || "zh"; // 语言（影响条目选择或模板）
     const username = input.username; // 用户名（可用于个性化）
     const charName = input.charName; // 角色名（可用于模板替换）
     const currentUserInput = input.currentUserInput || ""; // 当前轮原始输入，提升匹配准确度
     const contextWindow = input.contextWindow || 5; // 结合最近 N 轮上下文进行匹配，默认 5
+    const contextBudget = input.contextBudget as ContextBudget | undefined; // 上下文预算：超出时丢弃低优先级条目
+    const macroContext = input.macroContext as MacroContext | undefined; // 预设节点创建的宏上下文，条目中的宏与预设共用变量
 
     if (!systemMessage) {
       throw new Error("System message is required for WorldBookNode"); // 缺少系统提示无法拼装
@@ -43,6 +49,7 @@ export class WorldBookNode extends NodeBase {
     const result = await this.executeTool(
       "assemblePromptWithWorldBook",
       characterId,
+      dialogueId,
       systemMessage,
       userMessage,
       currentUserInput,
@@ -50,11 +57,16 @@ export class WorldBookNode extends NodeBase {
       contextWindow,
       username,
       charName,
-    ) as { systemMessage: string; userMessage: string };
+      contextBudget,
+      macroContext,
+    ) as AssembledPrompt;
     debugger;
     return {
       systemMessage: result.systemMessage, // 注入世界书后的系统提示
       userMessage: result.userMessage, // 注入世界书后的用户提示
+      worldBookActivation: result.worldBookActivation, // 本轮激活与因数量/预算限制被丢弃的条目
+      depthInjections: result.depthInjections, // 按深度插入聊天历史的条目，由 context 节点放置
+      worldBookState: result.worldBookState, // 本轮之后的粘性/冷却计时，随新对话节点保存
       characterId,
       language,
       username,
@@ -1,9 +1,17 @@
 import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { Character } from "@/lib/core/character";
-import { PromptAssembler } from "@/lib/core/prompt-assembler";
+import { AssembledPrompt, PromptAssembler } from "@/lib/core/prompt-assembler";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { ContextBudget, TokenCounter } from "@/lib/core/context-budget";
+import { MacroContext } from "@/lib/core/macro-engine";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { WorldBookTimedOptions } from "@/lib/core/world-book";
+import { RegexProcessor, RegexScriptSet } from "@/lib/core/regex-processor";
+import { RegexSandbox } from "@/lib/core/regex-sandbox";
+import { RegexPlacement } from "@/lib/models/regex-script-model";
 
 /**
  * 工具集合：为 `WorldBook` 节点提供可被工作流调用的静态方法。
@@ -57,12 +65,18 @@ export class WorldBookNodeTools extends NodeTool {
    * 基于世界书与对话上下文装配提示词。
    *
    * 处理流程：
-   * 1. 读取角色记录，构造成 `Character` 对象（包含世界书等资料）；
+   * 1. 读取世界书：优先使用编辑器维护的世界书存储，缺失时回退到角色卡自带的 `character_book`；
    * 2. 裁剪/获取最近对话历史（受 `contextWindow` 限制）；
-   * 3. 使用 `PromptAssembler` 将世界书、系统消息、用户消息与聊天上下文合并；
-   * 4. 返回新的 `systemMessage` 与 `userMessage`。
+   * 3. 使用 `PromptAssembler` 将世界书、系统消息、用户消息与聊天上下文合并：
+   *    按世界书设置递归扫描已激活条目，并执行 `maxEntries` / `tokenBudget` 限制，
+   *    传入 `budget` 时超出剩余额度的低优先级条目也会被丢弃；
+   * 4. 返回新的 `systemMessage`、`userMessage`、本轮激活/丢弃条目 `worldBookActivation`，
+   *    以及需要按深度插入聊天历史的 `depthInjections`（position 4）；
+   *    概率/粘性/冷却/延迟按当前对话分支的计时状态生效，新的状态以 `worldBookState` 返回，
+   *    由对话保存时写入新节点。
    *
    * @param characterId       角色 ID
+   * @param dialogueId        当前聊天 ID（近期对话与计时状态按聊天区分）
    * @param baseSystemMessage 作为模板的系统提示词
    * @param userMessage       进入节点前的用户消息（可能已被前序节点改写）
    * @param currentUserInput  本轮用户原始输入（用于更精准地匹配世界书）
@@ -70,9 +84,12 @@ export class WorldBookNodeTools extends NodeTool {
    * @param contextWindow     上下文窗口大小（以“消息对”计）
    * @param username          用户名（可选）
    * @param charName          角色显示名（可选）
+   * @param budget            上下文预算（可选）
+   * @param macros            宏上下文（可选），条目内容中的宏按此展开
    */
   static async assemblePromptWithWorldBook(
     characterId: string,
+    dialogueId: string,
     baseSystemMessage: string,
     userMessage: string,
     currentUserInput: string,
@@ -80,21 +97,35 @@ export class WorldBookNodeTools extends NodeTool {
     contextWindow: number = 5,
     username?: string,
     charName?: string,
-  ): Promise<{ systemMessage: string; userMessage: string }> {
+    budget?: ContextBudget,
+    macros?: MacroContext,
+  ): Promise<AssembledPrompt> {
     try {
-      const characterRecord = await LocalCharacterRecordOperations.getCharacterById(characterId);
-      const character = new Character(characterRecord);
+      const settings = await WorldBookOperations.getWorldBookSettings(characterId);
+      // 世界书被关闭时不注入任何条目，只清理模板中的占位符
+      const worldBook = settings.enabled
+        ? await this.applyWorldInfoRegex(await this.loadWorldBook(characterId), await RegexProcessor.loadScripts(characterId, username))
+        : undefined;
 
       // 获取最近若干轮对话记录，用于提示词装配
-      const chatHistory = await this.getChatHistory(characterId, contextWindow);
+      const chatHistory = await this.getChatHistory(dialogueId, contextWindow);
       
+      const timedEffects = await this.loadTimedEffects(dialogueId);
+
       const promptAssembler = new PromptAssembler({
         language,
         contextWindow,
+        budget,
+        recursionDepth: settings.recursionDepth,
+        maxEntries: settings.maxEntries,
+        tokenBudget: settings.tokenBudget,
+        tokenCounter: settings.tokenBudget > 0 && !budget ? await TokenCounter.load() : undefined,
+        timedEffects,
+        macros,
       });
 
       const result = promptAssembler.assemblePrompt(
-        character.worldBook,
+        worldBook,
         baseSystemMessage,
         userMessage,
         chatHistory,
@@ -109,22 +140,96 @@ export class WorldBookNodeTools extends NodeTool {
   }
 
   /**
-   * 获取并裁剪指定角色的最近对话历史。
+   * 读取角色的世界书条目。
+   * 编辑器与导入功能写入的是 `WorldBookOperations` 存储，其中保留了次要关键词、
+   * selectiveLogic 等激活设置；仅当存储为空时才使用角色卡中的原始条目。
+   */
+  private static async loadWorldBook(
+    characterId: string,
+  ): Promise<WorldBookEntry[] | Record<string, WorldBookEntry>> {
+    const storedWorldBook = await WorldBookOperations.getWorldBook(characterId);
+    if (storedWorldBook && Object.keys(storedWorldBook).length > 0) {
+      // 以存储键作为条目 ID，计时状态据此关联条目
+      return Object.fromEntries(
+        Object.entries(storedWorldBook).map(([key, entry]) => [key, { ...entry, entry_id: entry.entry_id ?? key }]),
+      );
+    }
+
+    const characterRecord = await LocalCharacterRecordOperations.getCharacterById(characterId);
+    const cardWorldBook = new Character(characterRecord).worldBook;
+    return Array.isArray(cardWorldBook)
+      ? cardWorldBook.map((entry, index) => ({ ...entry, entry_id: entry.entry_id ?? `entry_${index}` }))
+      : cardWorldBook;
+  }
+
+  /**
+   * 对条目内容应用 placement 为“世界书”的正则脚本。
+   * 条目内容只进入提示词，因此只运行 promptOnly 的脚本；按深度插入（position 4）的条目以其深度参与 minDepth/maxDepth 判断。
+   * 脚本在正则沙箱中执行，超时的脚本会被标记并跳过。
+   */
+  private static async applyWorldInfoRegex(
+    worldBook: WorldBookEntry[] | Record<string, WorldBookEntry>,
+    scriptSet: RegexScriptSet,
+  ): Promise<WorldBookEntry[] | Record<string, WorldBookEntry>> {
+    const entries = Array.isArray(worldBook) ? worldBook.map((entry, index) => [String(index), entry] as const) : Object.entries(worldBook);
+    const withContent = entries.filter(([, entry]) => !!entry.content);
+    const results = await RegexSandbox.applyScripts(scriptSet, withContent.map(([, entry]) => ({
+      text: entry.content,
+      targets: [{
+        placement: RegexPlacement.WORLD_INFO,
+        mode: "prompt" as const,
+        depth: Number(entry.position) === 4 ? entry.depth : undefined,
+      }],
+    })));
+    const replaced = new Map(withContent.map(([key], index) => [key, results[index].replacedText]));
+
+    const processEntry = (key: string, entry: WorldBookEntry): WorldBookEntry => {
+      const replacedText = replaced.get(key);
+      return replacedText === undefined || replacedText === entry.content ? entry : { ...entry, content: replacedText };
+    };
+
+    return Array.isArray(worldBook)
+      ? worldBook.map((entry, index) => processEntry(String(index), entry))
+      : Object.fromEntries(Object.entries(worldBook).map(([key, entry]) => [key, processEntry(key, entry)]));
+  }
+
+  /**
+   * 读取当前分支的世界书计时状态。
+   * 轮次为当前路径上的用户输入数 + 1；计时器取路径上最近一个保存了 `worldBookState` 的节点，
+   * 因此切换分支后自动恢复该分支当时的粘性/冷却计时；计时状态保存在各自聊天的节点上，聊天之间互不影响。
+   */
+  private static async loadTimedEffects(dialogueId: string): Promise<WorldBookTimedOptions> {
+    const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
+    if (!dialogueTree || dialogueTree.current_nodeId === "root") {
+      return { turn: 1 };
+    }
+
+    const nodePath = await LocalCharacterDialogueOperations.getDialoguePathToNode(dialogueId, dialogueTree.current_nodeId);
+    const stateNode = [...nodePath].reverse().find(node => node.worldBookState);
+
+    return {
+      turn: nodePath.filter(node => node.userInput).length + 1,
+      state: stateNode?.worldBookState,
+    };
+  }
+
+  /**
+   * 获取并裁剪指定聊天的最近对话历史。
    *
    * 规则说明：
    * - 若当前节点为根（root），跳过首个 assistant 响应以避免重复；
    * - 生成 `DialogueMessage[]`，包含 role/content/id；
    * - 最终取最近 `contextWindow * 2` 条消息（按“用户+助手”为一对）。
    */
-  private static async getChatHistory(characterId: string, contextWindow: number = 5): Promise<DialogueMessage[]> {
+  private static async getChatHistory(dialogueId: string, contextWindow: number = 5): Promise<DialogueMessage[]> {
     try {
-      const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      const dialogueTree = await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
       if (!dialogueTree) {
         return [];
       }
 
       const nodePath = dialogueTree.current_nodeId !== "root"
-        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(characterId, dialogueTree.current_nodeId)
+        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(dialogueId, dialogueTree.current_nodeId)
         : [];
       
       const messages: DialogueMessage[] = [];
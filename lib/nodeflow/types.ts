@@ -24,7 +24,8 @@ export enum NodeExecutionStatus {
   RUNNING = "running",
   COMPLETED = "completed",
   FAILED = "failed",
-  SKIPPED = "skipped"
+  SKIPPED = "skipped",
+  CANCELLED = "cancelled"
 }
 
 export interface NodeExecutionResult {
@@ -48,6 +49,7 @@ export interface WorkflowExecutionResult {
   status: NodeExecutionStatus;
   results: NodeExecutionResult[];
   outputData?: Record<string, any>;
+  error?: Error;
   startTime: Date;
   endTime?: Date;
 }
@@ -28,6 +28,7 @@ import {
 } from "./plugin-types";
 import { ToolRegistry } from "../tools/tool-registry";
 import { pluginDiscovery } from "./plugin-discovery";
+import { MacroEngine, MacroHandler } from "../core/macro-engine";
 
 /**
  * Plugin Registry with SillyTavern-like features
@@ -500,6 +501,14 @@ export class PluginRegistry {
         // Implementation depends on modifier identification system
       },
       
+      // Macros
+      registerMacro: (name: string, handler: MacroHandler) => {
+        MacroEngine.register(name, handler);
+      },
+      unregisterMacro: (name: string) => {
+        MacroEngine.unregister(name);
+      },
+      
       // Configuration
       getConfig: () => this.getConfiguration(),
       setConfig: (config: Record<string, any>) => this.setConfiguration(config),
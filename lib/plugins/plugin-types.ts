@@ -8,6 +8,8 @@
  * - Hot-reloading support
  */
 
+import { MacroHandler } from "@/lib/core/macro-engine";
+
 export enum PluginCategory {
   TOOL = "tool",
   UI = "ui", 
@@ -195,6 +197,10 @@ export interface PluginAPI {
   addChatMessageModifier: (modifier: (message: MessageContext) => MessageContext) => void;
   removeChatMessageModifier: (modifierId: string) => void;
   
+  // Macros, expanded as {{name}} in cards, presets and world books
+  registerMacro: (name: string, handler: MacroHandler) => void;
+  unregisterMacro: (name: string) => void;
+  
   // Configuration
   getConfig: () => Record<string, any>;
   setConfig: (config: Record<string, any>) => void;
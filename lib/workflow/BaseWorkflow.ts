@@ -1,5 +1,5 @@
 import { NodeContext } from "../nodeflow/NodeContext";
-import { WorkflowEngine } from "../nodeflow/WorkflowEngine";
+import { WorkflowEngine, WorkflowExecutionOptions } from "../nodeflow/WorkflowEngine";
 import { NodeCategory } from "../nodeflow/types";
 
 export interface WorkflowConfig {
@@ -130,10 +130,10 @@ export abstract class BaseWorkflow {
     }
   }
 
-  public async execute(params: WorkflowParams): Promise<any> {
+  public async execute(params: WorkflowParams, options: WorkflowExecutionOptions = {}): Promise<any> {
     try {
       const engine = new WorkflowEngine(this.config, this.registry, this.context);
-      const result = await engine.execute(params, this.context);
+      const result = await engine.execute(params, this.context, options);
       return result;
     } catch (error) {
       console.error(`Workflow execution failed: ${this.config.id}`, error);
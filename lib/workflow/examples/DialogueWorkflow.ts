@@ -8,7 +8,7 @@
 // 3) 命中 EXIT 节点后立即返回前端；若存在 AFTER 节点，则在后台继续执行（不阻塞首屏）
 // 4) 异常由基类捕获并向上抛出，前端可据此提示或重试
 import { BaseWorkflow, WorkflowConfig } from "@/lib/workflow/BaseWorkflow";
-import { NodeCategory } from "@/lib/nodeflow/types";
+import { NodeCategory, NodeExecutionStatus } from "@/lib/nodeflow/types";
 // 节点实现（输入/输出在下方 getWorkflowConfig 中定义）
 import { UserInputNode } from "@/lib/nodeflow/UserInputNode/UserInputNode";
 import { ContextNode } from "@/lib/nodeflow/ContextNode/ContextNode";
@@ -20,10 +20,16 @@ import { PluginNode } from "@/lib/nodeflow/PluginNode/PluginNode";
 import { PluginMessageNode } from "@/lib/nodeflow/PluginNode/PluginMessageNode";
 import { OutputNode } from "@/lib/nodeflow/OutputNode/OutputNode";
 import { PromptKey } from "@/lib/prompts/preset-prompts";
+import { StreamChunkHandler } from "@/lib/nodeflow/LLMNode/LLMNodeTools";
+import { TokenCounter } from "@/lib/core/context-budget";
+import { PromptPreview, PromptPreviewBuilder } from "@/lib/core/prompt-preview";
+import { GeminiSafetySetting, LLMEndpoint, LLMType } from "@/lib/models/llm-provider-model";
 
 export interface DialogueWorkflowParams {
   // 运行参数：由前端/调用方注入
   characterId: string;
+  // 当前聊天（对话树）ID：同一角色可有多个聊天，历史与世界书计时均按聊天区分
+  dialogueId: string;
   userInput: string;
   number?: number;
   language?: "zh" | "en";
@@ -31,8 +37,12 @@ export interface DialogueWorkflowParams {
   modelName: string;
   apiKey: string;
   baseUrl?: string;
-  llmType?: "openai" | "ollama";
-  // LLM 采样与资源相关参数
+  llmType?: LLMType;
+  // 主模型失败（重试用尽或不可重试）后依次尝试的备用端点
+  fallbacks?: LLMEndpoint[];
+  // 主端点为 Gemini 时各危害类别的拦截阈值，未设置时使用 Google 的默认阈值
+  safetySettings?: GeminiSafetySetting[];
+  // LLM 采样与资源相关参数（通常来自采样配置 SamplerProfile，未设置的字段使用供应商默认值）
   temperature?: number;
   maxTokens?: number;
   maxRetries?: number;
@@ -40,16 +50,41 @@ export interface DialogueWorkflowParams {
   frequencyPenalty?: number;
   presencePenalty?: number;
   topK?: number;
+  minP?: number;
   repeatPenalty?: number;
+  stopSequences?: string[];
+  seed?: number;
   // 流式与统计
   streaming?: boolean;
   streamUsage?: boolean;
+  // 流式回调：streaming=true 时由 LLM 节点逐块推送模型输出
+  onStreamChunk?: StreamChunkHandler;
   // 性能/预设选择
   fastModel?: boolean;
   systemPresetType?: PromptKey;
+  // 上下文预算：提示词可用额度 = maxContextTokens - reservedResponseTokens
+  maxContextTokens?: number;
+  reservedResponseTokens?: number;
+  // 指定使用的预设（预览时使用）；缺省时使用已启用的预设
+  presetId?: string;
 }
 
 export class DialogueWorkflow extends BaseWorkflow {
+  // 试运行（dry run）：执行到 llm 节点之前即停止，不调用模型、不写入对话树；
+  // 返回最终发送给模型的提示词（按预设片段拆分）及各部分 token 统计，供预设作者预览
+  async preview(params: DialogueWorkflowParams): Promise<PromptPreview> {
+    const result = await this.execute(params, { stopBeforeNode: "llm" });
+    if (!result || result.status !== NodeExecutionStatus.COMPLETED || !result.outputData) {
+      throw result?.error || new Error("Prompt preview did not complete");
+    }
+
+    const { systemMessage, userMessage, assemblyMode, chatHistory, presetId, tokenBreakdown, worldBookActivation } = result.outputData;
+    return PromptPreviewBuilder.build(
+      { systemMessage, userMessage, assemblyMode, chatHistory, presetId, tokenBreakdown, worldBookActivation },
+      await TokenCounter.load(),
+    );
+  }
+
   // 注册节点：把可用节点名称映射到其实现类
   protected getNodeRegistry() {
     return {
@@ -87,9 +122,10 @@ export class DialogueWorkflow extends BaseWorkflow {
     return {
       id: "complete-dialogue-workflow",
       name: "Complete Dialogue Processing Workflow",
-      // 节点按顺序执行：userInput → pluginMessage → preset → context → worldBook → llm → regex → plugin → output
+      // 节点按顺序执行：userInput → pluginMessage → preset → worldBook → context → llm → regex → plugin → output
       // 设计要点：
       // - 仅在 LLM 节点调用大模型，其余节点负责提示词与上下文准备/后处理
+      // - 上下文预算按节点顺序分配：世界书先占用额度，聊天历史优先级最低、只使用剩余部分
       // - output 为 EXIT 节点，工作流在此向前端返回结果
       // 字段流转规则：每个节点只读取其 inputFields，并向 Context 写入其 outputFields；
       // 通过“显式输入/显式输出”实现节点解耦，避免隐式依赖导致的维护困难。
@@ -100,10 +136,10 @@ export class DialogueWorkflow extends BaseWorkflow {
           category: NodeCategory.ENTRY,
           next: ["plugin-message-1"],
           // 初始化参数：从前端/调用方注入本次对话所需的运行时配置
-          initParams: ["characterId", "userInput", "number", "language", "username", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "fastModel", "systemPresetType", "streaming", "streamUsage"],
+          initParams: ["characterId", "dialogueId", "userInput", "number", "language", "username", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "topP", "topK", "minP", "frequencyPenalty", "presencePenalty", "repeatPenalty", "stopSequences", "seed", "maxTokens", "fastModel", "systemPresetType", "streaming", "streamUsage", "onStreamChunk", "signal", "maxContextTokens", "reservedResponseTokens", "presetId", "fallbacks", "safetySettings"],
           inputFields: [],
-          // 输出：把运行参数写入工作流上下文，供后续节点使用
-          outputFields: ["characterId", "userInput", "number", "language", "username", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "fastModel", "systemPresetType", "streaming", "streamUsage"],
+          // 输出：把运行参数写入工作流上下文，供后续节点使用；userInput 已应用“用户输入”正则脚本（提示词版本）
+          outputFields: ["characterId", "dialogueId", "userInput", "number", "language", "username", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "topP", "topK", "minP", "frequencyPenalty", "presencePenalty", "repeatPenalty", "stopSequences", "seed", "maxTokens", "fastModel", "systemPresetType", "streaming", "streamUsage", "onStreamChunk", "signal", "maxContextTokens", "reservedResponseTokens", "presetId", "fallbacks", "safetySettings"],
         },
         {
           id: "plugin-message-1",
@@ -114,42 +150,51 @@ export class DialogueWorkflow extends BaseWorkflow {
           // 输入：角色与用户输入
           // 作用：将插件消息（如系统信号/工具反馈）合入上下文，便于后续提示词组装
           inputFields: ["characterId", "userInput"],
-          outputFields: ["characterId", "userInput", "number", "language", "username", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "fastModel", "systemPresetType", "streaming", "streamUsage"],
+          outputFields: ["characterId", "dialogueId", "userInput", "number", "language", "username", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "topP", "topK", "minP", "frequencyPenalty", "presencePenalty", "repeatPenalty", "stopSequences", "seed", "maxTokens", "fastModel", "systemPresetType", "streaming", "streamUsage", "onStreamChunk", "signal", "maxContextTokens", "reservedResponseTokens", "presetId", "fallbacks", "safetySettings"],
         },
         {
           id: "preset-1",
           name: "preset",
           category: NodeCategory.MIDDLE,
-          next: ["context-1"],
-          initParams: [],
-          // 载入角色预设与系统提示，产出初始的 systemMessage/userMessage
-          inputFields: ["characterId", "language", "username", "number", "fastModel", "systemPresetType"],
-          outputFields: ["systemMessage", "userMessage", "presetId"],
-        },
-        {
-          id: "context-1",
-          name: "context",
-          category: NodeCategory.MIDDLE,
           next: ["world-book-1"],
           initParams: [],
-          // 基于近期对话裁剪上下文，只改写/返回 userMessage（带上下文）
-          inputFields: ["userMessage", "characterId", "userInput"],
-          outputFields: ["userMessage"],
+          // 载入角色预设与系统提示（传入 presetId 时使用指定预设，否则使用已启用的预设），产出初始的 systemMessage/userMessage 及预设的组装模式；
+          // 同时创建上下文预算 contextBudget，并预先计入预设模板与用户输入
+          // 预设片段中的宏按本轮宏上下文 macroContext 展开，macroContext 交给世界书节点，使两处共用 {{setvar}} 变量
+          inputFields: ["characterId", "dialogueId", "language", "username", "number", "fastModel", "systemPresetType", "userInput", "maxContextTokens", "reservedResponseTokens", "presetId"],
+          outputFields: ["systemMessage", "userMessage", "presetId", "assemblyMode", "contextBudget", "macroContext"],
         },
         {
           id: "world-book-1",
           name: "worldBook",
           category: NodeCategory.MIDDLE,
-          next: ["llm-1"],
+          next: ["context-1"],
           initParams: [],
-          // 世界书命中：根据当前/最近消息筛选世界观条目，进一步完善 systemMessage 与 userMessage
-          inputFields: ["systemMessage", "userMessage", "characterId", "language", "username", "userInput"],
-          outputFields: ["systemMessage", "userMessage"],
+          // 世界书命中：根据当前/最近消息筛选世界观条目，进一步完善 systemMessage 与 userMessage；
+          // 已激活条目的内容会按世界书设置递归扫描，以激活其中提到的其他条目；
+          // 超出 maxEntries、世界书 token 上限或上下文预算时按优先级丢弃条目（常驻条目优先，其次 insertion_order 高者），
+          // 激活与丢弃情况写入 worldBookActivation；position 4（按深度）条目以 depthInjections 交给 context 节点插入历史；
+          // 概率、粘性、冷却与延迟按当前分支的计时状态生效，更新后的状态为 worldBookState
+          inputFields: ["systemMessage", "userMessage", "characterId", "dialogueId", "language", "username", "userInput", "contextBudget", "macroContext"],
+          outputFields: ["systemMessage", "userMessage", "worldBookActivation", "depthInjections", "worldBookState"],
           inputMapping: {
             // 将上下文里的 userInput 映射为当前轮输入，以便世界书更准确匹配
             "userInput": "currentUserInput",
           },
         },
+        {
+          id: "context-1",
+          name: "context",
+          category: NodeCategory.MIDDLE,
+          next: ["llm-1"],
+          initParams: [],
+          // 基于近期对话裁剪上下文，改写 userMessage；messages 模式下另行输出最近对话消息 chatHistory。
+          // 历史只使用预算剩余额度，完成后输出各部分的 token 统计 tokenBreakdown；
+          // depthInjections 按“距底部 N 条消息”插入历史（messages 模式下保留各自的 role）；
+          // 对话节点保存原文，历史消息在此按角色的正则脚本（修改文本 + 仅提示词）转换
+          inputFields: ["userMessage", "characterId", "dialogueId", "userInput", "username", "assemblyMode", "contextBudget", "depthInjections"],
+          outputFields: ["userMessage", "chatHistory", "tokenBreakdown"],
+        },
         {
           id: "llm-1",
           name: "llm",
@@ -157,9 +202,12 @@ export class DialogueWorkflow extends BaseWorkflow {
           next: ["regex-1"],
           initParams: [],
           // 唯一必经的模型调用：把 system/user 提示与参数交给模型产出 llmResponse。
-          // 当 streaming=true 时仍会聚合为完整响应，以便 regex 节点统一做结构化处理。
-          inputFields: ["systemMessage", "userMessage", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "language", "streaming", "streamUsage"],
-          outputFields: ["llmResponse"],
+          // 当 streaming=true 时逐块回调 onStreamChunk，同时聚合为完整响应，以便 regex 节点统一做结构化处理。
+          // signal 由 execute(params, { signal }) 注入，取消时直接中断模型请求。
+          // assemblyMode=messages 时把提示词各段与 chatHistory 展开为多条 system/user/assistant 消息。
+          // 临时错误按退避重试，主模型失败后依次尝试 fallbacks；实际作答的端点记为 respondedBy。
+          inputFields: ["systemMessage", "userMessage", "modelName", "apiKey", "baseUrl", "llmType", "temperature", "topP", "topK", "minP", "frequencyPenalty", "presencePenalty", "repeatPenalty", "stopSequences", "seed", "maxTokens", "language", "streaming", "streamUsage", "onStreamChunk", "signal", "assemblyMode", "chatHistory", "fallbacks", "safetySettings", "characterId"],
+          outputFields: ["llmResponse", "respondedBy"],
         },
         {
           id: "regex-1",
@@ -167,15 +215,18 @@ export class DialogueWorkflow extends BaseWorkflow {
           category: NodeCategory.MIDDLE,
           next: ["plugin-1"],
           initParams: [],
-          // 对模型输出做结构化后处理：用于渲染与交互
+          // 对模型输出做结构化后处理：拆分思考内容、正文与 next_prompts/events。
+          // 正文与思考内容保持原文保存，“AI 输出”“思考内容”placement 的显示类正则脚本在前端渲染时应用，
+          // 提示词类脚本在 context 节点组装历史时应用
           // 输出字段含义：
-          // - thinkingContent：可折叠“思考/旁白”；
-          // - screenContent：渲染 HTML，包含 <talk> 片段（供高亮与 TTS 抽取）；
+          // - thinkingContent：可折叠“思考/旁白”（原文）；
+          // - screenContent：正文原文，渲染时包含 <talk> 片段（供高亮与 TTS 抽取）；
           // - fullResponse：保留原文，便于复核与持久化；
           // - nextPrompts：下一步输入建议；
-          // - event：可选的机器可读信号，用于驱动 UI 或分支逻辑。
-          inputFields: ["llmResponse", "characterId"],
-          outputFields: ["thinkingContent", "screenContent", "fullResponse", "nextPrompts", "event"],
+          // - event：可选的机器可读信号，用于驱动 UI 或分支逻辑；
+          // - appliedScripts：本轮回复显示时会生效的正则脚本，记入对话节点的激活追踪。
+          inputFields: ["llmResponse", "characterId", "username"],
+          outputFields: ["thinkingContent", "screenContent", "fullResponse", "nextPrompts", "event", "appliedScripts"],
         },
         {
           id: "plugin-1",
@@ -195,8 +246,14 @@ export class DialogueWorkflow extends BaseWorkflow {
           next: [],
           initParams: [],
           // 终点：将结构化结果返回前端进行渲染；前端据此高亮 <talk> 并可触发 TTS 播放。
-          inputFields: ["thinkingContent", "screenContent", "fullResponse", "nextPrompts", "event"],
-          outputFields: ["thinkingContent", "screenContent", "fullResponse", "nextPrompts", "event"],
+          // tokenBreakdown 随结果返回，供界面展示本轮提示词各部分的 token 占用；
+          // worldBookActivation（各条目的触发原因、位置与丢弃原因）与 appliedScripts 一起写入对话节点，
+          // 供聊天气泡上的激活追踪面板解释“模型为何看到这些内容”；
+          // worldBookState 为本轮后的世界书计时状态，保存对话节点时一并写入，使各分支保有自己的计时；
+          // respondedBy 记录实际作答的模型端点（主模型或第几个备用端点）；
+          // macroContext 的 variables 是预设与世界书展开后的 {{setvar}} 变量，随对话节点保存，下一轮从这里继续。
+          inputFields: ["thinkingContent", "screenContent", "fullResponse", "nextPrompts", "event", "tokenBreakdown", "worldBookActivation", "worldBookState", "appliedScripts", "respondedBy", "macroContext"],
+          outputFields: ["thinkingContent", "screenContent", "fullResponse", "nextPrompts", "event", "tokenBreakdown", "worldBookActivation", "worldBookState", "appliedScripts", "respondedBy", "macroContext"],
         },
       ],
     };
@@ -9,12 +9,13 @@ import { LLMNode } from "@/lib/nodeflow/LLMNode/LLMNode";
 import { RegexNode } from "@/lib/nodeflow/RegexNode/RegexNode";
 import { OutputNode } from "@/lib/nodeflow/OutputNode/OutputNode";
 import { MemoryStorageNode } from "@/lib/nodeflow/MemoryNode/MemoryStorageNode";
+import { LLMType } from "@/lib/models/llm-provider-model";
 
 /**
  * CorrectRAGWorkflow - Enhanced execution architecture with AFTER nodes
  * 
  * Execution Flow:
- * 1. ENTRY -> MIDDLE nodes execute sequentially (userInput -> preset -> context -> memoryRetrieval -> worldBook -> llm -> regex)
+ * 1. ENTRY -> MIDDLE nodes execute sequentially (userInput -> preset -> worldBook -> memoryRetrieval -> context -> llm -> regex)
  * 2. EXIT node (output) executes and workflow returns immediately to user
  * 3. AFTER nodes (memoryStorage) execute in background asynchronously
  * 
@@ -35,6 +36,8 @@ import { MemoryStorageNode } from "@/lib/nodeflow/MemoryNode/MemoryStorageNode";
 
 export interface CorrectRAGWorkflowParams {
   characterId: string;
+  // Chat whose history, world book timers and memories are used
+  dialogueId: string;
   userInput: string;
   number?: number;
   language?: "zh" | "en";
@@ -42,7 +45,7 @@ export interface CorrectRAGWorkflowParams {
   modelName: string;
   apiKey: string;
   baseUrl?: string;
-  llmType?: "openai" | "ollama";
+  llmType?: LLMType;
   temperature?: number;
   maxTokens?: number;
   maxRetries?: number;
@@ -57,6 +60,9 @@ export interface CorrectRAGWorkflowParams {
   // Memory-specific parameters
   maxMemories?: number;
   enableMemoryStorage?: boolean;
+  // Context budget: prompt tokens available = maxContextTokens - reservedResponseTokens
+  maxContextTokens?: number;
+  reservedResponseTokens?: number;
 }
 
 export class CorrectRAGWorkflow extends BaseWorkflow {
@@ -97,9 +103,10 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
       id: "correct-rag-workflow",
       name: "Correct RAG Workflow - Early return with background AFTER nodes",
       // 执行顺序（带记忆的对话）：
-      // userInput → preset → context → memoryRetrieval → worldBook → llm → regex → output │ AFTER: memoryStorage
+      // userInput → preset → worldBook → memoryRetrieval → context → llm → regex → output │ AFTER: memoryStorage
       // 设计思路：
       // - 仅在 llm 节点调用大模型；其余节点用于提示词构建、上下文/记忆注入与后处理
+      // - 上下文预算按节点顺序分配：世界书 → 记忆 → 聊天历史，优先级越低越靠后
       // - output 为 EXIT 节点，先向前端返回；memoryStorage 作为 AFTER 节点在后台落库，避免阻塞首屏
       nodes: [
         {
@@ -110,6 +117,7 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           // 初始化运行参数：来自前端/调用方的本次会话配置
           initParams: [
             "characterId", 
+            "dialogueId",
             "userInput", 
             "number", 
             "language", 
@@ -122,11 +130,14 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
             "fastModel",
             "maxMemories",
             "enableMemoryStorage",
+            "maxContextTokens",
+            "reservedResponseTokens",
           ],
           inputFields: [],
           // 输出：把所有运行参数写入上下文，供后续节点统一读取
           outputFields: [
             "characterId", 
+            "dialogueId",
             "userInput", 
             "number", 
             "language", 
@@ -139,51 +150,54 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
             "fastModel",
             "maxMemories",
             "enableMemoryStorage",
+            "maxContextTokens",
+            "reservedResponseTokens",
           ],
         },
         {
           id: "preset-1",
           name: "preset",
           category: NodeCategory.MIDDLE,
-          next: ["context-1"],
+          next: ["world-book-1"],
           initParams: [],
-          // 载入角色预设/系统提示，形成初版 systemMessage 与 userMessage
-          inputFields: ["characterId", "language", "username", "number", "fastModel"],
-          outputFields: ["systemMessage", "userMessage", "presetId"],
+          // 载入角色预设/系统提示，形成初版 systemMessage 与 userMessage，并创建上下文预算；
+          // 片段中的宏按本轮宏上下文 macroContext 展开，并交给世界书节点共用
+          inputFields: ["characterId", "dialogueId", "language", "username", "number", "fastModel", "userInput", "maxContextTokens", "reservedResponseTokens"],
+          outputFields: ["systemMessage", "userMessage", "presetId", "contextBudget", "macroContext"],
         },
         {
-          id: "context-1",
-          name: "context",
+          id: "world-book-1",
+          name: "worldBook",
           category: NodeCategory.MIDDLE,
           next: ["memory-retrieval-1"],
           initParams: [],
-          // 拼接近期对话，产出 conversationContext；并对 userMessage 进行上下文增强
-          inputFields: ["userMessage", "characterId", "userInput"],
-          outputFields: ["userMessage", "conversationContext"],
+          // 世界书筛选：根据当前输入与上下文命中条目（含递归激活），继续完善 systemMessage/userMessage
+          inputFields: ["systemMessage", "userMessage", "characterId", "dialogueId", "language", "username", "userInput", "contextBudget", "macroContext"],
+          outputFields: ["systemMessage", "userMessage", "worldBookActivation", "depthInjections"],
+          inputMapping: {
+            // 将 userInput 映射为 currentUserInput，提高条目匹配准确度
+            "userInput": "currentUserInput",
+          },
         },
         {
           id: "memory-retrieval-1",
           name: "memoryRetrieval",
           category: NodeCategory.MIDDLE,
-          next: ["world-book-1"],
+          next: ["context-1"],
           initParams: [],
-          // 召回长期记忆：将记忆作为 memoryPrompt/追加信息并入 systemMessage
-          inputFields: ["characterId", "userInput", "systemMessage", "apiKey", "baseUrl", "language", "maxMemories", "username"],
+          // 召回长期记忆：将记忆作为 memoryPrompt/追加信息并入 systemMessage，按相关度在剩余预算内保留
+          inputFields: ["characterId", "dialogueId", "userInput", "systemMessage", "apiKey", "baseUrl", "language", "maxMemories", "username", "contextBudget"],
           outputFields: ["systemMessage", "memoryPrompt"],
         },
         {
-          id: "world-book-1",
-          name: "worldBook",
+          id: "context-1",
+          name: "context",
           category: NodeCategory.MIDDLE,
           next: ["llm-1"],
           initParams: [],
-          // 世界书筛选：根据当前输入与上下文命中条目，继续完善 systemMessage/userMessage
-          inputFields: ["systemMessage", "userMessage", "characterId", "language", "username", "userInput"],
-          outputFields: ["systemMessage", "userMessage"],
-          inputMapping: {
-            // 将 userInput 映射为 currentUserInput，提高条目匹配准确度
-            "userInput": "currentUserInput",
-          },
+          // 拼接近期对话（只使用剩余预算）并按深度插入世界书条目，产出 conversationContext 与 tokenBreakdown；并对 userMessage 进行上下文增强
+          inputFields: ["userMessage", "characterId", "dialogueId", "userInput", "contextBudget", "depthInjections"],
+          outputFields: ["userMessage", "conversationContext", "tokenBreakdown"],
         },
         {
           id: "llm-1",
@@ -203,7 +217,7 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           initParams: [],
           // 后处理：抽取渲染需要的字段，控制 UI 与下一步交互
           inputFields: ["llmResponse", "characterId"],
-          outputFields: ["replacedText", "screenContent", "fullResponse", "nextPrompts", "event"], // 只输出处理后的内容
+          outputFields: ["replacedText", "screenContent", "fullResponse", "nextPrompts", "event", "appliedScripts"], // 只输出处理后的内容与生效的脚本
         },
         {
           id: "output-1",
@@ -218,6 +232,9 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
             "nextPrompts", 
             "event", 
             "presetId",
+            "tokenBreakdown",
+            "worldBookActivation",
+            "appliedScripts",
           ],
           outputFields: [
             "replacedText", 
@@ -226,6 +243,9 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
             "nextPrompts", 
             "event", 
             "presetId",
+            "tokenBreakdown",
+            "worldBookActivation",
+            "appliedScripts",
           ], // 这些字段将直接返回给前端
         },
         {
@@ -237,6 +257,7 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           inputFields: [
             // AFTER 节点可访问主流程上下文的所有数据
             "characterId",
+            "dialogueId",
             "userInput",
             "fullResponse",
             "conversationContext",
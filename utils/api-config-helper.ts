@@ -0,0 +1,81 @@
+import { GeminiSafetySetting, LLMEndpoint, LLMType, requiresApiKey } from "@/lib/models/llm-provider-model";
+
+/**
+ * An entry of the `apiConfigs` list that ModelSidebar keeps in localStorage
+ */
+interface StoredAPIConfig {
+  id: string;
+  name: string;
+  type: LLMType;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  fallbackConfigIds?: string[];
+  samplerProfileId?: string;
+  safetySettings?: GeminiSafetySetting[];
+}
+
+function getStoredConfigs(): StoredAPIConfig[] {
+  try {
+    return JSON.parse(localStorage.getItem("apiConfigs") || "[]");
+  } catch (error) {
+    console.error("Error parsing saved API configs", error);
+    return [];
+  }
+}
+
+/**
+ * Get the sampler profile attached to the active API config, if any
+ */
+export function getActiveSamplerProfileId(): string | undefined {
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+
+  const activeConfigId = localStorage.getItem("activeConfigId");
+  return getStoredConfigs().find((config) => config.id === activeConfigId)?.samplerProfileId || undefined;
+}
+
+/**
+ * Get the Gemini safety settings of the active API config, if it is a Gemini config that sets them
+ */
+export function getActiveSafetySettings(): GeminiSafetySetting[] | undefined {
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+
+  const activeConfigId = localStorage.getItem("activeConfigId");
+  const activeConfig = getStoredConfigs().find((config) => config.id === activeConfigId);
+  return activeConfig?.type === "gemini" ? activeConfig.safetySettings : undefined;
+}
+
+/**
+ * Get the fallback chain of the active API config as endpoints, in order
+ * Configs that were deleted, have no model, or point back at the active config are skipped
+ */
+export function getActiveFallbackEndpoints(): LLMEndpoint[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const configs = getStoredConfigs();
+  const activeConfigId = localStorage.getItem("activeConfigId");
+  const activeConfig = configs.find((config) => config.id === activeConfigId);
+  if (!activeConfig?.fallbackConfigIds) {
+    return [];
+  }
+
+  return activeConfig.fallbackConfigIds
+    .filter((id) => id !== activeConfig.id)
+    .map((id) => configs.find((config) => config.id === id))
+    .filter((config): config is StoredAPIConfig => !!config && !!config.model)
+    .map((config) => ({
+      configId: config.id,
+      configName: config.name,
+      llmType: config.type,
+      modelName: config.model,
+      apiKey: requiresApiKey(config.type) ? config.apiKey || "" : "",
+      baseUrl: config.baseUrl,
+      safetySettings: config.type === "gemini" ? config.safetySettings : undefined,
+    }));
+}